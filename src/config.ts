@@ -30,6 +30,36 @@ const parseCorsOrigins = (): string[] => {
   return ['*'];
 };
 
+const parseList = (raw: string | undefined): string[] =>
+  (raw || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+
+// CHAT_MODEL_COHORTS is a JSON array such as
+// [{"name":"fake-10","percent":10,"provider":"fake","model":"echo"}]; malformed entries are dropped.
+const parseChatModelCohorts = (raw: string | undefined) => {
+  if (!raw || raw.trim() === '') {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed
+      .filter(item => item && typeof item.name === 'string' && typeof item.provider === 'string')
+      .map(item => ({
+        name: String(item.name),
+        percent: Math.max(0, Math.min(100, Number(item.percent) || 0)),
+        provider: String(item.provider),
+        model: typeof item.model === 'string' && item.model.trim() ? item.model.trim() : null,
+      }));
+  } catch {
+    return [];
+  }
+};
+
 const deleteLogsDir = process.env.DELETE_ACCOUNT_LOG_DIR || path.join(process.cwd(), 'logs');
 
 export const config = {
@@ -125,6 +155,76 @@ export const config = {
     analyticsEndpoint: process.env.ANALYTICS_WEBHOOK_URL || '',
     supportEndpoint: process.env.SUPPORT_WEBHOOK_URL || '',
   },
+  household: {
+    inviteTtlHours: Number(process.env.HOUSEHOLD_INVITE_TTL_HOURS || 72),
+    inviteLinkBase: process.env.HOUSEHOLD_INVITE_LINK_BASE || 'bebekai://household/accept',
+    maxMembers: Number(process.env.HOUSEHOLD_MAX_MEMBERS || 10),
+  },
+  chatStream: {
+    inFlightTtlSec: Number(process.env.CHAT_STREAM_BUFFER_TTL_SEC || 600),
+    finalTtlSec: Number(process.env.CHAT_STREAM_FINAL_TTL_SEC || 60),
+    resumePollMs: Number(process.env.CHAT_STREAM_RESUME_POLL_MS || 300),
+  },
+  triage: {
+    // Second opinion from a small model when no rule matched; rules alone are the default.
+    modelEnabled: process.env.TRIAGE_MODEL_ENABLED === 'true',
+    modelTimeoutMs: Number(process.env.TRIAGE_MODEL_TIMEOUT_MS || 4000),
+  },
+  chatModel: {
+    provider: process.env.CHAT_MODEL_PROVIDER || 'gemini',
+    // Empty means the provider's own default model.
+    model: process.env.CHAT_MODEL || null,
+    // Lets clients pick provider/model per request; meant for staging and internal testing.
+    allowRequestOverride: process.env.CHAT_MODEL_ALLOW_OVERRIDE === 'true',
+    // Model names a request may pick; empty accepts any name made of [a-z0-9.-].
+    allowedModels: parseList(process.env.CHAT_MODEL_ALLOWED),
+    cohorts: parseChatModelCohorts(process.env.CHAT_MODEL_COHORTS),
+    memoryExtractionTimeoutMs: Number(process.env.CHAT_MEMORY_EXTRACTION_TIMEOUT_MS || 10000),
+  },
+  knowledgeBase: {
+    // `hashing` needs no network; `gemini` gives better matches. Articles are searchable only
+    // with the embedder they were indexed with.
+    embedder: process.env.KB_EMBEDDER || 'hashing',
+    topK: Number(process.env.KB_TOP_K || 3),
+    minScore: Number(process.env.KB_MIN_SCORE || 0.2),
+    chunkChars: Number(process.env.KB_CHUNK_CHARS || 1200),
+    indexTtlSec: Number(process.env.KB_INDEX_TTL_SEC || 300),
+  },
+  chatExport: {
+    urlTtlMinutes: Number(process.env.CHAT_EXPORT_URL_TTL_MIN || 60),
+    maxMessages: Number(process.env.CHAT_EXPORT_MAX_MESSAGES || 1000),
+  },
+  styleJobs: {
+    concurrency: Number(process.env.STYLE_JOB_CONCURRENCY || 2),
+    maxAttempts: Number(process.env.STYLE_JOB_MAX_ATTEMPTS || 3),
+    // Doubles after every failed attempt.
+    retryDelayMs: Number(process.env.STYLE_JOB_RETRY_DELAY_MS || 15000),
+    // Running jobs renew their lease; one that lapses is treated as orphaned and requeued.
+    leaseMs: Number(process.env.STYLE_JOB_LEASE_MS || 2 * 60 * 1000),
+    pollIntervalMs: Number(process.env.STYLE_JOB_POLL_MS || 30000),
+    // One attempt's provider work; a call that outlives it fails the attempt as retryable.
+    attemptTimeoutMs: Number(process.env.STYLE_JOB_ATTEMPT_TIMEOUT_MS || 10 * 60 * 1000),
+  },
+  styleCatalog: {
+    cacheTtlSec: Number(process.env.STYLE_CATALOG_CACHE_TTL_SEC || 60),
+  },
+  // Daily allowances per plan, counted in the user's timezone. Admin overrides replace single values.
+  usageLimits: {
+    free: {
+      photo: Number(process.env.USAGE_FREE_PHOTO_DAILY || 3),
+      video: Number(process.env.USAGE_FREE_VIDEO_DAILY || 1),
+      chat: Number(process.env.USAGE_FREE_CHAT_DAILY || 30),
+    },
+    premium: {
+      photo: Number(process.env.USAGE_PREMIUM_PHOTO_DAILY || 50),
+      video: Number(process.env.USAGE_PREMIUM_VIDEO_DAILY || 10),
+      chat: Number(process.env.USAGE_PREMIUM_CHAT_DAILY || 500),
+    },
+  },
+  admin: {
+    userIds: parseList(process.env.ADMIN_USER_IDS),
+    emails: parseList(process.env.ADMIN_EMAILS).map(email => email.toLowerCase()),
+  },
   notification: {
     supportEmail: process.env.SUPPORT_EMAIL || 'support@bebek.ai',
     suppressInTest: process.env.NOTIFICATION_SUPPRESS === 'true' || process.env.NODE_ENV === 'test',
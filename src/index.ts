@@ -59,6 +59,8 @@ import { createDeleteAccountRouter } from './routes/deleteAccount';
 import { createPremiumRouter } from './routes/premium';
 import { createStylesRouter } from './routes/styles';
 import { createAddChildRouter } from './routes/addChild';
+import { createHouseholdsRouter } from './routes/households';
+import { createAdminRouter } from './routes/admin';
 // Chat router: resolve robustly to avoid ESM/CJS interop issues in Render
 // We intentionally avoid static import here
 import notificationRouter from './routes/notifications';
@@ -73,6 +75,9 @@ import { cacheService } from './services/cacheService';
 import { databaseManager } from './config/database';
 import { backupService } from './services/backupService';
 import { dataRetentionService } from './services/dataRetentionService';
+import { dispatchDueVaccinationReminders } from './server/bebek/services/vaccinationService';
+import { deleteExpiredChatExports } from './server/bebek/services/chatExportService';
+import { startStyleJobWorker } from './server/bebek/services/styleJobService';
 import { initializeWebSocket } from './services/websocketService';
 import { createCorsOptions, getAllowedOriginsSnapshot } from './utils/cors';
 import { 
@@ -230,6 +235,8 @@ const startServer = async () => {
     }
     mountRouter(`/api/${API_VERSION}/styles`, createStylesRouter, 'styles');
     mountRouter(`/api/${API_VERSION}/AddChild`, createAddChildRouter, 'AddChild');
+    mountRouter(`/api/${API_VERSION}/households`, createHouseholdsRouter, 'households');
+    mountRouter(`/api/${API_VERSION}/admin`, createAdminRouter, 'admin');
 
 
     // Legacy routes (backward compatibility)
@@ -268,6 +275,9 @@ const startServer = async () => {
     // Initialize WebSocket
     initializeWebSocket(server);
 
+    // Style generation jobs (handlers are registered by the styles routes mounted above)
+    startStyleJobWorker();
+
     // Graceful shutdown
     process.on('SIGTERM', () => {
       logger.info('SIGTERM received, shutting down gracefully');
@@ -298,6 +308,7 @@ const startServer = async () => {
           auditService.cleanupOldAuditLogs(90), // Keep 90 days
           PasswordResetService.cleanupExpiredTokens(),
           cleanupRateLimits(),
+          deleteExpiredChatExports(),
         ]);
         logger.info('Cleanup tasks completed');
       } catch (error) {
@@ -305,6 +316,18 @@ const startServer = async () => {
       }
     }, 60 * 60 * 1000); // 1 hour
 
+    // Vaccination reminders (run every 15 minutes)
+    setInterval(async () => {
+      try {
+        const result = await dispatchDueVaccinationReminders();
+        if (result.processed > 0) {
+          logger.info(result, 'Vaccination reminders dispatched');
+        }
+      } catch (error) {
+        logger.error({ err: error }, 'Vaccination reminder dispatch failed');
+      }
+    }, 15 * 60 * 1000); // 15 minutes
+
     // Data retention cleanup (run daily at 3 AM)
     setInterval(async () => {
       try {
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { TokenService } from '../services/tokenService';
 import { UserService } from '../services/userService';
 import { SessionService } from '../services/sessionService';
+import { config } from '../config';
 import { logger } from '../utils/logger';
 
 // Extend Request interface to include user
@@ -355,9 +356,17 @@ export function requireAdmin(
     return;
   }
 
-  // For now, we don't have role-based access control
-  // This is a placeholder for future implementation
-  // You would check user.role or user.permissions here
-  
+  // Admins are configured by user id or email (ADMIN_USER_IDS / ADMIN_EMAILS)
+  const email = (authReq.user.email || '').toLowerCase();
+  const isAdmin = config.admin.userIds.includes(authReq.user.id)
+    || (email !== '' && config.admin.emails.includes(email));
+  if (!isAdmin) {
+    res.status(403).json({
+      error: 'forbidden',
+      message: 'Admin access required'
+    });
+    return;
+  }
+
   next();
 }
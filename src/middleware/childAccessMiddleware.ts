@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from './authMiddleware';
+import { ChildProfile, getChildForUser } from '../server/bebek/services/childService';
+import { HouseholdRole } from '../server/bebek/services/householdService';
+import { logger } from '../utils/logger';
+
+export interface ChildRequest extends AuthRequest {
+  child?: ChildProfile;
+  childRole?: HouseholdRole;
+}
+
+// Resolves the child from the route params and checks the caller's household role for it.
+// Must run after authenticateToken; routers using it need `mergeParams: true`.
+export function requireChildAccess(minimumRole: HouseholdRole = 'viewer', paramName = 'id') {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const childReq = req as ChildRequest;
+    if (!childReq.user) {
+      res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+      return;
+    }
+
+    const childId = String(req.params[paramName] || '').trim();
+    if (!childId) {
+      res.status(400).json({ error: 'invalid_request', message: 'child id is required' });
+      return;
+    }
+
+    try {
+      const access = await getChildForUser(childReq.user.id, childId, minimumRole);
+      if (access.reason === 'not_found') {
+        res.status(404).json({ error: 'not_found', message: 'Child not found' });
+        return;
+      }
+      if (access.reason === 'forbidden' || !access.child) {
+        res.status(403).json({
+          error: 'forbidden',
+          message: access.role ? `Requires ${minimumRole} role for this child` : 'Child does not belong to user',
+        });
+        return;
+      }
+      childReq.child = access.child;
+      childReq.childRole = access.role;
+      next();
+    } catch (error) {
+      logger.error({ err: error, userId: childReq.user.id, childId }, 'Child access check failed');
+      res.status(500).json({ error: 'internal_error', message: 'Child access check failed' });
+    }
+  };
+}
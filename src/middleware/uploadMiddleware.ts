@@ -0,0 +1,7 @@
+import multer from 'multer';
+
+// Uploaded images are kept in memory and handed straight to storage or the image pipeline.
+export const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 12 * 1024 * 1024 },
+});
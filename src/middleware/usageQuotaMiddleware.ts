@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from './authMiddleware';
+import { consumeUsage, refundUsage, UsageMetric, UsageQuota } from '../server/bebek/services/usageLimitService';
+import { logger } from '../utils/logger';
+
+const setQuotaHeaders = (res: Response, quota: UsageQuota) => {
+  res.set({
+    'X-Quota-Limit': quota.limit.toString(),
+    'X-Quota-Remaining': quota.remaining.toString(),
+    'X-Quota-Reset': quota.resetAt,
+  });
+};
+
+// Counts one unit of the caller's daily allowance before the handler runs. A request that ends in an
+// error or is answered from an idempotent replay gets its unit back, so only accepted work is billed.
+// An exhausted free plan answers 402 (upgrading helps); anything else answers 429 until the reset.
+// `skip` lets a route exempt requests it can already answer without new work. The charged quota is
+// left in `res.locals.usageQuota` for handlers whose work finishes after the response.
+export function requireUsageQuota(
+  metric: UsageMetric,
+  options: { skip?: (req: AuthRequest) => boolean | Promise<boolean> } = {},
+) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const authReq = req as AuthRequest;
+    if (!authReq.user) {
+      res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+      return;
+    }
+
+    const userId = authReq.user.id;
+    let result: Awaited<ReturnType<typeof consumeUsage>>;
+    try {
+      if (options.skip && await options.skip(authReq)) {
+        next();
+        return;
+      }
+      result = await consumeUsage(userId, metric);
+    } catch (error) {
+      // Like the rate limiters, metering failures must not take the feature down with them.
+      logger.error({ err: error, userId, metric }, 'Usage quota check failed');
+      next();
+      return;
+    }
+
+    const { quota } = result;
+    setQuotaHeaders(res, quota);
+    if (!result.allowed) {
+      logger.info({ userId, metric, plan: quota.plan, limit: quota.limit }, 'Daily usage quota exhausted');
+      const upgradeable = quota.plan === 'free' && !quota.overridden;
+      if (!upgradeable) {
+        res.set('Retry-After', Math.max(1, Math.ceil((Date.parse(quota.resetAt) - Date.now()) / 1000)).toString());
+      }
+      res.status(upgradeable ? 402 : 429).json({
+        error: upgradeable ? 'upgrade_required' : 'quota_exceeded',
+        message: `Daily ${metric} limit reached`,
+        metric,
+        plan: quota.plan,
+        limit: quota.limit,
+        resetAt: quota.resetAt,
+      });
+      return;
+    }
+
+    res.locals.usageQuota = quota;
+    res.on('finish', () => {
+      if (res.statusCode < 400 && res.get('Idempotent-Replayed') !== 'true') {
+        return;
+      }
+      refundUsage(userId, quota).catch(error => {
+        logger.error({ err: error, userId, metric }, 'Usage quota refund failed');
+      });
+    });
+    next();
+  };
+}
@@ -182,6 +182,31 @@ export const premiumSchemas = {
   }),
 };
 
+const isValidDateString = (value: string) => !Number.isNaN(Date.parse(value));
+
+export const childSchemas = {
+  params: z.object({
+    id: z.string().min(1, 'Child id is required').max(128),
+  }),
+  update: z
+    .object({
+      name: z.string().trim().min(1, 'Name cannot be empty').max(100, 'Name too long').optional(),
+      gender: z.enum(['Kiz', 'Erkek']).optional(),
+      birthDate: z
+        .string()
+        .trim()
+        .refine(isValidDateString, { message: 'birthDate must be a valid date' })
+        .refine((value: string) => Date.parse(value) <= Date.now(), { message: 'birthDate cannot be in the future' })
+        .optional(),
+      avatarUri: z.string().trim().min(1, 'avatarUri cannot be empty').max(2048).optional(),
+    })
+    .strict()
+    .refine(
+      (value: Record<string, unknown>) => Object.values(value).some(item => item !== undefined),
+      { message: 'At least one field must be provided' },
+    ),
+};
+
 /**
  * Query parameter validation
  */
@@ -1,11 +1,31 @@
-import { Router } from 'express';
-import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { Request, Router } from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/authMiddleware';
+import { ChildRequest, requireChildAccess } from '../middleware/childAccessMiddleware';
+import { imageUpload } from '../middleware/uploadMiddleware';
+import { validate, validateParams, childSchemas } from '../middleware/validationMiddleware';
 import { db } from '../firebase';
+import {
+  ChildGender,
+  ChildProfile,
+  deleteChild,
+  getChildForUser,
+  getChildHouseholdId,
+  listChildrenForUser,
+  setChildAvatar,
+  updateChild,
+} from '../server/bebek/services/childService';
+import { deleteAvatarFiles, storeChildAvatar } from '../server/bebek/services/avatarService';
+import { getHouseholdRole, hasHouseholdRole } from '../server/bebek/services/householdService';
+import { syncVaccinationReminders } from '../server/bebek/services/vaccinationService';
+import { auditService } from '../services/auditService';
 import { logger } from '../utils/logger';
 import { attachRouteLogger } from '../utils/routeLogger';
-
-type ChildGender = 'Kiz' | 'Erkek';
+import { createChildCareLogRouter } from './childCareLog';
+import { createChildMemoriesRouter } from './childMemories';
+import { createChildGrowthRouter } from './childGrowth';
+import { createChildMilestonesRouter } from './childMilestones';
+import { createChildTimersRouter } from './childTimers';
+import { createChildVaccinationsRouter } from './childVaccinations';
 
 const isValidGender = (value: unknown): value is ChildGender => value === 'Kiz' || value === 'Erkek';
 
@@ -20,6 +40,14 @@ export const createAddChildRouter = () => {
     res.set('Surrogate-Control', 'no-store');
   };
 
+  const refreshVaccinationReminders = async (child: ChildProfile) => {
+    try {
+      await syncVaccinationReminders(child);
+    } catch (error) {
+      logger.warn({ err: error, childId: child.id, step: 'vaccination_reminder_sync_error' }, 'Vaccination reminder sync failed');
+    }
+  };
+
   router.post('/', authenticateToken, async (req, res) => {
     try {
       const authReq = req as AuthRequest;
@@ -28,7 +56,7 @@ export const createAddChildRouter = () => {
         return;
       }
 
-      const { name, gender, birthDate, avatarUri } = req.body || {};
+      const { name, gender, birthDate, avatarUri, householdId } = req.body || {};
       logger.info(
         {
           userId: authReq.user.id,
@@ -41,22 +69,34 @@ export const createAddChildRouter = () => {
         'AddChild request received',
       );
 
-      if (!name || !isValidGender(gender) || !birthDate || !avatarUri) {
+      // avatarUri is optional: clients may upload the photo afterwards through PUT /:id/avatar.
+      if (!name || !isValidGender(gender) || !birthDate) {
         res.status(400).json({
           error: 'invalid_request',
-          message: 'name, gender, birthDate and avatarUri are required',
+          message: 'name, gender and birthDate are required',
         });
         return;
       }
 
+      // Caregivers with the editor role may add a child to a household they were invited to.
+      const targetHouseholdId = typeof householdId === 'string' && householdId.trim() ? householdId.trim() : authReq.user.id;
+      if (targetHouseholdId !== authReq.user.id) {
+        const role = await getHouseholdRole(targetHouseholdId, authReq.user.id);
+        if (!hasHouseholdRole(role, 'editor')) {
+          res.status(403).json({ error: 'forbidden', message: 'Requires editor role in household' });
+          return;
+        }
+      }
+
       const now = new Date().toISOString();
       const payload = {
         parentUuid: authReq.user.id,
         parentEmail: authReq.user.email,
+        householdId: targetHouseholdId,
         name: String(name).trim(),
         gender,
         birthDate: String(birthDate).trim(),
-        avatarUri: String(avatarUri).trim(),
+        avatarUri: avatarUri ? String(avatarUri).trim() : '',
         createdAt: now,
         updatedAt: now,
       };
@@ -67,6 +107,14 @@ export const createAddChildRouter = () => {
         { userId: authReq.user.id, childId: ref.id, childName: payload.name, step: 'add_child_saved' },
         'AddChild saved to Firebase',
       );
+      await refreshVaccinationReminders(child as ChildProfile);
+      await auditService.logUserAction(
+        authReq.user.id,
+        'child_created',
+        { childId: ref.id },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
       setNoCacheHeaders(res);
       res.status(200).json({ success: true, child });
     } catch (error) {
@@ -84,16 +132,7 @@ export const createAddChildRouter = () => {
       }
 
       logger.info({ userId: authReq.user.id, step: 'list_children_request_received' }, 'List children request received');
-      const snapshot = await db
-        .collection('AddChild')
-        .where('parentUuid', '==', authReq.user.id)
-        .get();
-
-      const children = snapshot.docs
-        .map((doc: QueryDocumentSnapshot<DocumentData>) => ({
-          id: doc.id,
-          ...(doc.data() as any),
-        }))
+      const children = (await listChildrenForUser(authReq.user.id))
         .sort((a: any, b: any) => {
           const aTs = typeof a?.createdAt === 'string' ? Date.parse(a.createdAt) : 0;
           const bTs = typeof b?.createdAt === 'string' ? Date.parse(b.createdAt) : 0;
@@ -111,6 +150,220 @@ export const createAddChildRouter = () => {
     }
   });
 
+  router.get('/:id', authenticateToken, validateParams(childSchemas.params), async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const childId = req.params.id;
+      const access = await getChildForUser(authReq.user.id, childId);
+      if (access.reason === 'not_found') {
+        res.status(404).json({ error: 'not_found', message: 'Child not found' });
+        return;
+      }
+      if (access.reason === 'forbidden') {
+        res.status(403).json({ error: 'forbidden', message: 'Child does not belong to user' });
+        return;
+      }
+
+      setNoCacheHeaders(res);
+      res.status(200).json({ success: true, child: { ...access.child, role: access.role } });
+    } catch (error) {
+      logger.error({ err: error, step: 'get_child_error' }, 'Get child failed');
+      res.status(500).json({ error: 'internal_error', message: 'Get child failed' });
+    }
+  });
+
+  router.patch(
+    '/:id',
+    authenticateToken,
+    validateParams(childSchemas.params),
+    validate(childSchemas.update),
+    async (req, res) => {
+      try {
+        const authReq = req as AuthRequest;
+        if (!authReq.user) {
+          res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+          return;
+        }
+
+        const childId = req.params.id;
+        const { name, gender, birthDate, avatarUri } = req.body || {};
+        logger.info(
+          { userId: authReq.user.id, childId, fields: Object.keys(req.body || {}), step: 'update_child_request_received' },
+          'Update child request received',
+        );
+
+        const result = await updateChild(authReq.user.id, childId, { name, gender, birthDate, avatarUri });
+        if (!result.updated && result.reason === 'not_found') {
+          res.status(404).json({ error: 'not_found', message: 'Child not found' });
+          return;
+        }
+        if (!result.updated && result.reason === 'forbidden') {
+          res.status(403).json({
+            error: 'forbidden',
+            message: result.role ? 'Requires editor role for this child' : 'Child does not belong to user',
+          });
+          return;
+        }
+
+        if (result.child && result.changedFields?.includes('birthDate')) {
+          await refreshVaccinationReminders(result.child);
+        }
+        await auditService.logUserAction(
+          authReq.user.id,
+          'child_updated',
+          { childId, changedFields: result.changedFields },
+          req.ip,
+          req.get('User-Agent') || undefined,
+        );
+        logger.info({ userId: authReq.user.id, childId, step: 'update_child_success' }, 'Child updated');
+        setNoCacheHeaders(res);
+        res.status(200).json({ success: true, child: result.child });
+      } catch (error) {
+        logger.error({ err: error, step: 'update_child_error' }, 'Update child failed');
+        res.status(500).json({ error: 'internal_error', message: 'Update child failed' });
+      }
+    },
+  );
+
+  router.delete('/:id', authenticateToken, validateParams(childSchemas.params), async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const childId = req.params.id;
+      logger.info({ userId: authReq.user.id, childId, step: 'delete_child_request_received' }, 'Delete child request received');
+      const result = await deleteChild(authReq.user.id, childId);
+      if (!result.deleted && result.reason === 'not_found') {
+        res.status(404).json({ error: 'not_found', message: 'Child not found' });
+        return;
+      }
+      if (!result.deleted && result.reason === 'forbidden') {
+        res.status(403).json({
+          error: 'forbidden',
+          message: result.role ? 'Only household owners can delete a child' : 'Child does not belong to user',
+        });
+        return;
+      }
+
+      await auditService.logUserAction(
+        authReq.user.id,
+        'child_deleted',
+        {
+          childId,
+          sessionsDeleted: result.sessionsDeleted,
+          messagesDeleted: result.messagesDeleted,
+          mediaDeleted: result.mediaDeleted,
+        },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      setNoCacheHeaders(res);
+      res.status(200).json({
+        success: true,
+        id: childId,
+        sessionsDeleted: result.sessionsDeleted,
+        messagesDeleted: result.messagesDeleted,
+        mediaDeleted: result.mediaDeleted,
+      });
+    } catch (error) {
+      logger.error({ err: error, step: 'delete_child_error' }, 'Delete child failed');
+      res.status(500).json({ error: 'internal_error', message: 'Delete child failed' });
+    }
+  });
+
+  router.put(
+    '/:id/avatar',
+    authenticateToken,
+    validateParams(childSchemas.params),
+    requireChildAccess('editor'),
+    imageUpload.single('avatar'),
+    async (req, res) => {
+      const childReq = req as ChildRequest;
+      try {
+        const child = childReq.child!;
+        const file = (req as Request & { file?: Express.Multer.File }).file;
+        if (!file) {
+          res.status(400).json({ error: 'invalid_request', message: 'avatar file is required' });
+          return;
+        }
+
+        const previousPaths = (child.avatar?.variants || []).map(variant => variant.path);
+        const result = await storeChildAvatar({
+          ownerId: getChildHouseholdId(child),
+          childId: child.id,
+          uploadedBy: childReq.user!.id,
+          file,
+        });
+        if (!result.stored) {
+          res.status(400).json({ error: 'invalid_request', message: result.message });
+          return;
+        }
+
+        const updated = await setChildAvatar(child, result.avatar);
+        await deleteAvatarFiles(previousPaths);
+        await auditService.logUserAction(
+          childReq.user!.id,
+          'child_avatar_updated',
+          { childId: child.id, version: result.avatar.version },
+          req.ip,
+          req.get('User-Agent') || undefined,
+        );
+        setNoCacheHeaders(res);
+        res.status(200).json({ success: true, child: updated });
+      } catch (error) {
+        logger.error({ err: error, childId: childReq.child?.id, step: 'child_avatar_upload_error' }, 'Avatar upload failed');
+        res.status(500).json({ error: 'internal_error', message: 'Avatar upload failed' });
+      }
+    },
+  );
+
+  router.delete(
+    '/:id/avatar',
+    authenticateToken,
+    validateParams(childSchemas.params),
+    requireChildAccess('editor'),
+    async (req, res) => {
+      const childReq = req as ChildRequest;
+      try {
+        const child = childReq.child!;
+        if (!child.avatar) {
+          res.status(404).json({ error: 'not_found', message: 'Avatar not found' });
+          return;
+        }
+
+        const updated = await setChildAvatar(child, null);
+        await deleteAvatarFiles(child.avatar.variants.map(variant => variant.path));
+        await auditService.logUserAction(
+          childReq.user!.id,
+          'child_avatar_deleted',
+          { childId: child.id },
+          req.ip,
+          req.get('User-Agent') || undefined,
+        );
+        setNoCacheHeaders(res);
+        res.status(200).json({ success: true, child: updated });
+      } catch (error) {
+        logger.error({ err: error, childId: childReq.child?.id, step: 'child_avatar_delete_error' }, 'Avatar delete failed');
+        res.status(500).json({ error: 'internal_error', message: 'Avatar delete failed' });
+      }
+    },
+  );
+
+  router.use('/:id/growth', createChildGrowthRouter());
+  router.use('/:id/milestones', createChildMilestonesRouter());
+  router.use('/:id/vaccinations', createChildVaccinationsRouter());
+  router.use('/:id/care-log', createChildCareLogRouter());
+  router.use('/:id/timers', createChildTimersRouter());
+  router.use('/:id/memories', createChildMemoriesRouter());
+
   return router;
 };
 
@@ -0,0 +1,358 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { AuthRequest, authenticateToken, requireAdmin } from '../middleware/authMiddleware';
+import { validate, validateQuery } from '../middleware/validationMiddleware';
+import { getChatFeedbackSummary } from '../server/bebek/services/chatFeedbackService';
+import {
+  createKnowledgeArticle,
+  deleteKnowledgeArticle,
+  listKnowledgeArticles,
+} from '../server/bebek/services/knowledgeBaseService';
+import {
+  createStyle,
+  deleteStyle,
+  listAllStyles,
+  STYLE_CATEGORIES,
+  updateStyle,
+} from '../server/bebek/services/styleCatalogService';
+import { clearUsageOverride, getUsageSummary, setUsageOverride } from '../server/bebek/services/usageLimitService';
+import { auditService } from '../services/auditService';
+import { logger } from '../utils/logger';
+import { attachRouteLogger } from '../utils/routeLogger';
+
+const dateOnly = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+const feedbackSummaryQuerySchema = z.object({
+  from: dateOnly.optional(),
+  to: dateOnly.optional(),
+  model: z.string().min(1).max(100).optional(),
+});
+
+const ageDays = z.number().int().min(0).max(365 * 6).nullable().optional();
+
+const knowledgeArticleSchema = z
+  .object({
+    title: z.string().trim().min(1, 'Title is required').max(200, 'Title too long'),
+    content: z.string().trim().min(1, 'Content is required').max(200_000, 'Content too long'),
+    format: z.enum(['markdown', 'text']).optional(),
+    sourceUrl: z.string().url('sourceUrl must be a URL').max(500).nullable().optional(),
+    minAgeDays: ageDays,
+    maxAgeDays: ageDays,
+    tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  })
+  .refine(value => value.minAgeDays == null || value.maxAgeDays == null || value.minAgeDays <= value.maxAgeDays, {
+    message: 'minAgeDays must not be greater than maxAgeDays',
+    path: ['minAgeDays'],
+  });
+
+const optionalText = (max: number) => z.string().trim().min(1).max(max).nullable().optional();
+
+const styleFields = z.object({
+  category: z.enum(STYLE_CATEGORIES),
+  titles: z.object({
+    tr: z.string().trim().min(1, 'Turkish title is required').max(120),
+    en: z.string().trim().min(1, 'English title is required').max(120),
+  }),
+  prompt: z.string().trim().max(4000, 'Prompt too long').optional(),
+  identitySuffix: optionalText(2000),
+  referenceAssetPath: optionalText(1000),
+  model: optionalText(200),
+  premium: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).max(100_000).optional(),
+  enabled: z.boolean().optional(),
+});
+
+type StyleFields = z.infer<typeof styleFields>;
+
+// Photo styles are driven by the prompt, templates need an asset to swap into and videos only the asset.
+const checkStyleRequirements = (value: StyleFields, ctx: z.RefinementCtx) => {
+  const needsAsset = ['wedding', 'couple', 'video'].includes(value.category);
+  if (needsAsset && !value.referenceAssetPath) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `referenceAssetPath is required for ${value.category} styles`,
+      path: ['referenceAssetPath'],
+    });
+  }
+  if (value.category !== 'video' && !value.prompt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'prompt is required', path: ['prompt'] });
+  }
+};
+
+const styleUpdateSchema = styleFields.superRefine(checkStyleRequirements);
+
+const styleCreateSchema = styleFields
+  .extend({
+    id: z.string().regex(/^[a-z0-9][a-z0-9_-]{0,39}$/, 'id must be lowercase letters, digits, _ or -'),
+  })
+  .superRefine(checkStyleRequirements);
+
+const toStyleInput = (body: StyleFields) => ({
+  category: body.category,
+  titles: body.titles,
+  prompt: body.prompt || '',
+  identitySuffix: body.identitySuffix ?? null,
+  referenceAssetPath: body.referenceAssetPath ?? null,
+  model: body.model ?? null,
+  premium: body.premium ?? false,
+  sortOrder: body.sortOrder ?? 0,
+  enabled: body.enabled ?? true,
+});
+
+const dailyLimit = z.number().int().min(0).max(100_000).optional();
+
+const usageOverrideSchema = z.object({
+  limits: z
+    .object({ photo: dailyLimit, video: dailyLimit, chat: dailyLimit })
+    .refine(limits => Object.values(limits).some(value => value !== undefined), {
+      message: 'At least one limit is required',
+    }),
+  reason: z.string().trim().max(500).nullable().optional(),
+  expiresAt: z.string().datetime('expiresAt must be an ISO timestamp').nullable().optional(),
+});
+
+const DAY_MS = 24 * 60 * 60_000;
+const DEFAULT_FEEDBACK_RANGE_DAYS = 30;
+const MAX_FEEDBACK_RANGE_DAYS = 92;
+
+export const createAdminRouter = () => {
+  const router = Router();
+  attachRouteLogger(router, 'admin');
+
+  router.get(
+    '/chat-feedback/summary',
+    authenticateToken,
+    requireAdmin,
+    validateQuery(feedbackSummaryQuerySchema),
+    async (req, res) => {
+      try {
+        const to = (req.query.to as string) || new Date().toISOString().slice(0, 10);
+        const from =
+          (req.query.from as string) ||
+          new Date(Date.parse(to) - (DEFAULT_FEEDBACK_RANGE_DAYS - 1) * DAY_MS).toISOString().slice(0, 10);
+        const spanDays = (Date.parse(to) - Date.parse(from)) / DAY_MS;
+        if (spanDays < 0 || spanDays >= MAX_FEEDBACK_RANGE_DAYS) {
+          res.status(400).json({
+            error: 'invalid_request',
+            message: `from must not be after to and the range must be at most ${MAX_FEEDBACK_RANGE_DAYS} days`,
+          });
+          return;
+        }
+
+        const summary = await getChatFeedbackSummary({ from, to, model: req.query.model as string | undefined });
+        res.json({ success: true, ...summary });
+      } catch (error) {
+        logger.error({ err: error, step: 'admin_feedback_summary_error' }, 'Chat feedback summary failed');
+        res.status(500).json({ error: 'internal_error', message: 'Chat feedback summary failed' });
+      }
+    },
+  );
+
+  // Vetted articles the coach may quote; they are chunked and indexed on upload.
+  router.get('/knowledge/articles', authenticateToken, requireAdmin, async (_req, res) => {
+    try {
+      const articles = await listKnowledgeArticles();
+      res.json({ success: true, articles });
+    } catch (error) {
+      logger.error({ err: error, step: 'admin_knowledge_list_error' }, 'List knowledge articles failed');
+      res.status(500).json({ error: 'internal_error', message: 'List knowledge articles failed' });
+    }
+  });
+
+  router.post('/knowledge/articles', authenticateToken, requireAdmin, validate(knowledgeArticleSchema), async (req, res) => {
+    const authReq = req as AuthRequest;
+    try {
+      const result = await createKnowledgeArticle(authReq.user!.id, {
+        ...req.body,
+        format: req.body.format || 'markdown',
+      });
+      if (!result.created) {
+        res.status(400).json({ error: 'invalid_request', message: 'Article has no indexable text' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        authReq.user!.id,
+        'knowledge_article_created',
+        { articleId: result.article.id, chunkCount: result.article.chunkCount, embedder: result.article.embedder },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.status(201).json({ success: true, article: result.article });
+    } catch (error) {
+      logger.error({ err: error, step: 'admin_knowledge_create_error' }, 'Create knowledge article failed');
+      res.status(500).json({ error: 'internal_error', message: 'Create knowledge article failed' });
+    }
+  });
+
+  router.delete('/knowledge/articles/:articleId', authenticateToken, requireAdmin, async (req, res) => {
+    const authReq = req as AuthRequest;
+    try {
+      const result = await deleteKnowledgeArticle(req.params.articleId);
+      if (!result.deleted) {
+        res.status(404).json({ error: 'not_found', message: 'Article not found' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        authReq.user!.id,
+        'knowledge_article_deleted',
+        { articleId: req.params.articleId, chunksDeleted: result.chunksDeleted },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, id: req.params.articleId });
+    } catch (error) {
+      logger.error({ err: error, step: 'admin_knowledge_delete_error' }, 'Delete knowledge article failed');
+      res.status(500).json({ error: 'internal_error', message: 'Delete knowledge article failed' });
+    }
+  });
+
+  // The style catalog behind /styles/catalog and the generation routes. Every write bumps the
+  // catalog version so cached clients pick up the change.
+  router.get('/styles', authenticateToken, requireAdmin, async (_req, res) => {
+    try {
+      const styles = await listAllStyles();
+      res.json({ success: true, styles });
+    } catch (error) {
+      logger.error({ err: error, step: 'admin_styles_list_error' }, 'List styles failed');
+      res.status(500).json({ error: 'internal_error', message: 'List styles failed' });
+    }
+  });
+
+  router.post('/styles', authenticateToken, requireAdmin, validate(styleCreateSchema), async (req, res) => {
+    const authReq = req as AuthRequest;
+    try {
+      const result = await createStyle(req.body.id, toStyleInput(req.body));
+      if (!result.created) {
+        res.status(409).json({ error: 'style_exists', message: 'A style with this id already exists' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        authReq.user!.id,
+        'style_catalog_created',
+        { styleId: result.style.id, category: result.style.category, version: result.version },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.status(201).json({ success: true, style: result.style, version: result.version });
+    } catch (error) {
+      logger.error({ err: error, step: 'admin_styles_create_error' }, 'Create style failed');
+      res.status(500).json({ error: 'internal_error', message: 'Create style failed' });
+    }
+  });
+
+  router.put('/styles/:styleId', authenticateToken, requireAdmin, validate(styleUpdateSchema), async (req, res) => {
+    const authReq = req as AuthRequest;
+    try {
+      const result = await updateStyle(req.params.styleId, toStyleInput(req.body));
+      if (!result.updated) {
+        res.status(404).json({ error: 'not_found', message: 'Style not found' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        authReq.user!.id,
+        'style_catalog_updated',
+        { styleId: result.style.id, enabled: result.style.enabled, version: result.version },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, style: result.style, version: result.version });
+    } catch (error) {
+      logger.error({ err: error, step: 'admin_styles_update_error' }, 'Update style failed');
+      res.status(500).json({ error: 'internal_error', message: 'Update style failed' });
+    }
+  });
+
+  router.delete('/styles/:styleId', authenticateToken, requireAdmin, async (req, res) => {
+    const authReq = req as AuthRequest;
+    try {
+      const result = await deleteStyle(req.params.styleId);
+      if (!result.deleted) {
+        res.status(404).json({ error: 'not_found', message: 'Style not found' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        authReq.user!.id,
+        'style_catalog_deleted',
+        { styleId: req.params.styleId, version: result.version },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, id: req.params.styleId, version: result.version });
+    } catch (error) {
+      logger.error({ err: error, step: 'admin_styles_delete_error' }, 'Delete style failed');
+      res.status(500).json({ error: 'internal_error', message: 'Delete style failed' });
+    }
+  });
+
+  // Daily generation and chat allowances. An override replaces the plan limit for the metrics it names,
+  // e.g. to compensate a user after failed generations, and lapses at expiresAt.
+  router.get('/usage/:userId', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+      const summary = await getUsageSummary(req.params.userId);
+      res.json({ success: true, userId: req.params.userId, ...summary });
+    } catch (error) {
+      logger.error({ err: error, step: 'admin_usage_get_error' }, 'Get usage failed');
+      res.status(500).json({ error: 'internal_error', message: 'Get usage failed' });
+    }
+  });
+
+  router.put(
+    '/usage/:userId/override',
+    authenticateToken,
+    requireAdmin,
+    validate(usageOverrideSchema),
+    async (req, res) => {
+      const authReq = req as AuthRequest;
+      try {
+        if (req.body.expiresAt && Date.parse(req.body.expiresAt) <= Date.now()) {
+          res.status(400).json({ error: 'invalid_request', message: 'expiresAt must be in the future' });
+          return;
+        }
+
+        const override = await setUsageOverride(req.params.userId, authReq.user!.id, req.body);
+        await auditService.logUserAction(
+          authReq.user!.id,
+          'usage_override_set',
+          { targetUserId: req.params.userId, limits: override.limits, expiresAt: override.expiresAt, reason: override.reason },
+          req.ip,
+          req.get('User-Agent') || undefined,
+        );
+        const summary = await getUsageSummary(req.params.userId);
+        res.json({ success: true, userId: req.params.userId, ...summary });
+      } catch (error) {
+        logger.error({ err: error, step: 'admin_usage_override_error' }, 'Set usage override failed');
+        res.status(500).json({ error: 'internal_error', message: 'Set usage override failed' });
+      }
+    },
+  );
+
+  router.delete('/usage/:userId/override', authenticateToken, requireAdmin, async (req, res) => {
+    const authReq = req as AuthRequest;
+    try {
+      const result = await clearUsageOverride(req.params.userId);
+      if (!result.cleared) {
+        res.status(404).json({ error: 'not_found', message: 'No usage override for this user' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        authReq.user!.id,
+        'usage_override_cleared',
+        { targetUserId: req.params.userId },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, userId: req.params.userId });
+    } catch (error) {
+      logger.error({ err: error, step: 'admin_usage_override_clear_error' }, 'Clear usage override failed');
+      res.status(500).json({ error: 'internal_error', message: 'Clear usage override failed' });
+    }
+  });
+
+  return router;
+};
@@ -1,16 +1,40 @@
-import { Router } from 'express';
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
 import { authenticateToken, AuthRequest } from '../middleware/authMiddleware';
+import { requireUsageQuota } from '../middleware/usageQuotaMiddleware';
+import { validate } from '../middleware/validationMiddleware';
 import { db } from '../firebase';
-import { ensureUserInfo } from '../server/bebek/services/userInfoService';
+import { ensureUserInfo, getUserInfo } from '../server/bebek/services/userInfoService';
 import {
+  CHAT_PAGE_MAX_LIMIT,
+  ChatPageOptions,
+  ChatSessionAccessError,
+  ChatSessionAccessFailure,
+  ChatTurn,
+  ChatTurnError,
   createChildChatSession,
+  decodeChatCursor,
   deleteChatSession,
   handleChatMessage,
   handleChatMessageStream,
   listChatMessages,
   listChatSessions,
   renameChatSession,
+  switchChatBranch,
 } from '../server/bebek/services/chatService';
+import {
+  CHAT_FEEDBACK_RATINGS,
+  CHAT_FEEDBACK_REASONS,
+  deleteChatFeedback,
+  submitChatFeedback,
+} from '../server/bebek/services/chatFeedbackService';
+import { ChatStreamChunk, readStreamChunks } from '../server/bebek/services/chatStreamService';
+import { CHAT_EXPORT_FORMATS, ChatExportFormat, exportChatSession } from '../server/bebek/services/chatExportService';
+import { resolveChatModel } from '../server/bebek/services/chatModelProvider';
+import { getChildForUser } from '../server/bebek/services/childService';
+import { resolveCoachLanguage } from '../server/bebek/utils/language';
+import { auditService } from '../services/auditService';
+import { config } from '../config';
 import { logger } from '../utils/logger';
 import { attachRouteLogger } from '../utils/routeLogger';
 
@@ -98,70 +122,430 @@ const normalizeAssistantSettingsInput = (payload: any) => {
   };
 };
 
+const parsePageQuery = (query: Request['query']): { page: ChatPageOptions } | { error: string } => {
+  const page: ChatPageOptions = {};
+  if (query.limit !== undefined) {
+    const limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > CHAT_PAGE_MAX_LIMIT) {
+      return { error: `limit must be an integer between 1 and ${CHAT_PAGE_MAX_LIMIT}` };
+    }
+    page.limit = limit;
+  }
+  if (query.before !== undefined && query.after !== undefined) {
+    return { error: 'before and after cannot be combined' };
+  }
+  for (const key of ['before', 'after'] as const) {
+    if (query[key] === undefined) continue;
+    const cursor = typeof query[key] === 'string' ? decodeChatCursor(query[key] as string) : null;
+    if (!cursor) {
+      return { error: `${key} is not a valid cursor` };
+    }
+    page[key] = cursor;
+  }
+  return { page };
+};
+
+const feedbackSchema = z.object({
+  rating: z.enum(CHAT_FEEDBACK_RATINGS),
+  reasons: z.array(z.enum(CHAT_FEEDBACK_REASONS)).max(CHAT_FEEDBACK_REASONS.length).optional(),
+  comment: z.string().max(1000, 'Comment too long').nullable().optional(),
+  flagged: z.boolean().optional(),
+});
+
+const SSE_HEARTBEAT_MS = 15_000;
+
+const validateChatPayload = (body: any) => {
+  if (!body?.message) {
+    return 'message is required';
+  }
+  const image = body.image;
+  if (image) {
+    const isImagePayloadValid = typeof image?.data === 'string' && typeof image?.mimeType === 'string';
+    if (!isImagePayloadValid || !image.mimeType.startsWith('image/')) {
+      return 'Only image attachments are supported';
+    }
+  }
+  return null;
+};
+
+const chunkEventName = (chunk: ChatStreamChunk) => (chunk.error ? 'error' : chunk.isFinal ? 'done' : 'delta');
+
+const openSseStream = (res: Response) => {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  return setInterval(() => {
+    if (!res.writableEnded) {
+      res.write(': heartbeat\n\n');
+    }
+  }, SSE_HEARTBEAT_MS);
+};
+
+const writeSseEvent = (res: Response, event: string, data: unknown, id?: number) => {
+  if (res.writableEnded || res.destroyed) {
+    return;
+  }
+  res.write(`${id === undefined ? '' : `id: ${id}\n`}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// Chunks carry their sequence number as the SSE id, so a reconnecting EventSource sends it
+// back in Last-Event-ID and resumes right after the last chunk it saw.
+const writeChunkEvent = (res: Response, chunk: ChatStreamChunk) =>
+  writeSseEvent(res, chunkEventName(chunk), chunk, chunk.seq);
+
+const sendSessionAccessError = (res: Response, reason: ChatSessionAccessFailure) => {
+  if (reason === 'not_found') {
+    res.status(404).json({ error: 'not_found', message: 'Session not found' });
+    return;
+  }
+  res.status(403).json({ error: 'forbidden', message: 'Session does not belong to user' });
+};
+
+const CHAT_MODEL_ERROR_MESSAGES = {
+  override_disabled: 'Model selection is not enabled',
+  unknown_provider: 'Unknown model provider',
+  invalid_model: 'Model is not allowed',
+};
+
+// Optional body `model: { provider?, model? }`; without it the user's cohort or the default applies.
+// Sends a 400 and returns null when the requested selection can't be honoured.
+const resolveRequestModel = (req: Request, res: Response) => {
+  const requested = req.body?.model;
+  const isValidShape = requested === undefined || requested === null || (
+    typeof requested === 'object'
+    && !Array.isArray(requested)
+    && ['provider', 'model'].every(key => requested[key] === undefined || typeof requested[key] === 'string')
+  );
+  if (!isValidShape) {
+    res.status(400).json({ error: 'invalid_request', message: 'model must be an object with provider and/or model' });
+    return null;
+  }
+  const result = resolveChatModel({ userId: (req as AuthRequest).user!.id, requested });
+  if (result.reason) {
+    res.status(400).json({ error: 'invalid_request', message: CHAT_MODEL_ERROR_MESSAGES[result.reason] });
+    return null;
+  }
+  return result.selection;
+};
+
+const CHAT_TURN_ERROR_STATUS: Record<ChatTurnError['reason'], { status: number; error: string }> = {
+  message_not_found: { status: 404, error: 'not_found' },
+  not_editable: { status: 400, error: 'invalid_request' },
+  nothing_to_regenerate: { status: 409, error: 'conflict' },
+};
+
+// Shared by send, edit and regenerate: replies inline, or acknowledges and streams over the socket.
+const respondToChatTurn = async (
+  req: Request,
+  res: Response,
+  params: {
+    sessionId?: string;
+    message: string;
+    turn: ChatTurn;
+    contextTags: Record<string, unknown> | null;
+    imagePayload: { data: string; mimeType: string } | null;
+    stream: boolean;
+  },
+) => {
+  const authUser = (req as AuthRequest).user!;
+  const model = resolveRequestModel(req, res);
+  if (!model) {
+    return;
+  }
+  try {
+    const userInfo = await ensureUserInfo(authUser.id, {
+      name: authUser.name,
+      email: authUser.email
+    });
+
+    const chatParams = {
+      user: userInfo,
+      sessionId: params.sessionId,
+      message: params.message,
+      contextTags: params.contextTags || undefined,
+      imagePayload: params.imagePayload,
+      turn: params.turn,
+      model,
+      acceptLanguage: req.get('Accept-Language') || undefined,
+    };
+
+    if (params.stream) {
+      const streamSetup = await handleChatMessageStream(chatParams);
+      res.json({
+        streaming: true,
+        messageId: streamSetup.messageId,
+        userMessageId: streamSetup.userMessageId,
+        sessionId: streamSetup.sessionId
+      });
+      void streamSetup.run().catch((error) => {
+        logger.error({ err: error, sessionId: streamSetup.sessionId }, 'Chat stream failed');
+      });
+      return;
+    }
+
+    const result = await handleChatMessage(chatParams);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof ChatSessionAccessError) {
+      sendSessionAccessError(res, error.reason);
+      return;
+    }
+    if (error instanceof ChatTurnError) {
+      const failure = CHAT_TURN_ERROR_STATUS[error.reason];
+      res.status(failure.status).json({ error: failure.error, message: error.message });
+      return;
+    }
+    logger.error({ err: error, turn: params.turn.kind }, 'Chat request failed');
+    res.status(500).json({ error: 'internal_error', message: 'Chat request failed' });
+  }
+};
+
 export const createChatRouter = () => {
   const router = Router();
   attachRouteLogger(router, 'bebek-chat');
 
-  router.post('/', authenticateToken, async (req, res) => {
+  router.post('/', authenticateToken, requireUsageQuota('chat'), async (req, res) => {
+    const authReq = req as AuthRequest;
+    if (!authReq.user) {
+      res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+      return;
+    }
+
+    const { sessionId, message, context, stream, image } = req.body || {};
+    const payloadError = validateChatPayload(req.body);
+    if (payloadError) {
+      res.status(400).json({ error: 'invalid_request', message: payloadError });
+      return;
+    }
+
+    await respondToChatTurn(req, res, {
+      sessionId,
+      message,
+      turn: { kind: 'send' },
+      contextTags: context || null,
+      imagePayload: image ? { data: image.data, mimeType: image.mimeType } : null,
+      stream: Boolean(stream),
+    });
+  });
+
+  // Answers the last user message on the active branch again; the old reply is kept as a sibling.
+  router.post('/sessions/:id/regenerate', authenticateToken, requireUsageQuota('chat'), async (req, res) => {
+    const authReq = req as AuthRequest;
+    if (!authReq.user) {
+      res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+      return;
+    }
+
+    const { context, stream } = req.body || {};
+    await respondToChatTurn(req, res, {
+      sessionId: String(req.params.id || '').trim(),
+      message: '',
+      turn: { kind: 'regenerate' },
+      contextTags: context || null,
+      imagePayload: null,
+      stream: Boolean(stream),
+    });
+  });
+
+  // Forks the conversation: the edited text becomes a sibling of `messageId` and gets a fresh reply.
+  router.post('/sessions/:id/messages/:messageId/edit', authenticateToken, requireUsageQuota('chat'), async (req, res) => {
+    const authReq = req as AuthRequest;
+    if (!authReq.user) {
+      res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+      return;
+    }
+
+    const { message, context, stream } = req.body || {};
+    if (typeof message !== 'string' || !message.trim()) {
+      res.status(400).json({ error: 'invalid_request', message: 'message is required' });
+      return;
+    }
+
+    await respondToChatTurn(req, res, {
+      sessionId: String(req.params.id || '').trim(),
+      message,
+      turn: { kind: 'edit', messageId: String(req.params.messageId || '').trim() },
+      contextTags: context || null,
+      imagePayload: null,
+      stream: Boolean(stream),
+    });
+  });
+
+  router.put('/sessions/:id/branch', authenticateToken, async (req, res) => {
     try {
       const authReq = req as AuthRequest;
       if (!authReq.user) {
         res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
         return;
       }
+      const sessionId = String(req.params.id || '').trim();
+      const messageId = String(req.body?.messageId || '').trim();
+      if (!messageId) {
+        res.status(400).json({ error: 'invalid_request', message: 'messageId is required' });
+        return;
+      }
 
-      const { sessionId, message, context, stream, image } = req.body || {};
-      if (!message) {
-        res.status(400).json({ error: 'invalid_request', message: 'message is required' });
+      const result = await switchChatBranch(authReq.user.id, sessionId, messageId);
+      if (result.reason === 'message_not_found') {
+        res.status(404).json({ error: 'not_found', message: 'Message not found' });
+        return;
+      }
+      if (result.reason) {
+        sendSessionAccessError(res, result.reason);
         return;
       }
+      res.json({ success: true, id: sessionId, activeLeafId: result.activeLeafId });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to switch chat branch');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to switch chat branch' });
+    }
+  });
 
-      if (image) {
-        const isImagePayloadValid = typeof image?.data === 'string' && typeof image?.mimeType === 'string';
-        if (!isImagePayloadValid || !image.mimeType.startsWith('image/')) {
-          res.status(400).json({ error: 'invalid_request', message: 'Only image attachments are supported' });
-          return;
-        }
+  // Same request body as POST / but the reply is streamed back as Server-Sent Events,
+  // so it works without a Socket.IO connection.
+  router.post('/stream', authenticateToken, requireUsageQuota('chat'), async (req, res) => {
+    const authReq = req as AuthRequest;
+    if (!authReq.user) {
+      res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+      return;
+    }
+
+    const { sessionId, message, context, image } = req.body || {};
+    const payloadError = validateChatPayload(req.body);
+    if (payloadError) {
+      res.status(400).json({ error: 'invalid_request', message: payloadError });
+      return;
+    }
+    const model = resolveRequestModel(req, res);
+    if (!model) {
+      return;
+    }
+
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
       }
+    });
 
+    let heartbeat: NodeJS.Timeout | null = null;
+    try {
       const userInfo = await ensureUserInfo(authReq.user.id, {
         name: authReq.user.name,
         email: authReq.user.email
       });
-
-      const imagePayload = image ? { data: image.data, mimeType: image.mimeType } : null;
-
-      if (stream) {
-        const streamSetup = await handleChatMessageStream({
-          user: userInfo,
-          sessionId,
-          message,
-          contextTags: context || null,
-          imagePayload
-        });
-        res.json({
-          streaming: true,
-          messageId: streamSetup.messageId,
-          sessionId: streamSetup.sessionId
-        });
-        void streamSetup.run().catch((error) => {
-          logger.error({ err: error, sessionId: streamSetup.sessionId }, 'Chat stream failed');
-        });
-        return;
-      }
-
-      const result = await handleChatMessage({
+      const streamSetup = await handleChatMessageStream({
         user: userInfo,
         sessionId,
         message,
         contextTags: context || null,
-        imagePayload
+        imagePayload: image ? { data: image.data, mimeType: image.mimeType } : null,
+        signal: abortController.signal,
+        model,
+        acceptLanguage: req.get('Accept-Language') || undefined,
+        onChunk: chunk => writeChunkEvent(res, chunk),
       });
 
-      res.json(result);
+      heartbeat = openSseStream(res);
+      writeSseEvent(res, 'start', { chatId: streamSetup.sessionId, messageId: streamSetup.messageId });
+
+      await streamSetup.run();
+    } catch (error) {
+      if (!res.headersSent) {
+        if (error instanceof ChatSessionAccessError) {
+          sendSessionAccessError(res, error.reason);
+          return;
+        }
+        logger.error({ err: error }, 'Chat stream request failed');
+        res.status(500).json({ error: 'internal_error', message: 'Chat stream request failed' });
+        return;
+      }
+      logger.error({ err: error }, 'Chat stream failed');
+      writeSseEvent(res, 'error', { error: 'Streaming failed', isFinal: true });
+    } finally {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+      }
+      if (res.headersSent && !res.writableEnded) {
+        res.end();
+      }
+    }
+  });
+
+  // Replays buffered chunks after `fromSeq` (or the Last-Event-ID header), then follows the
+  // reply until its final chunk.
+  router.get('/streams/:messageId', authenticateToken, async (req, res) => {
+    const authReq = req as AuthRequest;
+    if (!authReq.user) {
+      res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+      return;
+    }
+    const userId = authReq.user.id;
+    const messageId = String(req.params.messageId || '').trim();
+    const lastEventId = req.query.fromSeq ?? req.get('Last-Event-ID');
+    const fromSeq = lastEventId === undefined ? 0 : Number(lastEventId);
+    if (!Number.isInteger(fromSeq) || fromSeq < 0) {
+      res.status(400).json({ error: 'invalid_request', message: 'fromSeq or Last-Event-ID must be a non-negative integer' });
+      return;
+    }
+
+    let heartbeat: NodeJS.Timeout | null = null;
+    try {
+      let result = await readStreamChunks(userId, messageId, fromSeq);
+      if (result.reason === 'forbidden') {
+        res.status(403).json({ error: 'forbidden', message: 'Stream does not belong to user' });
+        return;
+      }
+      if (result.reason) {
+        res.status(404).json({ error: 'not_found', message: 'Stream not found or expired' });
+        return;
+      }
+
+      let closed = false;
+      res.on('close', () => {
+        closed = true;
+      });
+      heartbeat = openSseStream(res);
+
+      let lastSeq = fromSeq;
+      const deadline = Date.now() + config.chatStream.inFlightTtlSec * 1000;
+      while (!closed && !result.reason) {
+        let finished = false;
+        for (const chunk of result.chunks) {
+          writeChunkEvent(res, chunk);
+          lastSeq = chunk.seq;
+          finished = finished || Boolean(chunk.isFinal);
+        }
+        if (finished || Date.now() > deadline) {
+          break;
+        }
+        if (result.isFinal) {
+          // Resumed at or past the final chunk: tell the client there is nothing left to wait for.
+          writeSseEvent(res, 'done', { chatId: result.chatId, messageId, lastSeq, isFinal: true });
+          break;
+        }
+        await new Promise(resolve => setTimeout(resolve, config.chatStream.resumePollMs));
+        result = await readStreamChunks(userId, messageId, lastSeq);
+      }
     } catch (error) {
-      logger.error({ err: error }, 'Chat request failed');
-      res.status(500).json({ error: 'internal_error', message: 'Chat request failed' });
+      if (!res.headersSent) {
+        logger.error({ err: error, messageId }, 'Chat stream resume failed');
+        res.status(500).json({ error: 'internal_error', message: 'Chat stream resume failed' });
+        return;
+      }
+      logger.error({ err: error, messageId }, 'Chat stream resume interrupted');
+      writeSseEvent(res, 'error', { error: 'Streaming failed', isFinal: true });
+    } finally {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+      }
+      if (res.headersSent && !res.writableEnded) {
+        res.end();
+      }
     }
   });
 
@@ -173,8 +557,14 @@ export const createChatRouter = () => {
         return;
       }
 
-      const sessions = await listChatSessions(authReq.user.id);
-      res.json({ sessions });
+      const parsed = parsePageQuery(req.query);
+      if ('error' in parsed) {
+        res.status(400).json({ error: 'invalid_request', message: parsed.error });
+        return;
+      }
+
+      const { sessions, pageInfo } = await listChatSessions(authReq.user.id, parsed.page);
+      res.json({ sessions, pageInfo });
     } catch (error) {
       logger.error({ err: error }, 'Failed to list chat sessions');
       res.status(500).json({ error: 'internal_error', message: 'Failed to list chat sessions' });
@@ -183,8 +573,24 @@ export const createChatRouter = () => {
 
   router.get('/sessions/:id/messages', authenticateToken, async (req, res) => {
     try {
-      const messages = await listChatMessages(req.params.id);
-      res.json({ messages });
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const parsed = parsePageQuery(req.query);
+      if ('error' in parsed) {
+        res.status(400).json({ error: 'invalid_request', message: parsed.error });
+        return;
+      }
+
+      const result = await listChatMessages(authReq.user.id, String(req.params.id || '').trim(), parsed.page);
+      if (result.reason) {
+        sendSessionAccessError(res, result.reason);
+        return;
+      }
+      res.json({ messages: result.messages, pageInfo: result.pageInfo, activeLeafId: result.activeLeafId });
     } catch (error) {
       logger.error({ err: error }, 'Failed to list chat messages');
       res.status(500).json({ error: 'internal_error', message: 'Failed to list chat messages' });
@@ -205,12 +611,8 @@ export const createChatRouter = () => {
       }
 
       const result = await deleteChatSession(authReq.user.id, sessionId);
-      if (!result.deleted && result.reason === 'not_found') {
-        res.status(404).json({ error: 'not_found', message: 'Session not found' });
-        return;
-      }
-      if (!result.deleted && result.reason === 'forbidden') {
-        res.status(403).json({ error: 'forbidden', message: 'Session does not belong to user' });
+      if (result.reason) {
+        sendSessionAccessError(res, result.reason);
         return;
       }
       res.json({ success: true, id: sessionId, messagesDeleted: result.messagesDeleted || 0 });
@@ -235,12 +637,8 @@ export const createChatRouter = () => {
       }
 
       const result = await renameChatSession(authReq.user.id, sessionId, title);
-      if (!result.updated && result.reason === 'not_found') {
-        res.status(404).json({ error: 'not_found', message: 'Session not found' });
-        return;
-      }
-      if (!result.updated && result.reason === 'forbidden') {
-        res.status(403).json({ error: 'forbidden', message: 'Session does not belong to user' });
+      if (result.reason) {
+        sendSessionAccessError(res, result.reason);
         return;
       }
       res.json({ success: true, id: sessionId, title });
@@ -250,6 +648,104 @@ export const createChatRouter = () => {
     }
   });
 
+  router.get('/sessions/:id/export', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+      const sessionId = String(req.params.id || '').trim();
+      const format = String(req.query.format || 'pdf').trim().toLowerCase() as ChatExportFormat;
+      if (!CHAT_EXPORT_FORMATS.includes(format)) {
+        res.status(400).json({ error: 'invalid_request', message: `format must be one of ${CHAT_EXPORT_FORMATS.join(', ')}` });
+        return;
+      }
+
+      const userInfo = await getUserInfo(authReq.user.id);
+      const result = await exportChatSession({
+        userId: authReq.user.id,
+        sessionId,
+        format,
+        language: resolveCoachLanguage({ user: userInfo, acceptLanguage: req.get('Accept-Language') }),
+        timeZone: userInfo?.timezone,
+      });
+      if (result.reason) {
+        sendSessionAccessError(res, result.reason);
+        return;
+      }
+
+      await auditService.logUserAction(
+        authReq.user.id,
+        'chat_exported',
+        { sessionId, format, messageCount: result.export.messageCount },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, export: result.export });
+    } catch (error) {
+      logger.error({ err: error, step: 'chat_export_error' }, 'Failed to export chat session');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to export chat session' });
+    }
+  });
+
+  router.put('/messages/:messageId/feedback', authenticateToken, validate(feedbackSchema), async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const messageId = String(req.params.messageId || '').trim();
+      const result = await submitChatFeedback(authReq.user.id, messageId, req.body);
+      if (result.reason === 'not_assistant') {
+        res.status(400).json({ error: 'invalid_request', message: 'Feedback can only be given on assistant messages' });
+        return;
+      }
+      if (result.reason === 'forbidden') {
+        res.status(403).json({ error: 'forbidden', message: 'Message does not belong to user' });
+        return;
+      }
+      if (result.reason) {
+        res.status(404).json({ error: 'not_found', message: 'Message not found' });
+        return;
+      }
+
+      if (result.feedback.flagged) {
+        logger.warn(
+          { userId: authReq.user.id, messageId, reasons: result.feedback.reasons, model: result.feedback.model },
+          'Assistant message flagged by user',
+        );
+      }
+      res.json({ success: true, feedback: result.feedback });
+    } catch (error) {
+      logger.error({ err: error, step: 'chat_feedback_error' }, 'Failed to save chat feedback');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to save chat feedback' });
+    }
+  });
+
+  router.delete('/messages/:messageId/feedback', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const messageId = String(req.params.messageId || '').trim();
+      const result = await deleteChatFeedback(authReq.user.id, messageId);
+      if (!result.deleted) {
+        res.status(404).json({ error: 'not_found', message: 'Feedback not found' });
+        return;
+      }
+      res.json({ success: true, id: messageId });
+    } catch (error) {
+      logger.error({ err: error, step: 'chat_feedback_delete_error' }, 'Failed to delete chat feedback');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to delete chat feedback' });
+    }
+  });
+
   router.post('/sessions/child', authenticateToken, async (req, res) => {
     try {
       const authReq = req as AuthRequest;
@@ -268,6 +764,15 @@ export const createChatRouter = () => {
         { userId: authReq.user.id, childId, childName, step: 'create_child_chat_session_request' },
         'Creating child chat session',
       );
+      const access = await getChildForUser(authReq.user.id, String(childId));
+      if (access.reason === 'not_found') {
+        res.status(404).json({ error: 'not_found', message: 'Child not found' });
+        return;
+      }
+      if (access.reason === 'forbidden') {
+        res.status(403).json({ error: 'forbidden', message: 'Child does not belong to user' });
+        return;
+      }
       const session = await createChildChatSession({
         userId: authReq.user.id,
         childId: String(childId),
@@ -0,0 +1,207 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { ChildRequest, requireChildAccess } from '../middleware/childAccessMiddleware';
+import { validate, validateQuery } from '../middleware/validationMiddleware';
+import {
+  CARE_LOG_TYPES,
+  CareLogType,
+  createCareLogEntry,
+  deleteCareLogEntry,
+  getDailyCareSummary,
+  getTodayInTimeZone,
+  getUserTimeZone,
+  getWeeklyCareSummary,
+  listCareLogEntries,
+  MAX_RANGE_DAYS,
+  updateCareLogEntry,
+} from '../server/bebek/services/careLogService';
+import { auditService } from '../services/auditService';
+import { logger } from '../utils/logger';
+import { attachRouteLogger } from '../utils/routeLogger';
+
+const dateOnly = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+// Allow a little clock skew between the device and the server.
+const FUTURE_TOLERANCE_MS = 5 * 60_000;
+const dateTime = z
+  .string()
+  .refine(value => !Number.isNaN(Date.parse(value)), 'Must be an ISO date-time')
+  .refine(value => Date.parse(value) <= Date.now() + FUTURE_TOLERANCE_MS, 'Cannot be in the future');
+
+const entryFields = {
+  startedAt: dateTime,
+  endedAt: dateTime.nullable().optional(),
+  durationMinutes: z.number().int().min(0).max(24 * 60).nullable().optional(),
+  side: z.enum(['left', 'right', 'both']).nullable().optional(),
+  amountMl: z.number().min(1).max(1000).nullable().optional(),
+  bottleContent: z.enum(['breast_milk', 'formula', 'other']).nullable().optional(),
+  food: z.string().max(100, 'Food too long').nullable().optional(),
+  firstIntroduction: z.boolean().nullable().optional(),
+  reaction: z.string().max(300, 'Reaction too long').nullable().optional(),
+  sleepKind: z.enum(['nap', 'night']).nullable().optional(),
+  diaperKind: z.enum(['wet', 'dirty', 'mixed', 'dry']).nullable().optional(),
+  note: z.string().max(500, 'Note too long').nullable().optional(),
+};
+
+const createEntrySchema = z.object({
+  type: z.enum(CARE_LOG_TYPES as [CareLogType, ...CareLogType[]]),
+  ...entryFields,
+});
+
+const updateEntrySchema = z
+  .object({ ...entryFields, startedAt: dateTime.optional() })
+  .strict()
+  .refine((value: Record<string, unknown>) => Object.keys(value).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+const listQuerySchema = z.object({
+  from: dateOnly.optional(),
+  to: dateOnly.optional(),
+  type: z.enum(CARE_LOG_TYPES as [CareLogType, ...CareLogType[]]).optional(),
+});
+
+const dailyQuerySchema = z.object({ date: dateOnly.optional() });
+const weeklyQuerySchema = z.object({ endDate: dateOnly.optional() });
+
+const DAY_MS = 24 * 60 * 60_000;
+
+export const createChildCareLogRouter = () => {
+  const router = Router({ mergeParams: true });
+  attachRouteLogger(router, 'child-care-log');
+
+  router.get('/', authenticateToken, requireChildAccess(), validateQuery(listQuerySchema), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const timeZone = await getUserTimeZone(childReq.user!.id);
+      const today = getTodayInTimeZone(timeZone);
+      const from = (req.query.from as string) || (req.query.to as string) || today;
+      const to = (req.query.to as string) || today;
+      const spanDays = (Date.parse(to) - Date.parse(from)) / DAY_MS;
+      if (spanDays < 0 || spanDays >= MAX_RANGE_DAYS) {
+        res.status(400).json({
+          error: 'invalid_request',
+          message: `from must not be after to and the range must be at most ${MAX_RANGE_DAYS} days`,
+        });
+        return;
+      }
+
+      const entries = await listCareLogEntries(childReq.child!, {
+        from,
+        to,
+        timeZone,
+        type: req.query.type as CareLogType | undefined,
+      });
+      res.json({ success: true, from, to, timeZone, entries });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'care_log_list_error' }, 'List care log failed');
+      res.status(500).json({ error: 'internal_error', message: 'List care log failed' });
+    }
+  });
+
+  router.get('/daily', authenticateToken, requireChildAccess(), validateQuery(dailyQuerySchema), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const timeZone = await getUserTimeZone(childReq.user!.id);
+      const date = (req.query.date as string) || getTodayInTimeZone(timeZone);
+      const summary = await getDailyCareSummary(childReq.child!, date, timeZone);
+      res.json({ success: true, timeZone, summary });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'care_log_daily_error' }, 'Daily care summary failed');
+      res.status(500).json({ error: 'internal_error', message: 'Daily care summary failed' });
+    }
+  });
+
+  router.get('/weekly', authenticateToken, requireChildAccess(), validateQuery(weeklyQuerySchema), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const timeZone = await getUserTimeZone(childReq.user!.id);
+      const endDate = (req.query.endDate as string) || getTodayInTimeZone(timeZone);
+      const summary = await getWeeklyCareSummary(childReq.child!, endDate, timeZone);
+      res.json({ success: true, ...summary });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'care_log_weekly_error' }, 'Weekly care summary failed');
+      res.status(500).json({ error: 'internal_error', message: 'Weekly care summary failed' });
+    }
+  });
+
+  router.post('/', authenticateToken, requireChildAccess('editor'), validate(createEntrySchema), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const child = childReq.child!;
+      const timeZone = await getUserTimeZone(childReq.user!.id);
+      const result = await createCareLogEntry(child, childReq.user!.id, req.body, timeZone);
+      if (!result.created) {
+        res.status(400).json({ error: 'invalid_request', message: result.message });
+        return;
+      }
+
+      await auditService.logUserAction(
+        childReq.user!.id,
+        'care_log_created',
+        { childId: child.id, entryId: result.entry.id, type: req.body.type },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.status(201).json({ success: true, entry: result.entry });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'care_log_create_error' }, 'Create care log entry failed');
+      res.status(500).json({ error: 'internal_error', message: 'Create care log entry failed' });
+    }
+  });
+
+  router.patch('/:entryId', authenticateToken, requireChildAccess('editor'), validate(updateEntrySchema), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const child = childReq.child!;
+      const timeZone = await getUserTimeZone(childReq.user!.id);
+      const result = await updateCareLogEntry(child, req.params.entryId, req.body, timeZone);
+      if (!result.updated && result.reason === 'not_found') {
+        res.status(404).json({ error: 'not_found', message: 'Care log entry not found' });
+        return;
+      }
+      if (!result.updated) {
+        res.status(400).json({ error: 'invalid_request', message: result.message });
+        return;
+      }
+
+      await auditService.logUserAction(
+        childReq.user!.id,
+        'care_log_updated',
+        { childId: child.id, entryId: req.params.entryId, fields: Object.keys(req.body) },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, entry: result.entry });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'care_log_update_error' }, 'Update care log entry failed');
+      res.status(500).json({ error: 'internal_error', message: 'Update care log entry failed' });
+    }
+  });
+
+  router.delete('/:entryId', authenticateToken, requireChildAccess('editor'), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const child = childReq.child!;
+      const result = await deleteCareLogEntry(child, req.params.entryId);
+      if (!result.deleted) {
+        res.status(404).json({ error: 'not_found', message: 'Care log entry not found' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        childReq.user!.id,
+        'care_log_deleted',
+        { childId: child.id, entryId: req.params.entryId },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, id: req.params.entryId });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'care_log_delete_error' }, 'Delete care log entry failed');
+      res.status(500).json({ error: 'internal_error', message: 'Delete care log entry failed' });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,188 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { ChildRequest, requireChildAccess } from '../middleware/childAccessMiddleware';
+import { validate, validateQuery } from '../middleware/validationMiddleware';
+import {
+  createGrowthMeasurement,
+  deleteGrowthMeasurement,
+  getGrowthCurves,
+  listGrowthMeasurements,
+  updateGrowthMeasurement,
+} from '../server/bebek/services/growthService';
+import { auditService } from '../services/auditService';
+import { logger } from '../utils/logger';
+import { attachRouteLogger } from '../utils/routeLogger';
+
+const dateOnly = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+const weightKg = z.number().min(0.3, 'weightKg too small').max(40, 'weightKg too large').nullable();
+const lengthCm = z.number().min(25, 'lengthCm too small').max(130, 'lengthCm too large').nullable();
+const headCircumferenceCm = z.number().min(20, 'headCircumferenceCm too small').max(60, 'headCircumferenceCm too large').nullable();
+const note = z.string().max(500, 'Note too long').nullable();
+
+const createMeasurementSchema = z
+  .object({
+    measuredAt: dateOnly,
+    weightKg: weightKg.optional(),
+    lengthCm: lengthCm.optional(),
+    headCircumferenceCm: headCircumferenceCm.optional(),
+    note: note.optional(),
+  })
+  .refine(
+    (value: any) => value.weightKg != null || value.lengthCm != null || value.headCircumferenceCm != null,
+    { message: 'At least one of weightKg, lengthCm or headCircumferenceCm is required' },
+  );
+
+const updateMeasurementSchema = z
+  .object({
+    measuredAt: dateOnly.optional(),
+    weightKg: weightKg.optional(),
+    lengthCm: lengthCm.optional(),
+    headCircumferenceCm: headCircumferenceCm.optional(),
+    note: note.optional(),
+  })
+  .refine((value: Record<string, unknown>) => Object.keys(value).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+const curvesQuerySchema = z.object({
+  metric: z.enum(['weight', 'length', 'head']),
+});
+
+const isMeasuredAtValid = (child: { birthDate: string }, measuredAt: string) => {
+  const measuredTs = Date.parse(measuredAt);
+  const birthTs = Date.parse(child.birthDate);
+  if (Number.isNaN(measuredTs) || measuredTs > Date.now()) return false;
+  return Number.isNaN(birthTs) || measuredTs >= birthTs - 24 * 60 * 60_000;
+};
+
+export const createChildGrowthRouter = () => {
+  const router = Router({ mergeParams: true });
+  attachRouteLogger(router, 'child-growth');
+
+  router.get('/', authenticateToken, requireChildAccess(), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const measurements = await listGrowthMeasurements(childReq.child!);
+      res.json({ success: true, measurements });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'growth_list_error' }, 'List growth measurements failed');
+      res.status(500).json({ error: 'internal_error', message: 'List growth measurements failed' });
+    }
+  });
+
+  router.get(
+    '/curves',
+    authenticateToken,
+    requireChildAccess(),
+    validateQuery(curvesQuerySchema),
+    async (req, res) => {
+      const childReq = req as ChildRequest;
+      try {
+        const metric = req.query.metric as 'weight' | 'length' | 'head';
+        const result = await getGrowthCurves(childReq.child!, metric);
+        if (!result) {
+          res.status(422).json({ error: 'unprocessable', message: 'Child gender is required for percentile curves' });
+          return;
+        }
+        res.json({ success: true, ...result });
+      } catch (error) {
+        logger.error({ err: error, childId: childReq.child?.id, step: 'growth_curves_error' }, 'Growth curves failed');
+        res.status(500).json({ error: 'internal_error', message: 'Growth curves failed' });
+      }
+    },
+  );
+
+  router.post('/', authenticateToken, requireChildAccess('editor'), validate(createMeasurementSchema), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const child = childReq.child!;
+      if (!isMeasuredAtValid(child, req.body.measuredAt)) {
+        res.status(400).json({ error: 'invalid_request', message: 'measuredAt must be between birthDate and today' });
+        return;
+      }
+
+      const measurement = await createGrowthMeasurement(child, childReq.user!.id, req.body);
+      await auditService.logUserAction(
+        childReq.user!.id,
+        'growth_measurement_created',
+        { childId: child.id, measurementId: measurement.id },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      logger.info(
+        { userId: childReq.user!.id, childId: child.id, measurementId: measurement.id, step: 'growth_create_success' },
+        'Growth measurement recorded',
+      );
+      res.status(201).json({ success: true, measurement });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'growth_create_error' }, 'Create growth measurement failed');
+      res.status(500).json({ error: 'internal_error', message: 'Create growth measurement failed' });
+    }
+  });
+
+  router.patch(
+    '/:measurementId',
+    authenticateToken,
+    requireChildAccess('editor'),
+    validate(updateMeasurementSchema),
+    async (req, res) => {
+      const childReq = req as ChildRequest;
+      try {
+        const child = childReq.child!;
+        if (req.body.measuredAt !== undefined && !isMeasuredAtValid(child, req.body.measuredAt)) {
+          res.status(400).json({ error: 'invalid_request', message: 'measuredAt must be between birthDate and today' });
+          return;
+        }
+
+        const result = await updateGrowthMeasurement(child, req.params.measurementId, req.body);
+        if (!result.updated && result.reason === 'not_found') {
+          res.status(404).json({ error: 'not_found', message: 'Measurement not found' });
+          return;
+        }
+        if (!result.updated && result.reason === 'empty_measurement') {
+          res.status(400).json({ error: 'invalid_request', message: 'A measurement needs at least one value' });
+          return;
+        }
+
+        await auditService.logUserAction(
+          childReq.user!.id,
+          'growth_measurement_updated',
+          { childId: child.id, measurementId: req.params.measurementId, fields: Object.keys(req.body) },
+          req.ip,
+          req.get('User-Agent') || undefined,
+        );
+        res.json({ success: true, measurement: result.measurement });
+      } catch (error) {
+        logger.error({ err: error, childId: childReq.child?.id, step: 'growth_update_error' }, 'Update growth measurement failed');
+        res.status(500).json({ error: 'internal_error', message: 'Update growth measurement failed' });
+      }
+    },
+  );
+
+  router.delete('/:measurementId', authenticateToken, requireChildAccess('editor'), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const child = childReq.child!;
+      const result = await deleteGrowthMeasurement(child, req.params.measurementId);
+      if (!result.deleted) {
+        res.status(404).json({ error: 'not_found', message: 'Measurement not found' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        childReq.user!.id,
+        'growth_measurement_deleted',
+        { childId: child.id, measurementId: req.params.measurementId },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, id: req.params.measurementId });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'growth_delete_error' }, 'Delete growth measurement failed');
+      res.status(500).json({ error: 'internal_error', message: 'Delete growth measurement failed' });
+    }
+  });
+
+  return router;
+};
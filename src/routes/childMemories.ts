@@ -0,0 +1,129 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { ChildRequest, requireChildAccess } from '../middleware/childAccessMiddleware';
+import { validate } from '../middleware/validationMiddleware';
+import {
+  CHILD_MEMORY_CATEGORIES,
+  createChildMemory,
+  deleteChildMemory,
+  listChildMemories,
+  MAX_CHILD_MEMORIES,
+  MAX_CHILD_MEMORY_LENGTH,
+  updateChildMemory,
+} from '../server/bebek/services/childMemoryService';
+import { auditService } from '../services/auditService';
+import { logger } from '../utils/logger';
+import { attachRouteLogger } from '../utils/routeLogger';
+
+const contentField = z
+  .string()
+  .trim()
+  .min(1, 'Content is required')
+  .max(MAX_CHILD_MEMORY_LENGTH, 'Content too long');
+
+const createMemorySchema = z.object({
+  category: z.enum(CHILD_MEMORY_CATEGORIES),
+  content: contentField,
+});
+
+const updateMemorySchema = z
+  .object({
+    category: z.enum(CHILD_MEMORY_CATEGORIES).optional(),
+    content: contentField.optional(),
+  })
+  .strict()
+  .refine((value: Record<string, unknown>) => Object.keys(value).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+// Long-term facts the coach remembers about one child; parents can review and correct them here.
+export const createChildMemoriesRouter = () => {
+  const router = Router({ mergeParams: true });
+  attachRouteLogger(router, 'child-memories');
+
+  router.get('/', authenticateToken, requireChildAccess(), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const memories = await listChildMemories(childReq.child!.id);
+      res.json({ success: true, memories });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'child_memory_list_error' }, 'List child memories failed');
+      res.status(500).json({ error: 'internal_error', message: 'List child memories failed' });
+    }
+  });
+
+  router.post('/', authenticateToken, requireChildAccess('editor'), validate(createMemorySchema), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const child = childReq.child!;
+      const result = await createChildMemory(child, childReq.user!.id, req.body);
+      if (!result.created) {
+        res.status(409).json({ error: 'conflict', message: `A child can have at most ${MAX_CHILD_MEMORIES} memories` });
+        return;
+      }
+
+      await auditService.logUserAction(
+        childReq.user!.id,
+        'child_memory_created',
+        { childId: child.id, memoryId: result.memory.id, category: result.memory.category },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.status(201).json({ success: true, memory: result.memory });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'child_memory_create_error' }, 'Create child memory failed');
+      res.status(500).json({ error: 'internal_error', message: 'Create child memory failed' });
+    }
+  });
+
+  router.patch('/:memoryId', authenticateToken, requireChildAccess('editor'), validate(updateMemorySchema), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const child = childReq.child!;
+      const result = await updateChildMemory(child, req.params.memoryId, req.body);
+      if (!result.updated) {
+        res.status(404).json({ error: 'not_found', message: 'Memory not found' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        childReq.user!.id,
+        'child_memory_updated',
+        { childId: child.id, memoryId: req.params.memoryId, fields: Object.keys(req.body) },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, memory: result.memory });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'child_memory_update_error' }, 'Update child memory failed');
+      res.status(500).json({ error: 'internal_error', message: 'Update child memory failed' });
+    }
+  });
+
+  router.delete('/:memoryId', authenticateToken, requireChildAccess('editor'), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const child = childReq.child!;
+      const result = await deleteChildMemory(child, req.params.memoryId);
+      if (!result.deleted) {
+        res.status(404).json({ error: 'not_found', message: 'Memory not found' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        childReq.user!.id,
+        'child_memory_deleted',
+        { childId: child.id, memoryId: req.params.memoryId },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, id: req.params.memoryId });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'child_memory_delete_error' }, 'Delete child memory failed');
+      res.status(500).json({ error: 'internal_error', message: 'Delete child memory failed' });
+    }
+  });
+
+  return router;
+};
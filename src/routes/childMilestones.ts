@@ -0,0 +1,129 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { ChildRequest, requireChildAccess } from '../middleware/childAccessMiddleware';
+import { validate, validateQuery } from '../middleware/validationMiddleware';
+import { MILESTONE_DOMAINS, MilestoneDomain } from '../server/bebek/data/milestoneCatalog';
+import {
+  deleteMilestoneAchievement,
+  getMilestoneOverview,
+  MilestoneStatus,
+  recordMilestoneAchievement,
+} from '../server/bebek/services/milestoneService';
+import { auditService } from '../services/auditService';
+import { logger } from '../utils/logger';
+import { attachRouteLogger } from '../utils/routeLogger';
+
+const overviewQuerySchema = z.object({
+  status: z.enum(['achieved', 'overdue', 'due', 'upcoming']).optional(),
+  domain: z.enum(MILESTONE_DOMAINS as [MilestoneDomain, ...MilestoneDomain[]]).optional(),
+  lookaheadMonths: z.coerce.number().int().min(0).max(24).optional(),
+});
+
+const achievementSchema = z.object({
+  achievedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  note: z.string().max(500, 'Note too long').nullable().optional(),
+});
+
+const isAchievedAtValid = (child: { birthDate: string }, achievedAt: string) => {
+  const achievedTs = Date.parse(achievedAt);
+  const birthTs = Date.parse(child.birthDate);
+  if (Number.isNaN(achievedTs) || achievedTs > Date.now()) return false;
+  return Number.isNaN(birthTs) || achievedTs >= birthTs - 24 * 60 * 60_000;
+};
+
+export const createChildMilestonesRouter = () => {
+  const router = Router({ mergeParams: true });
+  attachRouteLogger(router, 'child-milestones');
+
+  router.get('/', authenticateToken, requireChildAccess(), validateQuery(overviewQuerySchema), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const status = req.query.status as MilestoneStatus | undefined;
+      const overview = await getMilestoneOverview(childReq.child!, {
+        domain: req.query.domain as MilestoneDomain | undefined,
+        lookaheadMonths: req.query.lookaheadMonths !== undefined ? Number(req.query.lookaheadMonths) : undefined,
+      });
+      if (overview.ageMonths === null) {
+        res.status(422).json({ error: 'unprocessable', message: 'Child birthDate is required for milestones' });
+        return;
+      }
+
+      if (status) {
+        res.json({
+          success: true,
+          ageMonths: overview.ageMonths,
+          catalogVersion: overview.catalogVersion,
+          status,
+          milestones: overview[status],
+        });
+        return;
+      }
+      res.json({ success: true, ...overview });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'milestones_list_error' }, 'List milestones failed');
+      res.status(500).json({ error: 'internal_error', message: 'List milestones failed' });
+    }
+  });
+
+  router.put(
+    '/:milestoneId/achievement',
+    authenticateToken,
+    requireChildAccess('editor'),
+    validate(achievementSchema),
+    async (req, res) => {
+      const childReq = req as ChildRequest;
+      try {
+        const child = childReq.child!;
+        if (!isAchievedAtValid(child, req.body.achievedAt)) {
+          res.status(400).json({ error: 'invalid_request', message: 'achievedAt must be between birthDate and today' });
+          return;
+        }
+
+        const result = await recordMilestoneAchievement(child, childReq.user!.id, req.params.milestoneId, req.body);
+        if (!result.saved) {
+          res.status(404).json({ error: 'not_found', message: 'Milestone not found' });
+          return;
+        }
+
+        await auditService.logUserAction(
+          childReq.user!.id,
+          'milestone_achieved',
+          { childId: child.id, milestoneId: req.params.milestoneId, created: result.created },
+          req.ip,
+          req.get('User-Agent') || undefined,
+        );
+        res.status(result.created ? 201 : 200).json({ success: true, achievement: result.achievement });
+      } catch (error) {
+        logger.error({ err: error, childId: childReq.child?.id, step: 'milestone_record_error' }, 'Record milestone failed');
+        res.status(500).json({ error: 'internal_error', message: 'Record milestone failed' });
+      }
+    },
+  );
+
+  router.delete('/:milestoneId/achievement', authenticateToken, requireChildAccess('editor'), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const child = childReq.child!;
+      const result = await deleteMilestoneAchievement(child, req.params.milestoneId);
+      if (!result.deleted) {
+        res.status(404).json({ error: 'not_found', message: 'Achievement not found' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        childReq.user!.id,
+        'milestone_achievement_deleted',
+        { childId: child.id, milestoneId: req.params.milestoneId },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, milestoneId: req.params.milestoneId });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'milestone_delete_error' }, 'Delete milestone achievement failed');
+      res.status(500).json({ error: 'internal_error', message: 'Delete milestone achievement failed' });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,170 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { ChildRequest, requireChildAccess } from '../middleware/childAccessMiddleware';
+import { validate } from '../middleware/validationMiddleware';
+import { getUserTimeZone } from '../server/bebek/services/careLogService';
+import {
+  cancelTimer,
+  listActiveTimers,
+  pauseTimer,
+  resumeTimer,
+  startTimer,
+  stopTimer,
+  TIMER_KINDS,
+  TimerKind,
+} from '../server/bebek/services/timerService';
+import { auditService } from '../services/auditService';
+import { logger } from '../utils/logger';
+import { attachRouteLogger } from '../utils/routeLogger';
+
+const timerDetailsSchema = z.object({
+  side: z.enum(['left', 'right', 'both']).nullable().optional(),
+  sleepKind: z.enum(['nap', 'night']).nullable().optional(),
+});
+
+const stopTimerSchema = timerDetailsSchema.extend({
+  note: z.string().max(500, 'Note too long').nullable().optional(),
+});
+
+const requireTimerKind = (req: Request, res: Response, next: NextFunction) => {
+  if (!TIMER_KINDS.includes(req.params.kind as TimerKind)) {
+    res.status(400).json({ error: 'invalid_request', message: `kind must be one of ${TIMER_KINDS.join(', ')}` });
+    return;
+  }
+  next();
+};
+
+export const createChildTimersRouter = () => {
+  const router = Router({ mergeParams: true });
+  attachRouteLogger(router, 'child-timers');
+
+  router.get('/', authenticateToken, requireChildAccess(), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const timers = await listActiveTimers(childReq.child!);
+      res.json({ success: true, serverTime: new Date().toISOString(), timers });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'timers_list_error' }, 'List timers failed');
+      res.status(500).json({ error: 'internal_error', message: 'List timers failed' });
+    }
+  });
+
+  router.post(
+    '/:kind/start',
+    authenticateToken,
+    requireTimerKind,
+    requireChildAccess('editor'),
+    validate(timerDetailsSchema),
+    async (req, res) => {
+      const childReq = req as ChildRequest;
+      try {
+        const kind = req.params.kind as TimerKind;
+        const result = await startTimer(childReq.child!, childReq.user!.id, kind, req.body || {});
+        if (!result.started) {
+          res.status(409).json({
+            error: 'timer_already_running',
+            message: `A ${kind} timer is already running for this child`,
+            timer: result.timer,
+          });
+          return;
+        }
+        res.status(201).json({ success: true, timer: result.timer });
+      } catch (error) {
+        logger.error({ err: error, childId: childReq.child?.id, step: 'timer_start_error' }, 'Start timer failed');
+        res.status(500).json({ error: 'internal_error', message: 'Start timer failed' });
+      }
+    },
+  );
+
+  const handleTransition = (action: 'pause' | 'resume') => async (req: Request, res: Response) => {
+    const childReq = req as ChildRequest;
+    try {
+      const kind = req.params.kind as TimerKind;
+      const result =
+        action === 'pause'
+          ? await pauseTimer(childReq.child!, childReq.user!.id, kind)
+          : await resumeTimer(childReq.child!, childReq.user!.id, kind, req.body || {});
+      if (!result.changed && result.reason === 'not_found') {
+        res.status(404).json({ error: 'not_found', message: 'Timer not found' });
+        return;
+      }
+      if (!result.changed) {
+        res.status(409).json({
+          error: 'invalid_timer_state',
+          message: action === 'pause' ? 'Timer is already paused' : 'Timer is already running',
+          timer: result.timer,
+        });
+        return;
+      }
+      res.json({ success: true, timer: result.timer });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: `timer_${action}_error` }, `Timer ${action} failed`);
+      res.status(500).json({ error: 'internal_error', message: `Timer ${action} failed` });
+    }
+  };
+
+  router.post('/:kind/pause', authenticateToken, requireTimerKind, requireChildAccess('editor'), handleTransition('pause'));
+  router.post(
+    '/:kind/resume',
+    authenticateToken,
+    requireTimerKind,
+    requireChildAccess('editor'),
+    validate(timerDetailsSchema),
+    handleTransition('resume'),
+  );
+
+  router.post(
+    '/:kind/stop',
+    authenticateToken,
+    requireTimerKind,
+    requireChildAccess('editor'),
+    validate(stopTimerSchema),
+    async (req, res) => {
+      const childReq = req as ChildRequest;
+      try {
+        const child = childReq.child!;
+        const kind = req.params.kind as TimerKind;
+        const timeZone = await getUserTimeZone(childReq.user!.id);
+        const result = await stopTimer(child, childReq.user!.id, kind, req.body || {}, timeZone);
+        if (!result.stopped && result.reason === 'not_found') {
+          res.status(404).json({ error: 'not_found', message: 'Timer not found' });
+          return;
+        }
+        if (!result.stopped) {
+          res.status(400).json({ error: 'invalid_request', message: result.message });
+          return;
+        }
+
+        await auditService.logUserAction(
+          childReq.user!.id,
+          'care_timer_stopped',
+          { childId: child.id, kind, entryId: result.entry.id, elapsedMs: result.elapsedMs },
+          req.ip,
+          req.get('User-Agent') || undefined,
+        );
+        res.json({ success: true, elapsedMs: result.elapsedMs, entry: result.entry });
+      } catch (error) {
+        logger.error({ err: error, childId: childReq.child?.id, step: 'timer_stop_error' }, 'Stop timer failed');
+        res.status(500).json({ error: 'internal_error', message: 'Stop timer failed' });
+      }
+    },
+  );
+
+  router.delete('/:kind', authenticateToken, requireTimerKind, requireChildAccess('editor'), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const result = await cancelTimer(childReq.child!, childReq.user!.id, req.params.kind as TimerKind);
+      if (!result.cancelled) {
+        res.status(404).json({ error: 'not_found', message: 'Timer not found' });
+        return;
+      }
+      res.json({ success: true, kind: req.params.kind });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'timer_cancel_error' }, 'Cancel timer failed');
+      res.status(500).json({ error: 'internal_error', message: 'Cancel timer failed' });
+    }
+  });
+
+  return router;
+};
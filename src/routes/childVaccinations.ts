@@ -0,0 +1,139 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { ChildRequest, requireChildAccess } from '../middleware/childAccessMiddleware';
+import { validate } from '../middleware/validationMiddleware';
+import {
+  deleteVaccinationDose,
+  getVaccinationSchedule,
+  getVaccinationSummary,
+  recordVaccinationDose,
+  setChildVaccinationSchedule,
+} from '../server/bebek/services/vaccinationService';
+import { auditService } from '../services/auditService';
+import { logger } from '../utils/logger';
+import { attachRouteLogger } from '../utils/routeLogger';
+
+const doseSchema = z.object({
+  givenAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  clinic: z.string().max(200, 'Clinic too long').nullable().optional(),
+  lotNumber: z.string().max(100, 'Lot number too long').nullable().optional(),
+  note: z.string().max(500, 'Note too long').nullable().optional(),
+});
+
+const scheduleSchema = z.object({
+  scheduleId: z.string().min(1, 'scheduleId is required'),
+});
+
+const isGivenAtValid = (child: { birthDate: string }, givenAt: string) => {
+  const givenTs = Date.parse(givenAt);
+  const birthTs = Date.parse(child.birthDate);
+  if (Number.isNaN(givenTs) || givenTs > Date.now()) return false;
+  return Number.isNaN(birthTs) || givenTs >= birthTs - 24 * 60 * 60_000;
+};
+
+export const createChildVaccinationsRouter = () => {
+  const router = Router({ mergeParams: true });
+  attachRouteLogger(router, 'child-vaccinations');
+
+  router.get('/', authenticateToken, requireChildAccess(), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const schedule = await getVaccinationSchedule(childReq.child!);
+      res.json({ success: true, ...schedule });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'vaccinations_list_error' }, 'List vaccinations failed');
+      res.status(500).json({ error: 'internal_error', message: 'List vaccinations failed' });
+    }
+  });
+
+  router.get('/summary', authenticateToken, requireChildAccess(), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const summary = await getVaccinationSummary(childReq.child!);
+      res.json({ success: true, ...summary });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'vaccinations_summary_error' }, 'Vaccination summary failed');
+      res.status(500).json({ error: 'internal_error', message: 'Vaccination summary failed' });
+    }
+  });
+
+  router.put('/schedule', authenticateToken, requireChildAccess('editor'), validate(scheduleSchema), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const result = await setChildVaccinationSchedule(childReq.child!, req.body.scheduleId);
+      if (!result.updated || !result.child) {
+        res.status(404).json({ error: 'not_found', message: 'Vaccination schedule not found' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        childReq.user!.id,
+        'vaccination_schedule_changed',
+        { childId: childReq.child!.id, scheduleId: req.body.scheduleId },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      const schedule = await getVaccinationSchedule(result.child);
+      res.json({ success: true, ...schedule });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'vaccination_schedule_error' }, 'Change vaccination schedule failed');
+      res.status(500).json({ error: 'internal_error', message: 'Change vaccination schedule failed' });
+    }
+  });
+
+  router.put('/doses/:doseId', authenticateToken, requireChildAccess('editor'), validate(doseSchema), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const child = childReq.child!;
+      if (!isGivenAtValid(child, req.body.givenAt)) {
+        res.status(400).json({ error: 'invalid_request', message: 'givenAt must be between birthDate and today' });
+        return;
+      }
+
+      const result = await recordVaccinationDose(child, childReq.user!.id, req.params.doseId, req.body);
+      if (!result.saved) {
+        res.status(404).json({ error: 'not_found', message: 'Dose not found in child schedule' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        childReq.user!.id,
+        'vaccination_dose_recorded',
+        { childId: child.id, doseId: req.params.doseId, created: result.created },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.status(result.created ? 201 : 200).json({ success: true, record: result.record });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'vaccination_record_error' }, 'Record vaccination failed');
+      res.status(500).json({ error: 'internal_error', message: 'Record vaccination failed' });
+    }
+  });
+
+  router.delete('/doses/:doseId', authenticateToken, requireChildAccess('editor'), async (req, res) => {
+    const childReq = req as ChildRequest;
+    try {
+      const child = childReq.child!;
+      const result = await deleteVaccinationDose(child, req.params.doseId);
+      if (!result.deleted) {
+        res.status(404).json({ error: 'not_found', message: 'Dose record not found' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        childReq.user!.id,
+        'vaccination_dose_deleted',
+        { childId: child.id, doseId: req.params.doseId },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, doseId: req.params.doseId });
+    } catch (error) {
+      logger.error({ err: error, childId: childReq.child?.id, step: 'vaccination_delete_error' }, 'Delete vaccination record failed');
+      res.status(500).json({ error: 'internal_error', message: 'Delete vaccination record failed' });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,257 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticateToken, AuthRequest } from '../middleware/authMiddleware';
+import { validate } from '../middleware/validationMiddleware';
+import {
+  acceptHouseholdInvitation,
+  createHouseholdInvitation,
+  getHouseholdDetails,
+  HOUSEHOLD_ROLES,
+  HouseholdRole,
+  listUserHouseholds,
+  removeHouseholdMember,
+  revokeHouseholdInvitation,
+  updateHouseholdMemberRole,
+} from '../server/bebek/services/householdService';
+import { auditService } from '../services/auditService';
+import { logger } from '../utils/logger';
+import { attachRouteLogger } from '../utils/routeLogger';
+
+const roleSchema = z.enum(HOUSEHOLD_ROLES as [HouseholdRole, ...HouseholdRole[]]);
+
+const inviteSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  role: roleSchema,
+});
+
+const acceptSchema = z.object({
+  token: z.string().min(1, 'token is required'),
+});
+
+const memberRoleSchema = z.object({
+  role: roleSchema,
+});
+
+const INVITE_ERRORS: Record<string, { status: number; error: string; message: string }> = {
+  forbidden: { status: 403, error: 'forbidden', message: 'Only household owners can invite caregivers' },
+  founder_only: { status: 403, error: 'forbidden', message: 'Only the household founder can invite owners' },
+  self_invite: { status: 400, error: 'invalid_request', message: 'You cannot invite yourself' },
+  already_member: { status: 409, error: 'already_member', message: 'This caregiver is already a household member' },
+  household_full: { status: 409, error: 'household_full', message: 'Household member limit reached' },
+};
+
+const ACCEPT_ERRORS: Record<string, { status: number; error: string; message: string }> = {
+  invalid_token: { status: 400, error: 'invalid_token', message: 'Invitation is invalid or has expired' },
+  email_mismatch: { status: 403, error: 'forbidden', message: 'Invitation was sent to a different email address' },
+  self_invite: { status: 400, error: 'invalid_request', message: 'You already own this household' },
+};
+
+export const createHouseholdsRouter = () => {
+  const router = Router();
+  attachRouteLogger(router, 'households');
+
+  router.get('/', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const households = await listUserHouseholds(authReq.user.id);
+      res.json({ success: true, households });
+    } catch (error) {
+      logger.error({ err: error, step: 'households_list_error' }, 'List households failed');
+      res.status(500).json({ error: 'internal_error', message: 'List households failed' });
+    }
+  });
+
+  router.post('/invitations/accept', authenticateToken, validate(acceptSchema), async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const result = await acceptHouseholdInvitation(authReq.user, req.body.token);
+      if (!result.accepted) {
+        const failure = ACCEPT_ERRORS[result.reason];
+        res.status(failure.status).json({ error: failure.error, message: failure.message });
+        return;
+      }
+
+      await auditService.logUserAction(
+        authReq.user.id,
+        'household_invitation_accepted',
+        { householdId: result.member.householdId, role: result.member.role },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, member: result.member });
+    } catch (error) {
+      logger.error({ err: error, step: 'household_accept_error' }, 'Accept household invitation failed');
+      res.status(500).json({ error: 'internal_error', message: 'Accept household invitation failed' });
+    }
+  });
+
+  router.get('/:householdId', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const result = await getHouseholdDetails(req.params.householdId, authReq.user.id);
+      if (!result.household) {
+        res.status(403).json({ error: 'forbidden', message: 'Not a member of this household' });
+        return;
+      }
+      res.json({ success: true, household: result.household });
+    } catch (error) {
+      logger.error({ err: error, step: 'household_get_error' }, 'Get household failed');
+      res.status(500).json({ error: 'internal_error', message: 'Get household failed' });
+    }
+  });
+
+  router.post('/:householdId/invitations', authenticateToken, validate(inviteSchema), async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const householdId = req.params.householdId;
+      const result = await createHouseholdInvitation({
+        householdId,
+        inviter: authReq.user,
+        email: req.body.email,
+        role: req.body.role,
+      });
+      if (!result.created) {
+        const failure = INVITE_ERRORS[result.reason];
+        res.status(failure.status).json({ error: failure.error, message: failure.message });
+        return;
+      }
+
+      await auditService.logUserAction(
+        authReq.user.id,
+        'household_invitation_created',
+        { householdId, invitationId: result.invitation.id, role: result.invitation.role },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.status(201).json({ success: true, invitation: result.invitation });
+    } catch (error) {
+      logger.error({ err: error, step: 'household_invite_error' }, 'Create household invitation failed');
+      res.status(500).json({ error: 'internal_error', message: 'Create household invitation failed' });
+    }
+  });
+
+  router.delete('/:householdId/invitations/:invitationId', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { householdId, invitationId } = req.params;
+      const result = await revokeHouseholdInvitation(householdId, authReq.user.id, invitationId);
+      if (!result.revoked && result.reason === 'forbidden') {
+        res.status(403).json({ error: 'forbidden', message: 'Only household owners can revoke invitations' });
+        return;
+      }
+      if (!result.revoked) {
+        res.status(404).json({ error: 'not_found', message: 'Invitation not found' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        authReq.user.id,
+        'household_invitation_revoked',
+        { householdId, invitationId },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, id: invitationId });
+    } catch (error) {
+      logger.error({ err: error, step: 'household_revoke_error' }, 'Revoke household invitation failed');
+      res.status(500).json({ error: 'internal_error', message: 'Revoke household invitation failed' });
+    }
+  });
+
+  router.patch('/:householdId/members/:memberId', authenticateToken, validate(memberRoleSchema), async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { householdId, memberId } = req.params;
+      const result = await updateHouseholdMemberRole(householdId, authReq.user.id, memberId, req.body.role);
+      if (!result.updated && result.reason === 'forbidden') {
+        res.status(403).json({ error: 'forbidden', message: 'Only household owners can change roles' });
+        return;
+      }
+      if (!result.updated && result.reason === 'founder_only') {
+        res.status(403).json({ error: 'forbidden', message: 'Only the household founder can grant or revoke ownership' });
+        return;
+      }
+      if (!result.updated) {
+        res.status(404).json({ error: 'not_found', message: 'Member not found' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        authReq.user.id,
+        'household_member_role_changed',
+        { householdId, memberId, role: req.body.role },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, member: result.member });
+    } catch (error) {
+      logger.error({ err: error, step: 'household_member_update_error' }, 'Update household member failed');
+      res.status(500).json({ error: 'internal_error', message: 'Update household member failed' });
+    }
+  });
+
+  router.delete('/:householdId/members/:memberId', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { householdId, memberId } = req.params;
+      const result = await removeHouseholdMember(householdId, authReq.user.id, memberId);
+      if (!result.removed && (result.reason === 'forbidden' || result.reason === 'founder_only')) {
+        res.status(403).json({ error: 'forbidden', message: 'Not allowed to remove this member' });
+        return;
+      }
+      if (!result.removed) {
+        res.status(404).json({ error: 'not_found', message: 'Member not found' });
+        return;
+      }
+
+      await auditService.logUserAction(
+        authReq.user.id,
+        memberId === authReq.user.id ? 'household_left' : 'household_member_removed',
+        { householdId, memberId },
+        req.ip,
+        req.get('User-Agent') || undefined,
+      );
+      res.json({ success: true, id: memberId });
+    } catch (error) {
+      logger.error({ err: error, step: 'household_member_remove_error' }, 'Remove household member failed');
+      res.status(500).json({ error: 'internal_error', message: 'Remove household member failed' });
+    }
+  });
+
+  return router;
+};
@@ -1,7 +1,10 @@
-import { Request, Router } from 'express';
-import multer from 'multer';
+import { NextFunction, Request, Response, Router } from 'express';
+import { z } from 'zod';
 import { authenticateToken, AuthRequest } from '../middleware/authMiddleware';
-import { randomUUID } from 'crypto';
+import { imageUpload } from '../middleware/uploadMiddleware';
+import { requireUsageQuota } from '../middleware/usageQuotaMiddleware';
+import { validate, validateQuery } from '../middleware/validationMiddleware';
+import { createHash } from 'crypto';
 import { db, FieldValue, storage } from '../firebase';
 import {
   generateStyledPhoto,
@@ -10,14 +13,78 @@ import {
   generateCoupleStyledPhotoWithTemplate,
   generateWeddingStyledPhotoWithTemplate,
 } from '../server/bebek/services/geminiService';
+import { getChildForUser, getChildHouseholdId } from '../server/bebek/services/childService';
+import {
+  addAlbumItems,
+  createAlbum,
+  decodeHistoryCursor,
+  deleteAlbum,
+  getGeneratedRecordStoragePaths,
+  HISTORY_PAGE_MAX_LIMIT,
+  listAlbums,
+  listGenerationHistory,
+  MAX_ALBUM_ITEMS,
+  MAX_ALBUMS_PER_USER,
+  removeAlbumItem,
+  removeItemFromAlbums,
+  reorderAlbums,
+  setHistoryFavorite,
+  updateAlbum,
+} from '../server/bebek/services/generationHistoryService';
+import { listHouseholdMemberIds } from '../server/bebek/services/householdService';
+import {
+  enqueueStyleJob,
+  findStyleJobForRequest,
+  fingerprintStyleRequest,
+  getStyleJobForUser,
+  registerStyleJobHandler,
+  serializeStyleJob,
+  StyleJobError,
+  StyleJobHandler,
+  StyleJobSubmission,
+  styleJobExistsForRequest,
+} from '../server/bebek/services/styleJobService';
+import { UsageMetric, UsageQuota } from '../server/bebek/services/usageLimitService';
+import {
+  getCatalogStyle,
+  getPublicStyleCatalog,
+  listCatalogStyles,
+  STYLE_CATEGORIES,
+  StyleCatalogEntry,
+  StyleCategory,
+} from '../server/bebek/services/styleCatalogService';
+import { premiumService } from '../services/premiumService';
+import { config } from '../config';
 import { logger } from '../utils/logger';
 import { attachRouteLogger } from '../utils/routeLogger';
 
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: { fileSize: 12 * 1024 * 1024 },
+const dateTime = z.string().refine((value: string) => !Number.isNaN(Date.parse(value)), 'Invalid date');
+const historyItemIds = z.array(z.string().trim().min(1).max(128)).max(MAX_ALBUM_ITEMS);
+const albumName = z.string().trim().min(1, 'Album name is required').max(80, 'Album name too long');
+
+const historyQuerySchema = z.object({
+  child_id: z.string().optional(),
+  limit: z.string().regex(/^\d+$/, 'limit must be a positive integer')
+    .refine((value: string) => Number(value) >= 1 && Number(value) <= HISTORY_PAGE_MAX_LIMIT, `limit must be between 1 and ${HISTORY_PAGE_MAX_LIMIT}`)
+    .optional(),
+  cursor: z.string().optional(),
+  style_type: z.string().trim().min(1).max(40).optional(),
+  style_id: z.string().trim().min(1).max(40).optional(),
+  from: dateTime.optional(),
+  to: dateTime.optional(),
+  favorite: z.enum(['true', 'false']).optional(),
 });
 
+const favoriteSchema = z.object({ favorite: z.boolean() });
+const albumCreateSchema = z.object({ name: albumName, itemIds: historyItemIds.optional() });
+const albumUpdateSchema = z
+  .object({ name: albumName.optional(), itemIds: historyItemIds.optional() })
+  .refine((value: Record<string, unknown>) => Object.keys(value).length > 0, {
+    message: 'At least one field must be provided',
+  });
+const albumOrderSchema = z.object({ albumIds: z.array(z.string().min(1)).max(MAX_ALBUMS_PER_USER) });
+const albumItemsSchema = z.object({ itemIds: historyItemIds.min(1) });
+
 export const createStylesRouter = () => {
   const router = Router();
   attachRouteLogger(router, 'bebek-styles');
@@ -40,99 +107,15 @@ export const createStylesRouter = () => {
     return 'mp4';
   };
 
-  const LIFESTYLE_IDENTITY_SUFFIX =
-    'Use the uploaded baby photo as the ONLY identity reference. Keep the same baby face and identity exactly: face shape, eyes, nose, lips, skin tone, and baby proportions must stay the same. Preserve eye state exactly (open stays open, closed stays closed) and keep the same facial expression. Do not create a new baby. Place this same baby naturally into the requested scene and style. Ultra-realistic family lifestyle photography.';
-  const NEWBORN_IDENTITY_SUFFIX =
-    'Use the uploaded baby photo as the ONLY identity reference. Keep the same baby face and identity exactly: face shape, eyes, nose, lips, skin tone, and baby proportions must stay the same. Preserve eye state exactly (open stays open, closed stays closed) and keep the same facial expression. Do not create a new baby. Place this same baby naturally into the requested newborn setup and style. Ultra-realistic newborn photography.';
-  const STUDIO_IDENTITY_SUFFIX =
-    'Use the uploaded baby photo as the ONLY identity reference. Keep the same baby face and identity exactly: face shape, eyes, nose, lips, skin tone, and baby proportions must stay the same. Preserve eye state exactly (open stays open, closed stays closed) and keep the same facial expression. Do not create a new baby. Place this same baby naturally into the requested studio scene and style. Ultra-realistic newborn photography.';
-  const WEDDING_IDENTITY_SUFFIX =
-    'Use mother and father uploaded photos as the ONLY identity references. Keep both faces and identities exactly, preserve facial structure and skin tone, and place both naturally into the wedding template scene. Ultra-realistic wedding photography.';
-  const COUPLE_IDENTITY_SUFFIX =
-    'Use two uploaded person photos as the ONLY identity references. Keep both faces and identities exactly, preserve facial structure and skin tone, and place both naturally into the couple template scene. Ultra-realistic couple photography.';
   const FRAMING_SUFFIX =
     'Use medium-shot framing with camera slightly farther from subjects. Keep faces fully visible and sharp. Do not crop faces.';
 
-  const STYLE_PROMPT_BY_ID: Record<string, string> = {
-    l1: `Vertical 9:16 elegant family portrait with baby, luxury classic interior, neutral beige tones, soft cinematic lighting, parents wearing modern formal clothing, baby centered, high fashion lifestyle photography, photorealistic, editorial style ${LIFESTYLE_IDENTITY_SUFFIX}`,
-    l2: `Vertical portrait 9:16 happy family holding baby in modern living room, warm natural light, emotional candid moment, lifestyle photography, realistic skin tones, soft focus background, premium editorial look, cozy home atmosphere ${LIFESTYLE_IDENTITY_SUFFIX}`,
-    l3: `Vertical 9:16 baby in stroller with parents walking in colorful neon city night background, cinematic urban atmosphere, glowing lights, realistic street photography style, vibrant colors, shallow depth of field, modern lifestyle aesthetic ${LIFESTYLE_IDENTITY_SUFFIX}`,
-    l4: `Vertical portrait 9:16 mother holding baby while sitting at a stylish cafe table, warm natural light, modern urban lifestyle photography, cinematic depth of field, realistic skin tones ${LIFESTYLE_IDENTITY_SUFFIX}`,
-    l5: `Vertical 9:16 baby walking with parent in a green park during golden hour sunset, cinematic warm lighting, lifestyle photography aesthetic, natural candid moment ${LIFESTYLE_IDENTITY_SUFFIX}`,
-    l6: `Vertical portrait baby walking with parents along a calm beach shoreline, soft pastel sunset sky, natural candid lifestyle photo, photorealistic, airy composition ${LIFESTYLE_IDENTITY_SUFFIX}`,
-    l7: `Vertical 9:16 baby sitting near glass balcony with city skyline background, modern apartment lifestyle, soft daylight, minimal luxury aesthetic ${LIFESTYLE_IDENTITY_SUFFIX}`,
-    l8: `Vertical 9:16 close-up baby and parent selfie style shot, handheld camera feeling, vlog lifestyle aesthetic, natural candid expression, cinematic mobile photography look ${LIFESTYLE_IDENTITY_SUFFIX}`,
-    l9: `Vertical 9:16 lifestyle family portrait with mother, father, toddler child and baby sitting together on a cozy sofa, modern Scandinavian living room, soft natural daylight, candid happy moment, ultra realistic photography, cinematic depth of field ${LIFESTYLE_IDENTITY_SUFFIX}`,
-    l10: `Vertical family lifestyle photo of parents walking in a green park holding toddler while baby is in stroller, golden hour sunlight, natural candid atmosphere, warm cinematic tones ${LIFESTYLE_IDENTITY_SUFFIX}`,
-    l11: `Vertical lifestyle family scene with parents sitting on floor playing with toddler while baby lies on soft blanket, bright playroom environment, cozy candid mood ${LIFESTYLE_IDENTITY_SUFFIX}`,
-    l12: `Vertical 9:16 family birthday celebration scene, baby near cake, parents and child smiling together, warm festive lighting, candid lifestyle photography ${LIFESTYLE_IDENTITY_SUFFIX}`,
-    s1: `Gokkusagi konseptinde profesyonel studio cekimi, temiz kompozisyon, vivid colors. ${STUDIO_IDENTITY_SUFFIX}`,
-    n1: `Vertical 9:16 newborn baby sleeping wrapped in deep navy swaddle, lying on a crescent moon prop with small star decorations, soft studio lighting, dreamy night sky background, professional newborn photography style, pastel cinematic tones, ultra realistic, cozy atmosphere ${NEWBORN_IDENTITY_SUFFIX}`,
-    n2: `Vertical portrait 9:16 newborn baby wrapped in white fabric, lying on fluffy soft white fur background, minimalistic newborn photography studio setup, soft diffused lighting, clean white aesthetic, photorealistic, gentle shadows, calm peaceful mood ${NEWBORN_IDENTITY_SUFFIX}`,
-    n3: `Vertical 9:16 sleeping newborn baby wrapped in beige blanket, warm cozy studio environment, soft neutral background tones, bakery-style warm aesthetic, natural soft light, realistic baby photography, gentle depth of field, peaceful mood ${NEWBORN_IDENTITY_SUFFIX}`,
-    n4: `Vertical 9:16 newborn baby sleeping wrapped in soft pastel fabric, lying on fluffy cloud-like pillows, dreamy soft studio lighting, minimal pastel background, professional newborn photography, ultra realistic skin detail, peaceful mood, shallow depth of field ${NEWBORN_IDENTITY_SUFFIX}`,
-    n5: `Vertical 9:16 newborn baby sleeping inside a soft floral nest, pastel flowers around, bright soft daylight studio lighting, spring aesthetic, ultra realistic newborn photography, gentle color palette ${NEWBORN_IDENTITY_SUFFIX}`,
-    n6: `Vertical portrait newborn baby wrapped in soft cream blanket, lying next to plush teddy bear, cozy warm studio environment, cinematic soft light, high detail newborn photography style ${NEWBORN_IDENTITY_SUFFIX}`,
-    n7: `Vertical 9:16 newborn baby sleeping on soft fabric with warm golden sunset lighting effect, cinematic glow, dreamy warm tones, realistic newborn portrait, professional studio composition ${NEWBORN_IDENTITY_SUFFIX}`,
-    n8: `Vertical newborn baby sleeping inside a small vintage basket, soft knitted blanket, warm neutral background, rustic newborn photography style, ultra detailed realistic baby portrait ${NEWBORN_IDENTITY_SUFFIX}`,
-    n9: `Vertical 9:16 newborn baby sleeping wrapped in deep navy fabric floating in a dreamy galaxy background, soft stars and nebula colors, cinematic cosmic lighting, ultra realistic newborn photography, magical atmosphere, high detail ${NEWBORN_IDENTITY_SUFFIX}`,
-    n10: `Vertical newborn baby sleeping on oversized plush toys, miniature toy world concept, colorful soft environment, dreamy cinematic lighting, ultra cute photorealistic newborn photography ${NEWBORN_IDENTITY_SUFFIX}`,
-    n11: `Vertical 9:16 newborn baby wrapped in pastel blanket floating with soft balloons, airy dreamy studio background, soft sunlight glow, high-end newborn photography style ${NEWBORN_IDENTITY_SUFFIX}`,
-    n12: `Vertical newborn baby sleeping on an open fairy tale book, magical soft glow, storybook fantasy style, warm cinematic lighting, whimsical newborn portrait ${NEWBORN_IDENTITY_SUFFIX}`,
-    n13: `Vertical 9:16 newborn baby sleeping on soft neutral desert-toned fabrics, minimal boho aesthetic, warm earthy colors, cinematic soft shadows, luxury newborn photography ${NEWBORN_IDENTITY_SUFFIX}`,
-    n14: `Vertical newborn baby styled as tiny astronaut, soft space-themed background, cinematic lighting, ultra cute futuristic newborn portrait, photorealistic ${NEWBORN_IDENTITY_SUFFIX}`,
-  };
-  const DEFAULT_VIDEO_REFERENCE_URL =
-    'https://firebasestorage.googleapis.com/v0/b/bebek-ai.firebasestorage.app/o/assets%2Fvideos%2Fucan.mp4?alt=media&token=2cfb0fc5-63aa-4a5c-9bea-51bfd78aeb28';
-  const VIDEO_REFERENCE_URL_BY_STYLE_ID: Record<string, string> = {
-    v1: 'https://firebasestorage.googleapis.com/v0/b/bebek-ai.firebasestorage.app/o/assets%2Fvideos%2Fguzeloyun.mp4?alt=media',
-    v2: 'https://firebasestorage.googleapis.com/v0/b/bebek-ai.firebasestorage.app/o/assets%2Fvideos%2Fhavada.mp4?alt=media',
-    v3: 'https://firebasestorage.googleapis.com/v0/b/bebek-ai.firebasestorage.app/o/assets%2Fvideos%2Foyun.mp4?alt=media',
-    v4: 'https://firebasestorage.googleapis.com/v0/b/bebek-ai.firebasestorage.app/o/assets%2Fvideos%2Fucan.mp4?alt=media&token=2cfb0fc5-63aa-4a5c-9bea-51bfd78aeb28',
-  };
-
-  const resolveStylePrompt = (styleId: string | null) => {
-    if (!styleId) return null;
-    const base = STYLE_PROMPT_BY_ID[styleId] || null;
-    if (!base) return null;
-    return `${base} ${FRAMING_SUFFIX}`;
-  };
-  const resolveVideoReferenceUrl = (styleId: string | null) => {
-    if (!styleId) return DEFAULT_VIDEO_REFERENCE_URL;
-    return VIDEO_REFERENCE_URL_BY_STYLE_ID[styleId] || DEFAULT_VIDEO_REFERENCE_URL;
-  };
+  const buildStylePrompt = (style: StyleCatalogEntry) =>
+    [style.prompt, style.identitySuffix, FRAMING_SUFFIX].filter(Boolean).join(' ');
+  // Used when a video request names no catalog style.
+  const DEFAULT_VIDEO_REFERENCE_PATH = 'assets/videos/ucan.mp4';
   const preview = (value: string | null | undefined, max = 220) =>
     value ? value.slice(0, max) : null;
-  const toWeddingTitle = (fileName: string) =>
-    fileName
-      .replace(/\.[^/.]+$/, '')
-      .replace(/[_-]+/g, ' ')
-      .trim() || 'Dugun Stili';
-  const WEDDING_TEMPLATE_KEY_BY_STYLE_ID: Record<string, string> = {
-    w1: 'bahcederomatiksarilmaaltinsaat',
-    w2: 'ciceklitakaltindaalinalinaromantikpoz',
-    w3: 'gelinarabadaniniyorvintagearaba',
-    w4: 'gunbatimindadenizkenariciceklitak',
-    w5: 'merdivendekiliseonu',
-    w6: 'pariseyfelkulesionundesiyahbeyaz',
-  };
-  const toCoupleTitle = (fileName: string) =>
-    fileName
-      .replace(/\.[^/.]+$/, '')
-      .replace(/[_-]+/g, ' ')
-      .trim() || 'Cift Cekimi';
-  const COUPLE_TEMPLATE_KEY_BY_STYLE_ID: Record<string, string> = {
-    c1: 'dramaticcloseupportrait',
-    c2: 'klasikkoltuk',
-    c3: 'kirmizielbise',
-    c4: 'kirmizigulbuketi',
-    c5: 'luxuryfloorpose',
-    c6: 'minimalkonseptkalpfon',
-    c7: 'modernminimalwhitestudio',
-    c8: 'standingpowercouple',
-    c9: 'windowlighteditorial',
-  };
-
   const normalizeKey = (value: string) =>
     value
       .replace(/ı/g, 'i')
@@ -196,16 +179,20 @@ export const createStylesRouter = () => {
     const slashIdx = parsed.lastIndexOf('/');
     const prefix = slashIdx >= 0 ? `${parsed.slice(0, slashIdx + 1)}` : '';
     const fileName = slashIdx >= 0 ? parsed.slice(slashIdx + 1) : parsed;
-    const targetKey = normalizeKey(fileName);
+    const stripExtension = (name: string) => name.replace(/\.[^/.]+$/, '');
+    const targetKey = normalizeKey(stripExtension(fileName));
 
-    if (!prefix) {
+    if (!prefix || !targetKey) {
       return null;
     }
 
+    // Uploaded asset names carry extensions and Turkish characters the catalog keys leave out.
     const [files] = await bucket.getFiles({ prefix });
     const matched = files.find((file: any) => {
       const name = file.name.slice(prefix.length);
-      return normalizeKey(name) === targetKey;
+      if (!name || name.endsWith('/')) return false;
+      const key = normalizeKey(stripExtension(name));
+      return key === targetKey || key.includes(targetKey) || targetKey.includes(key);
     });
     return matched?.name || null;
   };
@@ -291,148 +278,651 @@ export const createStylesRouter = () => {
     }
   };
 
-  const loadWeddingTemplateItems = async () => {
-    const bucket: any = storage.bucket();
-    const [files] = await bucket.getFiles({ prefix: 'assets/wedding/' });
-    const imageFiles = files.filter((file: any) => {
-      const lower = String(file.name || '').toLowerCase();
-      return (
-        lower.startsWith('assets/wedding/') &&
-        !lower.endsWith('/') &&
-        (lower.endsWith('.jpg') ||
-          lower.endsWith('.jpeg') ||
-          lower.endsWith('.png') ||
-          lower.endsWith('.webp'))
-      );
-    });
+  // Catalog asset paths may be plain URLs or storage paths; storage paths resolve to a signed URL.
+  const resolveReferenceAsset = async (assetPath: string) => {
+    const isUrl = assetPath.startsWith('http://') || assetPath.startsWith('https://');
+    if (isUrl && !resolveStorageObjectPath(assetPath)) {
+      return { storagePath: null, url: assetPath };
+    }
+    const storagePath = await resolveExistingTemplatePath(storage.bucket(), assetPath);
+    if (!storagePath) {
+      return null;
+    }
+    return { storagePath, url: await getSignedOrPublicUrl(storagePath) };
+  };
 
-    const filesWithKey = imageFiles.map((file: any) => {
-      const fileName = String(file.name).split('/').pop() || 'wedding.jpg';
-      return {
-        file,
-        fileName,
-        normalizedKey: normalizeKey(fileName),
-      };
-    });
-    const usedFileNames = new Set<string>();
-    const orderedKnown = Object.entries(WEDDING_TEMPLATE_KEY_BY_STYLE_ID)
-      .map(([styleId, templateKey]) => {
-        const matched = filesWithKey.find((item: { normalizedKey: string; file: any; fileName: string }) =>
-          item.normalizedKey.includes(templateKey) || templateKey.includes(item.normalizedKey),
-        );
-        if (!matched) {
+  const loadTemplateItems = async (category: 'wedding' | 'couple') => {
+    const styles = await listCatalogStyles(category);
+    const items = await Promise.all(
+      styles.map(async style => {
+        const asset = style.referenceAssetPath ? await resolveReferenceAsset(style.referenceAssetPath) : null;
+        if (!asset?.storagePath) {
+          logger.warn({ styleId: style.id, category }, 'Catalog template asset not found in storage');
           return null;
         }
-        usedFileNames.add(String(matched.file.name));
         return {
-          styleId,
-          file: matched.file,
-          fileName: matched.fileName,
-        };
-      })
-      .filter(Boolean) as Array<{ styleId: string; file: any; fileName: string }>;
-
-    const fallbackUnknown = filesWithKey
-      .filter((item: { file: any; fileName: string }) => !usedFileNames.has(String(item.file.name)))
-      .sort(
-        (a: { file: any; fileName: string }, b: { file: any; fileName: string }) =>
-          String(a.file.name).localeCompare(String(b.file.name)),
-      )
-      .map((item: { file: any; fileName: string }, index: number) => ({
-        styleId: `w_extra_${index + 1}`,
-        file: item.file,
-        fileName: item.fileName,
-      }));
-
-    const finalOrder = [...orderedKnown, ...fallbackUnknown];
-    const items = await Promise.all(
-      finalOrder.map(async ({ styleId, file, fileName }) => {
-        const imageUrl = await getSignedOrPublicUrl(file.name);
-        return {
-          id: styleId,
-          styleId,
-          title: toWeddingTitle(fileName),
-          fileName,
-          storagePath: file.name,
-          imageUrl,
-          prompt: `${toWeddingTitle(fileName)} dugun konsepti, premium kompozisyon. ${FRAMING_SUFFIX} ${WEDDING_IDENTITY_SUFFIX}`,
+          id: style.id,
+          styleId: style.id,
+          title: style.titles.tr,
+          titles: style.titles,
+          premium: style.premium,
+          fileName: asset.storagePath.split('/').pop() || asset.storagePath,
+          storagePath: asset.storagePath,
+          imageUrl: asset.url,
+          prompt: buildStylePrompt(style),
         };
       }),
     );
-    return items;
+    return items.filter((item): item is NonNullable<typeof item> => item !== null);
   };
-  const loadCoupleTemplateItems = async () => {
+
+  // Premium catalog styles are only generated for users with an active entitlement.
+  const rejectPremiumStyle = async (res: Response, userId: string, style: StyleCatalogEntry) => {
+    if (!style.premium || await premiumService.hasActivePremium(userId)) {
+      return false;
+    }
+    res.status(403).json({ error: 'premium_required', message: 'This style requires an active premium subscription' });
+    return true;
+  };
+
+  // Generations tagged with a child_id must target a child the caller can edit in their household.
+  const authorizeChildTarget = async (req: Request, res: Response, next: NextFunction) => {
+    const authReq = req as AuthRequest;
+    const childId = typeof req.body?.child_id === 'string' ? req.body.child_id.trim() : '';
+    if (!authReq.user || !childId) {
+      next();
+      return;
+    }
+    try {
+      const access = await getChildForUser(authReq.user.id, childId, 'editor');
+      if (access.reason === 'not_found') {
+        res.status(404).json({ error: 'not_found', message: 'Child not found' });
+        return;
+      }
+      if (access.reason === 'forbidden') {
+        res.status(403).json({ error: 'forbidden', message: 'Child does not belong to user' });
+        return;
+      }
+      next();
+    } catch (error) {
+      logger.error({ err: error, userId: authReq.user.id, childId }, 'Style child access check failed');
+      res.status(500).json({ error: 'internal_error', message: 'Child access check failed' });
+    }
+  };
+
+  // Retries of a request_id that already has a job are answered from it and are not charged again.
+  const chargeUsage = (metric: UsageMetric) =>
+    requireUsageQuota(metric, {
+      skip: req => {
+        const requestId = typeof req.body?.request_id === 'string' ? req.body.request_id : (req.header('x-request-id') || null);
+        return styleJobExistsForRequest(req.user!.id, requestId);
+      },
+    });
+
+  // Generation runs in the style job worker. Handlers use the job id as the generated record id,
+  // so a retried attempt overwrites its own output instead of leaving duplicates behind.
+  const runPhotoJob: StyleJobHandler = async job => {
+    const input = job.input as { inputPath: string; mimeType: string; prompt: string; model: string | null };
     const bucket: any = storage.bucket();
-    const [files] = await bucket.getFiles({ prefix: 'assets/cift_cekimi/' });
-    const imageFiles = files.filter((file: any) => {
-      const lower = String(file.name || '').toLowerCase();
-      return (
-        lower.startsWith('assets/cift_cekimi/') &&
-        !lower.endsWith('/') &&
-        (lower.endsWith('.jpg') ||
-          lower.endsWith('.jpeg') ||
-          lower.endsWith('.png') ||
-          lower.endsWith('.webp'))
-      );
+    const [inputBuffer] = await bucket.file(input.inputPath).download();
+
+    const generated = await generateStyledPhoto({
+      imageBase64: inputBuffer.toString('base64'),
+      mimeType: input.mimeType,
+      prompt: input.prompt,
+      model: input.model || undefined,
     });
 
-    const filesWithKey = imageFiles.map((file: any) => {
-      const fileName = String(file.name).split('/').pop() || 'couple.jpg';
-      return {
-        file,
-        fileName,
-        normalizedKey: normalizeKey(fileName),
-      };
+    logger.info({
+      jobId: job.id,
+      requestId: job.requestId,
+      step: 'photo_generate_provider_completed',
+      userId: job.userId,
+      styleId: job.styleId,
+      outputMimeType: generated.mimeType || null,
+      outputBase64Length: generated.data?.length || 0,
+    }, 'Style photo generation provider completed');
+
+    // Job results are stored in Firestore, so the image is handed back as a storage URL, not inline.
+    const generatedPath = `users/${job.userId}/generated/photo/${job.id}.${extFromMime(generated.mimeType || 'image/png')}`;
+    await bucket.file(generatedPath).save(Buffer.from(generated.data, 'base64'), {
+      contentType: generated.mimeType || 'image/png',
+      resumable: false,
+      metadata: { cacheControl: 'public,max-age=31536000' },
     });
-    const usedFileNames = new Set<string>();
-    const orderedKnown = Object.entries(COUPLE_TEMPLATE_KEY_BY_STYLE_ID)
-      .map(([styleId, templateKey]) => {
-        const matched = filesWithKey.find((item: { normalizedKey: string; file: any; fileName: string }) =>
-          item.normalizedKey.includes(templateKey) || templateKey.includes(item.normalizedKey),
-        );
-        if (!matched) {
-          return null;
-        }
-        usedFileNames.add(String(matched.file.name));
-        return {
-          styleId,
-          file: matched.file,
-          fileName: matched.fileName,
-        };
-      })
-      .filter(Boolean) as Array<{ styleId: string; file: any; fileName: string }>;
-
-    const fallbackUnknown = filesWithKey
-      .filter((item: { file: any; fileName: string }) => !usedFileNames.has(String(item.file.name)))
-      .sort(
-        (a: { file: any; fileName: string }, b: { file: any; fileName: string }) =>
-          String(a.file.name).localeCompare(String(b.file.name)),
-      )
-      .map((item: { file: any; fileName: string }, index: number) => ({
-        styleId: `c_extra_${index + 1}`,
-        file: item.file,
-        fileName: item.fileName,
-      }));
-
-    const finalOrder = [...orderedKnown, ...fallbackUnknown];
-    const items = await Promise.all(
-      finalOrder.map(async ({ styleId, file, fileName }) => {
-        const imageUrl = await getSignedOrPublicUrl(file.name);
-        return {
-          id: styleId,
-          styleId,
-          title: toCoupleTitle(fileName),
-          fileName,
-          storagePath: file.name,
-          imageUrl,
-          prompt: `${toCoupleTitle(fileName)} cift cekimi konsepti, premium kompozisyon. ${FRAMING_SUFFIX} ${COUPLE_IDENTITY_SUFFIX}`,
-        };
-      }),
+    const outputUrl = await getSignedOrPublicUrl(generatedPath);
+
+    return {
+      request_id: job.requestId,
+      style_id: job.styleId,
+      prompt: input.prompt,
+      output: {
+        path: generatedPath,
+        url: outputUrl,
+        mimeType: generated.mimeType || 'image/png',
+      },
+      provider_text: generated.text || null,
+    };
+  };
+
+  const runNewbornJob: StyleJobHandler = async job => {
+    const input = job.input as {
+      userInputPath: string | null;
+      userImageSource: string | null;
+      mimeType: string;
+      prompt: string;
+      childId: string | null;
+      model: string | null;
+    };
+    const { userId, styleId, requestId } = job;
+    const bucket: any = storage.bucket();
+    let userMimeType = input.mimeType;
+    let userInputPath = input.userInputPath || '';
+    let userInputBuffer: Buffer | null = null;
+
+    if (input.userInputPath) {
+      [userInputBuffer] = await bucket.file(input.userInputPath).download();
+    } else if (input.userImageSource) {
+      const userResolved = await downloadImageFromSource(bucket, input.userImageSource);
+      userMimeType = userResolved.mimeType || 'image/jpeg';
+      userInputBuffer = userResolved.buffer;
+      userInputPath = userResolved.objectPath || `users/${userId}/uploads/newborn/${Date.parse(job.createdAt)}-remote.jpg`;
+    }
+
+    if (!userInputBuffer) {
+      logger.warn({
+        jobId: job.id,
+        requestId,
+        step: 'newborn_generate_rejected_unresolved_image',
+        userId,
+        styleId,
+        userImageSourcePreview: preview(input.userImageSource),
+      }, 'Newborn generation rejected because user image could not be resolved');
+      throw new StyleJobError('invalid_request', 'User image could not be loaded');
+    }
+
+    logger.info({
+      jobId: job.id,
+      userId,
+      styleId,
+      requestId,
+      promptForGenerationLength: input.prompt.length,
+      promptForGenerationPreview: input.prompt.slice(0, 220),
+      model: input.model || process.env.FAL_IMAGE_MODEL || 'fal-ai/bytedance/seedream/v4/edit',
+      userImagePath: userInputPath,
+      userImageBytes: userInputBuffer.length,
+    }, 'Newborn generation request prepared');
+
+    const generated = await generateStyledPhotoWithTemplate({
+      userImageBase64: userInputBuffer.toString('base64'),
+      userMimeType,
+      prompt: input.prompt,
+      model: input.model || undefined,
+    });
+
+    const generatedExt = extFromMime(generated.mimeType || 'image/png');
+    const generatedId = job.id;
+    const generatedPath = `users/${userId}/generated/newborn/${generatedId}.${generatedExt}`;
+    const generatedBuffer = Buffer.from(generated.data, 'base64');
+
+    await bucket.file(generatedPath).save(generatedBuffer, {
+      contentType: generated.mimeType || 'image/png',
+      resumable: false,
+      metadata: {
+        cacheControl: 'public,max-age=31536000',
+      },
+    });
+
+    const inputUrl = await getSignedOrPublicUrl(userInputPath);
+    const outputUrl = await getSignedOrPublicUrl(generatedPath);
+
+    const recordId = generatedId;
+    await db
+      .collection('users')
+      .doc(userId)
+      .collection('generatedPhotos')
+      .doc(recordId)
+      .set({
+        id: recordId,
+        styleType: 'yenidogan',
+        styleId,
+        prompt: input.prompt,
+        requestId,
+        childId: input.childId,
+        inputImagePath: userInputPath,
+        inputImageUrl: inputUrl,
+        outputImagePath: generatedPath,
+        outputImageUrl: outputUrl,
+        outputMimeType: generated.mimeType || 'image/png',
+        providerText: generated.text || null,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+    logger.info({
+      jobId: job.id,
+      userId,
+      styleId,
+      requestId,
+      generatedId: recordId,
+      outputPath: generatedPath,
+      outputBytes: generatedBuffer.length,
+    }, 'Newborn generation completed and persisted');
+
+    return {
+      request_id: requestId,
+      style_id: styleId,
+      user_id: userId,
+      prompt: input.prompt,
+      input: {
+        path: userInputPath,
+        url: inputUrl,
+      },
+      output: {
+        id: recordId,
+        path: generatedPath,
+        url: outputUrl,
+        mimeType: generated.mimeType || 'image/png',
+      },
+      provider_text: generated.text || null,
+    };
+  };
+
+  const runWeddingJob: StyleJobHandler = async job => {
+    const input = job.input as {
+      motherImageSource: string;
+      fatherImageSource: string;
+      templatePath: string;
+      prompt: string;
+      childId: string | null;
+      model: string | null;
+    };
+    const { userId, styleId, requestId } = job;
+    const bucket: any = storage.bucket();
+    const motherResolved = await downloadImageFromSource(bucket, input.motherImageSource);
+    const fatherResolved = await downloadImageFromSource(bucket, input.fatherImageSource);
+    const now = Date.parse(job.createdAt);
+    const motherExt = extFromMime(motherResolved.mimeType || 'image/jpeg');
+    const fatherExt = extFromMime(fatherResolved.mimeType || 'image/jpeg');
+    const motherInputPath = `users/${userId}/uploads/wedding/${now}-mother.${motherExt}`;
+    const fatherInputPath = `users/${userId}/uploads/wedding/${now}-father.${fatherExt}`;
+
+    await bucket.file(motherInputPath).save(motherResolved.buffer, {
+      contentType: motherResolved.mimeType || 'image/jpeg',
+      resumable: false,
+      metadata: { cacheControl: 'public,max-age=31536000' },
+    });
+    await bucket.file(fatherInputPath).save(fatherResolved.buffer, {
+      contentType: fatherResolved.mimeType || 'image/jpeg',
+      resumable: false,
+      metadata: { cacheControl: 'public,max-age=31536000' },
+    });
+    const motherInputUrl = await getSignedOrPublicUrl(motherInputPath);
+    const fatherInputUrl = await getSignedOrPublicUrl(fatherInputPath);
+    const templateUrl = await getSignedOrPublicUrl(input.templatePath);
+
+    const generated = await generateWeddingStyledPhotoWithTemplate({
+      motherImageUrl: motherInputUrl,
+      fatherImageUrl: fatherInputUrl,
+      templateImageUrl: templateUrl,
+      prompt: input.prompt,
+      model: input.model || undefined,
+    });
+
+    const generatedExt = extFromMime(generated.mimeType || 'image/png');
+    const generatedId = job.id;
+    const generatedPath = `users/${userId}/generated/wedding/${generatedId}.${generatedExt}`;
+    const generatedBuffer = Buffer.from(generated.data, 'base64');
+    await bucket.file(generatedPath).save(generatedBuffer, {
+      contentType: generated.mimeType || 'image/png',
+      resumable: false,
+      metadata: { cacheControl: 'public,max-age=31536000' },
+    });
+
+    const outputUrl = await getSignedOrPublicUrl(generatedPath);
+
+    await db
+      .collection('users')
+      .doc(userId)
+      .collection('generatedPhotos')
+      .doc(generatedId)
+      .set({
+        id: generatedId,
+        styleType: 'wedding',
+        styleId,
+        requestId,
+        childId: input.childId,
+        prompt: input.prompt,
+        inputMotherImagePath: motherInputPath,
+        inputMotherImageUrl: motherInputUrl,
+        inputFatherImagePath: fatherInputPath,
+        inputFatherImageUrl: fatherInputUrl,
+        templateImagePath: input.templatePath,
+        templateImageUrl: templateUrl,
+        outputImagePath: generatedPath,
+        outputImageUrl: outputUrl,
+        outputMimeType: generated.mimeType || 'image/png',
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+    logger.info(
+      { jobId: job.id, userId, styleId, generatedId, requestId, step: 'wedding_generate_success' },
+      'Wedding style generation completed',
+    );
+    return {
+      request_id: requestId,
+      style_id: styleId,
+      user_id: userId,
+      prompt: input.prompt,
+      input: {
+        mother_path: motherInputPath,
+        mother_url: motherInputUrl,
+        father_path: fatherInputPath,
+        father_url: fatherInputUrl,
+        template_path: input.templatePath,
+        template_url: templateUrl,
+      },
+      output: {
+        id: generatedId,
+        path: generatedPath,
+        url: outputUrl,
+        mimeType: generated.mimeType || 'image/png',
+      },
+    };
+  };
+
+  const runCoupleJob: StyleJobHandler = async job => {
+    const input = job.input as {
+      firstImageSource: string;
+      secondImageSource: string;
+      templateSource: string;
+      templatePath: string | null;
+      prompt: string;
+      childId: string | null;
+      model: string | null;
+    };
+    const { userId, styleId, requestId } = job;
+    const bucket: any = storage.bucket();
+    const firstResolved = await downloadImageFromSource(bucket, input.firstImageSource);
+    const secondResolved = await downloadImageFromSource(bucket, input.secondImageSource);
+    const now = Date.parse(job.createdAt);
+    const firstExt = extFromMime(firstResolved.mimeType || 'image/jpeg');
+    const secondExt = extFromMime(secondResolved.mimeType || 'image/jpeg');
+    const firstInputPath = `users/${userId}/uploads/cift_cekimi/${now}-first.${firstExt}`;
+    const secondInputPath = `users/${userId}/uploads/cift_cekimi/${now}-second.${secondExt}`;
+
+    await bucket.file(firstInputPath).save(firstResolved.buffer, {
+      contentType: firstResolved.mimeType || 'image/jpeg',
+      resumable: false,
+      metadata: { cacheControl: 'public,max-age=31536000' },
+    });
+    await bucket.file(secondInputPath).save(secondResolved.buffer, {
+      contentType: secondResolved.mimeType || 'image/jpeg',
+      resumable: false,
+      metadata: { cacheControl: 'public,max-age=31536000' },
+    });
+    const firstInputUrl = await getSignedOrPublicUrl(firstInputPath);
+    const secondInputUrl = await getSignedOrPublicUrl(secondInputPath);
+    const templateStoragePathForModel = resolveStorageObjectPath(input.templateSource);
+    const templateModelUrl = templateStoragePathForModel
+      ? await getSignedOrPublicUrl(templateStoragePathForModel)
+      : input.templateSource;
+
+    const generated = await generateCoupleStyledPhotoWithTemplate({
+      firstImageUrl: firstInputUrl,
+      secondImageUrl: secondInputUrl,
+      templateImageUrl: templateModelUrl,
+      prompt: input.prompt,
+      model: input.model || undefined,
+    });
+
+    const generatedExt = extFromMime(generated.mimeType || 'image/png');
+    const generatedId = job.id;
+    const generatedPath = `users/${userId}/generated/cift_cekimi/${generatedId}.${generatedExt}`;
+    const generatedBuffer = Buffer.from(generated.data, 'base64');
+    await bucket.file(generatedPath).save(generatedBuffer, {
+      contentType: generated.mimeType || 'image/png',
+      resumable: false,
+      metadata: { cacheControl: 'public,max-age=31536000' },
+    });
+
+    const outputUrl = await getSignedOrPublicUrl(generatedPath);
+    const templateStoragePath = input.templatePath || templateStoragePathForModel || null;
+    const templateUrl = templateStoragePath ? await getSignedOrPublicUrl(templateStoragePath) : input.templateSource;
+
+    await db
+      .collection('users')
+      .doc(userId)
+      .collection('generatedPhotos')
+      .doc(generatedId)
+      .set({
+        id: generatedId,
+        styleType: 'cift_cekimi',
+        styleId,
+        requestId,
+        childId: input.childId,
+        prompt: input.prompt,
+        inputFirstImagePath: firstInputPath,
+        inputFirstImageUrl: firstInputUrl,
+        inputSecondImagePath: secondInputPath,
+        inputSecondImageUrl: secondInputUrl,
+        templateImagePath: templateStoragePath,
+        templateImageUrl: templateUrl,
+        outputImagePath: generatedPath,
+        outputImageUrl: outputUrl,
+        outputMimeType: generated.mimeType || 'image/png',
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+    logger.info(
+      { jobId: job.id, userId, styleId, generatedId, requestId, step: 'couple_generate_success' },
+      'Couple style generation completed',
     );
-    return items;
+    return {
+      request_id: requestId,
+      style_id: styleId,
+      user_id: userId,
+      prompt: input.prompt,
+      input: {
+        first_path: firstInputPath,
+        first_url: firstInputUrl,
+        second_path: secondInputPath,
+        second_url: secondInputUrl,
+        template_path: templateStoragePath,
+        template_url: templateUrl,
+      },
+      output: {
+        id: generatedId,
+        path: generatedPath,
+        url: outputUrl,
+        mimeType: generated.mimeType || 'image/png',
+      },
+    };
   };
 
-  router.post('/generate-photo', authenticateToken, upload.single('image'), async (req, res) => {
+  const runVideoJob: StyleJobHandler = async job => {
+    const input = job.input as {
+      userImageSource: string;
+      referenceVideoUrl: string;
+      childId: string | null;
+      model: string | null;
+    };
+    const { userId, styleId, requestId } = job;
+
+    const providerResult = await generateStyledVideoWithVeo({
+      styleId,
+      userImageUrl: input.userImageSource,
+      referenceVideoUrl: input.referenceVideoUrl,
+      requestId,
+      model: input.model || undefined,
+    });
+
+    logger.info({
+      jobId: job.id,
+      requestId,
+      step: 'video_generate_provider_completed',
+      styleId,
+      usedFallback: providerResult.usedFallback,
+      providerStatus: providerResult.providerStatus,
+      outputVideoUrlPreview: preview(providerResult.outputVideoUrl),
+    }, 'Video generation provider step completed');
+
+    const generatedId = job.id;
+    const inputPath =
+      resolveStorageObjectPath(input.userImageSource) || `users/${userId}/uploads/video/${Date.parse(job.createdAt)}-remote.jpg`;
+    const bucket: any = storage.bucket();
+    let outputVideoUrl = providerResult.outputVideoUrl;
+    let outputVideoPath: string | null = null;
+    let outputMimeType = 'video/mp4';
+
+    // When provider returns a real generated video file, persist it under user storage.
+    if (!providerResult.usedFallback) {
+      const downloadedVideo = await downloadVideoFromSource(providerResult.outputVideoUrl);
+      outputMimeType = downloadedVideo.mimeType || 'video/mp4';
+      const videoExt = extFromVideoMime(outputMimeType);
+      outputVideoPath = `users/${userId}/generated/video/${generatedId}.${videoExt}`;
+
+      await bucket.file(outputVideoPath).save(downloadedVideo.buffer, {
+        contentType: outputMimeType,
+        resumable: false,
+        metadata: {
+          cacheControl: 'public,max-age=31536000',
+        },
+      });
+      outputVideoUrl = await getSignedOrPublicUrl(outputVideoPath);
+
+      logger.info({
+        jobId: job.id,
+        requestId,
+        step: 'video_generate_output_uploaded',
+        generatedId,
+        outputVideoPath,
+        outputBytes: downloadedVideo.buffer.length,
+        outputMimeType,
+      }, 'Generated video uploaded to user storage');
+    }
+
+    await db
+      .collection('users')
+      .doc(userId)
+      .collection('generatedPhotos')
+      .doc(generatedId)
+      .set({
+        id: generatedId,
+        styleType: 'video',
+        styleId,
+        requestId,
+        childId: input.childId,
+        inputImagePath: inputPath,
+        inputImageUrl: input.userImageSource,
+        outputVideoUrl,
+        outputVideoPath,
+        outputImageUrl: null,
+        outputMimeType,
+        providerText: providerResult.providerText || null,
+        providerStatus: providerResult.providerStatus || null,
+        providerRaw: providerResult.providerRaw || null,
+        usedFallback: providerResult.usedFallback,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+    logger.info({
+      jobId: job.id,
+      requestId,
+      step: 'video_generate_persisted',
+      userId,
+      styleId,
+      generatedId,
+      inputPath,
+      outputVideoPath,
+      usedFallback: providerResult.usedFallback,
+    }, 'Video generation result persisted');
+
+    return {
+      request_id: requestId,
+      style_id: styleId,
+      user_id: userId,
+      input: {
+        path: inputPath,
+        url: input.userImageSource,
+      },
+      output: {
+        id: generatedId,
+        path: outputVideoPath,
+        url: outputVideoUrl,
+        mimeType: outputMimeType,
+      },
+      provider_text: providerResult.providerText || null,
+    };
+  };
+
+  registerStyleJobHandler('photo', runPhotoJob);
+  registerStyleJobHandler('newborn', runNewbornJob);
+  registerStyleJobHandler('wedding', runWeddingJob);
+  registerStyleJobHandler('couple', runCoupleJob);
+  registerStyleJobHandler('video', runVideoJob);
+
+  const hashUpload = (file: Express.Multer.File) => createHash('sha256').update(file.buffer).digest('hex');
+
+  // The unit this request was charged, recorded on the job so a generation that fails for good is not billed.
+  const chargedUsage = (res: Response) => {
+    const quota = res.locals.usageQuota as UsageQuota | undefined;
+    return quota ? { metric: quota.metric, dateKey: quota.dateKey } : null;
+  };
+
+  // request_id doubles as an idempotency key: a retry gets the original job back (200 once it has
+  // finished) and reusing the key for a different payload is rejected.
+  const respondWithJob = (res: Response, submission: StyleJobSubmission) => {
+    if (submission.reason === 'conflict') {
+      res.status(409).json({
+        error: 'idempotency_conflict',
+        message: 'request_id was already used for a different generation request',
+      });
+      return;
+    }
+    const { job, replayed } = submission;
+    if (replayed) {
+      res.set('Idempotent-Replayed', 'true');
+    }
+    const finished = job.status === 'succeeded' || job.status === 'failed';
+    res.status(replayed && finished ? 200 : 202).json({
+      request_id: job.requestId,
+      style_id: job.styleId,
+      jobId: job.id,
+      job: serializeStyleJob(job),
+    });
+  };
+
+  // Public so the app can render the style picker before sign-in. Clients revalidate with
+  // If-None-Match and get a 304 until the catalog changes.
+  router.get('/catalog', async (req, res) => {
+    try {
+      const category = typeof req.query.category === 'string' ? req.query.category : undefined;
+      if (category && !STYLE_CATEGORIES.includes(category as StyleCategory)) {
+        res.status(400).json({ error: 'invalid_request', message: `Unknown category: ${category}` });
+        return;
+      }
+
+      const body = JSON.stringify(await getPublicStyleCatalog(category as StyleCategory | undefined));
+      const etag = `"${createHash('sha256').update(body).digest('hex').slice(0, 32)}"`;
+      res.set('ETag', etag);
+      res.set('Cache-Control', `public, max-age=${config.styleCatalog.cacheTtlSec}`);
+      const ifNoneMatch = req.get('If-None-Match') || '';
+      if (ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag)) {
+        res.status(304).end();
+        return;
+      }
+      res.type('application/json').send(body);
+    } catch (error) {
+      logger.error({ err: error, step: 'style_catalog_list_error' }, 'Failed to load style catalog');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to load style catalog' });
+    }
+  });
+
+  router.post('/generate-photo', authenticateToken, imageUpload.single('image'), chargeUsage('photo'), async (req, res) => {
     try {
       const authReq = req as AuthRequest;
       const fileRequest = req as Request & { file?: Express.Multer.File };
@@ -441,17 +931,18 @@ export const createStylesRouter = () => {
         return;
       }
 
+      const userId = authReq.user.id;
       const styleId = typeof req.body?.style_id === 'string' ? req.body.style_id : null;
       const requestId = typeof req.body?.request_id === 'string'
         ? req.body.request_id
         : (req.header('x-request-id') || null);
       const requestedModel = typeof req.body?.model === 'string' ? req.body.model : undefined;
-      const stylePrompt = resolveStylePrompt(styleId);
+      const style = await getCatalogStyle(styleId, ['lifestyle', 'studio', 'newborn']);
 
       logger.info({
         requestId,
         step: 'photo_generate_request_received',
-        userId: authReq.user.id,
+        userId,
         styleId,
         hasImageFile: Boolean(fileRequest.file),
         imageMimeType: fileRequest.file?.mimetype || null,
@@ -463,17 +954,17 @@ export const createStylesRouter = () => {
         logger.warn({
           requestId,
           step: 'photo_generate_rejected_missing_image',
-          userId: authReq.user.id,
+          userId,
           styleId,
         }, 'Style photo generation rejected due to missing image');
         res.status(400).json({ error: 'invalid_request', message: 'image file is required' });
         return;
       }
-      if (!stylePrompt) {
+      if (!style) {
         logger.warn({
           requestId,
           step: 'photo_generate_rejected_invalid_style',
-          userId: authReq.user.id,
+          userId,
           styleId,
         }, 'Style photo generation rejected due to invalid style id');
         res.status(400).json({
@@ -483,50 +974,52 @@ export const createStylesRouter = () => {
         return;
       }
 
-      const generated = await generateStyledPhoto({
-        imageBase64: fileRequest.file.buffer.toString('base64'),
-        mimeType: fileRequest.file.mimetype || 'image/jpeg',
-        prompt: stylePrompt,
-        model: requestedModel,
+      const fingerprint = fingerprintStyleRequest('photo', {
+        styleId,
+        model: requestedModel || null,
+        image: hashUpload(fileRequest.file),
+      });
+      const previous = await findStyleJobForRequest(userId, requestId, fingerprint);
+      if (previous) {
+        respondWithJob(res, previous);
+        return;
+      }
+      if (await rejectPremiumStyle(res, userId, style)) {
+        return;
+      }
+
+      // The upload is kept in storage so the job can run (or run again) after this request ends.
+      const mimeType = fileRequest.file.mimetype || 'image/jpeg';
+      const uploadName = sanitizeFilename(fileRequest.file.originalname || `user.${extFromMime(mimeType)}`);
+      const inputPath = `users/${userId}/uploads/photo/${Date.now()}-${uploadName}`;
+      const bucket: any = storage.bucket();
+      await bucket.file(inputPath).save(fileRequest.file.buffer, {
+        contentType: mimeType,
+        resumable: false,
+        metadata: { cacheControl: 'public,max-age=31536000' },
       });
 
-      logger.info({
-        requestId,
-        step: 'photo_generate_provider_completed',
-        userId: authReq.user.id,
+      const submission = await enqueueStyleJob({
+        userId,
+        kind: 'photo',
         styleId,
-        outputMimeType: generated.mimeType || null,
-        outputBase64Length: generated.data?.length || 0,
-      }, 'Style photo generation provider completed');
-
-      res.json({
-        request_id: requestId,
-        style_id: styleId,
-        prompt: stylePrompt,
-        image: {
-          data: generated.data,
-          mimeType: generated.mimeType,
-        },
-        provider_text: generated.text || null,
+        requestId,
+        fingerprint,
+        usage: chargedUsage(res),
+        input: { inputPath, mimeType, prompt: buildStylePrompt(style), model: requestedModel || style.model },
       });
+      respondWithJob(res, submission);
     } catch (error) {
       logger.error({
         err: error,
         step: 'photo_generate_failed',
         requestId: typeof req.body?.request_id === 'string' ? req.body.request_id : (req.header('x-request-id') || null),
-      }, 'Style photo generation failed');
-      const message = (error as Error)?.message || 'Style photo generation failed';
-      const lowered = message.toLowerCase();
-      const isConfigIssue = lowered.includes('gemini_api_key') || lowered.includes('fal_key');
-      const status = isConfigIssue ? 503 : 500;
-      res.status(status).json({
-        error: isConfigIssue ? 'service_unavailable' : 'internal_error',
-        message,
-      });
+      }, 'Style photo generation could not be queued');
+      res.status(500).json({ error: 'internal_error', message: 'Style photo generation could not be queued' });
     }
   });
 
-  router.post('/newborn/generate-photo', authenticateToken, upload.single('image'), async (req, res) => {
+  router.post('/newborn/generate-photo', authenticateToken, imageUpload.single('image'), authorizeChildTarget, chargeUsage('photo'), async (req, res) => {
     try {
       const authReq = req as AuthRequest;
       const fileRequest = req as Request & { file?: Express.Multer.File };
@@ -538,7 +1031,7 @@ export const createStylesRouter = () => {
 
       const userId = authReq.user.id;
       const styleId = typeof req.body?.style_id === 'string' ? req.body.style_id : null;
-      const baseStylePrompt = resolveStylePrompt(styleId);
+      const style = await getCatalogStyle(styleId, ['newborn']);
       const userImageSource =
         typeof req.body?.user_image_url === 'string'
           ? req.body.user_image_url
@@ -559,7 +1052,7 @@ export const createStylesRouter = () => {
         model: requestedModel || process.env.FAL_IMAGE_MODEL || 'fal-ai/bytedance/seedream/v4/edit',
       }, 'Newborn generation request received');
 
-      if (!styleId || !styleId.startsWith('n') || !baseStylePrompt) {
+      if (!style) {
         logger.warn({
           requestId,
           step: 'newborn_generate_rejected_invalid_style',
@@ -583,19 +1076,32 @@ export const createStylesRouter = () => {
         return;
       }
 
-      const bucket: any = storage.bucket();
-      const now = Date.now();
-      let userMimeType = 'image/jpeg';
-      let userInputPath = '';
-      let userInputBuffer: Buffer | null = null;
+      const childId = typeof req.body?.child_id === 'string' ? req.body.child_id : null;
+      const fingerprint = fingerprintStyleRequest('newborn', {
+        styleId,
+        childId,
+        model: requestedModel || null,
+        image: fileRequest.file ? hashUpload(fileRequest.file) : null,
+        userImageSource: fileRequest.file ? null : userImageSource,
+      });
+      const previous = await findStyleJobForRequest(userId, requestId, fingerprint);
+      if (previous) {
+        respondWithJob(res, previous);
+        return;
+      }
+      if (await rejectPremiumStyle(res, userId, style)) {
+        return;
+      }
 
+      let userMimeType = 'image/jpeg';
+      let userInputPath: string | null = null;
       if (fileRequest.file) {
         userMimeType = fileRequest.file.mimetype || 'image/jpeg';
         const userExt = extFromMime(userMimeType);
         const uploadName = sanitizeFilename(fileRequest.file.originalname || `user.${userExt}`);
-        userInputPath = `users/${userId}/uploads/newborn/${now}-${uploadName}`;
-        userInputBuffer = fileRequest.file.buffer;
+        userInputPath = `users/${userId}/uploads/newborn/${Date.now()}-${uploadName}`;
 
+        const bucket: any = storage.bucket();
         await bucket.file(userInputPath).save(fileRequest.file.buffer, {
           contentType: userMimeType,
           resumable: false,
@@ -603,127 +1109,37 @@ export const createStylesRouter = () => {
             cacheControl: 'public,max-age=31536000',
           },
         });
-      } else if (userImageSource) {
-        const userResolved = await downloadImageFromSource(bucket, userImageSource);
-        userMimeType = userResolved.mimeType || 'image/jpeg';
-        userInputBuffer = userResolved.buffer;
-        userInputPath = userResolved.objectPath || `users/${userId}/uploads/newborn/${now}-remote.jpg`;
       }
 
-      if (!userInputBuffer) {
-        logger.warn({
-          requestId,
-          step: 'newborn_generate_rejected_unresolved_image',
-          userId,
-          styleId,
-          userImageSourcePreview: preview(userImageSource),
-        }, 'Newborn generation rejected because user image could not be resolved');
-        res.status(400).json({ error: 'invalid_request', message: 'User image could not be loaded' });
-        return;
-      }
       const promptForGeneration =
-        `Transform the person in the photo into an adorable baby. ${baseStylePrompt}. ` +
+        `Transform the person in the photo into an adorable baby. ${buildStylePrompt(style)}. ` +
         'Focus on maintaining facial identity while applying baby characteristics (larger eyes, rounder face, soft skin). ' +
         'High resolution, professional photography.';
 
-      logger.info({
-        userId,
-        styleId,
-        requestId,
-        basePromptLength: baseStylePrompt.length,
-        basePromptPreview: baseStylePrompt.slice(0, 180),
-        promptForGenerationLength: promptForGeneration.length,
-        promptForGenerationPreview: promptForGeneration.slice(0, 220),
-        model: requestedModel || process.env.FAL_IMAGE_MODEL || 'fal-ai/bytedance/seedream/v4/edit',
-        userImagePath: userInputPath,
-        userImageBytes: userInputBuffer.length,
-      }, 'Newborn generation request prepared');
-
-      const generated = await generateStyledPhotoWithTemplate({
-        userImageBase64: userInputBuffer.toString('base64'),
-        userMimeType,
-        prompt: promptForGeneration,
-        model: requestedModel,
-      });
-
-      const generatedExt = extFromMime(generated.mimeType || 'image/png');
-      const generatedId = randomUUID();
-      const generatedPath = `users/${userId}/generated/newborn/${generatedId}.${generatedExt}`;
-      const generatedBuffer = Buffer.from(generated.data, 'base64');
-
-      await bucket.file(generatedPath).save(generatedBuffer, {
-        contentType: generated.mimeType || 'image/png',
-        resumable: false,
-        metadata: {
-          cacheControl: 'public,max-age=31536000',
-        },
-      });
-
-      const inputUrl = await getSignedOrPublicUrl(userInputPath);
-      const outputUrl = await getSignedOrPublicUrl(generatedPath);
-
-      const recordId = generatedId;
-      await db
-        .collection('users')
-        .doc(userId)
-        .collection('generatedPhotos')
-        .doc(recordId)
-        .set({
-          id: recordId,
-          styleType: 'yenidogan',
-          styleId,
-          prompt: promptForGeneration,
-          requestId,
-          inputImagePath: userInputPath,
-          inputImageUrl: inputUrl,
-          outputImagePath: generatedPath,
-          outputImageUrl: outputUrl,
-          outputMimeType: generated.mimeType || 'image/png',
-          providerText: generated.text || null,
-          createdAt: FieldValue.serverTimestamp(),
-          updatedAt: FieldValue.serverTimestamp(),
-        });
-
-      logger.info({
+      const submission = await enqueueStyleJob({
         userId,
+        kind: 'newborn',
         styleId,
         requestId,
-        generatedId: recordId,
-        outputPath: generatedPath,
-        outputBytes: generatedBuffer.length,
-      }, 'Newborn generation completed and persisted');
-
-      res.json({
-        request_id: requestId,
-        style_id: styleId,
-        user_id: userId,
-        prompt: promptForGeneration,
+        fingerprint,
+        usage: chargedUsage(res),
         input: {
-          path: userInputPath,
-          url: inputUrl,
-        },
-        output: {
-          id: recordId,
-          path: generatedPath,
-          url: outputUrl,
-          mimeType: generated.mimeType || 'image/png',
+          userInputPath,
+          userImageSource: userInputPath ? null : userImageSource,
+          mimeType: userMimeType,
+          prompt: promptForGeneration,
+          childId,
+          model: requestedModel || style.model,
         },
-        provider_text: generated.text || null,
       });
+      respondWithJob(res, submission);
     } catch (error) {
       logger.error({
         err: error,
         step: 'newborn_generate_failed',
         requestId: typeof req.body?.request_id === 'string' ? req.body.request_id : (req.header('x-request-id') || null),
-      }, 'Newborn style photo generation failed');
-      const message = (error as Error)?.message || 'Newborn style photo generation failed';
-      const lowered = message.toLowerCase();
-      const isConfigIssue = lowered.includes('gemini_api_key') || lowered.includes('fal_key');
-      const status = isConfigIssue ? 503 : 500;
-      res.status(status).json({
-        error: isConfigIssue ? 'service_unavailable' : 'internal_error',
-        message,
-      });
+      }, 'Newborn style photo generation could not be queued');
+      res.status(500).json({ error: 'internal_error', message: 'Newborn style photo generation could not be queued' });
     }
   });
 
@@ -735,7 +1151,7 @@ export const createStylesRouter = () => {
         return;
       }
 
-      const items = await loadWeddingTemplateItems();
+      const items = await loadTemplateItems('wedding');
       logger.info(
         { userId: authReq.user.id, count: items.length, step: 'wedding_templates_list_success' },
         'Wedding templates listed',
@@ -747,7 +1163,8 @@ export const createStylesRouter = () => {
     }
   });
 
-  router.post('/wedding/generate-photo', authenticateToken, async (req, res) => {
+
+  router.post('/wedding/generate-photo', authenticateToken, authorizeChildTarget, chargeUsage('photo'), async (req, res) => {
     try {
       const authReq = req as AuthRequest;
       if (!authReq.user) {
@@ -778,16 +1195,34 @@ export const createStylesRouter = () => {
         return;
       }
 
-      const weddingTemplates = await loadWeddingTemplateItems();
+      const childId = typeof req.body?.child_id === 'string' ? req.body.child_id : null;
+      const fingerprint = fingerprintStyleRequest('wedding', {
+        styleId,
+        childId,
+        model: requestedModel || null,
+        motherImageSource,
+        fatherImageSource,
+      });
+      const previous = await findStyleJobForRequest(userId, requestId, fingerprint);
+      if (previous) {
+        respondWithJob(res, previous);
+        return;
+      }
+
+      const style = await getCatalogStyle(styleId, ['wedding']);
+      if (!style) {
+        res.status(400).json({ error: 'invalid_request', message: `Invalid wedding style_id: ${styleId}` });
+        return;
+      }
+      if (await rejectPremiumStyle(res, userId, style)) {
+        return;
+      }
+      const weddingTemplates = await loadTemplateItems('wedding');
       const selectedTemplate = weddingTemplates.find(item => item.styleId === styleId) || null;
       if (!selectedTemplate) {
-        res.status(400).json({ error: 'invalid_request', message: `Invalid wedding style_id: ${styleId}` });
+        res.status(400).json({ error: 'invalid_request', message: 'Template image source could not be resolved' });
         return;
       }
-
-      const bucket: any = storage.bucket();
-      const motherResolved = await downloadImageFromSource(bucket, motherImageSource);
-      const fatherResolved = await downloadImageFromSource(bucket, fatherImageSource);
       logger.info(
         {
           userId,
@@ -800,100 +1235,30 @@ export const createStylesRouter = () => {
         },
         'Wedding template resolved for generation',
       );
-      const now = Date.now();
-      const motherExt = extFromMime(motherResolved.mimeType || 'image/jpeg');
-      const fatherExt = extFromMime(fatherResolved.mimeType || 'image/jpeg');
-      const motherInputPath = `users/${userId}/uploads/wedding/${now}-mother.${motherExt}`;
-      const fatherInputPath = `users/${userId}/uploads/wedding/${now}-father.${fatherExt}`;
-
-      await bucket.file(motherInputPath).save(motherResolved.buffer, {
-        contentType: motherResolved.mimeType || 'image/jpeg',
-        resumable: false,
-        metadata: { cacheControl: 'public,max-age=31536000' },
-      });
-      await bucket.file(fatherInputPath).save(fatherResolved.buffer, {
-        contentType: fatherResolved.mimeType || 'image/jpeg',
-        resumable: false,
-        metadata: { cacheControl: 'public,max-age=31536000' },
-      });
-      const motherInputUrl = await getSignedOrPublicUrl(motherInputPath);
-      const fatherInputUrl = await getSignedOrPublicUrl(fatherInputPath);
-      const templateUrl = selectedTemplate.imageUrl;
 
-      const generated = await generateWeddingStyledPhotoWithTemplate({
-        motherImageUrl: motherInputUrl,
-        fatherImageUrl: fatherInputUrl,
-        templateImageUrl: templateUrl,
-        prompt: selectedTemplate.prompt,
-        model: requestedModel,
-      });
-
-      const generatedExt = extFromMime(generated.mimeType || 'image/png');
-      const generatedId = randomUUID();
-      const generatedPath = `users/${userId}/generated/wedding/${generatedId}.${generatedExt}`;
-      const generatedBuffer = Buffer.from(generated.data, 'base64');
-      await bucket.file(generatedPath).save(generatedBuffer, {
-        contentType: generated.mimeType || 'image/png',
-        resumable: false,
-        metadata: { cacheControl: 'public,max-age=31536000' },
-      });
-
-      const outputUrl = await getSignedOrPublicUrl(generatedPath);
-
-      await db
-        .collection('users')
-        .doc(userId)
-        .collection('generatedPhotos')
-        .doc(generatedId)
-        .set({
-          id: generatedId,
-          styleType: 'wedding',
-          styleId,
-          requestId,
-          prompt: selectedTemplate.prompt,
-          inputMotherImagePath: motherInputPath,
-          inputMotherImageUrl: motherInputUrl,
-          inputFatherImagePath: fatherInputPath,
-          inputFatherImageUrl: fatherInputUrl,
-          templateImagePath: selectedTemplate.storagePath,
-          templateImageUrl: templateUrl,
-          outputImagePath: generatedPath,
-          outputImageUrl: outputUrl,
-          outputMimeType: generated.mimeType || 'image/png',
-          createdAt: FieldValue.serverTimestamp(),
-          updatedAt: FieldValue.serverTimestamp(),
-        });
-
-      logger.info(
-        { userId, styleId, generatedId, requestId, step: 'wedding_generate_success' },
-        'Wedding style generation completed',
-      );
-      res.json({
-        request_id: requestId,
-        style_id: styleId,
-        user_id: userId,
-        prompt: selectedTemplate.prompt,
+      const submission = await enqueueStyleJob({
+        userId,
+        kind: 'wedding',
+        styleId,
+        requestId,
+        fingerprint,
+        usage: chargedUsage(res),
         input: {
-          mother_path: motherInputPath,
-          mother_url: motherInputUrl,
-          father_path: fatherInputPath,
-          father_url: fatherInputUrl,
-          template_path: selectedTemplate.storagePath,
-          template_url: templateUrl,
-        },
-        output: {
-          id: generatedId,
-          path: generatedPath,
-          url: outputUrl,
-          mimeType: generated.mimeType || 'image/png',
+          motherImageSource,
+          fatherImageSource,
+          templatePath: selectedTemplate.storagePath,
+          prompt: selectedTemplate.prompt,
+          childId,
+          model: requestedModel || style.model,
         },
       });
+      respondWithJob(res, submission);
     } catch (error) {
       logger.error(
         { err: error, step: 'wedding_generate_failed', requestId: req.header('x-request-id') || null },
-        'Wedding style generation failed',
+        'Wedding style generation could not be queued',
       );
-      res.status(500).json({ error: 'internal_error', message: (error as Error)?.message || 'Wedding generation failed' });
+      res.status(500).json({ error: 'internal_error', message: 'Wedding generation could not be queued' });
     }
   });
 
@@ -905,7 +1270,7 @@ export const createStylesRouter = () => {
         return;
       }
 
-      const items = await loadCoupleTemplateItems();
+      const items = await loadTemplateItems('couple');
       logger.info(
         { userId: authReq.user.id, count: items.length, step: 'couple_templates_list_success' },
         'Couple templates listed',
@@ -917,7 +1282,8 @@ export const createStylesRouter = () => {
     }
   });
 
-  router.post('/couple/generate-photo', authenticateToken, async (req, res) => {
+
+  router.post('/couple/generate-photo', authenticateToken, authorizeChildTarget, chargeUsage('photo'), async (req, res) => {
     try {
       const authReq = req as AuthRequest;
       if (!authReq.user) {
@@ -953,24 +1319,39 @@ export const createStylesRouter = () => {
         return;
       }
 
-      const coupleTemplates = await loadCoupleTemplateItems();
-      const selectedTemplate = styleId
-        ? (coupleTemplates.find(item => item.styleId === styleId) || null)
-        : null;
-      if (styleId && !selectedTemplate && !templateImageSource) {
+      const childId = typeof req.body?.child_id === 'string' ? req.body.child_id : null;
+      const fingerprint = fingerprintStyleRequest('couple', {
+        styleId,
+        childId,
+        model: requestedModel || null,
+        firstImageSource,
+        secondImageSource,
+        templateImageSource,
+        prompt: promptOverride,
+      });
+      const previous = await findStyleJobForRequest(userId, requestId, fingerprint);
+      if (previous) {
+        respondWithJob(res, previous);
+        return;
+      }
+
+      const style = await getCatalogStyle(styleId, ['couple']);
+      if (styleId && !style && !templateImageSource) {
         res.status(400).json({ error: 'invalid_request', message: `Invalid couple style_id: ${styleId}` });
         return;
       }
+      if (style && await rejectPremiumStyle(res, userId, style)) {
+        return;
+      }
+      const selectedTemplate = style
+        ? ((await loadTemplateItems('couple')).find(item => item.styleId === style.id) || null)
+        : null;
 
-      const bucket: any = storage.bucket();
-      const firstResolved = await downloadImageFromSource(bucket, firstImageSource);
-      const secondResolved = await downloadImageFromSource(bucket, secondImageSource);
       const templateSourceToUse = templateImageSource || selectedTemplate?.storagePath || '';
       if (!templateSourceToUse) {
         res.status(400).json({ error: 'invalid_request', message: 'Template image source could not be resolved' });
         return;
       }
-      const templateResolved = await downloadImageFromSource(bucket, templateSourceToUse);
       const promptForGeneration =
         promptOverride
         || selectedTemplate?.prompt
@@ -988,114 +1369,35 @@ export const createStylesRouter = () => {
         },
         'Couple template resolved for generation',
       );
-      const now = Date.now();
-      const firstExt = extFromMime(firstResolved.mimeType || 'image/jpeg');
-      const secondExt = extFromMime(secondResolved.mimeType || 'image/jpeg');
-      const firstInputPath = `users/${userId}/uploads/cift_cekimi/${now}-first.${firstExt}`;
-      const secondInputPath = `users/${userId}/uploads/cift_cekimi/${now}-second.${secondExt}`;
-
-      await bucket.file(firstInputPath).save(firstResolved.buffer, {
-        contentType: firstResolved.mimeType || 'image/jpeg',
-        resumable: false,
-        metadata: { cacheControl: 'public,max-age=31536000' },
-      });
-      await bucket.file(secondInputPath).save(secondResolved.buffer, {
-        contentType: secondResolved.mimeType || 'image/jpeg',
-        resumable: false,
-        metadata: { cacheControl: 'public,max-age=31536000' },
-      });
-      const firstInputUrl = await getSignedOrPublicUrl(firstInputPath);
-      const secondInputUrl = await getSignedOrPublicUrl(secondInputPath);
-      const templateStoragePathForModel = resolveStorageObjectPath(templateSourceToUse);
-      const templateModelUrl = templateStoragePathForModel
-        ? await getSignedOrPublicUrl(templateStoragePathForModel)
-        : templateSourceToUse;
-
-      const generated = await generateCoupleStyledPhotoWithTemplate({
-        firstImageUrl: firstInputUrl,
-        secondImageUrl: secondInputUrl,
-        templateImageUrl: templateModelUrl,
-        prompt: promptForGeneration,
-        model: requestedModel,
-      });
-
-      const generatedExt = extFromMime(generated.mimeType || 'image/png');
-      const generatedId = randomUUID();
-      const generatedPath = `users/${userId}/generated/cift_cekimi/${generatedId}.${generatedExt}`;
-      const generatedBuffer = Buffer.from(generated.data, 'base64');
-      await bucket.file(generatedPath).save(generatedBuffer, {
-        contentType: generated.mimeType || 'image/png',
-        resumable: false,
-        metadata: { cacheControl: 'public,max-age=31536000' },
-      });
 
-      const outputUrl = await getSignedOrPublicUrl(generatedPath);
-      const templateStoragePath =
-        selectedTemplate?.storagePath
-        || resolveStorageObjectPath(templateSourceToUse)
-        || null;
-      const templateUrl =
-        selectedTemplate?.imageUrl
-        || (templateStoragePath ? await getSignedOrPublicUrl(templateStoragePath) : templateSourceToUse);
-
-      await db
-        .collection('users')
-        .doc(userId)
-        .collection('generatedPhotos')
-        .doc(generatedId)
-        .set({
-          id: generatedId,
-          styleType: 'cift_cekimi',
-          styleId: styleId || selectedTemplate?.styleId || null,
-          requestId,
-          prompt: promptForGeneration,
-          inputFirstImagePath: firstInputPath,
-          inputFirstImageUrl: firstInputUrl,
-          inputSecondImagePath: secondInputPath,
-          inputSecondImageUrl: secondInputUrl,
-          templateImagePath: templateStoragePath,
-          templateImageUrl: templateUrl,
-          outputImagePath: generatedPath,
-          outputImageUrl: outputUrl,
-          outputMimeType: generated.mimeType || 'image/png',
-          createdAt: FieldValue.serverTimestamp(),
-          updatedAt: FieldValue.serverTimestamp(),
-        });
-
-      logger.info(
-        { userId, styleId, generatedId, requestId, step: 'couple_generate_success' },
-        'Couple style generation completed',
-      );
-      res.json({
-        request_id: requestId,
-        style_id: styleId || selectedTemplate?.styleId || null,
-        user_id: userId,
-        prompt: promptForGeneration,
+      const submission = await enqueueStyleJob({
+        userId,
+        kind: 'couple',
+        styleId: styleId || selectedTemplate?.styleId || null,
+        requestId,
+        fingerprint,
+        usage: chargedUsage(res),
         input: {
-          first_path: firstInputPath,
-          first_url: firstInputUrl,
-          second_path: secondInputPath,
-          second_url: secondInputUrl,
-          template_path: templateStoragePath,
-          template_url: templateUrl,
-        },
-        output: {
-          id: generatedId,
-          path: generatedPath,
-          url: outputUrl,
-          mimeType: generated.mimeType || 'image/png',
+          firstImageSource,
+          secondImageSource,
+          templateSource: templateSourceToUse,
+          templatePath: selectedTemplate?.storagePath || null,
+          prompt: promptForGeneration,
+          childId,
+          model: requestedModel || style?.model || null,
         },
       });
+      respondWithJob(res, submission);
     } catch (error) {
       logger.error(
         { err: error, step: 'couple_generate_failed', requestId: req.header('x-request-id') || null },
-        'Couple style generation failed',
+        'Couple style generation could not be queued',
       );
-      res.status(500).json({ error: 'internal_error', message: (error as Error)?.message || 'Couple generation failed' });
+      res.status(500).json({ error: 'internal_error', message: 'Couple generation could not be queued' });
     }
   });
 
-  router.post('/video/generate', authenticateToken, async (req, res) => {
+  router.post('/video/generate', authenticateToken, authorizeChildTarget, chargeUsage('video'), async (req, res) => {
     try {
       const authReq = req as AuthRequest;
       if (!authReq.user) {
@@ -1114,15 +1416,19 @@ export const createStylesRouter = () => {
         : (req.header('x-request-id') || null);
       const requestedModel = typeof req.body?.model === 'string' ? req.body.model : undefined;
 
-      const referenceVideoUrl = resolveVideoReferenceUrl(styleId);
-      const resolvedByStyleMap = Boolean(styleId && VIDEO_REFERENCE_URL_BY_STYLE_ID[styleId]);
+      const style = await getCatalogStyle(styleId, ['video']);
+      if (styleId && !style) {
+        res.status(400).json({ error: 'invalid_request', message: `Invalid video style_id: ${styleId}` });
+        return;
+      }
+      const referenceAsset = await resolveReferenceAsset(style?.referenceAssetPath || DEFAULT_VIDEO_REFERENCE_PATH);
+      const referenceVideoUrl = referenceAsset?.url || null;
       logger.info({
         requestId,
         step: 'video_reference_resolved',
         userId,
         styleId,
-        resolvedByStyleMap,
-        usedDefaultReference: !resolvedByStyleMap,
+        usedDefaultReference: !style,
         referenceVideoUrlPreview: preview(referenceVideoUrl),
       }, 'Video reference URL resolved');
       if (!referenceVideoUrl) {
@@ -1150,6 +1456,22 @@ export const createStylesRouter = () => {
         return;
       }
 
+      const childId = typeof req.body?.child_id === 'string' ? req.body.child_id : null;
+      const fingerprint = fingerprintStyleRequest('video', {
+        styleId,
+        childId,
+        model: requestedModel || null,
+        userImageSource,
+      });
+      const previous = await findStyleJobForRequest(userId, requestId, fingerprint);
+      if (previous) {
+        respondWithJob(res, previous);
+        return;
+      }
+      if (style && await rejectPremiumStyle(res, userId, style)) {
+        return;
+      }
+
       logger.info({
         requestId,
         step: 'video_generate_request_received',
@@ -1160,124 +1482,59 @@ export const createStylesRouter = () => {
         referenceVideoUrlPreview: preview(referenceVideoUrl),
       }, 'Video generation request received');
 
-      const providerResult = await generateStyledVideoWithVeo({
-        styleId,
-        userImageUrl: userImageSource,
-        referenceVideoUrl,
-        requestId,
-        model: requestedModel,
-      });
-
-      logger.info({
-        requestId,
-        step: 'video_generate_provider_completed',
-        styleId,
-        usedFallback: providerResult.usedFallback,
-        providerStatus: providerResult.providerStatus,
-        outputVideoUrlPreview: preview(providerResult.outputVideoUrl),
-      }, 'Video generation provider step completed');
-
-      const generatedId = randomUUID();
-      const now = Date.now();
-      const inputPath = resolveStorageObjectPath(userImageSource) || `users/${userId}/uploads/video/${now}-remote.jpg`;
-      const bucket: any = storage.bucket();
-      let outputVideoUrl = providerResult.outputVideoUrl;
-      let outputVideoPath: string | null = null;
-      let outputMimeType = 'video/mp4';
-
-      // When provider returns a real generated video file, persist it under user storage.
-      if (!providerResult.usedFallback) {
-        const downloadedVideo = await downloadVideoFromSource(providerResult.outputVideoUrl);
-        outputMimeType = downloadedVideo.mimeType || 'video/mp4';
-        const videoExt = extFromVideoMime(outputMimeType);
-        outputVideoPath = `users/${userId}/generated/video/${generatedId}.${videoExt}`;
-
-        await bucket.file(outputVideoPath).save(downloadedVideo.buffer, {
-          contentType: outputMimeType,
-          resumable: false,
-          metadata: {
-            cacheControl: 'public,max-age=31536000',
-          },
-        });
-        outputVideoUrl = await getSignedOrPublicUrl(outputVideoPath);
-
-        logger.info({
-          requestId,
-          step: 'video_generate_output_uploaded',
-          generatedId,
-          outputVideoPath,
-          outputBytes: downloadedVideo.buffer.length,
-          outputMimeType,
-        }, 'Generated video uploaded to user storage');
-      }
-
-      await db
-        .collection('users')
-        .doc(userId)
-        .collection('generatedPhotos')
-        .doc(generatedId)
-        .set({
-          id: generatedId,
-          styleType: 'video',
-          styleId,
-          requestId,
-          inputImagePath: inputPath,
-          inputImageUrl: userImageSource,
-          outputVideoUrl,
-          outputVideoPath,
-          outputImageUrl: null,
-          outputMimeType,
-          providerText: providerResult.providerText || null,
-          providerStatus: providerResult.providerStatus || null,
-          providerRaw: providerResult.providerRaw || null,
-          usedFallback: providerResult.usedFallback,
-          createdAt: FieldValue.serverTimestamp(),
-          updatedAt: FieldValue.serverTimestamp(),
-        });
-
-      logger.info({
-        requestId,
-        step: 'video_generate_persisted',
+      const submission = await enqueueStyleJob({
         userId,
+        kind: 'video',
         styleId,
-        generatedId,
-        inputPath,
-        outputVideoPath,
-        usedFallback: providerResult.usedFallback,
-      }, 'Video generation result persisted');
-
-      res.json({
-        request_id: requestId,
-        style_id: styleId,
-        user_id: userId,
+        requestId,
+        fingerprint,
+        usage: chargedUsage(res),
         input: {
-          path: inputPath,
-          url: userImageSource,
-        },
-        output: {
-          id: generatedId,
-          path: outputVideoPath,
-          url: outputVideoUrl,
-          mimeType: outputMimeType,
+          userImageSource,
+          referenceVideoUrl,
+          childId,
+          model: requestedModel || style?.model || null,
         },
-        provider_text: providerResult.providerText || null,
       });
+      respondWithJob(res, submission);
     } catch (error) {
       logger.error({
         err: error,
         step: 'video_generate_failed',
         requestId: typeof req.body?.request_id === 'string' ? req.body.request_id : (req.header('x-request-id') || null),
         styleId: typeof req.body?.style_id === 'string' ? req.body.style_id : null,
-      }, 'Video generation request failed');
-      const message = (error as Error)?.message || 'Video generation failed';
-      res.status(500).json({
-        error: 'internal_error',
-        message,
-      });
+      }, 'Video generation could not be queued');
+      res.status(500).json({ error: 'internal_error', message: 'Video generation could not be queued' });
+    }
+  });
+
+  router.get('/jobs/:id', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      // Polled while a job runs; never serve a cached status.
+      res.set('Cache-Control', 'no-store');
+      const result = await getStyleJobForUser(authReq.user.id, req.params.id);
+      if (result.reason === 'not_found') {
+        res.status(404).json({ error: 'not_found', message: 'Job not found' });
+        return;
+      }
+      if (result.reason === 'forbidden') {
+        res.status(403).json({ error: 'forbidden', message: 'Job does not belong to user' });
+        return;
+      }
+      res.json({ job: serializeStyleJob(result.job) });
+    } catch (error) {
+      logger.error({ err: error, jobId: req.params.id }, 'Failed to fetch style job');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to fetch job' });
     }
   });
 
-  router.get('/history', authenticateToken, async (req, res) => {
+  router.get('/history', authenticateToken, validateQuery(historyQuerySchema), async (req, res) => {
     try {
       const authReq = req as AuthRequest;
       if (!authReq.user) {
@@ -1296,47 +1553,58 @@ export const createStylesRouter = () => {
       });
 
       const userId = authReq.user.id;
-      logger.info({ userId, step: 'history_list_request_received' }, 'Generated history list request received');
-      const snapshot = await db
-        .collection('users')
-        .doc(userId)
-        .collection('generatedPhotos')
-        .orderBy('createdAt', 'desc')
-        .limit(200)
-        .get();
-
-      const items = snapshot.docs.map((doc: any) => {
-        const data = doc.data() as any;
-        const createdAtRaw = data?.createdAt;
-        let createdAtIso: string | null = null;
-        if (createdAtRaw && typeof createdAtRaw?.toDate === 'function') {
-          createdAtIso = createdAtRaw.toDate().toISOString();
-        } else if (createdAtRaw instanceof Date) {
-          createdAtIso = createdAtRaw.toISOString();
-        } else if (typeof createdAtRaw === 'string') {
-          createdAtIso = createdAtRaw;
+      const childId = typeof req.query.child_id === 'string' ? req.query.child_id.trim() : '';
+      logger.info({ userId, childId: childId || null, step: 'history_list_request_received' }, 'Generated history list request received');
+
+      // A child's history spans every caregiver in the child's household.
+      let ownerIds = [userId];
+      if (childId) {
+        const access = await getChildForUser(userId, childId);
+        if (access.reason === 'not_found') {
+          res.status(404).json({ error: 'not_found', message: 'Child not found' });
+          return;
         }
-        return {
-          id: doc.id,
-          styleType: data?.styleType || 'photo',
-          styleId: data?.styleId || null,
-          prompt: data?.prompt || null,
-          outputImageUrl: data?.outputImageUrl || null,
-          outputImagePath: data?.outputImagePath || null,
-          outputVideoUrl: data?.outputVideoUrl || null,
-          outputVideoPath: data?.outputVideoPath || null,
-          outputMimeType: data?.outputMimeType || null,
-          inputImageUrl: data?.inputImageUrl || null,
-          createdAt: createdAtIso,
-        };
+        if (access.reason === 'forbidden' || !access.child) {
+          res.status(403).json({ error: 'forbidden', message: 'Child does not belong to user' });
+          return;
+        }
+        ownerIds = await listHouseholdMemberIds(getChildHouseholdId(access.child));
+      }
+
+      const cursor = typeof req.query.cursor === 'string' ? decodeHistoryCursor(req.query.cursor) : null;
+      if (typeof req.query.cursor === 'string' && !cursor) {
+        res.status(400).json({ error: 'invalid_request', message: 'Invalid cursor' });
+        return;
+      }
+      const from = typeof req.query.from === 'string' ? new Date(req.query.from) : null;
+      const to = typeof req.query.to === 'string' ? new Date(req.query.to) : null;
+      if (from && to && from.getTime() >= to.getTime()) {
+        res.status(400).json({ error: 'invalid_request', message: 'from must be before to' });
+        return;
+      }
+
+      const { items, pageInfo } = await listGenerationHistory({
+        viewerId: userId,
+        ownerIds,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+        cursor,
+        filters: {
+          childId: childId || null,
+          styleType: (req.query.style_type as string) || null,
+          styleId: (req.query.style_id as string) || null,
+          favorite: req.query.favorite === 'true',
+          from,
+          to,
+        },
       });
 
       logger.info({
         userId,
         step: 'history_list_completed',
         count: items.length,
+        hasMore: pageInfo.hasMore,
       }, 'Generated history list completed');
-      res.json({ items });
+      res.json({ items, pageInfo });
     } catch (error) {
       logger.error({ err: error }, 'Failed to fetch generated history');
       res.status(500).json({ error: 'internal_error', message: 'Failed to fetch history' });
@@ -1368,8 +1636,7 @@ export const createStylesRouter = () => {
 
       const data = snap.data() as any;
       const bucket: any = storage.bucket();
-      const paths = [data?.outputImagePath, data?.outputVideoPath, data?.inputImagePath]
-        .filter(Boolean) as string[];
+      const paths = getGeneratedRecordStoragePaths(data);
 
       for (const path of paths) {
         try {
@@ -1380,6 +1647,7 @@ export const createStylesRouter = () => {
       }
 
       await ref.delete();
+      await removeItemFromAlbums(userId, id);
       logger.info({
         userId,
         id,
@@ -1393,5 +1661,177 @@ export const createStylesRouter = () => {
     }
   });
 
+  router.put('/history/:id/favorite', authenticateToken, validate(favoriteSchema), async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const result = await setHistoryFavorite(authReq.user.id, req.params.id, req.body.favorite);
+      if (result.reason === 'not_found') {
+        res.status(404).json({ error: 'not_found', message: 'History record not found' });
+        return;
+      }
+      res.json({ success: true, id: req.params.id, favorite: result.favorite });
+    } catch (error) {
+      logger.error({ err: error, id: req.params.id }, 'Failed to update history favorite');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to update favorite' });
+    }
+  });
+
+  // Albums group the caller's own history items; the order of `itemIds` is the display order.
+  const sendAlbumFailure = (
+    res: Response,
+    result: { reason?: 'not_found' | 'items_not_found' | 'limit_reached'; missing?: string[] },
+  ) => {
+    if (result.reason === 'not_found') {
+      res.status(404).json({ error: 'not_found', message: 'Album not found' });
+    } else if (result.reason === 'items_not_found') {
+      res.status(400).json({ error: 'invalid_request', message: 'Unknown history items', itemIds: result.missing });
+    } else {
+      res.status(409).json({ error: 'album_limit_reached', message: 'Album limit reached' });
+    }
+  };
+
+  router.get('/albums', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+      res.set('Cache-Control', 'no-store');
+      res.json({ albums: await listAlbums(authReq.user.id) });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to list generation albums');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to list albums' });
+    }
+  });
+
+  router.post('/albums', authenticateToken, validate(albumCreateSchema), async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const result = await createAlbum(authReq.user.id, { name: req.body.name, itemIds: req.body.itemIds });
+      if (!result.album) {
+        sendAlbumFailure(res, result);
+        return;
+      }
+      res.status(201).json({ success: true, album: result.album });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to create generation album');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to create album' });
+    }
+  });
+
+  router.put('/albums/order', authenticateToken, validate(albumOrderSchema), async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const result = await reorderAlbums(authReq.user.id, req.body.albumIds);
+      if (!result.albums) {
+        res.status(400).json({ error: 'invalid_request', message: 'albumIds must list every album exactly once' });
+        return;
+      }
+      res.json({ success: true, albums: result.albums });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to reorder generation albums');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to reorder albums' });
+    }
+  });
+
+  router.patch('/albums/:albumId', authenticateToken, validate(albumUpdateSchema), async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const result = await updateAlbum(authReq.user.id, req.params.albumId, {
+        name: req.body.name,
+        itemIds: req.body.itemIds,
+      });
+      if (!result.album) {
+        sendAlbumFailure(res, result);
+        return;
+      }
+      res.json({ success: true, album: result.album });
+    } catch (error) {
+      logger.error({ err: error, albumId: req.params.albumId }, 'Failed to update generation album');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to update album' });
+    }
+  });
+
+  router.post('/albums/:albumId/items', authenticateToken, validate(albumItemsSchema), async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const result = await addAlbumItems(authReq.user.id, req.params.albumId, req.body.itemIds);
+      if (!result.album) {
+        sendAlbumFailure(res, result);
+        return;
+      }
+      res.json({ success: true, album: result.album });
+    } catch (error) {
+      logger.error({ err: error, albumId: req.params.albumId }, 'Failed to add generation album items');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to add album items' });
+    }
+  });
+
+  router.delete('/albums/:albumId/items/:itemId', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const result = await removeAlbumItem(authReq.user.id, req.params.albumId, req.params.itemId);
+      if (!result.album) {
+        sendAlbumFailure(res, result);
+        return;
+      }
+      res.json({ success: true, album: result.album });
+    } catch (error) {
+      logger.error({ err: error, albumId: req.params.albumId }, 'Failed to remove generation album item');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to remove album item' });
+    }
+  });
+
+  router.delete('/albums/:albumId', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const result = await deleteAlbum(authReq.user.id, req.params.albumId);
+      if (result.reason === 'not_found') {
+        sendAlbumFailure(res, result);
+        return;
+      }
+      res.json({ success: true, id: req.params.albumId });
+    } catch (error) {
+      logger.error({ err: error, albumId: req.params.albumId }, 'Failed to delete generation album');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to delete album' });
+    }
+  });
+
   return router;
 };
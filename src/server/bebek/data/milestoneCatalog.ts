@@ -0,0 +1,60 @@
+// Developmental milestones grouped by domain with the typical age window in months.
+// A milestone becomes "due" at startMonth and "overdue" once the child is past endMonth
+// without a recorded achievement. Windows follow the WHO motor study and CDC/AAP checklists.
+
+export type MilestoneDomain = 'motor' | 'language' | 'social' | 'cognitive';
+
+export interface Milestone {
+  id: string;
+  domain: MilestoneDomain;
+  startMonth: number;
+  endMonth: number;
+  title: { tr: string; en: string };
+}
+
+export const MILESTONE_DOMAINS: MilestoneDomain[] = ['motor', 'language', 'social', 'cognitive'];
+
+export const MILESTONE_CATALOG_VERSION = '2026-01';
+
+export const MILESTONE_CATALOG: Milestone[] = [
+  // Motor
+  { id: 'motor_head_lift_prone', domain: 'motor', startMonth: 1, endMonth: 3, title: { tr: 'Yüzüstüyken başını kaldırır', en: 'Lifts head when on tummy' } },
+  { id: 'motor_head_control', domain: 'motor', startMonth: 2, endMonth: 4, title: { tr: 'Başını dik tutar', en: 'Holds head steady' } },
+  { id: 'motor_rolls_over', domain: 'motor', startMonth: 4, endMonth: 6, title: { tr: 'Yüzüstünden sırtüstüne döner', en: 'Rolls from tummy to back' } },
+  { id: 'motor_sits_without_support', domain: 'motor', startMonth: 5, endMonth: 9, title: { tr: 'Desteksiz oturur', en: 'Sits without support' } },
+  { id: 'motor_crawls', domain: 'motor', startMonth: 6, endMonth: 13, title: { tr: 'Emekler', en: 'Crawls' } },
+  { id: 'motor_pulls_to_stand', domain: 'motor', startMonth: 7, endMonth: 12, title: { tr: 'Tutunarak ayağa kalkar', en: 'Pulls to stand' } },
+  { id: 'motor_pincer_grasp', domain: 'motor', startMonth: 8, endMonth: 12, title: { tr: 'Küçük nesneleri başparmak ve işaret parmağıyla tutar', en: 'Picks up small objects with thumb and finger' } },
+  { id: 'motor_walks_alone', domain: 'motor', startMonth: 9, endMonth: 18, title: { tr: 'Tek başına yürür', en: 'Walks alone' } },
+  { id: 'motor_kicks_ball', domain: 'motor', startMonth: 18, endMonth: 24, title: { tr: 'Topa tekme atar', en: 'Kicks a ball' } },
+  { id: 'motor_jumps_two_feet', domain: 'motor', startMonth: 24, endMonth: 36, title: { tr: 'İki ayağıyla zıplar', en: 'Jumps with both feet' } },
+
+  // Language
+  { id: 'language_coos', domain: 'language', startMonth: 1, endMonth: 4, title: { tr: 'Agulama sesleri çıkarır', en: 'Makes cooing sounds' } },
+  { id: 'language_turns_to_sound', domain: 'language', startMonth: 3, endMonth: 6, title: { tr: 'Sese doğru başını çevirir', en: 'Turns head toward sounds' } },
+  { id: 'language_babbles', domain: 'language', startMonth: 5, endMonth: 9, title: { tr: '"ba-ba", "ma-ma" gibi heceler çıkarır', en: 'Babbles syllables like "ba-ba" and "ma-ma"' } },
+  { id: 'language_responds_to_name', domain: 'language', startMonth: 6, endMonth: 10, title: { tr: 'Adı söylenince tepki verir', en: 'Responds to own name' } },
+  { id: 'language_first_word', domain: 'language', startMonth: 10, endMonth: 15, title: { tr: 'Anlamlı ilk kelimesini söyler', en: 'Says a first meaningful word' } },
+  { id: 'language_follows_simple_command', domain: 'language', startMonth: 12, endMonth: 18, title: { tr: 'Basit yönergeleri izler', en: 'Follows simple directions' } },
+  { id: 'language_ten_words', domain: 'language', startMonth: 15, endMonth: 20, title: { tr: 'En az 10 kelime kullanır', en: 'Uses at least 10 words' } },
+  { id: 'language_two_word_phrases', domain: 'language', startMonth: 18, endMonth: 26, title: { tr: 'İki kelimelik cümleler kurar', en: 'Combines two words' } },
+
+  // Social
+  { id: 'social_social_smile', domain: 'social', startMonth: 1, endMonth: 3, title: { tr: 'Sosyal gülümseme', en: 'Smiles at people' } },
+  { id: 'social_laughs', domain: 'social', startMonth: 3, endMonth: 6, title: { tr: 'Kahkaha atar', en: 'Laughs out loud' } },
+  { id: 'social_stranger_awareness', domain: 'social', startMonth: 6, endMonth: 10, title: { tr: 'Yabancıları tanıdıklardan ayırt eder', en: 'Knows familiar people from strangers' } },
+  { id: 'social_waves_bye', domain: 'social', startMonth: 8, endMonth: 13, title: { tr: 'El sallayarak "bay bay" yapar', en: 'Waves bye-bye' } },
+  { id: 'social_points_to_share', domain: 'social', startMonth: 12, endMonth: 18, title: { tr: 'İlgisini paylaşmak için parmağıyla gösterir', en: 'Points to show interest' } },
+  { id: 'social_parallel_play', domain: 'social', startMonth: 18, endMonth: 30, title: { tr: 'Diğer çocukların yanında oynar', en: 'Plays alongside other children' } },
+
+  // Cognitive
+  { id: 'cognitive_tracks_objects', domain: 'cognitive', startMonth: 1, endMonth: 3, title: { tr: 'Hareket eden nesneleri gözüyle takip eder', en: 'Follows moving things with eyes' } },
+  { id: 'cognitive_reaches_for_toy', domain: 'cognitive', startMonth: 3, endMonth: 6, title: { tr: 'Oyuncağa uzanır', en: 'Reaches for a toy' } },
+  { id: 'cognitive_transfers_objects', domain: 'cognitive', startMonth: 5, endMonth: 8, title: { tr: 'Nesneyi bir elinden diğerine geçirir', en: 'Passes things from one hand to the other' } },
+  { id: 'cognitive_object_permanence', domain: 'cognitive', startMonth: 8, endMonth: 12, title: { tr: 'Saklanan oyuncağı arar', en: 'Looks for hidden objects' } },
+  { id: 'cognitive_uses_objects_correctly', domain: 'cognitive', startMonth: 12, endMonth: 18, title: { tr: 'Eşyaları amacına uygun kullanır (tarak, telefon)', en: 'Uses everyday objects correctly' } },
+  { id: 'cognitive_simple_pretend_play', domain: 'cognitive', startMonth: 18, endMonth: 24, title: { tr: 'Basit hayali oyun oynar', en: 'Plays simple pretend' } },
+  { id: 'cognitive_sorts_shapes', domain: 'cognitive', startMonth: 24, endMonth: 36, title: { tr: 'Şekil ve renkleri eşleştirir', en: 'Sorts shapes and colors' } },
+];
+
+export const MILESTONES_BY_ID = new Map(MILESTONE_CATALOG.map(milestone => [milestone.id, milestone]));
@@ -0,0 +1,102 @@
+// Default style catalog, written to Firestore the first time the catalog is read. After that the
+// `style_catalog` collection is the source of truth and styles are managed through the admin API;
+// editing this file does not change a catalog that already exists.
+
+export const STYLE_CATEGORIES = ['lifestyle', 'newborn', 'studio', 'wedding', 'couple', 'video'] as const;
+export type StyleCategory = (typeof STYLE_CATEGORIES)[number];
+
+export interface StyleCatalogSeed {
+  id: string;
+  category: StyleCategory;
+  titles: { tr: string; en: string };
+  prompt: string;
+  identitySuffix: string | null;
+  // Storage object path (or URL) of the wedding/couple template image or the video to swap into.
+  referenceAssetPath: string | null;
+  model: string | null;
+  premium: boolean;
+  sortOrder: number;
+  enabled: boolean;
+}
+
+const LIFESTYLE_IDENTITY =
+  'Use the uploaded baby photo as the ONLY identity reference. Keep the same baby face and identity exactly: face shape, eyes, nose, lips, skin tone, and baby proportions must stay the same. Preserve eye state exactly (open stays open, closed stays closed) and keep the same facial expression. Do not create a new baby. Place this same baby naturally into the requested scene and style. Ultra-realistic family lifestyle photography.';
+const NEWBORN_IDENTITY =
+  'Use the uploaded baby photo as the ONLY identity reference. Keep the same baby face and identity exactly: face shape, eyes, nose, lips, skin tone, and baby proportions must stay the same. Preserve eye state exactly (open stays open, closed stays closed) and keep the same facial expression. Do not create a new baby. Place this same baby naturally into the requested newborn setup and style. Ultra-realistic newborn photography.';
+const STUDIO_IDENTITY =
+  'Use the uploaded baby photo as the ONLY identity reference. Keep the same baby face and identity exactly: face shape, eyes, nose, lips, skin tone, and baby proportions must stay the same. Preserve eye state exactly (open stays open, closed stays closed) and keep the same facial expression. Do not create a new baby. Place this same baby naturally into the requested studio scene and style. Ultra-realistic newborn photography.';
+const WEDDING_IDENTITY =
+  'Use mother and father uploaded photos as the ONLY identity references. Keep both faces and identities exactly, preserve facial structure and skin tone, and place both naturally into the wedding template scene. Ultra-realistic wedding photography.';
+const COUPLE_IDENTITY =
+  'Use two uploaded person photos as the ONLY identity references. Keep both faces and identities exactly, preserve facial structure and skin tone, and place both naturally into the couple template scene. Ultra-realistic couple photography.';
+
+const style = (
+  id: string,
+  category: StyleCategory,
+  sortOrder: number,
+  titles: { tr: string; en: string },
+  prompt: string,
+  identitySuffix: string | null,
+  referenceAssetPath: string | null = null,
+): StyleCatalogSeed => ({
+  id,
+  category,
+  titles,
+  prompt,
+  identitySuffix,
+  referenceAssetPath,
+  model: null,
+  premium: false,
+  sortOrder,
+  enabled: true,
+});
+
+export const DEFAULT_STYLE_CATALOG: StyleCatalogSeed[] = [
+  style('l1', 'lifestyle', 1, { tr: 'Klasik Aile Portresi', en: 'Classic Family Portrait' }, 'Vertical 9:16 elegant family portrait with baby, luxury classic interior, neutral beige tones, soft cinematic lighting, parents wearing modern formal clothing, baby centered, high fashion lifestyle photography, photorealistic, editorial style', LIFESTYLE_IDENTITY),
+  style('l2', 'lifestyle', 2, { tr: 'Salonda Sıcak Anlar', en: 'Cozy Living Room' }, 'Vertical portrait 9:16 happy family holding baby in modern living room, warm natural light, emotional candid moment, lifestyle photography, realistic skin tones, soft focus background, premium editorial look, cozy home atmosphere', LIFESTYLE_IDENTITY),
+  style('l3', 'lifestyle', 3, { tr: 'Neon Şehir Gecesi', en: 'Neon City Night' }, 'Vertical 9:16 baby in stroller with parents walking in colorful neon city night background, cinematic urban atmosphere, glowing lights, realistic street photography style, vibrant colors, shallow depth of field, modern lifestyle aesthetic', LIFESTYLE_IDENTITY),
+  style('l4', 'lifestyle', 4, { tr: 'Kafede Anne ve Bebek', en: 'Café Moment' }, 'Vertical portrait 9:16 mother holding baby while sitting at a stylish cafe table, warm natural light, modern urban lifestyle photography, cinematic depth of field, realistic skin tones', LIFESTYLE_IDENTITY),
+  style('l5', 'lifestyle', 5, { tr: 'Parkta Gün Batımı', en: 'Golden Hour in the Park' }, 'Vertical 9:16 baby walking with parent in a green park during golden hour sunset, cinematic warm lighting, lifestyle photography aesthetic, natural candid moment', LIFESTYLE_IDENTITY),
+  style('l6', 'lifestyle', 6, { tr: 'Sahilde Yürüyüş', en: 'Beach Walk' }, 'Vertical portrait baby walking with parents along a calm beach shoreline, soft pastel sunset sky, natural candid lifestyle photo, photorealistic, airy composition', LIFESTYLE_IDENTITY),
+  style('l7', 'lifestyle', 7, { tr: 'Balkonda Şehir Manzarası', en: 'City Skyline Balcony' }, 'Vertical 9:16 baby sitting near glass balcony with city skyline background, modern apartment lifestyle, soft daylight, minimal luxury aesthetic', LIFESTYLE_IDENTITY),
+  style('l8', 'lifestyle', 8, { tr: 'Vlog Selfie', en: 'Vlog Selfie' }, 'Vertical 9:16 close-up baby and parent selfie style shot, handheld camera feeling, vlog lifestyle aesthetic, natural candid expression, cinematic mobile photography look', LIFESTYLE_IDENTITY),
+  style('l9', 'lifestyle', 9, { tr: 'Kanepede Aile', en: 'Family on the Sofa' }, 'Vertical 9:16 lifestyle family portrait with mother, father, toddler child and baby sitting together on a cozy sofa, modern Scandinavian living room, soft natural daylight, candid happy moment, ultra realistic photography, cinematic depth of field', LIFESTYLE_IDENTITY),
+  style('l10', 'lifestyle', 10, { tr: 'Parkta Aile Yürüyüşü', en: 'Family Park Stroll' }, 'Vertical family lifestyle photo of parents walking in a green park holding toddler while baby is in stroller, golden hour sunlight, natural candid atmosphere, warm cinematic tones', LIFESTYLE_IDENTITY),
+  style('l11', 'lifestyle', 11, { tr: 'Oyun Odası', en: 'Playroom' }, 'Vertical lifestyle family scene with parents sitting on floor playing with toddler while baby lies on soft blanket, bright playroom environment, cozy candid mood', LIFESTYLE_IDENTITY),
+  style('l12', 'lifestyle', 12, { tr: 'Doğum Günü Kutlaması', en: 'Birthday Celebration' }, 'Vertical 9:16 family birthday celebration scene, baby near cake, parents and child smiling together, warm festive lighting, candid lifestyle photography', LIFESTYLE_IDENTITY),
+  style('s1', 'studio', 1, { tr: 'Gökkuşağı Stüdyo', en: 'Rainbow Studio' }, 'Gokkusagi konseptinde profesyonel studio cekimi, temiz kompozisyon, vivid colors.', STUDIO_IDENTITY),
+  style('n1', 'newborn', 1, { tr: 'Ay ve Yıldızlar', en: 'Moon and Stars' }, 'Vertical 9:16 newborn baby sleeping wrapped in deep navy swaddle, lying on a crescent moon prop with small star decorations, soft studio lighting, dreamy night sky background, professional newborn photography style, pastel cinematic tones, ultra realistic, cozy atmosphere', NEWBORN_IDENTITY),
+  style('n2', 'newborn', 2, { tr: 'Beyaz Minimal', en: 'White Minimal' }, 'Vertical portrait 9:16 newborn baby wrapped in white fabric, lying on fluffy soft white fur background, minimalistic newborn photography studio setup, soft diffused lighting, clean white aesthetic, photorealistic, gentle shadows, calm peaceful mood', NEWBORN_IDENTITY),
+  style('n3', 'newborn', 3, { tr: 'Sıcak Bej', en: 'Warm Beige' }, 'Vertical 9:16 sleeping newborn baby wrapped in beige blanket, warm cozy studio environment, soft neutral background tones, bakery-style warm aesthetic, natural soft light, realistic baby photography, gentle depth of field, peaceful mood', NEWBORN_IDENTITY),
+  style('n4', 'newborn', 4, { tr: 'Pastel Bulutlar', en: 'Pastel Clouds' }, 'Vertical 9:16 newborn baby sleeping wrapped in soft pastel fabric, lying on fluffy cloud-like pillows, dreamy soft studio lighting, minimal pastel background, professional newborn photography, ultra realistic skin detail, peaceful mood, shallow depth of field', NEWBORN_IDENTITY),
+  style('n5', 'newborn', 5, { tr: 'Çiçek Yuvası', en: 'Flower Nest' }, 'Vertical 9:16 newborn baby sleeping inside a soft floral nest, pastel flowers around, bright soft daylight studio lighting, spring aesthetic, ultra realistic newborn photography, gentle color palette', NEWBORN_IDENTITY),
+  style('n6', 'newborn', 6, { tr: 'Oyuncak Ayı', en: 'Teddy Bear' }, 'Vertical portrait newborn baby wrapped in soft cream blanket, lying next to plush teddy bear, cozy warm studio environment, cinematic soft light, high detail newborn photography style', NEWBORN_IDENTITY),
+  style('n7', 'newborn', 7, { tr: 'Gün Batımı Işıltısı', en: 'Sunset Glow' }, 'Vertical 9:16 newborn baby sleeping on soft fabric with warm golden sunset lighting effect, cinematic glow, dreamy warm tones, realistic newborn portrait, professional studio composition', NEWBORN_IDENTITY),
+  style('n8', 'newborn', 8, { tr: 'Vintage Sepet', en: 'Vintage Basket' }, 'Vertical newborn baby sleeping inside a small vintage basket, soft knitted blanket, warm neutral background, rustic newborn photography style, ultra detailed realistic baby portrait', NEWBORN_IDENTITY),
+  style('n9', 'newborn', 9, { tr: 'Galaksi', en: 'Galaxy' }, 'Vertical 9:16 newborn baby sleeping wrapped in deep navy fabric floating in a dreamy galaxy background, soft stars and nebula colors, cinematic cosmic lighting, ultra realistic newborn photography, magical atmosphere, high detail', NEWBORN_IDENTITY),
+  style('n10', 'newborn', 10, { tr: 'Oyuncak Dünyası', en: 'Toy World' }, 'Vertical newborn baby sleeping on oversized plush toys, miniature toy world concept, colorful soft environment, dreamy cinematic lighting, ultra cute photorealistic newborn photography', NEWBORN_IDENTITY),
+  style('n11', 'newborn', 11, { tr: 'Balonlar', en: 'Balloons' }, 'Vertical 9:16 newborn baby wrapped in pastel blanket floating with soft balloons, airy dreamy studio background, soft sunlight glow, high-end newborn photography style', NEWBORN_IDENTITY),
+  style('n12', 'newborn', 12, { tr: 'Masal Kitabı', en: 'Fairy Tale Book' }, 'Vertical newborn baby sleeping on an open fairy tale book, magical soft glow, storybook fantasy style, warm cinematic lighting, whimsical newborn portrait', NEWBORN_IDENTITY),
+  style('n13', 'newborn', 13, { tr: 'Boho Çöl', en: 'Boho Desert' }, 'Vertical 9:16 newborn baby sleeping on soft neutral desert-toned fabrics, minimal boho aesthetic, warm earthy colors, cinematic soft shadows, luxury newborn photography', NEWBORN_IDENTITY),
+  style('n14', 'newborn', 14, { tr: 'Minik Astronot', en: 'Little Astronaut' }, 'Vertical newborn baby styled as tiny astronaut, soft space-themed background, cinematic lighting, ultra cute futuristic newborn portrait, photorealistic', NEWBORN_IDENTITY),
+  // Template images are matched by file name under their folder, ignoring case, accents and extension.
+  style('w1', 'wedding', 1, { tr: 'Bahçede Romantik Sarılma, Altın Saat', en: 'Garden Embrace at Golden Hour' }, 'Bahcede Romantik Sarilma Altin Saat dugun konsepti, premium kompozisyon.', WEDDING_IDENTITY, 'assets/wedding/bahcederomatiksarilmaaltinsaat'),
+  style('w2', 'wedding', 2, { tr: 'Çiçekli Tak Altında Alın Alına', en: 'Forehead to Forehead Under the Floral Arch' }, 'Cicekli Tak Altinda Alin Alina dugun konsepti, premium kompozisyon.', WEDDING_IDENTITY, 'assets/wedding/ciceklitakaltindaalinalinaromantikpoz'),
+  style('w3', 'wedding', 3, { tr: 'Gelin Vintage Arabadan İniyor', en: 'Bride Stepping Out of a Vintage Car' }, 'Gelin Vintage Arabadan Iniyor dugun konsepti, premium kompozisyon.', WEDDING_IDENTITY, 'assets/wedding/gelinarabadaniniyorvintagearaba'),
+  style('w4', 'wedding', 4, { tr: 'Gün Batımında Deniz Kenarı Çiçekli Tak', en: 'Seaside Floral Arch at Sunset' }, 'Gun Batiminda Deniz Kenari Cicekli Tak dugun konsepti, premium kompozisyon.', WEDDING_IDENTITY, 'assets/wedding/gunbatimindadenizkenariciceklitak'),
+  style('w5', 'wedding', 5, { tr: 'Kilise Önü Merdivenler', en: 'Church Steps' }, 'Kilise Onu Merdivenler dugun konsepti, premium kompozisyon.', WEDDING_IDENTITY, 'assets/wedding/merdivendekiliseonu'),
+  style('w6', 'wedding', 6, { tr: 'Paris Eyfel Kulesi Önünde Siyah Beyaz', en: 'Black and White at the Eiffel Tower' }, 'Paris Eyfel Kulesi Onunde Siyah Beyaz dugun konsepti, premium kompozisyon.', WEDDING_IDENTITY, 'assets/wedding/pariseyfelkulesionundesiyahbeyaz'),
+  style('c1', 'couple', 1, { tr: 'Dramatik Yakın Portre', en: 'Dramatic Close-up Portrait' }, 'Dramatik Yakin Portre cift cekimi konsepti, premium kompozisyon.', COUPLE_IDENTITY, 'assets/cift_cekimi/dramaticcloseupportrait'),
+  style('c2', 'couple', 2, { tr: 'Klasik Koltuk', en: 'Classic Armchair' }, 'Klasik Koltuk cift cekimi konsepti, premium kompozisyon.', COUPLE_IDENTITY, 'assets/cift_cekimi/klasikkoltuk'),
+  style('c3', 'couple', 3, { tr: 'Kırmızı Elbise', en: 'Red Dress' }, 'Kirmizi Elbise cift cekimi konsepti, premium kompozisyon.', COUPLE_IDENTITY, 'assets/cift_cekimi/kirmizielbise'),
+  style('c4', 'couple', 4, { tr: 'Kırmızı Gül Buketi', en: 'Red Rose Bouquet' }, 'Kirmizi Gul Buketi cift cekimi konsepti, premium kompozisyon.', COUPLE_IDENTITY, 'assets/cift_cekimi/kirmizigulbuketi'),
+  style('c5', 'couple', 5, { tr: 'Lüks Zemin Pozu', en: 'Luxury Floor Pose' }, 'Luks Zemin Pozu cift cekimi konsepti, premium kompozisyon.', COUPLE_IDENTITY, 'assets/cift_cekimi/luxuryfloorpose'),
+  style('c6', 'couple', 6, { tr: 'Minimal Kalp Fon', en: 'Minimal Heart Backdrop' }, 'Minimal Kalp Fon cift cekimi konsepti, premium kompozisyon.', COUPLE_IDENTITY, 'assets/cift_cekimi/minimalkonseptkalpfon'),
+  style('c7', 'couple', 7, { tr: 'Modern Beyaz Stüdyo', en: 'Modern White Studio' }, 'Modern Beyaz Studyo cift cekimi konsepti, premium kompozisyon.', COUPLE_IDENTITY, 'assets/cift_cekimi/modernminimalwhitestudio'),
+  style('c8', 'couple', 8, { tr: 'Ayakta Güçlü Çift', en: 'Standing Power Couple' }, 'Ayakta Guclu Cift cift cekimi konsepti, premium kompozisyon.', COUPLE_IDENTITY, 'assets/cift_cekimi/standingpowercouple'),
+  style('c9', 'couple', 9, { tr: 'Pencere Işığı Editoryal', en: 'Window Light Editorial' }, 'Pencere Isigi Editoryal cift cekimi konsepti, premium kompozisyon.', COUPLE_IDENTITY, 'assets/cift_cekimi/windowlighteditorial'),
+  style('v1', 'video', 1, { tr: 'Güzel Oyun', en: 'Playtime' }, '', null, 'assets/videos/guzeloyun.mp4'),
+  style('v2', 'video', 2, { tr: 'Havada', en: 'Up in the Air' }, '', null, 'assets/videos/havada.mp4'),
+  style('v3', 'video', 3, { tr: 'Oyun', en: 'Play' }, '', null, 'assets/videos/oyun.mp4'),
+  style('v4', 'video', 4, { tr: 'Uçan Bebek', en: 'Flying Baby' }, '', null, 'assets/videos/ucan.mp4'),
+];
@@ -0,0 +1,110 @@
+// Red-flag rules for baby-health emergencies, checked on every chat message before the coach answers.
+// Terms are matched against the message after Turkish-aware lowercasing and diacritic folding
+// (ı→i, ş→s, ğ→g, ü→u, ö→o, ç→c), so they are written in that folded form here.
+// A rule fires when every group in `allOf` has at least one matching term and no `noneOf` term
+// appears (used for plain negations such as "ateşi yok"). Bump the version
+// whenever a rule is added, removed or reworded so triage events can be traced to the rules in force.
+
+export const TRIAGE_CATEGORIES = [
+  'fever',
+  'breathing',
+  'dehydration',
+  'head_injury',
+  'neurological',
+  'responsiveness',
+  'other',
+] as const;
+export type TriageCategory = (typeof TRIAGE_CATEGORIES)[number];
+
+export interface TriageRule {
+  id: string;
+  category: TriageCategory;
+  allOf: string[][];
+  noneOf?: string[];
+  // Only fires when the child's age is known and below this many days.
+  maxAgeDays?: number;
+}
+
+export const TRIAGE_RULESET_VERSION = '2026-10.1';
+
+const FEVER_TERMS = ['ates', 'fever', 'yuksek isi', 'temperature'];
+const NO_FEVER_TERMS = ['ates yok', 'atesi yok', 'atesi olmadi', 'atesi yoktu', 'no fever', 'without fever'];
+const HEAD_TERMS = ['kafa', 'basini', 'basina', 'basi ', 'head'];
+
+export const TRIAGE_RULES: TriageRule[] = [
+  // Any fever before 3 months needs a same-day medical assessment.
+  { id: 'fever_under_3_months', category: 'fever', allOf: [FEVER_TERMS], noneOf: NO_FEVER_TERMS, maxAgeDays: 90 },
+  {
+    id: 'fever_newborn_mentioned',
+    category: 'fever',
+    allOf: [FEVER_TERMS, ['yenidogan', 'newborn', 'lohusa', 'haftalik', '1 aylik', '2 aylik', 'bir aylik', 'iki aylik']],
+    noneOf: NO_FEVER_TERMS,
+  },
+  {
+    id: 'breathing_difficulty',
+    category: 'breathing',
+    allOf: [[
+      'nefes alamiyor',
+      'nefes almakta zorlan',
+      'nefes darligi',
+      'nefesi kesil',
+      'solunum sikintisi',
+      'gogus cekilmesi',
+      'burun kanatlari',
+      'inleyerek nefes',
+      'trouble breathing',
+      "can't breathe",
+      'cannot breathe',
+      'not breathing',
+      'struggling to breathe',
+    ]],
+  },
+  {
+    id: 'cyanosis',
+    category: 'breathing',
+    allOf: [['dudaklari mor', 'yuzu mor', 'mosmor kesil', 'blue lips', 'turning blue']],
+  },
+  {
+    id: 'dehydration_signs',
+    category: 'dehydration',
+    allOf: [[
+      'bezi islatmiyor',
+      'bez islatmadi',
+      'islak bez yok',
+      'idrar yapmiyor',
+      'idrar yapmadi',
+      'cis yapmiyor',
+      'cis yapmadi',
+      'bingildak cok',
+      'fontanel cok',
+      'gozyasi yok',
+      'agzi kurumus',
+      'no wet diaper',
+      'sunken fontanelle',
+      'sunken soft spot',
+    ]],
+  },
+  {
+    id: 'head_injury_after_fall',
+    category: 'head_injury',
+    allOf: [['dustu', 'dusme', 'dusurdum', 'carpti', 'vurdu', 'fell', 'fall', 'dropped'], HEAD_TERMS],
+  },
+  {
+    id: 'seizure',
+    category: 'neurological',
+    allOf: [['havale', 'nobet gecir', 'titreme nobeti', 'seizure', 'convulsion']],
+  },
+  {
+    id: 'unresponsive',
+    category: 'responsiveness',
+    allOf: [['tepki vermiyor', 'uyandiramiyorum', 'bilinci kapali', 'bayildi', 'unresponsive', "won't wake", 'will not wake']],
+  },
+];
+
+// Fixed reply when any rule fires; the coach model is not called for these messages.
+export const TRIAGE_URGENT_CARE_MESSAGE = [
+  'Anlattıklarınız acil tıbbi değerlendirme gerektirebilecek bir duruma işaret ediyor.',
+  'Lütfen hemen 112 Acil Çağrı Merkezi’ni arayın veya bebeğinizi en yakın acil servise götürün.',
+  'Bebeğinizin nefes alışını ve bilincini takip edin, yardım gelene kadar yanından ayrılmayın.',
+  'Bu uygulama tıbbi muayenenin yerini tutmaz; acil durumda beklemeyin.',
+].join('\n\n');
@@ -0,0 +1,64 @@
+// National immunization schedules. Each dose is due `ageMonths` calendar months after birth.
+// Add a new schedule here and select it per child (or via VACCINATION_DEFAULT_SCHEDULE).
+
+export interface VaccineDose {
+  id: string;
+  vaccine: string;
+  doseNumber: number;
+  ageMonths: number;
+  name: { tr: string; en: string };
+}
+
+export interface VaccinationSchedule {
+  id: string;
+  country: string;
+  version: string;
+  name: { tr: string; en: string };
+  doses: VaccineDose[];
+}
+
+const dose = (vaccine: string, doseNumber: number, ageMonths: number, name: { tr: string; en: string }): VaccineDose => ({
+  id: `${vaccine}_${doseNumber}`,
+  vaccine,
+  doseNumber,
+  ageMonths,
+  name,
+});
+
+// T.C. Sağlık Bakanlığı Genişletilmiş Bağışıklama Programı (childhood doses up to primary school).
+const TR_MOH_SCHEDULE: VaccinationSchedule = {
+  id: 'tr_moh',
+  country: 'TR',
+  version: '2024',
+  name: { tr: 'Sağlık Bakanlığı Aşı Takvimi', en: 'Turkish Ministry of Health schedule' },
+  doses: [
+    dose('hepb', 1, 0, { tr: 'Hepatit B (1. doz)', en: 'Hepatitis B (dose 1)' }),
+    dose('hepb', 2, 1, { tr: 'Hepatit B (2. doz)', en: 'Hepatitis B (dose 2)' }),
+    dose('bcg', 1, 2, { tr: 'BCG (Verem)', en: 'BCG (tuberculosis)' }),
+    dose('dabt_ipa_hib', 1, 2, { tr: 'DaBT-İPA-Hib (1. doz)', en: 'DTaP-IPV-Hib (dose 1)' }),
+    dose('kpa', 1, 2, { tr: 'KPA - Konjuge Pnömokok (1. doz)', en: 'Pneumococcal conjugate (dose 1)' }),
+    dose('dabt_ipa_hib', 2, 4, { tr: 'DaBT-İPA-Hib (2. doz)', en: 'DTaP-IPV-Hib (dose 2)' }),
+    dose('kpa', 2, 4, { tr: 'KPA - Konjuge Pnömokok (2. doz)', en: 'Pneumococcal conjugate (dose 2)' }),
+    dose('hepb', 3, 6, { tr: 'Hepatit B (3. doz)', en: 'Hepatitis B (dose 3)' }),
+    dose('dabt_ipa_hib', 3, 6, { tr: 'DaBT-İPA-Hib (3. doz)', en: 'DTaP-IPV-Hib (dose 3)' }),
+    dose('opa', 1, 6, { tr: 'OPA - Oral Polio (1. doz)', en: 'Oral polio (dose 1)' }),
+    dose('kpa', 3, 12, { tr: 'KPA - Konjuge Pnömokok (rapel)', en: 'Pneumococcal conjugate (booster)' }),
+    dose('kkk', 1, 12, { tr: 'KKK - Kızamık, Kızamıkçık, Kabakulak (1. doz)', en: 'MMR (dose 1)' }),
+    dose('varicella', 1, 12, { tr: 'Suçiçeği', en: 'Varicella' }),
+    dose('dabt_ipa_hib', 4, 18, { tr: 'DaBT-İPA-Hib (rapel)', en: 'DTaP-IPV-Hib (booster)' }),
+    dose('opa', 2, 18, { tr: 'OPA - Oral Polio (2. doz)', en: 'Oral polio (dose 2)' }),
+    dose('hepa', 1, 18, { tr: 'Hepatit A (1. doz)', en: 'Hepatitis A (dose 1)' }),
+    dose('hepa', 2, 24, { tr: 'Hepatit A (2. doz)', en: 'Hepatitis A (dose 2)' }),
+    dose('kkk', 2, 48, { tr: 'KKK - Kızamık, Kızamıkçık, Kabakulak (2. doz)', en: 'MMR (dose 2)' }),
+    dose('dabt_ipa', 1, 48, { tr: 'DaBT-İPA (rapel)', en: 'DTaP-IPV (booster)' }),
+  ],
+};
+
+export const VACCINATION_SCHEDULES: Record<string, VaccinationSchedule> = {
+  [TR_MOH_SCHEDULE.id]: TR_MOH_SCHEDULE,
+};
+
+export const DEFAULT_VACCINATION_SCHEDULE_ID =
+  process.env.VACCINATION_DEFAULT_SCHEDULE && VACCINATION_SCHEDULES[process.env.VACCINATION_DEFAULT_SCHEDULE]
+    ? process.env.VACCINATION_DEFAULT_SCHEDULE
+    : TR_MOH_SCHEDULE.id;
@@ -0,0 +1,150 @@
+import { storage } from '../../../firebase';
+import { logger } from '../../../utils/logger';
+import {
+  detectImageFormat,
+  getCenterSquareCrop,
+  getOrientationTransform,
+  readImageDimensions,
+  readJpegOrientation,
+} from '../utils/image';
+
+export const AVATAR_SIZES = [512, 256, 128];
+export const AVATAR_ALLOWED_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png'];
+const AVATAR_MIN_DIMENSION = 128;
+const AVATAR_MAX_DIMENSION = 8000;
+const AVATAR_JPEG_QUALITY = 0.88;
+
+export interface ChildAvatarVariant {
+  size: number;
+  path: string;
+  url: string;
+}
+
+export interface ChildAvatar {
+  version: string;
+  mimeType: 'image/jpeg';
+  variants: ChildAvatarVariant[];
+  sourceWidth: number;
+  sourceHeight: number;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// Avatars live under the household owner's storage prefix so they survive caregiver changes.
+export const getChildAvatarPrefix = (ownerId: string, childId: string) =>
+  `users/${ownerId}/children/${childId}/avatar/`;
+
+const getSignedOrPublicUrl = async (filePath: string) => {
+  const bucket: any = storage.bucket();
+  const file = bucket.file(filePath);
+  try {
+    const [signed] = await file.getSignedUrl({
+      action: 'read',
+      expires: '2099-12-31',
+    });
+    return signed;
+  } catch {
+    return `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(filePath)}?alt=media`;
+  }
+};
+
+// Re-encoding through canvas writes a fresh JPEG, which drops EXIF (including GPS) entirely.
+// The native canvas binding is loaded on first use so services that only clean up avatars don't need it.
+const renderSquareVariants = async (buffer: Buffer) => {
+  const { createCanvas, loadImage } = await import('canvas');
+  const image = await loadImage(buffer);
+  const orientation = readJpegOrientation(buffer);
+  const crop = getCenterSquareCrop(image.width, image.height);
+  const variants = AVATAR_SIZES.map(size => {
+    const canvas = createCanvas(size, size);
+    const ctx = canvas.getContext('2d');
+    ctx.imageSmoothingEnabled = true;
+    ctx.quality = 'best';
+    ctx.setTransform(...getOrientationTransform(orientation, size));
+    ctx.drawImage(image, crop.x, crop.y, crop.side, crop.side, 0, 0, size, size);
+    return { size, buffer: canvas.toBuffer('image/jpeg', { quality: AVATAR_JPEG_QUALITY }) };
+  });
+  return { width: image.width, height: image.height, variants };
+};
+
+export const storeChildAvatar = async (params: {
+  ownerId: string;
+  childId: string;
+  uploadedBy: string;
+  file: { buffer: Buffer; mimetype: string };
+}) => {
+  if (!AVATAR_ALLOWED_MIME_TYPES.includes(params.file.mimetype) || !detectImageFormat(params.file.buffer)) {
+    return {
+      stored: false as const,
+      reason: 'unsupported_type' as const,
+      message: 'Avatar must be a JPEG or PNG image',
+    };
+  }
+
+  // Checked from the header: a small file can declare a huge canvas, and decoding it would
+  // allocate width × height × 4 bytes before we ever see the size.
+  const dimensions = readImageDimensions(params.file.buffer);
+  if (!dimensions) {
+    return { stored: false as const, reason: 'unreadable' as const, message: 'Avatar image could not be read' };
+  }
+  const shortestSide = Math.min(dimensions.width, dimensions.height);
+  const longestSide = Math.max(dimensions.width, dimensions.height);
+  if (shortestSide < AVATAR_MIN_DIMENSION || longestSide > AVATAR_MAX_DIMENSION) {
+    return {
+      stored: false as const,
+      reason: 'invalid_dimensions' as const,
+      message: `Avatar must be between ${AVATAR_MIN_DIMENSION} and ${AVATAR_MAX_DIMENSION} pixels per side`,
+    };
+  }
+
+  let rendered: Awaited<ReturnType<typeof renderSquareVariants>>;
+  try {
+    rendered = await renderSquareVariants(params.file.buffer);
+  } catch (error) {
+    logger.warn({ err: error, childId: params.childId }, 'Avatar image could not be decoded');
+    return { stored: false as const, reason: 'unreadable' as const, message: 'Avatar image could not be read' };
+  }
+
+  const bucket: any = storage.bucket();
+  const version = String(Date.now());
+  const prefix = getChildAvatarPrefix(params.ownerId, params.childId);
+  const variants: ChildAvatarVariant[] = [];
+  for (const variant of rendered.variants) {
+    const path = `${prefix}${version}-${variant.size}.jpg`;
+    await bucket.file(path).save(variant.buffer, {
+      contentType: 'image/jpeg',
+      resumable: false,
+      metadata: {
+        cacheControl: 'public,max-age=31536000',
+      },
+    });
+    variants.push({ size: variant.size, path, url: await getSignedOrPublicUrl(path) });
+  }
+
+  const avatar: ChildAvatar = {
+    version,
+    mimeType: 'image/jpeg',
+    variants,
+    sourceWidth: rendered.width,
+    sourceHeight: rendered.height,
+    updatedAt: new Date().toISOString(),
+    updatedBy: params.uploadedBy,
+  };
+  return { stored: true as const, avatar };
+};
+
+export const deleteAvatarFiles = async (paths: string[]) => {
+  const bucket: any = storage.bucket();
+  for (const path of paths) {
+    try {
+      await bucket.file(path).delete();
+    } catch (err) {
+      logger.warn({ err, path }, 'Failed to delete avatar storage object');
+    }
+  }
+};
+
+export const deleteChildAvatarFiles = async (ownerId: string, childId: string) => {
+  const bucket: any = storage.bucket();
+  await bucket.deleteFiles({ prefix: getChildAvatarPrefix(ownerId, childId) });
+};
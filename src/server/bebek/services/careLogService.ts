@@ -0,0 +1,276 @@
+import { db } from '../../../firebase';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { ChildProfile, CHILD_COLLECTION } from './childService';
+import { getUserInfo } from './userInfoService';
+import {
+  addDaysToDateString,
+  DEFAULT_TIMEZONE,
+  formatDateInTimeZone,
+  getUtcRangeForDate,
+  isValidTimeZone,
+} from '../utils/timezone';
+
+export type CareLogType = 'breastfeeding' | 'bottle' | 'solid' | 'sleep' | 'diaper';
+export type BreastSide = 'left' | 'right' | 'both';
+export type BottleContent = 'breast_milk' | 'formula' | 'other';
+export type SleepKind = 'nap' | 'night';
+export type DiaperKind = 'wet' | 'dirty' | 'mixed' | 'dry';
+
+export const CARE_LOG_TYPES: CareLogType[] = ['breastfeeding', 'bottle', 'solid', 'sleep', 'diaper'];
+
+export interface CareLogInput {
+  type?: CareLogType;
+  startedAt?: string;
+  endedAt?: string | null;
+  durationMinutes?: number | null;
+  side?: BreastSide | null;
+  amountMl?: number | null;
+  bottleContent?: BottleContent | null;
+  food?: string | null;
+  firstIntroduction?: boolean | null;
+  reaction?: string | null;
+  sleepKind?: SleepKind | null;
+  diaperKind?: DiaperKind | null;
+  note?: string | null;
+}
+
+const CARE_LOGS_SUBCOLLECTION = 'care_logs';
+const MINUTE_MS = 60_000;
+const FEED_TYPES: CareLogType[] = ['breastfeeding', 'bottle'];
+// Sleep entries that started this long before a day can still overlap it.
+const SLEEP_LOOKBACK_MS = 24 * 60 * MINUTE_MS;
+export const MAX_RANGE_DAYS = 31;
+
+const careLogsRef = (childId: string) => db.collection(CHILD_COLLECTION).doc(childId).collection(CARE_LOGS_SUBCOLLECTION);
+
+export const getUserTimeZone = async (userId: string) => {
+  const userInfo = await getUserInfo(userId);
+  const timeZone = userInfo?.timezone;
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+};
+
+const TYPE_FIELDS: Record<CareLogType, Array<keyof CareLogInput>> = {
+  breastfeeding: ['side'],
+  bottle: ['amountMl', 'bottleContent'],
+  solid: ['food', 'firstIntroduction', 'reaction'],
+  sleep: ['sleepKind'],
+  diaper: ['diaperKind'],
+};
+
+const getDurationMinutes = (startedAt: string, endedAt?: string | null) => {
+  if (!endedAt) return null;
+  return Math.round((Date.parse(endedAt) - Date.parse(startedAt)) / MINUTE_MS);
+};
+
+// Entries may carry either an end time or a duration; the end time wins when both are given.
+const resolveEndedAt = (entry: CareLogInput) => {
+  if (entry.endedAt) return new Date(entry.endedAt).toISOString();
+  if (typeof entry.durationMinutes === 'number') {
+    return new Date(Date.parse(entry.startedAt as string) + entry.durationMinutes * MINUTE_MS).toISOString();
+  }
+  return null;
+};
+
+const buildEntryFields = (merged: CareLogInput, timeZone: string) => {
+  const type = merged.type as CareLogType;
+  const endedAt = resolveEndedAt(merged);
+  const fields: Record<string, unknown> = {
+    type,
+    startedAt: new Date(merged.startedAt as string).toISOString(),
+    endedAt,
+    durationMinutes: getDurationMinutes(merged.startedAt as string, endedAt),
+    localDate: formatDateInTimeZone(new Date(merged.startedAt as string), timeZone),
+    note: merged.note?.trim() || null,
+  };
+  TYPE_FIELDS[type].forEach(field => {
+    const value = merged[field];
+    fields[field] = typeof value === 'string' ? value.trim() || null : value ?? null;
+  });
+  return fields;
+};
+
+const validateEntry = (entry: CareLogInput) => {
+  if (entry.endedAt && Date.parse(entry.endedAt) < Date.parse(entry.startedAt as string)) {
+    return 'endedAt must be after startedAt';
+  }
+  if (entry.type === 'breastfeeding' && !entry.side) return 'side is required for breastfeeding';
+  if (entry.type === 'bottle' && !(typeof entry.amountMl === 'number' && entry.amountMl > 0)) {
+    return 'amountMl is required for bottle feeds';
+  }
+  if (entry.type === 'solid' && !entry.food?.trim()) return 'food is required for solid feeds';
+  if (entry.type === 'sleep' && !entry.sleepKind) return 'sleepKind is required for sleep';
+  if (entry.type === 'diaper' && !entry.diaperKind) return 'diaperKind is required for diaper changes';
+  return null;
+};
+
+export const createCareLogEntry = async (child: ChildProfile, userId: string, input: CareLogInput, timeZone: string) => {
+  const invalidReason = validateEntry(input);
+  if (invalidReason) {
+    return { created: false as const, reason: 'invalid_entry' as const, message: invalidReason };
+  }
+
+  const now = new Date().toISOString();
+  const id = uuidv4();
+  const entry = {
+    id,
+    childId: child.id,
+    ...buildEntryFields(input, timeZone),
+    createdBy: userId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await careLogsRef(child.id).doc(id).set(entry);
+  return { created: true as const, entry };
+};
+
+export const updateCareLogEntry = async (child: ChildProfile, entryId: string, input: CareLogInput, timeZone: string) => {
+  const ref = careLogsRef(child.id).doc(entryId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { updated: false, reason: 'not_found' as const };
+  }
+
+  const existing = snapshot.data() as any;
+  const merged: CareLogInput = { ...existing, ...input, type: existing.type };
+  if (input.durationMinutes !== undefined && input.endedAt === undefined) {
+    merged.endedAt = null;
+  }
+  const invalidReason = validateEntry(merged);
+  if (invalidReason) {
+    return { updated: false, reason: 'invalid_entry' as const, message: invalidReason };
+  }
+
+  const payload = { ...buildEntryFields(merged, timeZone), updatedAt: new Date().toISOString() };
+  await ref.set(payload, { merge: true });
+  return { updated: true as const, entry: { ...existing, ...payload } };
+};
+
+export const deleteCareLogEntry = async (child: ChildProfile, entryId: string) => {
+  const ref = careLogsRef(child.id).doc(entryId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { deleted: false, reason: 'not_found' as const };
+  }
+  await ref.delete();
+  return { deleted: true as const };
+};
+
+const queryEntries = async (childId: string, start: Date, end: Date) => {
+  const snapshot = await careLogsRef(childId)
+    .where('startedAt', '>=', start.toISOString())
+    .where('startedAt', '<', end.toISOString())
+    .get();
+  return snapshot.docs
+    .map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...(doc.data() as any) }))
+    .sort((a: any, b: any) => String(a.startedAt).localeCompare(String(b.startedAt)));
+};
+
+// Lists entries whose start falls within [from, to] (inclusive local dates in the parent's timezone).
+export const listCareLogEntries = async (
+  child: ChildProfile,
+  params: { from: string; to: string; timeZone: string; type?: CareLogType },
+) => {
+  const { start } = getUtcRangeForDate(params.from, params.timeZone);
+  const { end } = getUtcRangeForDate(params.to, params.timeZone);
+  const entries = await queryEntries(child.id, start, end);
+  return params.type ? entries.filter((entry: any) => entry.type === params.type) : entries;
+};
+
+const overlapMinutes = (entry: any, start: Date, end: Date) => {
+  if (!entry.endedAt) return 0;
+  const from = Math.max(Date.parse(entry.startedAt), start.getTime());
+  const to = Math.min(Date.parse(entry.endedAt), end.getTime());
+  return to > from ? (to - from) / MINUTE_MS : 0;
+};
+
+const round = (value: number, digits = 1) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+export const summarizeCareDay = (entries: any[], date: string, timeZone: string) => {
+  const { start, end } = getUtcRangeForDate(date, timeZone);
+  const startedToday = entries.filter((entry: any) => {
+    const ts = Date.parse(entry.startedAt);
+    return ts >= start.getTime() && ts < end.getTime();
+  });
+  const feeds = startedToday.filter((entry: any) => FEED_TYPES.includes(entry.type));
+  const feedIntervals = feeds
+    .slice(1)
+    .map((entry: any, index: number) => (Date.parse(entry.startedAt) - Date.parse(feeds[index].startedAt)) / MINUTE_MS);
+  const sleeps = entries.filter((entry: any) => entry.type === 'sleep');
+  const sleepMinutes = sleeps.reduce((sum: number, entry: any) => sum + overlapMinutes(entry, start, end), 0);
+  const nightSleepMinutes = sleeps
+    .filter((entry: any) => entry.sleepKind === 'night')
+    .reduce((sum: number, entry: any) => sum + overlapMinutes(entry, start, end), 0);
+  const diapers = startedToday.filter((entry: any) => entry.type === 'diaper');
+  const countDiapers = (kind: DiaperKind) => diapers.filter((entry: any) => entry.diaperKind === kind).length;
+
+  return {
+    date,
+    feedCount: feeds.length,
+    breastfeedingCount: feeds.filter((entry: any) => entry.type === 'breastfeeding').length,
+    breastfeedingMinutes: feeds
+      .filter((entry: any) => entry.type === 'breastfeeding')
+      .reduce((sum: number, entry: any) => sum + (entry.durationMinutes || 0), 0),
+    bottleCount: feeds.filter((entry: any) => entry.type === 'bottle').length,
+    bottleMl: feeds
+      .filter((entry: any) => entry.type === 'bottle')
+      .reduce((sum: number, entry: any) => sum + (entry.amountMl || 0), 0),
+    averageFeedIntervalMinutes: feedIntervals.length
+      ? Math.round(feedIntervals.reduce((sum: number, value: number) => sum + value, 0) / feedIntervals.length)
+      : null,
+    solidCount: startedToday.filter((entry: any) => entry.type === 'solid').length,
+    napCount: startedToday.filter((entry: any) => entry.type === 'sleep' && entry.sleepKind === 'nap').length,
+    sleepHours: round(sleepMinutes / 60),
+    nightSleepHours: round(nightSleepMinutes / 60),
+    diapers: {
+      total: diapers.length,
+      wet: countDiapers('wet'),
+      dirty: countDiapers('dirty'),
+      mixed: countDiapers('mixed'),
+      dry: countDiapers('dry'),
+    },
+  };
+};
+
+const loadEntriesForDays = async (childId: string, firstDate: string, lastDate: string, timeZone: string) => {
+  const { start } = getUtcRangeForDate(firstDate, timeZone);
+  const { end } = getUtcRangeForDate(lastDate, timeZone);
+  return queryEntries(childId, new Date(start.getTime() - SLEEP_LOOKBACK_MS), end);
+};
+
+export const getDailyCareSummary = async (child: ChildProfile, date: string, timeZone: string) => {
+  const entries = await loadEntriesForDays(child.id, date, date, timeZone);
+  return summarizeCareDay(entries, date, timeZone);
+};
+
+export const getWeeklyCareSummary = async (child: ChildProfile, endDate: string, timeZone: string) => {
+  const startDate = addDaysToDateString(endDate, -6);
+  const entries = await loadEntriesForDays(child.id, startDate, endDate, timeZone);
+  const days = Array.from({ length: 7 }, (_, index) =>
+    summarizeCareDay(entries, addDaysToDateString(startDate, index), timeZone),
+  );
+  const intervals = days
+    .map(day => day.averageFeedIntervalMinutes)
+    .filter((value): value is number => typeof value === 'number');
+
+  return {
+    startDate,
+    endDate,
+    timeZone,
+    days,
+    averages: {
+      feedCount: round(days.reduce((sum, day) => sum + day.feedCount, 0) / days.length),
+      sleepHours: round(days.reduce((sum, day) => sum + day.sleepHours, 0) / days.length),
+      diaperCount: round(days.reduce((sum, day) => sum + day.diapers.total, 0) / days.length),
+      bottleMl: Math.round(days.reduce((sum, day) => sum + day.bottleMl, 0) / days.length),
+      feedIntervalMinutes: intervals.length
+        ? Math.round(intervals.reduce((sum, value) => sum + value, 0) / intervals.length)
+        : null,
+    },
+  };
+};
+
+export const getTodayInTimeZone = (timeZone: string) => formatDateInTimeZone(new Date(), timeZone);
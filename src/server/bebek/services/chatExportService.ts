@@ -0,0 +1,245 @@
+import { storage } from '../../../firebase';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../../../config';
+import { logger } from '../../../utils/logger';
+import { CoachLanguage } from '../data/coachPromptPacks';
+import { renderTextPdf } from '../utils/pdf';
+import { DEFAULT_TIMEZONE } from '../utils/timezone';
+import { getChatTranscript } from './chatService';
+
+export const CHAT_EXPORT_FORMATS = ['pdf', 'md', 'json'] as const;
+export type ChatExportFormat = (typeof CHAT_EXPORT_FORMATS)[number];
+
+// Exports are short-lived copies meant for sharing; the hourly cleanup deletes them once expired.
+const EXPORT_PREFIX = 'exports/chat/';
+
+const CONTENT_TYPES: Record<ChatExportFormat, string> = {
+  pdf: 'application/pdf',
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+interface ChatExportLabels {
+  heading: string;
+  untitled: string;
+  child: string;
+  period: string;
+  exportedAt: string;
+  parent: string;
+  coach: string;
+  sources: string;
+  empty: string;
+  disclaimer: string;
+}
+
+const EXPORT_LABELS: Record<CoachLanguage, ChatExportLabels> = {
+  tr: {
+    heading: 'Sohbet dökümü',
+    untitled: 'Genel danışmanlık',
+    child: 'Çocuk',
+    period: 'Tarih aralığı',
+    exportedAt: 'Oluşturulma',
+    parent: 'Ebeveyn',
+    coach: 'Bebek AI',
+    sources: 'Kaynaklar',
+    empty: 'Bu sohbette henüz mesaj yok.',
+    disclaimer:
+      'Bu döküm Bebek AI sohbetinden alınmıştır. Asistanın yanıtları bilgilendirme amaçlıdır; tıbbi muayene, tanı veya tedavinin yerini tutmaz.',
+  },
+  en: {
+    heading: 'Chat transcript',
+    untitled: 'General guidance',
+    child: 'Child',
+    period: 'Period',
+    exportedAt: 'Exported',
+    parent: 'Parent',
+    coach: 'Bebek AI',
+    sources: 'Sources',
+    empty: 'This conversation has no messages yet.',
+    disclaimer:
+      'This transcript was exported from a Bebek AI chat. The assistant’s answers are for information only and do not replace a medical examination, diagnosis or treatment.',
+  },
+};
+
+interface TranscriptMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  citations: Array<{ index: number; title: string; source_url?: string | null }>;
+}
+
+interface ChatTranscriptDocument {
+  sessionId: string;
+  title: string;
+  childName: string | null;
+  language: CoachLanguage;
+  timeZone: string;
+  exportedAt: string;
+  messages: TranscriptMessage[];
+}
+
+const createDateFormatter = (language: CoachLanguage, timeZone: string) => {
+  const locale = language === 'tr' ? 'tr-TR' : 'en-GB';
+  try {
+    return new Intl.DateTimeFormat(locale, { timeZone, dateStyle: 'medium', timeStyle: 'short' });
+  } catch {
+    // Profiles can carry a timezone this runtime does not know.
+    return new Intl.DateTimeFormat(locale, { timeZone: DEFAULT_TIMEZONE, dateStyle: 'medium', timeStyle: 'short' });
+  }
+};
+
+const describeDocument = (doc: ChatTranscriptDocument) => {
+  const labels = EXPORT_LABELS[doc.language];
+  const formatter = createDateFormatter(doc.language, doc.timeZone);
+  const formatDate = (value: string) => (value ? formatter.format(new Date(value)) : '-');
+  const first = doc.messages[0]?.createdAt;
+  const last = doc.messages[doc.messages.length - 1]?.createdAt;
+  return {
+    labels,
+    speaker: (message: TranscriptMessage) =>
+      `${message.role === 'assistant' ? labels.coach : labels.parent} — ${formatDate(message.createdAt)}`,
+    details: [
+      ...(doc.childName ? [`${labels.child}: ${doc.childName}`] : []),
+      ...(first ? [`${labels.period}: ${formatDate(first)} – ${formatDate(last)}`] : []),
+      `${labels.exportedAt}: ${formatDate(doc.exportedAt)} (${doc.timeZone})`,
+    ],
+  };
+};
+
+const citationLines = (message: TranscriptMessage) =>
+  message.citations.map(citation => `[${citation.index}] ${citation.title}${citation.source_url ? ` (${citation.source_url})` : ''}`);
+
+const renderChatMarkdown = (doc: ChatTranscriptDocument) => {
+  const { labels, details, speaker } = describeDocument(doc);
+  const lines = [`# ${labels.heading}: ${doc.title}`, '', ...details.map(line => `- ${line}`), ''];
+  if (!doc.messages.length) {
+    lines.push(labels.empty, '');
+  }
+  doc.messages.forEach(message => {
+    lines.push(`### ${speaker(message)}`, '', message.content.trim(), '');
+    if (message.citations.length) {
+      lines.push(`${labels.sources}:`, ...citationLines(message).map(line => `- ${line}`), '');
+    }
+  });
+  lines.push('---', '', `_${labels.disclaimer}_`, '');
+  return lines.join('\n');
+};
+
+const renderChatPdf = (doc: ChatTranscriptDocument) => {
+  const { labels, details, speaker } = describeDocument(doc);
+  return renderTextPdf(
+    [
+      { text: `${labels.heading}: ${doc.title}`, style: 'title' },
+      { text: details.join('\n'), style: 'muted' },
+      ...(doc.messages.length ? [] : [{ text: labels.empty }]),
+      ...doc.messages.flatMap(message => [
+        { text: speaker(message), style: 'heading' as const },
+        { text: message.content.trim() },
+        ...(message.citations.length
+          ? [{ text: [`${labels.sources}:`, ...citationLines(message)].join('\n'), style: 'muted' as const }]
+          : []),
+      ]),
+    ],
+    { footer: labels.disclaimer },
+  );
+};
+
+const renderChatJson = (doc: ChatTranscriptDocument) =>
+  JSON.stringify(
+    {
+      session_id: doc.sessionId,
+      title: doc.title,
+      child_name: doc.childName,
+      language: doc.language,
+      time_zone: doc.timeZone,
+      exported_at: doc.exportedAt,
+      messages: doc.messages.map(message => ({
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        created_at: message.createdAt,
+        citations: message.citations,
+      })),
+      disclaimer: EXPORT_LABELS[doc.language].disclaimer,
+    },
+    null,
+    2,
+  );
+
+const RENDERERS: Record<ChatExportFormat, (doc: ChatTranscriptDocument) => string | Buffer> = {
+  pdf: renderChatPdf,
+  md: renderChatMarkdown,
+  json: renderChatJson,
+};
+
+// Renders the active branch of a session, stores it under exports/ and hands back a signed URL
+// that stops working after `config.chatExport.urlTtlMinutes`.
+export const exportChatSession = async (params: {
+  userId: string;
+  sessionId: string;
+  format: ChatExportFormat;
+  language: CoachLanguage;
+  timeZone?: string;
+}) => {
+  const { userId, sessionId, format, language } = params;
+  const result = await getChatTranscript(userId, sessionId, config.chatExport.maxMessages);
+  if (result.reason) {
+    return { exported: false as const, reason: result.reason };
+  }
+
+  const { session, childName, messages } = result.transcript;
+  const now = new Date();
+  const doc: ChatTranscriptDocument = {
+    sessionId,
+    title: session.custom_title || childName || EXPORT_LABELS[language].untitled,
+    childName,
+    language,
+    timeZone: params.timeZone || DEFAULT_TIMEZONE,
+    exportedAt: now.toISOString(),
+    messages: messages
+      .filter((message: any) => message.role === 'user' || message.role === 'assistant')
+      .map((message: any) => ({
+        id: message.id,
+        role: message.role,
+        content: String(message.content || ''),
+        createdAt: message.created_at || '',
+        citations: Array.isArray(message.citations) ? message.citations : [],
+      })),
+  };
+  const rendered = RENDERERS[format](doc);
+  const body = typeof rendered === 'string' ? Buffer.from(rendered, 'utf8') : rendered;
+
+  const expiresAt = new Date(now.getTime() + config.chatExport.urlTtlMinutes * 60 * 1000).toISOString();
+  const fileName = `bebek-ai-chat-${now.toISOString().slice(0, 10)}.${format}`;
+  const path = `${EXPORT_PREFIX}${userId}/${uuidv4()}.${format}`;
+  const bucket: any = storage.bucket();
+  const file = bucket.file(path);
+  await file.save(body, {
+    resumable: false,
+    contentType: CONTENT_TYPES[format],
+    metadata: {
+      contentDisposition: `attachment; filename="${fileName}"`,
+      metadata: { expiresAt, sessionId, userId },
+    },
+  });
+  // No public-URL fallback here: an export must not outlive its expiry.
+  const [url] = await file.getSignedUrl({ action: 'read', expires: expiresAt });
+
+  logger.info({ userId, sessionId, format, bytes: body.length, messageCount: doc.messages.length }, 'Chat session exported');
+  return {
+    exported: true as const,
+    export: { format, fileName, url, expiresAt, messageCount: doc.messages.length, bytes: body.length },
+  };
+};
+
+export const deleteExpiredChatExports = async (now = new Date()) => {
+  const bucket: any = storage.bucket();
+  const [files] = await bucket.getFiles({ prefix: EXPORT_PREFIX });
+  const expired = (files as any[]).filter(file => {
+    const expiresAt = Date.parse(file.metadata?.metadata?.expiresAt || '');
+    return Number.isFinite(expiresAt) && expiresAt <= now.getTime();
+  });
+  await Promise.all(expired.map(file => file.delete({ ignoreNotFound: true })));
+  return expired.length;
+};
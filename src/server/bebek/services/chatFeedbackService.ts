@@ -0,0 +1,150 @@
+import { db } from '../../../firebase';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { getChatSessionForUser } from './chatService';
+
+export const CHAT_FEEDBACK_RATINGS = ['up', 'down'] as const;
+export type ChatFeedbackRating = (typeof CHAT_FEEDBACK_RATINGS)[number];
+
+export const CHAT_FEEDBACK_REASONS = ['wrong', 'unsafe', 'too_long', 'not_personalized'] as const;
+export type ChatFeedbackReason = (typeof CHAT_FEEDBACK_REASONS)[number];
+
+export interface ChatFeedbackInput {
+  rating: ChatFeedbackRating;
+  reasons?: ChatFeedbackReason[];
+  comment?: string | null;
+  flagged?: boolean;
+}
+
+const FEEDBACK_COLLECTION = 'chat_message_feedback';
+const DEFAULT_TONE = 'varsayilan';
+const UNKNOWN_MODEL = 'unknown';
+
+// One feedback document per user and message, so changing a rating overwrites it.
+const feedbackDocId = (messageId: string, userId: string) => `${messageId}_${userId}`;
+
+const toDateKey = (iso: string) => iso.slice(0, 10);
+
+export const submitChatFeedback = async (userId: string, messageId: string, input: ChatFeedbackInput) => {
+  const messageSnapshot = await db.collection('chat_messages').doc(messageId).get();
+  if (!messageSnapshot.exists) {
+    return { saved: false, reason: 'not_found' as const };
+  }
+  const message = messageSnapshot.data() as any;
+  const access = await getChatSessionForUser(userId, String(message.session_id || ''));
+  if (access.reason) {
+    return { saved: false, reason: access.reason };
+  }
+  if (message.role !== 'assistant') {
+    return { saved: false, reason: 'not_assistant' as const };
+  }
+
+  const reasons = Array.from(new Set(input.reasons || []));
+  const ref = db.collection(FEEDBACK_COLLECTION).doc(feedbackDocId(messageId, userId));
+  const existing = await ref.get();
+  const now = new Date().toISOString();
+  const feedback = {
+    message_id: messageId,
+    session_id: message.session_id,
+    user_id: userId,
+    rating: input.rating,
+    reasons,
+    comment: input.comment?.trim() || null,
+    // Unsafe answers are always flagged for review, whatever the client sent.
+    flagged: Boolean(input.flagged) || reasons.includes('unsafe'),
+    model: message.model || UNKNOWN_MODEL,
+    context_hash: message.context_hash || null,
+    // Both come from the reply itself, so they describe the answer being rated rather than
+    // the user's settings or the day the rating was changed.
+    tone: message.tone || DEFAULT_TONE,
+    reply_date_key: message.created_at ? toDateKey(String(message.created_at)) : toDateKey(now),
+    created_at: existing.exists ? (existing.data() as any).created_at : now,
+    updated_at: now,
+    date_key: toDateKey(now),
+  };
+  await ref.set(feedback);
+  return { saved: true as const, feedback: { id: ref.id, ...feedback } };
+};
+
+export const deleteChatFeedback = async (userId: string, messageId: string) => {
+  const ref = db.collection(FEEDBACK_COLLECTION).doc(feedbackDocId(messageId, userId));
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { deleted: false as const };
+  }
+  await ref.delete();
+  return { deleted: true as const };
+};
+
+const emptyBucket = () => ({
+  total: 0,
+  up: 0,
+  down: 0,
+  flagged: 0,
+  reasons: Object.fromEntries(CHAT_FEEDBACK_REASONS.map(reason => [reason, 0])) as Record<ChatFeedbackReason, number>,
+});
+
+type FeedbackBucket = ReturnType<typeof emptyBucket>;
+
+const addToBucket = (bucket: FeedbackBucket, item: any) => {
+  bucket.total += 1;
+  if (item.rating === 'up') bucket.up += 1;
+  if (item.rating === 'down') bucket.down += 1;
+  if (item.flagged) bucket.flagged += 1;
+  (item.reasons || []).forEach((reason: ChatFeedbackReason) => {
+    if (reason in bucket.reasons) bucket.reasons[reason] += 1;
+  });
+};
+
+const withApprovalRate = (bucket: FeedbackBucket) => ({
+  ...bucket,
+  approvalRate: bucket.total ? Math.round((bucket.up / bucket.total) * 1000) / 1000 : null,
+});
+
+export const summarizeChatFeedback = (items: any[]) => {
+  const overall = emptyBucket();
+  const groups = {
+    byModel: new Map<string, FeedbackBucket>(),
+    byTone: new Map<string, FeedbackBucket>(),
+    byDate: new Map<string, FeedbackBucket>(),
+  };
+  items.forEach(item => {
+    addToBucket(overall, item);
+    const keys: Record<keyof typeof groups, string> = {
+      byModel: item.model || UNKNOWN_MODEL,
+      byTone: item.tone || DEFAULT_TONE,
+      byDate: item.reply_date_key || item.date_key || toDateKey(String(item.created_at || '')),
+    };
+    (Object.keys(groups) as Array<keyof typeof groups>).forEach(group => {
+      const bucket = groups[group].get(keys[group]) || emptyBucket();
+      addToBucket(bucket, item);
+      groups[group].set(keys[group], bucket);
+    });
+  });
+
+  const toRows = <K extends string>(map: Map<string, FeedbackBucket>, label: K) =>
+    Array.from(map.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, bucket]) => ({ [label]: key, ...withApprovalRate(bucket) }) as Record<K, string> & ReturnType<typeof withApprovalRate>);
+
+  return {
+    overall: withApprovalRate(overall),
+    byModel: toRows(groups.byModel, 'model'),
+    byTone: toRows(groups.byTone, 'tone'),
+    byDate: toRows(groups.byDate, 'date'),
+  };
+};
+
+// Inclusive YYYY-MM-DD range on the UTC day the feedback was last updated; the date rows
+// group those ratings by the day the rated reply was generated.
+export const getChatFeedbackSummary = async (params: { from: string; to: string; model?: string }) => {
+  let query = db
+    .collection(FEEDBACK_COLLECTION)
+    .where('date_key', '>=', params.from)
+    .where('date_key', '<=', params.to);
+  if (params.model) {
+    query = query.where('model', '==', params.model);
+  }
+  const snapshot = await query.get();
+  const items = snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => doc.data());
+  return { from: params.from, to: params.to, ...summarizeChatFeedback(items) };
+};
@@ -0,0 +1,40 @@
+import { storage } from '../../../firebase';
+import { logger } from '../../../utils/logger';
+import type { InlineImagePayload } from './geminiService';
+
+// Images sent with a message are kept so regenerating or editing it can send them to the model again.
+const chatImagePrefix = (userId: string, sessionId: string) => `users/${userId}/chat_images/${sessionId}/`;
+
+export const saveChatImage = async (userId: string, sessionId: string, messageId: string, image: InlineImagePayload) => {
+  const bucket: any = storage.bucket();
+  const path = `${chatImagePrefix(userId, sessionId)}${messageId}`;
+  await bucket.file(path).save(Buffer.from(image.data, 'base64'), {
+    contentType: image.mimeType,
+    resumable: false,
+  });
+  return { mimeType: image.mimeType, path };
+};
+
+// Messages from before images were stored only carry the MIME type; those are answered without the image.
+export const loadChatImage = async (image?: { mimeType?: string; path?: string } | null): Promise<InlineImagePayload | null> => {
+  if (!image?.path || !image.mimeType) {
+    return null;
+  }
+  const bucket: any = storage.bucket();
+  try {
+    const [body] = await bucket.file(image.path).download();
+    return { data: body.toString('base64'), mimeType: image.mimeType };
+  } catch (error) {
+    logger.warn({ err: error, path: image.path }, 'Failed to load stored chat image');
+    return null;
+  }
+};
+
+export const deleteChatImages = async (userId: string, sessionId: string) => {
+  const bucket: any = storage.bucket();
+  try {
+    await bucket.deleteFiles({ prefix: chatImagePrefix(userId, sessionId) });
+  } catch (error) {
+    logger.warn({ err: error, userId, sessionId }, 'Failed to delete chat images');
+  }
+};
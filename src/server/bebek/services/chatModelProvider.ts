@@ -0,0 +1,157 @@
+import { createHash } from 'crypto';
+import { config } from '../../../config';
+import { logger } from '../../../utils/logger';
+import { createFakeChatProvider } from './fakeChatProvider';
+import {
+  ChatHistoryItem,
+  InlineImagePayload,
+  extractChildMemories,
+  generateCoachResponse,
+  getGeminiChatModel,
+  streamCoachResponse,
+} from './geminiService';
+
+export interface ChatModelRequest {
+  // The language-specific instructions from the user's prompt pack; `context` follows them.
+  systemPrompt: string;
+  context: string;
+  history: ChatHistoryItem[];
+  image?: InlineImagePayload;
+  model: string;
+}
+
+export interface ChildMemoryExtractionRequest {
+  userMessage: string;
+  reply: string;
+  knownFacts: string[];
+  categories: readonly string[];
+}
+
+export interface ExtractedChildMemory {
+  category: string;
+  content: string;
+  // Index into `knownFacts` of the fact this one corrects, e.g. an allergy that has gone away.
+  replaces?: number | null;
+}
+
+export interface ChatModelStreamRequest extends ChatModelRequest {
+  onDelta: (delta: string, fullText: string) => void;
+  signal?: AbortSignal;
+}
+
+// A backend the coach can answer with. `stream` resolves with the full reply; when `signal`
+// aborts it resolves early with whatever text arrived so the caller can still persist it.
+export interface ChatModelProvider {
+  name: string;
+  defaultModel: () => string;
+  generate: (request: ChatModelRequest) => Promise<string>;
+  stream: (request: ChatModelStreamRequest) => Promise<string>;
+  // Facts worth remembering about the child from one exchange; may return unknown categories.
+  extractMemories: (request: ChildMemoryExtractionRequest) => Promise<ExtractedChildMemory[]>;
+}
+
+export interface ChatModelSelection {
+  provider: string;
+  model: string;
+  cohort: string | null;
+}
+
+export interface ChatModelOverride {
+  provider?: string;
+  model?: string;
+}
+
+const geminiChatProvider: ChatModelProvider = {
+  name: 'gemini',
+  defaultModel: getGeminiChatModel,
+  generate: request => generateCoachResponse(request.systemPrompt, request.context, request.history, request.image, request.model),
+  stream: request => streamCoachResponse(request),
+  extractMemories: request => extractChildMemories({ ...request, timeoutMs: config.chatModel.memoryExtractionTimeoutMs }),
+};
+
+const providers = new Map<string, ChatModelProvider>();
+
+export const registerChatModelProvider = (provider: ChatModelProvider) => {
+  providers.set(provider.name, provider);
+};
+
+registerChatModelProvider(geminiChatProvider);
+registerChatModelProvider(createFakeChatProvider());
+
+export const getChatModelProvider = (name: string) => {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown chat model provider: ${name}`);
+  }
+  return provider;
+};
+
+// Stable 0-99 bucket so a user keeps the same cohort across requests and restarts.
+export const getChatModelBucket = (userId: string) =>
+  parseInt(createHash('sha256').update(userId).digest('hex').slice(0, 8), 16) % 100;
+
+// Cohorts take consecutive bucket ranges in the order they are configured.
+export const pickChatModelCohort = (userId: string, cohorts = config.chatModel.cohorts) => {
+  const bucket = getChatModelBucket(userId);
+  let upperBound = 0;
+  for (const cohort of cohorts) {
+    upperBound += cohort.percent;
+    if (bucket < upperBound) {
+      return cohort;
+    }
+  }
+  return null;
+};
+
+export const selectChatModel = (userId: string): ChatModelSelection => {
+  const cohort = pickChatModelCohort(userId);
+  if (cohort) {
+    const provider = providers.get(cohort.provider);
+    if (provider) {
+      return { provider: provider.name, model: cohort.model || provider.defaultModel(), cohort: cohort.name };
+    }
+    logger.warn({ cohort: cohort.name, provider: cohort.provider }, 'Chat model cohort uses an unknown provider');
+  }
+
+  let provider = providers.get(config.chatModel.provider);
+  if (!provider) {
+    logger.warn({ provider: config.chatModel.provider }, 'Unknown CHAT_MODEL_PROVIDER; falling back to gemini');
+    provider = geminiChatProvider;
+  }
+  const model = provider.name === config.chatModel.provider && config.chatModel.model
+    ? config.chatModel.model
+    : provider.defaultModel();
+  return { provider: provider.name, model, cohort: null };
+};
+
+// Requested names end up in provider URLs, so anything outside a plain model id is refused.
+const MODEL_NAME_PATTERN = /^[a-z0-9.-]+$/;
+
+const isAllowedModelName = (model: string) =>
+  config.chatModel.allowedModels.length
+    ? config.chatModel.allowedModels.includes(model)
+    : MODEL_NAME_PATTERN.test(model);
+
+// A per-request override wins over the user's cohort, but only where overrides are enabled.
+export const resolveChatModel = (params: { userId: string; requested?: ChatModelOverride | null }) => {
+  const { userId, requested } = params;
+  if (!requested) {
+    return { selection: selectChatModel(userId) };
+  }
+  if (!config.chatModel.allowRequestOverride) {
+    return { selection: null, reason: 'override_disabled' as const };
+  }
+  const provider = providers.get(requested.provider || config.chatModel.provider);
+  if (!provider) {
+    return { selection: null, reason: 'unknown_provider' as const };
+  }
+  if (requested.model && !isAllowedModelName(requested.model)) {
+    return { selection: null, reason: 'invalid_model' as const };
+  }
+  const selection: ChatModelSelection = {
+    provider: provider.name,
+    model: requested.model || provider.defaultModel(),
+    cohort: null,
+  };
+  return { selection };
+};
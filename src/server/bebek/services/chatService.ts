@@ -1,12 +1,28 @@
 import { db } from '../../../firebase';
-import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { FieldPath, FieldValue } from 'firebase-admin/firestore';
+import type { DocumentData, Query, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { generateCoachResponse, generateSummary, streamCoachResponse } from './geminiService';
+import { ChatModelSelection, getChatModelProvider, selectChatModel } from './chatModelProvider';
+import { formatChildMemoriesForPrompt, listChildMemories, scheduleChildMemoryExtraction } from './childMemoryService';
+import { KnowledgePassage, retrieveKnowledge } from './knowledgeBaseService';
 import { UserInfo } from './userInfoService';
+import { ChildProfile, getChildForUser, listChildrenForUser } from './childService';
+import { getGrowthSummaryText } from './growthService';
+import { getMilestoneSummaryText } from './milestoneService';
+import { ChatStreamChunk, createStreamSequencer } from './chatStreamService';
+import { deleteChatImages, loadChatImage, saveChatImage } from './chatImageService';
+import type { InlineImagePayload } from './geminiService';
+import { recordTriageEvent, runTriage, TriageResult } from './triageService';
+import { CoachPromptPack, COACH_PROMPT_PACKS, getEmojiGuide, getLengthGuide, getToneGuide } from '../data/coachPromptPacks';
+import { resolveCoachLanguage } from '../utils/language';
+import { getAgeInDays } from '../utils/growth';
 import { logger } from '../../../utils/logger';
 import { getWebSocketService } from '../../../services/websocketService';
 
-const COACH_REFUSAL_MESSAGE = 'Bu istegi burada dogrudan yerine getiremiyorum, alternatif bir yol onerebilirim.';
+// Stored as the `model` of canned refusals and triage replies, which never reach the LLM.
+const COACH_REFUSAL_MODEL = 'coach_refusal';
+const TRIAGE_REPLY_MODEL = 'triage_template';
 
 const shouldRefuseCoachRequest = (message: string) => {
   const lower = (message || '').toLowerCase();
@@ -31,6 +47,9 @@ export const createChatSession = async (userId: string) => {
   const session = {
     user_id: userId,
     status: 'open',
+    message_count: 0,
+    last_message_preview: null,
+    active_leaf_id: null,
     created_at: now,
     updated_at: now
   };
@@ -49,6 +68,9 @@ export const createChildChatSession = async (params: {
     child_id: params.childId,
     child_name: params.childName,
     status: 'open',
+    message_count: 0,
+    last_message_preview: null,
+    active_leaf_id: null,
     created_at: now,
     updated_at: now,
   };
@@ -60,62 +82,314 @@ export const createChildChatSession = async (params: {
   return { id: ref.id, ...session };
 };
 
-export const listChatSessions = async (userId: string) => {
-  const childSnapshot = await db
-    .collection('AddChild')
-    .where('parentUuid', '==', userId)
-    .get();
-  const childById = new Map<string, any>(
-    childSnapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => [doc.id, { id: doc.id, ...(doc.data() as any) }]),
+export const CHAT_PAGE_DEFAULT_LIMIT = 20;
+export const CHAT_PAGE_MAX_LIMIT = 100;
+const PREVIEW_MAX_LENGTH = 140;
+
+export interface ChatCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface ChatPageOptions {
+  limit?: number;
+  before?: ChatCursor | null;
+  after?: ChatCursor | null;
+}
+
+// Cursors are opaque to clients: (created_at, document id) so equal timestamps still page deterministically.
+export const encodeChatCursor = (item: { id: string; created_at?: string }) =>
+  Buffer.from(JSON.stringify([item.created_at || '', item.id])).toString('base64url');
+
+export const decodeChatCursor = (value: string): ChatCursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || typeof parsed[0] !== 'string' || typeof parsed[1] !== 'string' || !parsed[1]) {
+      return null;
+    }
+    return { createdAt: parsed[0], id: parsed[1] };
+  } catch {
+    return null;
+  }
+};
+
+const toMessagePreview = (content: unknown) => {
+  const text = typeof content === 'string' ? content.replace(/\s+/g, ' ').trim() : '';
+  return text.length > PREVIEW_MAX_LENGTH ? `${text.slice(0, PREVIEW_MAX_LENGTH - 1)}…` : text;
+};
+
+// Returns the page in descending created_at order; `after` reads ascending and is flipped back.
+const fetchCreatedAtPage = async (query: Query<DocumentData>, page: ChatPageOptions) => {
+  const limit = Math.min(Math.max(page.limit || CHAT_PAGE_DEFAULT_LIMIT, 1), CHAT_PAGE_MAX_LIMIT);
+  const direction = page.after ? 'asc' : 'desc';
+  let ordered = query.orderBy('created_at', direction).orderBy(FieldPath.documentId(), direction);
+  const cursor = page.after || page.before;
+  if (cursor) {
+    ordered = ordered.startAfter(cursor.createdAt, cursor.id);
+  }
+  const snapshot = await ordered.limit(limit + 1).get();
+  const items = snapshot.docs
+    .slice(0, limit)
+    .map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...(doc.data() as any) }));
+  if (page.after) {
+    items.reverse();
+  }
+  const newest = items[0];
+  const oldest = items[items.length - 1];
+  return {
+    items,
+    pageInfo: {
+      limit,
+      hasMore: snapshot.docs.length > limit,
+      beforeCursor: oldest ? encodeChatCursor(oldest) : null,
+      afterCursor: newest ? encodeChatCursor(newest) : null,
+    },
+  };
+};
+
+// Keeps the listing fields on the session document in step with chat_messages.
+const recordSessionMessage = async (
+  sessionId: string,
+  message: { id: string; role: string; content: unknown; created_at: string },
+) => {
+  await db.collection('chat_sessions').doc(sessionId).set(
+    {
+      active_leaf_id: message.id,
+      updated_at: message.created_at,
+      last_message_at: message.created_at,
+      last_message_role: message.role,
+      last_message_preview: toMessagePreview(message.content),
+      message_count: FieldValue.increment(1),
+    },
+    { merge: true },
   );
+};
+
+// Sessions created before the denormalized fields existed get them computed once.
+const backfillSessionStats = async (sessionId: string) => {
+  const messagesQuery = db.collection('chat_messages').where('session_id', '==', sessionId);
+  const [countSnapshot, lastSnapshot] = await Promise.all([
+    messagesQuery.count().get(),
+    messagesQuery.orderBy('created_at', 'desc').limit(1).get(),
+  ]);
+  const last = lastSnapshot.empty ? null : (lastSnapshot.docs[0].data() as any);
+  const stats = {
+    message_count: countSnapshot.data().count,
+    last_message_preview: last ? toMessagePreview(last.content) : null,
+    last_message_role: last?.role || null,
+    last_message_at: last?.created_at || null,
+  };
+  await db.collection('chat_sessions').doc(sessionId).set(stats, { merge: true });
+  return stats;
+};
+
+// Conversations are trees: each message points at the one it follows (`parent_message_id`).
+// Editing or regenerating adds a sibling instead of overwriting, and the messages on the branch
+// being shown carry `active: true` so history reads stay a single indexed query.
+interface ChatMessageNode {
+  id: string;
+  role: string;
+  content?: string;
+  metadata?: Record<string, unknown> | null;
+  image?: { mimeType?: string; path?: string } | null;
+  parent_message_id?: string | null;
+  active?: boolean;
+  created_at: string;
+}
+
+const BRANCH_BATCH_SIZE = 400;
+// Firestore caps `in` filters at 30 values.
+const IN_QUERY_LIMIT = 30;
 
+// Branches are read back in created_at order, so a reply must sort after its prompt even when
+// both are written within the same millisecond.
+const timestampAfter = (previous: string) =>
+  new Date(Math.max(Date.now(), (Date.parse(previous) || 0) + 1)).toISOString();
+
+const byCreatedAt = (a: { id: string; created_at?: string }, b: { id: string; created_at?: string }) =>
+  (a.created_at || '').localeCompare(b.created_at || '') || a.id.localeCompare(b.id);
+
+const loadMessageTree = async (sessionId: string) => {
+  const snapshot = await db.collection('chat_messages').where('session_id', '==', sessionId).get();
+  return new Map<string, ChatMessageNode>(
+    snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => [doc.id, { id: doc.id, ...(doc.data() as any) }]),
+  );
+};
+
+const loadSessionMessage = async (sessionId: string, messageId: string): Promise<ChatMessageNode | null> => {
+  const snapshot = await db.collection('chat_messages').doc(messageId).get();
+  const data = snapshot.exists ? (snapshot.data() as any) : null;
+  return data?.session_id === sessionId ? { id: snapshot.id, ...data } : null;
+};
+
+// The only messages a branch change can touch: the ones shown now, plus the ancestors of
+// `leafId`. Most ancestors are already on the active branch, so only a fork point costs reads.
+const loadBranchNodes = async (sessionId: string, leafId: string | null) => {
   const snapshot = await db
-    .collection('chat_sessions')
-    .where('user_id', '==', userId)
+    .collection('chat_messages')
+    .where('session_id', '==', sessionId)
+    .where('active', '==', true)
     .get();
-  const sessions = snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...doc.data() as any }));
-  const sessionsWithPreview = await Promise.all(
-    sessions.map(async (session: any) => {
-      const msgSnap = await db
-        .collection('chat_messages')
-        .where('session_id', '==', session.id)
-        .get();
-      const msgs = msgSnap.docs
-        .map((doc: QueryDocumentSnapshot<DocumentData>) => doc.data() as any)
-        .sort((a: any, b: any) => {
-          const aTs = typeof a?.created_at === 'string' ? Date.parse(a.created_at) : 0;
-          const bTs = typeof b?.created_at === 'string' ? Date.parse(b.created_at) : 0;
-          return aTs - bTs;
-        });
-      const last = msgs[msgs.length - 1];
+  const nodes = new Map<string, ChatMessageNode>(
+    snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => [doc.id, { id: doc.id, ...(doc.data() as any) }]),
+  );
+  const visited = new Set<string>();
+  for (let id = leafId; id && !visited.has(id); ) {
+    visited.add(id);
+    const node = nodes.get(id) || (await loadSessionMessage(sessionId, id));
+    if (!node) break;
+    nodes.set(id, node);
+    id = node.parent_message_id ?? null;
+  }
+  return nodes;
+};
+
+const commitMessageUpdates = async (updates: Array<{ id: string; data: Record<string, unknown> }>) => {
+  for (let i = 0; i < updates.length; i += BRANCH_BATCH_SIZE) {
+    const batch = db.batch();
+    updates.slice(i, i + BRANCH_BATCH_SIZE).forEach(update => {
+      batch.set(db.collection('chat_messages').doc(update.id), update.data, { merge: true });
+    });
+    await batch.commit();
+  }
+};
+
+// Marks exactly the path root → leafId as active and points the session at that leaf.
+const setActiveBranch = async (sessionId: string, tree: Map<string, ChatMessageNode>, leafId: string | null) => {
+  const path = new Set<string>();
+  for (let id = leafId; id && tree.has(id) && !path.has(id); id = tree.get(id)!.parent_message_id ?? null) {
+    path.add(id);
+  }
+  const updates = Array.from(tree.values())
+    .filter(node => Boolean(node.active) !== path.has(node.id))
+    .map(node => {
+      node.active = path.has(node.id);
+      return { id: node.id, data: { active: node.active } };
+    });
+  await commitMessageUpdates(updates);
+
+  const leaf = leafId ? tree.get(leafId) : undefined;
+  await db.collection('chat_sessions').doc(sessionId).set(
+    {
+      active_leaf_id: leaf ? leaf.id : null,
+      last_message_at: leaf?.created_at || null,
+      last_message_role: leaf?.role || null,
+      last_message_preview: leaf ? toMessagePreview(leaf.content) : null,
+    },
+    { merge: true },
+  );
+};
+
+// Sessions written before branching existed are linear: chain their messages by time once.
+const ensureMessageTree = async (session: { id: string; active_leaf_id?: string | null }) => {
+  if (session.active_leaf_id !== undefined) {
+    return session.active_leaf_id;
+  }
+  const tree = await loadMessageTree(session.id);
+  const ordered = Array.from(tree.values()).sort(byCreatedAt);
+  await commitMessageUpdates(
+    ordered.map((node, index) => ({
+      id: node.id,
+      data: { parent_message_id: index > 0 ? ordered[index - 1].id : null, active: true },
+    })),
+  );
+  const leafId = ordered.length ? ordered[ordered.length - 1].id : null;
+  await db.collection('chat_sessions').doc(session.id).set({ active_leaf_id: leafId }, { merge: true });
+  session.active_leaf_id = leafId;
+  return leafId;
+};
+
+// Adds sibling_count / sibling_index / sibling_ids so clients can render "2 of 3" switchers.
+const attachSiblingInfo = async (sessionId: string, messages: any[]) => {
+  const parentIds = Array.from(new Set(messages.map(message => message.parent_message_id ?? null)));
+  const sessionMessages = db.collection('chat_messages').where('session_id', '==', sessionId);
+  const lookups: Promise<{ docs: QueryDocumentSnapshot<DocumentData>[] }>[] = [];
+  const childParents = parentIds.filter((id): id is string => Boolean(id));
+  for (let i = 0; i < childParents.length; i += IN_QUERY_LIMIT) {
+    lookups.push(sessionMessages.where('parent_message_id', 'in', childParents.slice(i, i + IN_QUERY_LIMIT)).get());
+  }
+  if (parentIds.includes(null)) {
+    lookups.push(sessionMessages.where('parent_message_id', '==', null).get());
+  }
+
+  const siblingsByParent = new Map<string | null, Array<{ id: string; created_at?: string }>>();
+  (await Promise.all(lookups)).forEach(snapshot => {
+    snapshot.docs.forEach(doc => {
+      const data = doc.data() as any;
+      const key = data.parent_message_id ?? null;
+      siblingsByParent.set(key, [...(siblingsByParent.get(key) || []), { id: doc.id, created_at: data.created_at }]);
+    });
+  });
+
+  return messages.map(message => {
+    const siblings = (siblingsByParent.get(message.parent_message_id ?? null) || [message]).sort(byCreatedAt);
+    const siblingIds = siblings.map(sibling => sibling.id);
+    return {
+      ...message,
+      sibling_count: siblingIds.length,
+      sibling_index: siblingIds.indexOf(message.id),
+      sibling_ids: siblingIds,
+    };
+  });
+};
+
+export const listChatSessions = async (userId: string, page: ChatPageOptions = {}) => {
+  const children = await listChildrenForUser(userId);
+  const childById = new Map<string, any>(children.map(child => [child.id, child]));
+
+  const { items, pageInfo } = await fetchCreatedAtPage(
+    db.collection('chat_sessions').where('user_id', '==', userId),
+    page,
+  );
+  const sessions = await Promise.all(
+    items.map(async (session: any) => {
+      const stats = session.message_count === undefined ? await backfillSessionStats(session.id) : session;
       const child = session?.child_id ? childById.get(String(session.child_id)) : null;
       return {
         ...session,
+        ...stats,
         child_name: child?.name || session.child_name || null,
         child_avatar: child?.avatarUri || null,
         title: session.custom_title || child?.name || session.child_name || 'Genel Danismanlik',
-        lastMessage: typeof last?.content === 'string' ? last.content : null,
-        updated_at: session.updated_at || last?.created_at || session.created_at || null,
+        lastMessage: stats.last_message_preview || null,
+        updated_at: session.updated_at || stats.last_message_at || session.created_at || null,
       };
     }),
   );
-  return sessionsWithPreview.sort((a: any, b: any) => {
-    const aTs = typeof a?.updated_at === 'string' ? Date.parse(a.updated_at) : 0;
-    const bTs = typeof b?.updated_at === 'string' ? Date.parse(b.updated_at) : 0;
-    return bTs - aTs;
-  });
+  return { sessions, pageInfo };
 };
 
-export const deleteChatSession = async (userId: string, sessionId: string) => {
-  const sessionRef = db.collection('chat_sessions').doc(sessionId);
-  const sessionDoc = await sessionRef.get();
-  if (!sessionDoc.exists) {
-    return { deleted: false, reason: 'not_found' as const };
+export type ChatSessionAccessFailure = 'not_found' | 'forbidden';
+
+export class ChatSessionAccessError extends Error {
+  reason: ChatSessionAccessFailure;
+
+  constructor(reason: ChatSessionAccessFailure) {
+    super(reason === 'not_found' ? 'Session not found' : 'Session does not belong to user');
+    this.reason = reason;
   }
-  const sessionData = sessionDoc.data() as any;
-  if (sessionData?.user_id !== userId) {
-    return { deleted: false, reason: 'forbidden' as const };
+}
+
+// Single ownership check for every path that reads or writes a chat session.
+export const getChatSessionForUser = async (userId: string, sessionId: string) => {
+  const ref = db.collection('chat_sessions').doc(sessionId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { session: null, reason: 'not_found' as const };
+  }
+  const session = { id: snapshot.id, ...(snapshot.data() as any) };
+  if (session.user_id !== userId) {
+    return { session: null, reason: 'forbidden' as const };
+  }
+  return { session, ref };
+};
+
+export const deleteChatSession = async (userId: string, sessionId: string) => {
+  const access = await getChatSessionForUser(userId, sessionId);
+  if (access.reason) {
+    return { deleted: false, reason: access.reason };
   }
+  const sessionRef = access.ref;
 
   const messagesSnapshot = await db
     .collection('chat_messages')
@@ -126,22 +400,18 @@ export const deleteChatSession = async (userId: string, sessionId: string) => {
   messagesSnapshot.docs.forEach((doc: QueryDocumentSnapshot<DocumentData>) => batch.delete(doc.ref));
   batch.delete(sessionRef);
   await batch.commit();
+  await deleteChatImages(userId, sessionId);
 
   return { deleted: true as const, messagesDeleted: messagesSnapshot.size };
 };
 
 export const renameChatSession = async (userId: string, sessionId: string, title: string) => {
-  const sessionRef = db.collection('chat_sessions').doc(sessionId);
-  const sessionDoc = await sessionRef.get();
-  if (!sessionDoc.exists) {
-    return { updated: false, reason: 'not_found' as const };
-  }
-  const sessionData = sessionDoc.data() as any;
-  if (sessionData?.user_id !== userId) {
-    return { updated: false, reason: 'forbidden' as const };
+  const access = await getChatSessionForUser(userId, sessionId);
+  if (access.reason) {
+    return { updated: false, reason: access.reason };
   }
 
-  await sessionRef.set(
+  await access.ref.set(
     {
       custom_title: title.trim(),
       updated_at: new Date().toISOString(),
@@ -151,73 +421,75 @@ export const renameChatSession = async (userId: string, sessionId: string, title
   return { updated: true as const };
 };
 
-export const listChatMessages = async (sessionId: string) => {
-  const snapshot = await db
-    .collection('chat_messages')
-    .where('session_id', '==', sessionId)
-    .get();
-  return snapshot.docs
-    .map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...doc.data() as any }))
-    .sort((a: any, b: any) => {
-      const aTs = typeof a?.created_at === 'string' ? Date.parse(a.created_at) : 0;
-      const bTs = typeof b?.created_at === 'string' ? Date.parse(b.created_at) : 0;
-      return aTs - bTs;
-    });
+// Messages on the active branch come back oldest-first for display; `before` pages towards older history.
+export const listChatMessages = async (userId: string, sessionId: string, page: ChatPageOptions = {}) => {
+  const access = await getChatSessionForUser(userId, sessionId);
+  if (access.reason) {
+    return { messages: null, reason: access.reason };
+  }
+  const activeLeafId = await ensureMessageTree(access.session);
+
+  const { items, pageInfo } = await fetchCreatedAtPage(
+    db.collection('chat_messages').where('session_id', '==', sessionId).where('active', '==', true),
+    page,
+  );
+  const messages = await attachSiblingInfo(sessionId, items.reverse());
+  return { messages, pageInfo, activeLeafId };
 };
 
-const getChatMemorySummary = async (userId: string) => {
-  const snapshot = await db
-    .collection('chat_memory_summaries')
-    .where('user_id', '==', userId)
-    .limit(1)
-    .get();
-  if (snapshot.empty) {
-    return null;
+// The newest `limit` messages of the active branch, oldest first, plus the child the conversation
+// is about (a child session's child, otherwise the child last picked in the chat).
+export const getChatTranscript = async (userId: string, sessionId: string, limit: number) => {
+  const access = await getChatSessionForUser(userId, sessionId);
+  if (access.reason) {
+    return { transcript: null, reason: access.reason };
   }
-  const doc = snapshot.docs[0];
-  return { id: doc.id, ...(doc.data() as any) };
-};
+  await ensureMessageTree(access.session);
 
-const maybeUpdateSummary = async (userId: string, sessionId: string) => {
-  const messagesSnapshot = await db
+  const snapshot = await db
     .collection('chat_messages')
     .where('session_id', '==', sessionId)
+    .where('active', '==', true)
+    .orderBy('created_at', 'desc')
+    .limit(limit)
     .get();
+  const messages = snapshot.docs
+    .map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...(doc.data() as any) }))
+    .sort(byCreatedAt);
 
-  const sortedMessages = messagesSnapshot.docs
-    .map((doc: QueryDocumentSnapshot<DocumentData>) => doc.data() as any)
-    .sort((a: any, b: any) => {
-      const aTs = typeof a?.created_at === 'string' ? Date.parse(a.created_at) : 0;
-      const bTs = typeof b?.created_at === 'string' ? Date.parse(b.created_at) : 0;
-      return bTs - aTs;
-    })
-    .slice(0, 50);
-
-  if (sortedMessages.length < 50) {
-    return;
+  const pickedChild = [...messages].reverse().find(message => message.metadata?.childProfile)?.metadata?.childProfile;
+  const childId = access.session.child_id || pickedChild?.id || null;
+  let childName: string | null = access.session.child_name || pickedChild?.name || null;
+  if (childId) {
+    const { child } = await getChildForUser(userId, String(childId));
+    childName = child?.name || childName;
   }
+  return { transcript: { session: access.session, childName, messages } };
+};
 
-  const summaryInput = [...sortedMessages].reverse()
-    .map((msg: { role?: string; content?: string }) => `${msg.role === 'assistant' ? 'Koç' : 'Kullanıcı'}: ${msg.content ?? ''}`)
-    .join('\n');
-
-  const summaryText = await generateSummary(summaryInput);
-  if (!summaryText) {
-    return;
+// Shows another branch: `messageId` is usually a sibling picked in the client, and the branch
+// continues down its newest replies.
+export const switchChatBranch = async (userId: string, sessionId: string, messageId: string) => {
+  const access = await getChatSessionForUser(userId, sessionId);
+  if (access.reason) {
+    return { switched: false, reason: access.reason };
+  }
+  await ensureMessageTree(access.session);
+  const tree = await loadMessageTree(sessionId);
+  if (!tree.has(messageId)) {
+    return { switched: false, reason: 'message_not_found' as const };
   }
 
-  const existingSummary = await getChatMemorySummary(userId);
-  const payload = {
-    user_id: userId,
-    summary: summaryText,
-    last_message_at: new Date().toISOString()
-  };
-
-  if (existingSummary) {
-    await db.collection('chat_memory_summaries').doc(existingSummary.id).set(payload, { merge: true });
-  } else {
-    await db.collection('chat_memory_summaries').add(payload);
+  let leafId = messageId;
+  for (;;) {
+    const replies = Array.from(tree.values())
+      .filter(node => node.parent_message_id === leafId)
+      .sort(byCreatedAt);
+    if (!replies.length) break;
+    leafId = replies[replies.length - 1].id;
   }
+  await setActiveBranch(sessionId, tree, leafId);
+  return { switched: true as const, activeLeafId: leafId };
 };
 
 const toText = (value: unknown, fallback = '-') => {
@@ -226,193 +498,362 @@ const toText = (value: unknown, fallback = '-') => {
   return trimmed || fallback;
 };
 
-const buildToneGuideTr = (tone: string) => {
-  switch (tone.trim().toLowerCase()) {
-    case 'formal':
-    case 'profesyonel':
-      return 'Profesyonel, net ve yapılandırılmış bir üslup kullan.';
-    case 'friendly':
-    case 'cana_yakin':
-      return 'Sıcak, destekleyici ve aile dostu bir üslup kullan.';
-    case 'concise':
-    case 'net_ve_kisa':
-      return 'Gereksiz uzatmadan, kısa ve net cümlelerle yanıt ver.';
-    case 'inspiring':
-    case 'ilham_verici':
-      return 'Motive edici ve umut veren bir anlatım kullan.';
-    case 'joyful':
-    case 'neseli':
-    case 'neşeli':
-      return 'Neşeli, pozitif ve enerji veren bir ton kullan.';
-    case 'listener':
-    case 'iyi_dinleyici':
-      return 'Empatik, nazik ve iyi dinleyen bir rehber gibi konuş.';
-    default:
-      return 'Neşeli, uyumlu ve ebeveyni güçlendiren bir üslup kullan.';
-  }
-};
-
-const buildLengthGuideTr = (length: string) => {
-  switch (length.trim().toLowerCase()) {
-    case 'short':
-    case 'kisa':
-    case 'kısa':
-      return 'Yanıtı kısa ve doğrudan ver.';
-    case 'detailed':
-    case 'detayli':
-    case 'detaylı':
-      return 'Yanıtı detaylı, adım adım ve açıklayıcı ver.';
-    default:
-      return 'Yanıtı dengeli uzunlukta ver.';
-  }
-};
-
-const buildEmojiGuideTr = (emojiStyle: string) => {
-  switch (emojiStyle.trim().toLowerCase()) {
-    case 'none':
-    case 'emoji_yok':
-    case 'yok':
-      return 'Emoji kullanma.';
-    case 'rich':
-    case 'bol_emoji':
-      return 'Uygun yerlerde bol ve sıcak emoji kullan.';
-    default:
-      return 'Dengeli ve ölçülü emoji kullan.';
-  }
-};
-
 const buildContext = async (
+  pack: CoachPromptPack,
   user: UserInfo,
-  memorySummary: any,
+  childMemories: string[],
   recentMessages: any[],
   currentMessage: string,
   contextTags?: Record<string, unknown> | null,
   imageMeta?: { mimeType?: string } | null,
+  childInsights: string[] = [],
+  knowledgePassages: KnowledgePassage[] = [],
 ) => {
 
-  const userContext = `Kullanıcı: ${user.name || 'Bilinmiyor'}, Hedef: ${user.goal || 'maintain'}, Boy/Kilo: ${user.height_cm || '-'} / ${user.current_weight_kg || '-'}`;
-  const memory = `Hafıza Özeti: ${memorySummary?.summary || 'Yeni kullanıcı, sıcak karşıla.'}`;
+  const userContext = pack.userSummary({
+    name: user.name || pack.unknown,
+    goal: user.goal || 'maintain',
+    height: String(user.height_cm || '-'),
+    weight: String(user.current_weight_kg || '-'),
+  });
   const childProfile = (contextTags?.childProfile as any) || null;
-  const childContext = childProfile
-    ? `Secili Bebek: ${childProfile.name || '-'}, Cinsiyet: ${childProfile.gender || '-'}, Dogum Tarihi: ${childProfile.birthDate || '-'}`
-    : 'Secili Bebek: belirtilmedi';
+  const childContext = pack.childSummary(
+    childProfile
+      ? { name: childProfile.name || '-', gender: childProfile.gender || '-', birthDate: childProfile.birthDate || '-' }
+      : null,
+  );
   const personalization = (contextTags?.chatPersonalization as any) || null;
-  const toneContext = personalization
-    ? `Sohbet Ayari: tone=${personalization.tone || '-'}, mood=${personalization.mood || '-'}, cevap_uzunlugu=${personalization.responseLength || '-'}, emoji=${personalization.emojiStyle || '-'}`
-    : 'Sohbet Ayari: varsayilan';
-  const tone = toText(personalization?.tone, 'varsayilan');
-  const mood = toText(personalization?.mood, 'neseli');
-  const responseLength = toText(personalization?.responseLength, 'dengeli');
-  const emojiStyle = toText(personalization?.emojiStyle, 'dengeli');
+  const toneContext = pack.personalizationSummary(
+    personalization
+      ? {
+          tone: personalization.tone || '-',
+          mood: personalization.mood || '-',
+          responseLength: personalization.responseLength || '-',
+          emojiStyle: personalization.emojiStyle || '-',
+        }
+      : null,
+  );
+  const tone = toText(personalization?.tone, 'default');
+  const mood = toText(personalization?.mood, pack.defaultMood);
+  const responseLength = toText(personalization?.responseLength, 'default');
+  const emojiStyle = toText(personalization?.emojiStyle, 'default');
   const hasImage = Boolean(imageMeta?.mimeType);
   const history = recentMessages
-    .map((msg: { role?: string; content?: string }) => `${msg.role === 'assistant' ? 'Koç' : 'Kullanıcı'}: ${msg.content ?? ''}`)
+    .map(
+      (msg: { role?: string; content?: string }) =>
+        `${msg.role === 'assistant' ? pack.speakers.coach : pack.speakers.user}: ${msg.content ?? ''}`,
+    )
     .join('\n');
 
-  const babyInstruction = childProfile
-    ? `Seçili bebek bilgisi: İsim=${toText(childProfile.name, 'Belirtilmedi')}, Cinsiyet=${toText(
-        childProfile.gender,
-        'Belirtilmedi',
-      )}, Doğum Tarihi=${toText(childProfile.birthDate, 'Belirtilmedi')}. Yanıtını bu bebeğe göre kişiselleştir.`
-    : 'Seçili bebek yok. Ebeveyni genel ve güvenli şekilde yönlendir.';
+  const babyInstruction = pack.babyInstruction(
+    childProfile
+      ? {
+          name: toText(childProfile.name, pack.notSpecified),
+          gender: toText(childProfile.gender, pack.notSpecified),
+          birthDate: toText(childProfile.birthDate, pack.notSpecified),
+        }
+      : null,
+  );
+  const labels = pack.personalizationLabels;
 
   return [
-    'ROL:',
-    "Sen 'Bebek AI' adında, ebeveynlere destek veren uzman bir bebek gelişimi ve ebeveynlik asistanısın.",
+    pack.headings.role,
+    pack.roleDescription,
     '',
-    'ZORUNLU DİL KURALI:',
-    '- Tüm yanıtlar sadece Türkçe olmalı.',
-    '- İngilizce terim gerekiyorsa kısa Türkçe açıklamasıyla birlikte ver.',
+    pack.headings.languageRule,
+    ...pack.languageRules.map(line => `- ${line}`),
     '',
-    'KİŞİSELLEŞTİRME TALİMATLARI:',
-    `- Ton: ${buildToneGuideTr(tone)}`,
-    `- Ruh Hali (Mood): ${mood} (yanıta bu havayı doğal şekilde yansıt).`,
-    `- Uzunluk: ${buildLengthGuideTr(responseLength)}`,
-    `- Emoji: ${buildEmojiGuideTr(emojiStyle)}`,
+    pack.headings.personalization,
+    `- ${labels.tone}: ${getToneGuide(pack, tone)}`,
+    `- ${labels.mood}: ${pack.moodInstruction(mood)}`,
+    `- ${labels.length}: ${getLengthGuide(pack, responseLength)}`,
+    `- ${labels.emoji}: ${getEmojiGuide(pack, emojiStyle)}`,
     '',
-    'BEBEK BAĞLAMI:',
+    pack.headings.babyContext,
     `- ${babyInstruction}`,
+    ...childInsights.map(line => `- ${line}`),
+    ...(childInsights.length ? [`- ${pack.insightsRule}`] : []),
+    ...(childMemories.length ? ['', pack.headings.childMemories, ...childMemories.map(line => `- ${line}`)] : []),
     '',
-    'GÜVENLİK KURALLARI:',
-    '- Önce güvenlik: Acil risk olabilecek belirtilerde nazikçe doktora/acile yönlendir.',
-    '- Spesifik ilaç dozu veya tıbbi reçete verme.',
-    '- Kesin tanı koyma; bilgilendirici ve yönlendirici kal.',
+    ...(knowledgePassages.length
+      ? [
+          pack.headings.sources,
+          `- ${pack.sourcesRule}`,
+          ...knowledgePassages.map(
+            (passage, index) =>
+              `[${index + 1}] ${passage.title}${passage.heading ? ` / ${passage.heading}` : ''}: ${passage.text}`,
+          ),
+          '',
+        ]
+      : []),
+    pack.headings.safety,
+    ...pack.safetyRules.map(line => `- ${line}`),
     '',
-    'GÖRSEL KURALI:',
-    hasImage
-      ? '- Kullanıcı görsel paylaştı. Görselde gördüğün ifadeyi/bağlamı Türkçe ve nazik biçimde yorumla; kesin tıbbi tanı koyma.'
-      : '- Bu istekte görsel yok.',
+    pack.headings.image,
+    `- ${pack.imageRule(hasImage)}`,
     '',
-    'EK BAĞLAM:',
+    pack.headings.extraContext,
     `- ${userContext}`,
     `- ${childContext}`,
     `- ${toneContext}`,
-    `- ${memory}`,
     '',
-    'SON KONUŞMALAR:',
+    pack.headings.recentConversation,
     history || '-',
     '',
-    `YENİ MESAJ: ${currentMessage}`,
+    `${pack.headings.newMessage} ${currentMessage}`,
   ].join('\n');
 };
 
+const getChildAgeDays = (child: ChildProfile | null, contextTags?: Record<string, unknown> | null) => {
+  const birthDate = child?.birthDate || (contextTags?.childProfile as any)?.birthDate;
+  return typeof birthDate === 'string' ? getAgeInDays(birthDate, new Date()) : null;
+};
+
+// Stored on the assistant message so urgent-care replies can be traced to the rules that fired.
+const toTriageTag = (triage: TriageResult) => ({
+  rule_ids: triage.matches.map(match => match.ruleId),
+  categories: Array.from(new Set(triage.matches.map(match => match.category))),
+  ruleset_version: triage.rulesetVersion,
+  source: triage.source,
+});
+
+// Returned with the reply and stored on it; `index` matches the [n] markers in the answer.
+const toCitations = (passages: KnowledgePassage[]) =>
+  passages.map((passage, index) => ({
+    index: index + 1,
+    article_id: passage.articleId,
+    chunk_id: passage.chunkId,
+    title: passage.title,
+    heading: passage.heading,
+    source_url: passage.sourceUrl,
+  }));
+
+const resolveSelectedChild = async (userId: string, contextTags?: Record<string, unknown> | null) => {
+  const childProfile = (contextTags?.childProfile as any) || null;
+  const childId = childProfile?.id || childProfile?.childId;
+  if (!childId) {
+    return null;
+  }
+  const access = await getChildForUser(userId, String(childId));
+  return access.child || null;
+};
+
+const loadChildInsights = async (userId: string, child: ChildProfile, pack: CoachPromptPack) => {
+  const insights: string[] = [];
+  try {
+    const growthSummary = await getGrowthSummaryText(child, pack.language);
+    if (growthSummary) {
+      insights.push(growthSummary);
+    }
+  } catch (error) {
+    logger.warn({ err: error, userId, childId: child.id }, 'Failed to load growth summary for chat context');
+  }
+  try {
+    const milestoneSummary = await getMilestoneSummaryText(child, pack.language);
+    if (milestoneSummary) {
+      insights.push(milestoneSummary);
+    }
+  } catch (error) {
+    logger.warn({ err: error, userId, childId: child.id }, 'Failed to load milestones for chat context');
+  }
+  return insights;
+};
+
+// Only the selected child's records reach the prompt, so facts about siblings never mix.
+const loadChildMemories = async (userId: string, child: ChildProfile, pack: CoachPromptPack) => {
+  try {
+    return formatChildMemoriesForPrompt(await listChildMemories(child.id), pack.memoryCategoryLabels);
+  } catch (error) {
+    logger.warn({ err: error, userId, childId: child.id }, 'Failed to load child memories for chat context');
+    return [];
+  }
+};
+
+// Retrieval is best effort: without passages the coach still answers, just uncited.
+const loadKnowledgePassages = async (userId: string, message: string, ageDays: number | null) => {
+  try {
+    return await retrieveKnowledge(message, { ageDays });
+  } catch (error) {
+    logger.warn({ err: error, userId }, 'Failed to retrieve knowledge base passages for chat context');
+    return [];
+  }
+};
+
+export type ChatTurn = { kind: 'send' } | { kind: 'edit'; messageId: string } | { kind: 'regenerate' };
+
+export type ChatTurnFailure = 'message_not_found' | 'not_editable' | 'nothing_to_regenerate';
+
+const CHAT_TURN_ERROR_MESSAGES: Record<ChatTurnFailure, string> = {
+  message_not_found: 'Message not found',
+  not_editable: 'Only user messages can be edited',
+  nothing_to_regenerate: 'There is no reply to regenerate',
+};
+
+export class ChatTurnError extends Error {
+  reason: ChatTurnFailure;
+
+  constructor(reason: ChatTurnFailure) {
+    super(CHAT_TURN_ERROR_MESSAGES[reason]);
+    this.reason = reason;
+  }
+}
+
+// `send` continues the active branch, `edit` forks a new user message next to `messageId`,
+// and `regenerate` answers the last user message on the active branch again.
 const prepareChatContext = async (params: {
   user: UserInfo;
+  pack: CoachPromptPack;
   sessionId?: string;
   message: string;
   contextTags?: Record<string, unknown>;
-  imageMeta?: { mimeType?: string } | null;
+  imagePayload?: InlineImagePayload | null;
+  turn?: ChatTurn;
 }) => {
-  const { user, sessionId, message, contextTags, imageMeta } = params;
-  const session = sessionId ? { id: sessionId } : await createChatSession(user.id);
+  const { user, pack, sessionId, turn = { kind: 'send' } } = params;
+  let { message, contextTags } = params;
+  let imagePayload = params.imagePayload || null;
+  let imageMeta: ChatMessageNode['image'] = imagePayload ? { mimeType: imagePayload.mimeType } : null;
+  let session: { id: string; message_count?: number; active_leaf_id?: string | null };
+  if (sessionId) {
+    const access = await getChatSessionForUser(user.id, sessionId);
+    if (access.reason) {
+      throw new ChatSessionAccessError(access.reason);
+    }
+    session = access.session;
+  } else {
+    session = await createChatSession(user.id);
+  }
+  // Counting must start from the real total before increments land on a legacy session.
+  if (session.message_count === undefined) {
+    await backfillSessionStats(session.id);
+  }
+  const activeLeafId = await ensureMessageTree(session);
 
-  const now = new Date().toISOString();
-  const userMessageId = uuidv4();
-  await db.collection('chat_messages').doc(userMessageId).set({
-    id: userMessageId,
-    session_id: session.id,
-    role: 'user',
-    content: message,
-    metadata: contextTags || null,
-    image: imageMeta || null,
-    created_at: now
-  });
+  let userMessageId: string;
+  let promptCreatedAt: string;
+  if (turn.kind === 'regenerate') {
+    const tree = await loadBranchNodes(session.id, activeLeafId);
+    const leaf = activeLeafId ? tree.get(activeLeafId) : undefined;
+    const prompt = leaf?.role === 'assistant' ? tree.get(leaf.parent_message_id || '') : leaf;
+    if (!prompt || prompt.role !== 'user') {
+      throw new ChatTurnError('nothing_to_regenerate');
+    }
+    userMessageId = prompt.id;
+    promptCreatedAt = prompt.created_at;
+    message = prompt.content || '';
+    contextTags = contextTags || prompt.metadata || undefined;
+    imageMeta = prompt.image || null;
+    imagePayload = await loadChatImage(prompt.image);
+    // The previous reply stays as a sibling of the new one; it just leaves the active branch.
+    await setActiveBranch(session.id, tree, prompt.id);
+  } else {
+    let parentMessageId = activeLeafId;
+    let tree: Map<string, ChatMessageNode> | null = null;
+    userMessageId = uuidv4();
+    if (turn.kind === 'edit') {
+      const original = await loadSessionMessage(session.id, turn.messageId);
+      if (!original) {
+        throw new ChatTurnError('message_not_found');
+      }
+      if (original.role !== 'user') {
+        throw new ChatTurnError('not_editable');
+      }
+      parentMessageId = original.parent_message_id ?? null;
+      tree = await loadBranchNodes(session.id, parentMessageId);
+      // The edit replaces the text; the photo it was asked about stays with it.
+      if (!imagePayload && original.image) {
+        imageMeta = original.image;
+        imagePayload = await loadChatImage(original.image);
+      }
+    }
+    if (params.imagePayload) {
+      imageMeta = await saveChatImage(user.id, session.id, userMessageId, params.imagePayload);
+    }
+
+    const now = new Date().toISOString();
+    promptCreatedAt = now;
+    const userMessage = {
+      id: userMessageId,
+      session_id: session.id,
+      role: 'user',
+      content: message,
+      metadata: contextTags || null,
+      image: imageMeta || null,
+      parent_message_id: parentMessageId,
+      active: true,
+      ...(turn.kind === 'edit' ? { edited_from: turn.messageId } : {}),
+      created_at: now
+    };
+    await db.collection('chat_messages').doc(userMessageId).set(userMessage);
+    if (tree) {
+      tree.set(userMessageId, userMessage);
+      await setActiveBranch(session.id, tree, userMessageId);
+    }
+    await recordSessionMessage(session.id, { id: userMessageId, role: 'user', content: message, created_at: now });
+  }
 
   const recentMessagesSnapshot = await db
     .collection('chat_messages')
     .where('session_id', '==', session.id)
+    .where('active', '==', true)
+    .orderBy('created_at', 'desc')
+    .limit(20)
     .get();
 
   const recentMessages = recentMessagesSnapshot.docs
     .map((doc: QueryDocumentSnapshot<DocumentData>) => doc.data() as any)
-    .sort((a: any, b: any) => {
-      const aTs = typeof a?.created_at === 'string' ? Date.parse(a.created_at) : 0;
-      const bTs = typeof b?.created_at === 'string' ? Date.parse(b.created_at) : 0;
-      return bTs - aTs;
-    })
-    .slice(0, 20)
     .reverse();
-  const memorySummary = await getChatMemorySummary(user.id);
+  const selectedChild = await resolveSelectedChild(user.id, contextTags);
+  const childInsights = selectedChild ? await loadChildInsights(user.id, selectedChild, pack) : [];
+  const childMemories = selectedChild ? await loadChildMemories(user.id, selectedChild, pack) : [];
+  const knowledgePassages = await loadKnowledgePassages(user.id, message, getChildAgeDays(selectedChild, contextTags));
 
-  const context = await buildContext(user, memorySummary, recentMessages, message, contextTags || null, imageMeta);
+  const context = await buildContext(
+    pack,
+    user,
+    childMemories,
+    recentMessages,
+    message,
+    contextTags || null,
+    imageMeta,
+    childInsights,
+    knowledgePassages,
+  );
   logger.info(
     {
       userId: user.id,
       sessionId: session.id,
       hasChildProfile: Boolean((contextTags as any)?.childProfile),
       hasChatPersonalization: Boolean((contextTags as any)?.chatPersonalization),
+      childInsightsCount: childInsights.length,
+      childMemoriesCount: childMemories.length,
+      knowledgePassagesCount: knowledgePassages.length,
+      language: pack.language,
       step: 'chat_context_built',
     },
     'Chat context built with personalization',
   );
   const history = recentMessages.map((item: { role?: string; content?: string }) => ({ role: item.role, content: item.content }));
+  // Lets feedback on a reply be traced back to the exact prompt it was generated from.
+  const contextHash = createHash('sha256').update(context).digest('hex');
+  // The tone the prompt asked for, kept on the reply so feedback is credited to it even if
+  // the user changes their settings later.
+  const tone = toText((contextTags as any)?.chatPersonalization?.tone, '') || null;
 
   return {
     session,
     userMessageId,
+    promptCreatedAt,
+    message,
+    contextTags,
+    imageMeta,
+    imagePayload,
+    selectedChild,
     recentMessages,
-    memorySummary,
+    knowledgePassages,
     context,
+    contextHash,
+    tone,
     history,
   };
 };
@@ -423,99 +864,219 @@ export const handleChatMessage = async (params: {
   message: string;
   contextTags?: Record<string, unknown>;
   imagePayload?: { data: string; mimeType: string } | null;
+  turn?: ChatTurn;
+  model?: ChatModelSelection;
+  acceptLanguage?: string;
 }) => {
-  const { user, sessionId, message, contextTags, imagePayload } = params;
-  const imageMeta = imagePayload ? { mimeType: imagePayload.mimeType } : null;
-  const { session, context, history } = await prepareChatContext({
-    user,
-    sessionId,
+  const { user, sessionId, turn } = params;
+  const selection = params.model || selectChatModel(user.id);
+  const provider = getChatModelProvider(selection.provider);
+  const pack = COACH_PROMPT_PACKS[resolveCoachLanguage({ user, acceptLanguage: params.acceptLanguage })];
+  const {
+    session,
+    userMessageId,
+    promptCreatedAt,
     message,
     contextTags,
-    imageMeta
+    imagePayload,
+    selectedChild,
+    knowledgePassages,
+    context,
+    contextHash,
+    tone,
+    history,
+  } = await prepareChatContext({
+    user,
+    pack,
+    sessionId,
+    message: params.message,
+    contextTags: params.contextTags,
+    imagePayload: params.imagePayload,
+    turn
   });
 
-  logger.info({ userId: user.id, sessionId: session.id }, 'Bebek chat context assembled');
-  const replyText = shouldRefuseCoachRequest(message)
-    ? COACH_REFUSAL_MESSAGE
-    : await generateCoachResponse(context, history, imagePayload || undefined);
+  logger.info(
+    { userId: user.id, sessionId: session.id, turn: turn?.kind || 'send', provider: selection.provider, model: selection.model },
+    'Bebek chat context assembled',
+  );
+  const triage = await runTriage(message, { ageDays: getChildAgeDays(selectedChild, contextTags) });
+  const refused = !triage.triggered && shouldRefuseCoachRequest(message);
+  let replyText = pack.refusalMessage;
+  let model = COACH_REFUSAL_MODEL;
+  // Only set when a provider actually produced the reply.
+  let providerName: string | null = null;
+  if (triage.triggered) {
+    replyText = pack.urgentCareMessage;
+    model = TRIAGE_REPLY_MODEL;
+  } else if (!refused) {
+    replyText = await provider.generate({
+      systemPrompt: pack.systemPrompt,
+      context,
+      history,
+      image: imagePayload || undefined,
+      model: selection.model,
+    });
+    model = selection.model;
+    providerName = selection.provider;
+  }
+  const citations = providerName ? toCitations(knowledgePassages) : [];
 
   const assistantMessageId = uuidv4();
+  const repliedAt = timestampAfter(promptCreatedAt);
   await db.collection('chat_messages').doc(assistantMessageId).set({
     id: assistantMessageId,
     session_id: session.id,
     role: 'assistant',
     content: replyText,
     metadata: contextTags || null,
-    created_at: new Date().toISOString()
+    parent_message_id: userMessageId,
+    active: true,
+    model,
+    provider: providerName,
+    language: pack.language,
+    tone,
+    context_hash: contextHash,
+    triage: triage.triggered ? toTriageTag(triage) : null,
+    citations,
+    created_at: repliedAt
+  });
+  await recordSessionMessage(session.id, {
+    id: assistantMessageId,
+    role: 'assistant',
+    content: replyText,
+    created_at: repliedAt,
   });
 
-  await db.collection('chat_sessions').doc(session.id).set(
-    {
-      updated_at: new Date().toISOString()
-    },
-    { merge: true }
-  );
+  if (triage.triggered) {
+    await recordTriageEvent({ userId: user.id, sessionId: session.id, messageId: assistantMessageId, triage });
+  }
 
-  await maybeUpdateSummary(user.id, session.id);
+  if (selectedChild && providerName) {
+    scheduleChildMemoryExtraction({
+      provider,
+      child: selectedChild,
+      userId: user.id,
+      userMessage: message,
+      reply: replyText,
+      messageId: assistantMessageId,
+    });
+  }
 
   return {
     reply: replyText,
-    sessionId: session.id
+    sessionId: session.id,
+    messageId: assistantMessageId,
+    userMessageId,
+    triage: triage.triggered ? toTriageTag(triage) : null,
+    citations
   };
 };
 
+// Chunks go to `onChunk` when the caller streams over HTTP, otherwise to the user's sockets.
+// Aborting `signal` stops the upstream request; the partial reply is still persisted.
 export const handleChatMessageStream = async (params: {
   user: UserInfo;
   sessionId?: string;
   message: string;
   contextTags?: Record<string, unknown>;
   imagePayload?: { data: string; mimeType: string } | null;
+  onChunk?: (chunk: ChatStreamChunk) => void;
+  signal?: AbortSignal;
+  turn?: ChatTurn;
+  model?: ChatModelSelection;
+  acceptLanguage?: string;
 }) => {
-  const { user, sessionId, message, contextTags, imagePayload } = params;
-  const imageMeta = imagePayload ? { mimeType: imagePayload.mimeType } : null;
-  const { session, context, history } = await prepareChatContext({
-    user,
-    sessionId,
+  const { user, sessionId, onChunk, signal, turn } = params;
+  const selection = params.model || selectChatModel(user.id);
+  const provider = getChatModelProvider(selection.provider);
+  const pack = COACH_PROMPT_PACKS[resolveCoachLanguage({ user, acceptLanguage: params.acceptLanguage })];
+  const {
+    session,
+    userMessageId,
+    promptCreatedAt,
     message,
     contextTags,
-    imageMeta,
+    imagePayload,
+    selectedChild,
+    knowledgePassages,
+    context,
+    contextHash,
+    tone,
+    history,
+  } = await prepareChatContext({
+    user,
+    pack,
+    sessionId,
+    message: params.message,
+    contextTags: params.contextTags,
+    imagePayload: params.imagePayload,
+    turn,
   });
 
   const assistantMessageId = uuidv4();
+  const citations = toCitations(knowledgePassages);
   const websocket = getWebSocketService();
 
-  const sendChunk = (payload: { delta?: string; content?: string; isFinal?: boolean; error?: string }) => {
-    websocket?.sendToUser(user.id, 'chat:stream', {
-      chatId: session.id,
-      messageId: assistantMessageId,
-      ...payload,
-    });
+  // Every chunk is numbered and buffered so a client that loses its connection can resume.
+  const sequencer = createStreamSequencer({ messageId: assistantMessageId, chatId: session.id, userId: user.id });
+  const sendChunk = (payload: Omit<ChatStreamChunk, 'chatId' | 'messageId' | 'seq'>) => {
+    const chunk = sequencer.next(payload);
+    if (onChunk) {
+      onChunk(chunk);
+      return;
+    }
+    websocket?.sendToUser(user.id, 'chat:stream', chunk);
   };
 
-  const finalizeAndPersist = async (content: string) => {
+  const finalizeAndPersist = async (
+    content: string,
+    options: { model?: string; triage?: ReturnType<typeof toTriageTag> } = {},
+  ) => {
+    const repliedAt = timestampAfter(promptCreatedAt);
     await db.collection('chat_messages').doc(assistantMessageId).set({
       id: assistantMessageId,
       session_id: session.id,
       role: 'assistant',
       content,
       metadata: contextTags || null,
-      created_at: new Date().toISOString()
+      parent_message_id: userMessageId,
+      active: true,
+      model: options.model || selection.model,
+      provider: options.model ? null : selection.provider,
+      language: pack.language,
+      tone,
+      context_hash: contextHash,
+      triage: options.triage || null,
+      citations: options.model ? [] : citations,
+      created_at: repliedAt
     });
+    await recordSessionMessage(session.id, { id: assistantMessageId, role: 'assistant', content, created_at: repliedAt });
 
-    await db.collection('chat_sessions').doc(session.id).set(
-      {
-        updated_at: new Date().toISOString()
-      },
-      { merge: true }
-    );
-
-    await maybeUpdateSummary(user.id, session.id);
+    if (selectedChild && !options.model) {
+      scheduleChildMemoryExtraction({
+        provider,
+        child: selectedChild,
+        userId: user.id,
+        userMessage: message,
+        reply: content,
+        messageId: assistantMessageId,
+      });
+    }
   };
 
   const runStream = async () => {
+    const triage = await runTriage(message, { ageDays: getChildAgeDays(selectedChild, contextTags) });
+    if (triage.triggered) {
+      const tag = toTriageTag(triage);
+      sendChunk({ delta: pack.urgentCareMessage, isFinal: true, content: pack.urgentCareMessage, triage: tag });
+      await finalizeAndPersist(pack.urgentCareMessage, { model: TRIAGE_REPLY_MODEL, triage: tag });
+      await recordTriageEvent({ userId: user.id, sessionId: session.id, messageId: assistantMessageId, triage });
+      return;
+    }
+
     if (shouldRefuseCoachRequest(message)) {
-      sendChunk({ delta: COACH_REFUSAL_MESSAGE, isFinal: true, content: COACH_REFUSAL_MESSAGE });
-      await finalizeAndPersist(COACH_REFUSAL_MESSAGE);
+      sendChunk({ delta: pack.refusalMessage, isFinal: true, content: pack.refusalMessage });
+      await finalizeAndPersist(pack.refusalMessage, { model: COACH_REFUSAL_MODEL });
       return;
     }
 
@@ -523,10 +1084,13 @@ export const handleChatMessageStream = async (params: {
     let latestText = '';
 
     try {
-      latestText = await streamCoachResponse({
+      latestText = await provider.stream({
+        systemPrompt: pack.systemPrompt,
         context,
         history,
         image: imagePayload || undefined,
+        model: selection.model,
+        signal,
         onDelta: (delta, fullText) => {
           sentAny = true;
           latestText = fullText;
@@ -535,13 +1099,35 @@ export const handleChatMessageStream = async (params: {
       });
 
       const finalText = latestText || '';
-      sendChunk({ content: finalText, isFinal: true });
+      if (signal?.aborted) {
+        logger.info({ userId: user.id, sessionId: session.id, length: finalText.length }, 'Chat stream aborted by client');
+        sendChunk({ content: finalText, isFinal: true });
+        if (finalText) {
+          await finalizeAndPersist(finalText);
+        }
+        return;
+      }
+      sendChunk({ content: finalText, isFinal: true, citations });
       await finalizeAndPersist(finalText);
     } catch (error) {
-      logger.error({ err: error, userId: user.id, sessionId: session.id }, 'Gemini streaming failed');
+      if (signal?.aborted) {
+        logger.info({ userId: user.id, sessionId: session.id }, 'Chat stream aborted by client');
+        sendChunk({ content: latestText || '', isFinal: true });
+        if (latestText) {
+          await finalizeAndPersist(latestText);
+        }
+        return;
+      }
+      logger.error({ err: error, userId: user.id, sessionId: session.id, provider: selection.provider }, 'Chat model streaming failed');
       if (!sentAny) {
-        const fallback = await generateCoachResponse(context, history, imagePayload || undefined);
-        sendChunk({ content: fallback, delta: fallback, isFinal: true });
+        const fallback = await provider.generate({
+          systemPrompt: pack.systemPrompt,
+          context,
+          history,
+          image: imagePayload || undefined,
+          model: selection.model,
+        });
+        sendChunk({ content: fallback, delta: fallback, isFinal: true, citations });
         await finalizeAndPersist(fallback);
       } else {
         sendChunk({ error: 'Streaming failed', isFinal: true, content: latestText || '' });
@@ -555,6 +1141,13 @@ export const handleChatMessageStream = async (params: {
   return {
     sessionId: session.id,
     messageId: assistantMessageId,
-    run: runStream,
+    userMessageId,
+    run: async () => {
+      try {
+        await runStream();
+      } finally {
+        await sequencer.flush();
+      }
+    },
   };
 };
@@ -0,0 +1,100 @@
+import { config } from '../../../config';
+import { getRedis, isRedisConnected } from '../../../redis';
+import { logger } from '../../../utils/logger';
+
+export interface ChatStreamChunk {
+  chatId: string;
+  messageId: string;
+  seq: number;
+  delta?: string;
+  content?: string;
+  isFinal?: boolean;
+  error?: string;
+  // Set on the final chunk when a medical red flag replaced the coach answer.
+  triage?: { rule_ids: string[]; categories: string[]; ruleset_version: string; source: string | null };
+  // Set on the final chunk of a coach answer that drew on knowledge-base passages.
+  citations?: Array<{
+    index: number;
+    article_id: string;
+    chunk_id: string;
+    title: string;
+    heading: string | null;
+    source_url: string | null;
+  }>;
+}
+
+// Each in-flight assistant reply keeps its chunks in a Redis list (index = seq - 1)
+// next to a small meta hash used for the ownership check on resume.
+const chunksKey = (messageId: string) => `chat:stream:${messageId}:chunks`;
+const metaKey = (messageId: string) => `chat:stream:${messageId}:meta`;
+
+export const openStreamBuffer = async (params: { messageId: string; chatId: string; userId: string }) => {
+  const redis = getRedis();
+  if (!isRedisConnected() || !redis) {
+    return;
+  }
+  try {
+    await redis
+      .multi()
+      .hset(metaKey(params.messageId), { userId: params.userId, chatId: params.chatId, final: '0' })
+      .expire(metaKey(params.messageId), config.chatStream.inFlightTtlSec)
+      .exec();
+  } catch (error) {
+    logger.warn({ err: error, messageId: params.messageId }, 'Chat stream buffer open failed');
+  }
+};
+
+export const appendStreamChunk = async (chunk: ChatStreamChunk) => {
+  const redis = getRedis();
+  if (!isRedisConnected() || !redis) {
+    return;
+  }
+  const ttl = chunk.isFinal ? config.chatStream.finalTtlSec : config.chatStream.inFlightTtlSec;
+  try {
+    const pipeline = redis
+      .multi()
+      .rpush(chunksKey(chunk.messageId), JSON.stringify(chunk))
+      .expire(chunksKey(chunk.messageId), ttl)
+      .expire(metaKey(chunk.messageId), ttl);
+    if (chunk.isFinal) {
+      pipeline.hset(metaKey(chunk.messageId), 'final', '1');
+    }
+    await pipeline.exec();
+  } catch (error) {
+    logger.warn({ err: error, messageId: chunk.messageId, seq: chunk.seq }, 'Chat stream buffer append failed');
+  }
+};
+
+// Chunks with a sequence number greater than `fromSeq`, in order.
+export const readStreamChunks = async (userId: string, messageId: string, fromSeq = 0) => {
+  const redis = getRedis();
+  if (!isRedisConnected() || !redis) {
+    return { chunks: null, reason: 'not_found' as const };
+  }
+  const meta = await redis.hgetall(metaKey(messageId));
+  if (!meta || !meta.userId) {
+    return { chunks: null, reason: 'not_found' as const };
+  }
+  if (meta.userId !== userId) {
+    return { chunks: null, reason: 'forbidden' as const };
+  }
+  const raw = await redis.lrange(chunksKey(messageId), Math.max(fromSeq, 0), -1);
+  const chunks = raw.map(item => JSON.parse(item) as ChatStreamChunk);
+  return { chunks, chatId: meta.chatId, isFinal: meta.final === '1' };
+};
+
+// Creates the per-reply sequencer: numbering is synchronous so deltas keep their order,
+// and buffer writes are chained so Redis sees them in the same order.
+export const createStreamSequencer = (params: { messageId: string; chatId: string; userId: string }) => {
+  let seq = 0;
+  let pending = openStreamBuffer(params);
+  return {
+    next(payload: Omit<ChatStreamChunk, 'chatId' | 'messageId' | 'seq'>): ChatStreamChunk {
+      seq += 1;
+      const chunk = { chatId: params.chatId, messageId: params.messageId, seq, ...payload };
+      pending = pending.then(() => appendStreamChunk(chunk));
+      return chunk;
+    },
+    flush: () => pending,
+  };
+};
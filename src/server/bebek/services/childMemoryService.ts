@@ -0,0 +1,196 @@
+import { db } from '../../../firebase';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../../utils/logger';
+import type { ChatModelProvider } from './chatModelProvider';
+import { ChildProfile, CHILD_COLLECTION } from './childService';
+
+export const CHILD_MEMORY_CATEGORIES = ['allergy', 'feeding', 'sleep', 'pediatrician_advice', 'other'] as const;
+export type ChildMemoryCategory = (typeof CHILD_MEMORY_CATEGORIES)[number];
+
+export interface ChildMemoryInput {
+  category?: ChildMemoryCategory;
+  content?: string;
+}
+
+export interface ChildMemory {
+  id: string;
+  childId: string;
+  category: ChildMemoryCategory;
+  content: string;
+  // `chat` records were extracted from a conversation; `parent` ones were written or edited by hand.
+  source: 'chat' | 'parent';
+  sourceMessageId: string | null;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const MEMORIES_SUBCOLLECTION = 'memories';
+export const MAX_CHILD_MEMORIES = 50;
+export const MAX_CHILD_MEMORY_LENGTH = 300;
+
+const memoriesRef = (childId: string) => db.collection(CHILD_COLLECTION).doc(childId).collection(MEMORIES_SUBCOLLECTION);
+
+const normalizeContent = (value: string) => value.toLocaleLowerCase('tr-TR').replace(/\s+/g, ' ').trim();
+
+export const listChildMemories = async (childId: string): Promise<ChildMemory[]> => {
+  const snapshot = await memoriesRef(childId).get();
+  return snapshot.docs
+    .map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...(doc.data() as any) }) as ChildMemory)
+    .sort((a: ChildMemory, b: ChildMemory) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const createChildMemory = async (child: ChildProfile, userId: string, input: Required<ChildMemoryInput>) => {
+  const existing = await listChildMemories(child.id);
+  if (existing.length >= MAX_CHILD_MEMORIES) {
+    return { created: false as const, reason: 'limit_reached' as const };
+  }
+
+  const now = new Date().toISOString();
+  const memory: ChildMemory = {
+    id: uuidv4(),
+    childId: child.id,
+    category: input.category,
+    content: input.content.trim(),
+    source: 'parent',
+    sourceMessageId: null,
+    createdBy: userId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await memoriesRef(child.id).doc(memory.id).set(memory);
+  return { created: true as const, memory };
+};
+
+// An edited record counts as the parent's own, so later extraction never second-guesses it.
+export const updateChildMemory = async (child: ChildProfile, memoryId: string, input: ChildMemoryInput) => {
+  const ref = memoriesRef(child.id).doc(memoryId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { updated: false as const, reason: 'not_found' as const };
+  }
+
+  const payload = {
+    ...(input.category ? { category: input.category } : {}),
+    ...(input.content !== undefined ? { content: input.content.trim() } : {}),
+    source: 'parent' as const,
+    updatedAt: new Date().toISOString(),
+  };
+  await ref.set(payload, { merge: true });
+  return { updated: true as const, memory: { ...(snapshot.data() as ChildMemory), ...payload } };
+};
+
+export const deleteChildMemory = async (child: ChildProfile, memoryId: string) => {
+  const ref = memoriesRef(child.id).doc(memoryId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { deleted: false as const, reason: 'not_found' as const };
+  }
+  await ref.delete();
+  return { deleted: true as const };
+};
+
+// Extraction for one coach reply about a selected child. Problems are logged and swallowed: a
+// missed fact must never fail the chat turn that produced it. A fact that corrects an earlier
+// chat-extracted one overwrites it; records the parent wrote or edited are never overwritten.
+export const recordChildMemoriesFromExchange = async (params: {
+  provider: ChatModelProvider;
+  child: ChildProfile;
+  userId: string;
+  userMessage: string;
+  reply: string;
+  messageId: string;
+}) => {
+  const { provider, child, userId, messageId } = params;
+  try {
+    const existing = await listChildMemories(child.id);
+    if (existing.length >= MAX_CHILD_MEMORIES) {
+      return [];
+    }
+    const candidates = await provider.extractMemories({
+      userMessage: params.userMessage,
+      reply: params.reply,
+      knownFacts: existing.map(memory => memory.content),
+      categories: CHILD_MEMORY_CATEGORIES,
+    });
+
+    const known = new Set(existing.map(memory => normalizeContent(memory.content)));
+    const now = new Date().toISOString();
+    const fresh: ChildMemory[] = [];
+    const changed = new Map<string, ChildMemory>();
+    candidates.forEach(candidate => {
+      const content = candidate.content.trim().slice(0, MAX_CHILD_MEMORY_LENGTH);
+      const key = normalizeContent(content);
+      if (!content || known.has(key)) {
+        return;
+      }
+      const category = CHILD_MEMORY_CATEGORIES.includes(candidate.category as ChildMemoryCategory)
+        ? (candidate.category as ChildMemoryCategory)
+        : 'other';
+      const replaced = typeof candidate.replaces === 'number' ? existing[candidate.replaces] : undefined;
+      if (replaced) {
+        if (replaced.source === 'chat' && !changed.has(replaced.id)) {
+          known.add(key);
+          changed.set(replaced.id, { ...replaced, category, content, sourceMessageId: messageId, updatedAt: now });
+        }
+        return;
+      }
+      if (existing.length + fresh.length >= MAX_CHILD_MEMORIES) {
+        return;
+      }
+      known.add(key);
+      fresh.push({
+        id: uuidv4(),
+        childId: child.id,
+        category,
+        content,
+        source: 'chat',
+        sourceMessageId: messageId,
+        createdBy: userId,
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+    const saved = [...fresh, ...changed.values()];
+    if (!saved.length) {
+      return [];
+    }
+
+    const batch = db.batch();
+    saved.forEach(memory => batch.set(memoriesRef(child.id).doc(memory.id), memory));
+    await batch.commit();
+    logger.info(
+      { userId, childId: child.id, messageId, created: fresh.length, updated: changed.size },
+      'Child memories extracted from chat',
+    );
+    return saved;
+  } catch (error) {
+    logger.warn({ err: error, userId, childId: child.id, messageId }, 'Child memory extraction failed');
+    return [];
+  }
+};
+
+const pendingExtractions = new Set<Promise<unknown>>();
+
+// Starts extraction once the current reply has gone out, so the model call never delays it.
+export const scheduleChildMemoryExtraction = (params: Parameters<typeof recordChildMemoriesFromExchange>[0]) => {
+  const pending = new Promise<void>(resolve => setImmediate(resolve))
+    .then(() => recordChildMemoriesFromExchange(params))
+    .finally(() => pendingExtractions.delete(pending));
+  pendingExtractions.add(pending);
+};
+
+// Resolves once every scheduled extraction has finished, so tests can read what was recorded.
+export const waitForChildMemoryExtractions = async () => {
+  await Promise.all(Array.from(pendingExtractions));
+};
+
+// One line per record for the coach prompt, grouped in category order. Labels come from the
+// user's prompt pack; the recorded content stays in whatever language the parent wrote it.
+export const formatChildMemoriesForPrompt = (memories: ChildMemory[], labels: Record<ChildMemoryCategory, string>) =>
+  CHILD_MEMORY_CATEGORIES.flatMap(category =>
+    memories
+      .filter(memory => memory.category === category)
+      .map(memory => `${labels[category]}: ${memory.content}`),
+  );
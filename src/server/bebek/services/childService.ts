@@ -0,0 +1,221 @@
+import { admin, db, storage } from '../../../firebase';
+import type { DocumentData, Query, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { logger } from '../../../utils/logger';
+import { ChildAvatar, deleteChildAvatarFiles } from './avatarService';
+import { deleteChatImages } from './chatImageService';
+import { getGeneratedRecordStoragePaths } from './generationHistoryService';
+import {
+  getHouseholdRole,
+  hasHouseholdRole,
+  HouseholdRole,
+  listHouseholdMemberIds,
+  listUserHouseholds,
+} from './householdService';
+
+export type ChildGender = 'Kiz' | 'Erkek';
+
+export interface ChildProfile {
+  id: string;
+  parentUuid: string;
+  parentEmail?: string;
+  name: string;
+  gender: ChildGender;
+  birthDate: string;
+  avatarUri: string;
+  avatar?: ChildAvatar | null;
+  householdId?: string | null;
+  vaccinationScheduleId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const CHILD_COLLECTION = 'AddChild';
+
+// Children created before households existed only carry `parentUuid`, which doubles as their household id.
+export const getChildHouseholdId = (child: { householdId?: string | null; parentUuid: string }) =>
+  child.householdId || child.parentUuid;
+
+export const getChildForUser = async (userId: string, childId: string, minimumRole: HouseholdRole = 'viewer') => {
+  const ref = db.collection(CHILD_COLLECTION).doc(childId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { child: null, reason: 'not_found' as const };
+  }
+  const child = { id: snapshot.id, ...(snapshot.data() as any) } as ChildProfile;
+  const role = await getHouseholdRole(getChildHouseholdId(child), userId);
+  if (!hasHouseholdRole(role, minimumRole)) {
+    return { child: null, reason: 'forbidden' as const, role };
+  }
+  return { child, ref, role: role as HouseholdRole };
+};
+
+export const listChildrenForUser = async (userId: string) => {
+  const households = await listUserHouseholds(userId);
+  const roleByHousehold = new Map(households.map(item => [item.householdId, item.role]));
+  const snapshots = await Promise.all(
+    households.flatMap(item => [
+      db.collection(CHILD_COLLECTION).where('parentUuid', '==', item.householdId).get(),
+      db.collection(CHILD_COLLECTION).where('householdId', '==', item.householdId).get(),
+    ]),
+  );
+
+  const children = new Map<string, ChildProfile & { role: HouseholdRole }>();
+  snapshots.forEach(snapshot => {
+    snapshot.docs.forEach((doc: QueryDocumentSnapshot<DocumentData>) => {
+      const child = { id: doc.id, ...(doc.data() as any) } as ChildProfile;
+      const role = roleByHousehold.get(getChildHouseholdId(child));
+      if (role && !children.has(doc.id)) {
+        children.set(doc.id, { ...child, householdId: getChildHouseholdId(child), role });
+      }
+    });
+  });
+  return Array.from(children.values());
+};
+
+export const updateChild = async (
+  userId: string,
+  childId: string,
+  updates: Partial<Pick<ChildProfile, 'name' | 'gender' | 'birthDate' | 'avatarUri'>>,
+) => {
+  const access = await getChildForUser(userId, childId, 'editor');
+  if (!access.child) {
+    return { updated: false, reason: access.reason, role: 'role' in access ? access.role : null };
+  }
+
+  const payload: Record<string, unknown> = { updatedAt: new Date().toISOString() };
+  if (updates.name !== undefined) payload.name = updates.name.trim();
+  if (updates.gender !== undefined) payload.gender = updates.gender;
+  if (updates.birthDate !== undefined) payload.birthDate = updates.birthDate.trim();
+  if (updates.avatarUri !== undefined) payload.avatarUri = updates.avatarUri.trim();
+
+  await access.ref.set(payload, { merge: true });
+  const child = { ...access.child, ...payload } as ChildProfile;
+  const changedFields = Object.keys(payload).filter(key => key !== 'updatedAt');
+  return { updated: true as const, child, changedFields };
+};
+
+// `avatarUri` keeps pointing at the largest variant for clients that predate `avatar`.
+export const setChildAvatar = async (child: ChildProfile, avatar: ChildAvatar | null) => {
+  const payload = {
+    avatar,
+    avatarUri: avatar ? avatar.variants[0].url : '',
+    updatedAt: new Date().toISOString(),
+  };
+  await db.collection(CHILD_COLLECTION).doc(child.id).set(payload, { merge: true });
+  return { ...child, ...payload } as ChildProfile;
+};
+
+// Firestore rejects batches of more than 500 writes, so matches are deleted a page at a time.
+// Each page is re-read from the start of the query because the previous page is already gone.
+const DELETE_PAGE_SIZE = 500;
+
+const deleteQueryInPages = async (
+  query: Query<DocumentData>,
+  beforeDelete?: (docs: QueryDocumentSnapshot<DocumentData>[]) => Promise<void>,
+) => {
+  let deleted = 0;
+  for (;;) {
+    const snapshot = await query.limit(DELETE_PAGE_SIZE).get();
+    const docs = snapshot.docs as QueryDocumentSnapshot<DocumentData>[];
+    if (!docs.length) {
+      return deleted;
+    }
+    if (beforeDelete) {
+      await beforeDelete(docs);
+    }
+    const batch = db.batch();
+    docs.forEach(doc => batch.delete(doc.ref));
+    await batch.commit();
+    deleted += docs.length;
+    if (docs.length < DELETE_PAGE_SIZE) {
+      return deleted;
+    }
+  }
+};
+
+// Every caregiver's sessions about the child go with it, not only the caller's.
+const deleteChildChatSessions = async (childId: string) => {
+  let messagesDeleted = 0;
+  const sessionsDeleted = await deleteQueryInPages(
+    db.collection('chat_sessions').where('child_id', '==', childId),
+    async sessionDocs => {
+      for (const sessionDoc of sessionDocs) {
+        messagesDeleted += await deleteQueryInPages(
+          db.collection('chat_messages').where('session_id', '==', sessionDoc.id),
+        );
+        await deleteChatImages(String((sessionDoc.data() as any).user_id), sessionDoc.id);
+      }
+    },
+  );
+
+  return { sessionsDeleted, messagesDeleted };
+};
+
+const deleteMemberGeneratedMedia = async (userId: string, childId: string) => {
+  const bucket: any = storage.bucket();
+  return deleteQueryInPages(
+    db.collection('users').doc(userId).collection('generatedPhotos').where('childId', '==', childId),
+    async docs => {
+      for (const doc of docs) {
+        for (const path of getGeneratedRecordStoragePaths(doc.data())) {
+          try {
+            await bucket.file(path).delete();
+          } catch (err) {
+            logger.warn({ err, userId, childId, path }, 'Failed to delete storage object for child media');
+          }
+        }
+      }
+    },
+  );
+};
+
+const deleteChildGeneratedMedia = async (child: ChildProfile) => {
+  const memberIds = await listHouseholdMemberIds(getChildHouseholdId(child));
+  let deleted = 0;
+  for (const memberId of memberIds) {
+    deleted += await deleteMemberGeneratedMedia(memberId, child.id);
+  }
+  return deleted;
+};
+
+export const deleteChild = async (userId: string, childId: string) => {
+  const access = await getChildForUser(userId, childId, 'owner');
+  if (!access.child) {
+    return { deleted: false, reason: access.reason, role: 'role' in access ? access.role : null };
+  }
+
+  const chat = await deleteChildChatSessions(childId);
+  const mediaDeleted = await deleteChildGeneratedMedia(access.child);
+  try {
+    await deleteChildAvatarFiles(getChildHouseholdId(access.child), childId);
+  } catch (err) {
+    logger.warn({ err, userId, childId }, 'Failed to delete child avatar files');
+  }
+
+  // Child sub-collections (measurements, logs, ...) must go with the profile.
+  const firestoreAdmin: any = admin.firestore();
+  if (typeof firestoreAdmin.recursiveDelete === 'function') {
+    await firestoreAdmin.recursiveDelete(access.ref);
+  } else {
+    await access.ref.delete();
+  }
+
+  logger.info(
+    {
+      userId,
+      childId,
+      sessionsDeleted: chat.sessionsDeleted,
+      messagesDeleted: chat.messagesDeleted,
+      mediaDeleted,
+    },
+    'Child profile deleted with related data',
+  );
+
+  return {
+    deleted: true as const,
+    child: access.child,
+    sessionsDeleted: chat.sessionsDeleted,
+    messagesDeleted: chat.messagesDeleted,
+    mediaDeleted,
+  };
+};
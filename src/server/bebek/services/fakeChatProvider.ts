@@ -0,0 +1,73 @@
+import type { ChatModelProvider, ChatModelRequest } from './chatModelProvider';
+
+const FAKE_PROVIDER_NAME = 'fake';
+const ECHO_MODEL = 'echo';
+
+const MEMORY_KEYWORDS: Record<string, string[]> = {
+  allergy: ['alerji', 'alerjik'],
+  feeding: ['emzir', 'mama', 'biberon', 'anne sütü', 'ek gıda'],
+  sleep: ['uyku', 'uyuyor', 'uyumuyor', 'uyanıyor'],
+  pediatrician_advice: ['doktor', 'pediatri'],
+};
+
+// Deterministic stand-in for a real model, used by tests and for offline development.
+// With `replies` it answers with them in order (wrapping around); otherwise it echoes
+// the latest user message. Nothing leaves the process.
+export const createFakeChatProvider = (
+  options: { name?: string; replies?: string[]; chunkDelayMs?: number } = {},
+): ChatModelProvider => {
+  const replies = options.replies || [];
+  let replyIndex = 0;
+
+  const nextReply = (request: ChatModelRequest) => {
+    if (replies.length) {
+      const reply = replies[replyIndex % replies.length];
+      replyIndex += 1;
+      return reply;
+    }
+    const lastUserMessage = [...request.history].reverse().find(item => item.role === 'user');
+    const text = lastUserMessage?.content?.trim() || (request.image ? 'Görsel' : '');
+    return `Echo: ${text}`;
+  };
+
+  const pause = () =>
+    new Promise<void>(resolve =>
+      options.chunkDelayMs ? setTimeout(resolve, options.chunkDelayMs) : setImmediate(resolve),
+    );
+
+  return {
+    name: options.name || FAKE_PROVIDER_NAME,
+    defaultModel: () => (replies.length ? 'scripted' : ECHO_MODEL),
+    generate: async request => nextReply(request),
+    // One delta per word (with its trailing whitespace), yielding between them so aborts land mid-reply.
+    stream: async request => {
+      const words = nextReply(request).match(/\S+\s*/g) || [];
+      let fullText = '';
+      for (const word of words) {
+        if (request.signal?.aborted) {
+          break;
+        }
+        fullText += word;
+        request.onDelta(word, fullText);
+        await pause();
+      }
+      return fullText.trim();
+    },
+    // Keeps the parent's own sentences that mention a category keyword, once per category. A
+    // sentence replaces the first known fact that mentions the same category.
+    extractMemories: async request => {
+      const sentences = request.userMessage.split(/(?<=[.!?])\s+/).map(sentence => sentence.trim()).filter(Boolean);
+      return Object.entries(MEMORY_KEYWORDS)
+        .filter(([category]) => request.categories.includes(category))
+        .flatMap(([category, keywords]) => {
+          const mentions = (text: string) => keywords.some(keyword => text.toLocaleLowerCase('tr-TR').includes(keyword));
+          const sentence = sentences.find(mentions);
+          if (!sentence || request.knownFacts.includes(sentence)) {
+            return [];
+          }
+          const replaces = request.knownFacts.findIndex(mentions);
+          return [{ category, content: sentence, replaces: replaces >= 0 ? replaces : null }];
+        });
+    },
+  };
+};
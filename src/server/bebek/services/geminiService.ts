@@ -1,21 +1,21 @@
 import axios from 'axios';
 import { fal } from '@fal-ai/client';
 import { logger } from '../../../utils/logger';
-import { BIG_SYSTEM_PROMPT } from '../constants';
 
 const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
-const DEFAULT_GEMINI_CHAT_MODEL = process.env.GEMINI_CHAT_MODEL
-  || process.env.GEMINI_MODEL
-  || 'gemini-2.5-pro';
-const DEFAULT_GEMINI_SUMMARY_MODEL = process.env.GEMINI_SUMMARY_MODEL
-  || process.env.GEMINI_MODEL
-  || 'gemini-2.5-flash';
 const DEFAULT_FAL_IMAGE_MODEL = process.env.FAL_IMAGE_MODEL || 'fal-ai/bytedance/seedream/v4/edit';
 const ENFORCED_MULTI_REFERENCE_FACE_SWAP_MODEL = 'half-moon-ai/ai-face-swap/faceswapimage';
 const DEFAULT_FAL_WEDDING_IMAGE_MODEL = ENFORCED_MULTI_REFERENCE_FACE_SWAP_MODEL;
 const DEFAULT_FAL_COUPLE_IMAGE_MODEL = ENFORCED_MULTI_REFERENCE_FACE_SWAP_MODEL;
 
 const getApiKey = () => process.env.GEMINI_API_KEY || '';
+// Read per call rather than at import so tests and provider selection can change them.
+export const getGeminiChatModel = () => process.env.GEMINI_CHAT_MODEL
+  || process.env.GEMINI_MODEL
+  || 'gemini-2.5-pro';
+export const getGeminiSummaryModel = () => process.env.GEMINI_SUMMARY_MODEL
+  || process.env.GEMINI_MODEL
+  || 'gemini-2.5-flash';
 const getFalKey = () => process.env.FAL_KEY || process.env.FAL_API_KEY || '';
 
 let falConfigured = false;
@@ -130,12 +130,12 @@ type GeminiResponse = {
   }>;
 };
 
-type ChatHistoryItem = {
+export type ChatHistoryItem = {
   role: string;
   content: string;
 };
 
-type InlineImagePayload = {
+export type InlineImagePayload = {
   data: string;
   mimeType: string;
 };
@@ -182,27 +182,29 @@ const buildGeminiContents = (history: ChatHistoryItem[], image?: InlineImagePayl
 };
 
 export const generateCoachResponse = async (
+  systemPrompt: string,
   context: string,
   history: Array<{ role: string; content: string }>,
-  image?: InlineImagePayload
+  image?: InlineImagePayload,
+  model = getGeminiChatModel()
 ) => {
   const apiKey = getApiKey();
   if (!apiKey) {
     throw new Error('GEMINI_API_KEY is not configured');
   }
 
-  logger.info({ historyCount: history.length }, 'Gemini coach response request started');
+  logger.info({ historyCount: history.length, model }, 'Gemini coach response request started');
   const contents = buildGeminiContents(history, image);
 
   const requestBody = {
     systemInstruction: {
-      parts: [{ text: `${BIG_SYSTEM_PROMPT}\n\nCONTEXT:\n${context}` }]
+      parts: [{ text: `${systemPrompt}\n\nCONTEXT:\n${context}` }]
     },
     contents
   };
 
   const response = await axios.post<GeminiResponse>(
-    `${GEMINI_BASE_URL}/models/${DEFAULT_GEMINI_CHAT_MODEL}:generateContent?key=${apiKey}`,
+    `${GEMINI_BASE_URL}/models/${model}:generateContent?key=${apiKey}`,
     requestBody
   );
 
@@ -712,43 +714,69 @@ export const generateCoupleStyledPhotoWithTemplate = async (params: {
 };
 
 export const streamCoachResponse = async (params: {
+  systemPrompt: string;
   context: string;
   history: Array<{ role: string; content: string }>;
   image?: InlineImagePayload;
+  model?: string;
   onDelta: (delta: string, fullText: string) => void;
   onEvent?: (payload: any) => void;
+  signal?: AbortSignal;
 }) => {
   const apiKey = getApiKey();
   if (!apiKey) {
     throw new Error('GEMINI_API_KEY is not configured');
   }
 
-  const { context, history, image, onDelta, onEvent } = params;
-  logger.info({ historyCount: history.length }, 'Gemini coach streaming request started');
+  const { systemPrompt, context, history, image, onDelta, onEvent, signal } = params;
+  const model = params.model || getGeminiChatModel();
+  logger.info({ historyCount: history.length, model }, 'Gemini coach streaming request started');
 
   const contents = buildGeminiContents(history, image);
   const requestBody = {
     systemInstruction: {
-      parts: [{ text: `${BIG_SYSTEM_PROMPT}\n\nCONTEXT:\n${context}` }],
+      parts: [{ text: `${systemPrompt}\n\nCONTEXT:\n${context}` }],
     },
     contents,
   };
 
-  const response = await axios.post(
-    `${GEMINI_BASE_URL}/models/${DEFAULT_GEMINI_CHAT_MODEL}:streamGenerateContent?key=${apiKey}&alt=sse`,
-    requestBody,
-    {
-      responseType: 'stream',
-      headers: {
-        Accept: 'text/event-stream',
-      },
+  let response;
+  try {
+    response = await axios.post(
+      `${GEMINI_BASE_URL}/models/${model}:streamGenerateContent?key=${apiKey}&alt=sse`,
+      requestBody,
+      // The installed @types/axios predates `signal`; the axios runtime supports it.
+      {
+        responseType: 'stream',
+        headers: {
+          Accept: 'text/event-stream',
+        },
+        signal,
+      } as any
+    );
+  } catch (error) {
+    // Aborted before the first byte: there is no partial text to keep.
+    if (signal?.aborted) {
+      return '';
     }
-  );
+    throw error;
+  }
 
   return new Promise<string>((resolve, reject) => {
     let buffer = '';
     let fullText = '';
-    const stream = response.data as NodeJS.ReadableStream;
+    const stream = response.data as NodeJS.ReadableStream & { destroy?: () => void };
+
+    // An aborted request resolves with whatever text arrived so the caller can keep it.
+    const abort = () => {
+      stream.destroy?.();
+      resolve(fullText.trim());
+    };
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    signal?.addEventListener('abort', abort, { once: true });
 
     const handleLine = (line: string) => {
       const trimmed = line.trim();
@@ -808,10 +836,19 @@ export const streamCoachResponse = async (params: {
   });
 };
 
-export const generateSummary = async (summaryInput: string) => {
+// Pulls durable facts about a child (allergies, feeding, sleep, doctor's advice) out of one chat
+// exchange. Facts already on record are listed so the model only returns new or changed ones.
+export const extractChildMemories = async (params: {
+  userMessage: string;
+  reply: string;
+  knownFacts: string[];
+  categories: readonly string[];
+  model?: string;
+  timeoutMs: number;
+}) => {
   const apiKey = getApiKey();
   if (!apiKey) {
-    return null;
+    return [];
   }
 
   const requestBody = {
@@ -820,21 +857,121 @@ export const generateSummary = async (summaryInput: string) => {
         role: 'user',
         parts: [
           {
-            text: `Aşağıdaki konuşmayı 3-4 cümlelik kısa bir hafıza özeti olarak yaz.\n\n${summaryInput}`
+            text: [
+              'Bir ebeveyn ile bebek koçu arasındaki konuşmadan bebek hakkında kalıcı bilgileri çıkar.',
+              `Sadece şu kategorileri kullan: ${params.categories.join(', ')}.`,
+              'Sadece ebeveynin açıkça söylediği, ileride tekrar işe yarayacak bilgileri yaz; tahmin yürütme.',
+              'Aşağıdaki kayıtlı bilgileri tekrar etme. Yeni bilgi yoksa boş liste döndür.',
+              'Bir bilgi kayıtlı bir bilgiyi değiştiriyorsa "replaces" alanına o bilginin numarasını yaz.',
+              'Sadece şu biçimde JSON yaz: [{"category": "...", "content": "kısa Türkçe cümle", "replaces": null}]',
+              '',
+              `Kayıtlı bilgiler:\n${params.knownFacts.map((fact, index) => `${index + 1}. ${fact}`).join('\n') || '-'}`,
+              '',
+              `Ebeveyn: ${params.userMessage}`,
+              `Koç: ${params.reply}`,
+            ].join('\n')
           }
         ]
       }
-    ]
+    ],
+    generationConfig: { responseMimeType: 'application/json', temperature: 0 }
   };
 
+  const response = await axios.post<GeminiResponse>(
+    `${GEMINI_BASE_URL}/models/${params.model || getGeminiSummaryModel()}:generateContent?key=${apiKey}`,
+    requestBody,
+    { timeout: params.timeoutMs }
+  );
+  const text = response.data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
   try {
-    const response = await axios.post<GeminiResponse>(
-      `${GEMINI_BASE_URL}/models/${DEFAULT_GEMINI_SUMMARY_MODEL}:generateContent?key=${apiKey}`,
-      requestBody
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    // The prompt numbers known facts from 1; `replaces` comes back as an index into knownFacts.
+    return parsed
+      .filter(item => typeof item?.category === 'string' && typeof item?.content === 'string')
+      .map(item => ({
+        category: item.category as string,
+        content: item.content as string,
+        replaces: Number.isInteger(item.replaces) ? (item.replaces as number) - 1 : null,
+      }));
+  } catch {
+    logger.warn({ text: shortPreview(text) }, 'Child memory extraction returned unparseable output');
+    return [];
+  }
+};
+
+const GEMINI_EMBED_BATCH_SIZE = 100;
+
+export const getGeminiEmbeddingModel = () => process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004';
+
+export const embedTexts = async (texts: string[]) => {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY is not configured');
+  }
+
+  const model = getGeminiEmbeddingModel();
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += GEMINI_EMBED_BATCH_SIZE) {
+    const batch = texts.slice(start, start + GEMINI_EMBED_BATCH_SIZE);
+    const response = await axios.post<{ embeddings?: Array<{ values?: number[] }> }>(
+      `${GEMINI_BASE_URL}/models/${model}:batchEmbedContents?key=${apiKey}`,
+      { requests: batch.map(text => ({ model: `models/${model}`, content: { parts: [{ text }] } })) }
     );
-    return response.data?.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || null;
-  } catch (error) {
-    logger.warn({ err: error }, 'Failed to generate summary');
+    const embeddings = response.data?.embeddings || [];
+    if (embeddings.length !== batch.length) {
+      throw new Error('Gemini returned an unexpected number of embeddings');
+    }
+    embeddings.forEach(item => vectors.push(item.values || []));
+  }
+  return vectors;
+};
+
+// Asks the summary model whether a parent's message describes a baby-health emergency.
+// Returns null when the model is unavailable or its answer can't be parsed.
+export const classifyTriageRisk = async (message: string, timeoutMs: number) => {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    return null;
+  }
+
+  const requestBody = {
+    contents: [
+      {
+        role: 'user',
+        parts: [
+          {
+            text: [
+              'Bir ebeveynin bebeği hakkındaki mesajını değerlendir.',
+              'Mesaj acil tıbbi yardım gerektirebilecek bir durumu (yenidoğanda ateş, nefes darlığı, sıvı kaybı belirtileri,',
+              'kafa travması, havale, bilinç kaybı vb.) anlatıyorsa urgent=true döndür.',
+              'Sadece şu biçimde JSON yaz: {"urgent": boolean, "category": "fever|breathing|dehydration|head_injury|neurological|responsiveness|other"}',
+              '',
+              `Mesaj: ${message}`,
+            ].join('\n')
+          }
+        ]
+      }
+    ],
+    generationConfig: { responseMimeType: 'application/json', temperature: 0 }
+  };
+
+  const response = await axios.post<GeminiResponse>(
+    `${GEMINI_BASE_URL}/models/${getGeminiSummaryModel()}:generateContent?key=${apiKey}`,
+    requestBody,
+    { timeout: timeoutMs }
+  );
+  const text = response.data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  try {
+    const parsed = JSON.parse(text);
+    return {
+      urgent: parsed?.urgent === true,
+      category: typeof parsed?.category === 'string' ? parsed.category : null,
+    };
+  } catch {
+    logger.warn({ text: shortPreview(text) }, 'Triage classifier returned unparseable output');
     return null;
   }
 };
@@ -0,0 +1,340 @@
+import { db } from '../../../firebase';
+import { FieldPath, Timestamp } from 'firebase-admin/firestore';
+import type { DocumentData, Query, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { randomUUID } from 'crypto';
+
+export const HISTORY_PAGE_DEFAULT_LIMIT = 30;
+export const HISTORY_PAGE_MAX_LIMIT = 100;
+// App builds from before pagination send neither limit nor cursor and expect the old 200-item list.
+export const HISTORY_UNPAGED_LIMIT = 200;
+export const MAX_ALBUMS_PER_USER = 100;
+export const MAX_ALBUM_ITEMS = 500;
+
+export interface HistoryCursor {
+  seconds: number;
+  nanoseconds: number;
+  id: string;
+}
+
+export interface HistoryFilters {
+  childId?: string | null;
+  styleType?: string | null;
+  styleId?: string | null;
+  favorite?: boolean;
+  // Inclusive lower and exclusive upper bound on createdAt.
+  from?: Date | null;
+  to?: Date | null;
+}
+
+export interface GenerationAlbum {
+  id: string;
+  name: string;
+  itemIds: string[];
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const historyRef = (userId: string) => db.collection('users').doc(userId).collection('generatedPhotos');
+const albumsRef = (userId: string) => db.collection('users').doc(userId).collection('generationAlbums');
+
+// Storage objects that belong to one generatedPhotos record: the output and every photo the user
+// uploaded for it. Templates are shared catalog assets and are never included.
+export const getGeneratedRecordStoragePaths = (data: any): string[] =>
+  [
+    data?.outputImagePath,
+    data?.outputVideoPath,
+    data?.inputImagePath,
+    data?.inputMotherImagePath,
+    data?.inputFatherImagePath,
+    data?.inputFirstImagePath,
+    data?.inputSecondImagePath,
+  ].filter((path): path is string => typeof path === 'string' && path.length > 0);
+
+// createdAt is a server timestamp; the cursor keeps its full precision so items written within the
+// same millisecond are neither skipped nor repeated.
+const toTimestamp = (value: any): Timestamp | null => {
+  if (value instanceof Timestamp) return value;
+  if (value && typeof value.toDate === 'function') return Timestamp.fromDate(value.toDate());
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return Timestamp.fromDate(new Date(value));
+  return null;
+};
+
+export const encodeHistoryCursor = (createdAt: Timestamp, id: string) =>
+  Buffer.from(JSON.stringify([createdAt.seconds, createdAt.nanoseconds, id])).toString('base64url');
+
+export const decodeHistoryCursor = (value: string): HistoryCursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      !Array.isArray(parsed)
+      || !Number.isInteger(parsed[0])
+      || !Number.isInteger(parsed[1])
+      || typeof parsed[2] !== 'string'
+      || !parsed[2]
+    ) {
+      return null;
+    }
+    return { seconds: parsed[0], nanoseconds: parsed[1], id: parsed[2] };
+  } catch {
+    return null;
+  }
+};
+
+const compareNewestFirst = (
+  a: { createdAt: Timestamp | null; id: string },
+  b: { createdAt: Timestamp | null; id: string },
+) => {
+  const left = a.createdAt?.toMillis() ?? 0;
+  const right = b.createdAt?.toMillis() ?? 0;
+  if (left !== right) return right - left;
+  const nanos = (b.createdAt?.nanoseconds ?? 0) - (a.createdAt?.nanoseconds ?? 0);
+  if (nanos !== 0) return nanos;
+  return b.id.localeCompare(a.id);
+};
+
+const serializeHistoryItem = (
+  doc: QueryDocumentSnapshot<DocumentData>,
+  ownerId: string,
+  createdAt: Timestamp | null,
+  albumIds: string[],
+) => {
+  const data = doc.data() as any;
+  return {
+    id: doc.id,
+    styleType: data?.styleType || 'photo',
+    styleId: data?.styleId || null,
+    childId: data?.childId || null,
+    prompt: data?.prompt || null,
+    outputImageUrl: data?.outputImageUrl || null,
+    outputImagePath: data?.outputImagePath || null,
+    outputVideoUrl: data?.outputVideoUrl || null,
+    outputVideoPath: data?.outputVideoPath || null,
+    outputMimeType: data?.outputMimeType || null,
+    inputImageUrl: data?.inputImageUrl || null,
+    favorite: data?.favorite === true,
+    albumIds,
+    createdBy: ownerId,
+    createdAt: createdAt ? createdAt.toDate().toISOString() : null,
+  };
+};
+
+// History can span several owners (a child's household), so every owner's collection is read up to
+// one page past the cursor and the pages are merged newest first.
+export const listGenerationHistory = async (params: {
+  viewerId: string;
+  ownerIds: string[];
+  filters: HistoryFilters;
+  limit?: number;
+  cursor?: HistoryCursor | null;
+}) => {
+  const limit = params.limit
+    ? Math.min(Math.max(params.limit, 1), HISTORY_PAGE_MAX_LIMIT)
+    : params.cursor
+      ? HISTORY_PAGE_DEFAULT_LIMIT
+      : HISTORY_UNPAGED_LIMIT;
+  const { filters } = params;
+  const [snapshots, albums] = await Promise.all([
+    Promise.all(
+      params.ownerIds.map(ownerId => {
+        let query: Query<DocumentData> = historyRef(ownerId);
+        if (filters.childId) query = query.where('childId', '==', filters.childId);
+        if (filters.styleType) query = query.where('styleType', '==', filters.styleType);
+        if (filters.styleId) query = query.where('styleId', '==', filters.styleId);
+        if (filters.favorite) query = query.where('favorite', '==', true);
+        if (filters.from) query = query.where('createdAt', '>=', filters.from);
+        if (filters.to) query = query.where('createdAt', '<', filters.to);
+        query = query.orderBy('createdAt', 'desc').orderBy(FieldPath.documentId(), 'desc');
+        if (params.cursor) {
+          query = query.startAfter(new Timestamp(params.cursor.seconds, params.cursor.nanoseconds), params.cursor.id);
+        }
+        return query.limit(limit + 1).get();
+      }),
+    ),
+    listAlbums(params.viewerId),
+  ]);
+
+  // Albums belong to the viewer, so membership is only reported for the viewer's own items.
+  const albumIdsByItem = new Map<string, string[]>();
+  albums.forEach((album: GenerationAlbum) => {
+    album.itemIds.forEach((itemId: string) => albumIdsByItem.set(itemId, [...(albumIdsByItem.get(itemId) || []), album.id]));
+  });
+
+  const entries = snapshots
+    .flatMap((snapshot, index) =>
+      snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => ({
+        doc,
+        id: doc.id,
+        ownerId: params.ownerIds[index],
+        createdAt: toTimestamp(doc.data()?.createdAt),
+      })),
+    )
+    .sort(compareNewestFirst);
+  const page = entries.slice(0, limit);
+  const last = page[page.length - 1];
+  const hasMore = entries.length > limit;
+
+  return {
+    items: page.map(entry =>
+      serializeHistoryItem(
+        entry.doc,
+        entry.ownerId,
+        entry.createdAt,
+        entry.ownerId === params.viewerId ? albumIdsByItem.get(entry.id) || [] : [],
+      ),
+    ),
+    pageInfo: {
+      limit,
+      hasMore,
+      nextCursor: hasMore && last?.createdAt ? encodeHistoryCursor(last.createdAt, last.id) : null,
+    },
+  };
+};
+
+export const setHistoryFavorite = async (userId: string, itemId: string, favorite: boolean) => {
+  const ref = historyRef(userId).doc(itemId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { updated: false as const, reason: 'not_found' as const };
+  }
+  await ref.set({ favorite, favoritedAt: favorite ? new Date().toISOString() : null }, { merge: true });
+  return { updated: true as const, favorite };
+};
+
+// Albums only hold the caller's own history items.
+const findMissingItems = async (userId: string, itemIds: string[]) => {
+  const snapshots = await Promise.all(itemIds.map(itemId => historyRef(userId).doc(itemId).get()));
+  return itemIds.filter((_, index) => !snapshots[index].exists);
+};
+
+const toAlbum = (id: string, data: any): GenerationAlbum => ({
+  id,
+  name: data.name,
+  itemIds: Array.isArray(data.itemIds) ? data.itemIds : [],
+  sortOrder: Number(data.sortOrder || 0),
+  createdAt: data.createdAt,
+  updatedAt: data.updatedAt,
+});
+
+export const listAlbums = async (userId: string): Promise<GenerationAlbum[]> => {
+  const snapshot = await albumsRef(userId).get();
+  return snapshot.docs
+    .map((doc: QueryDocumentSnapshot<DocumentData>) => toAlbum(doc.id, doc.data()))
+    .sort((a: GenerationAlbum, b: GenerationAlbum) => a.sortOrder - b.sortOrder || a.createdAt.localeCompare(b.createdAt));
+};
+
+export const createAlbum = async (userId: string, input: { name: string; itemIds?: string[] }) => {
+  const albums = await listAlbums(userId);
+  if (albums.length >= MAX_ALBUMS_PER_USER) {
+    return { album: null, reason: 'limit_reached' as const };
+  }
+  const itemIds = Array.from(new Set(input.itemIds || []));
+  const missing = await findMissingItems(userId, itemIds);
+  if (missing.length) {
+    return { album: null, reason: 'items_not_found' as const, missing };
+  }
+
+  const now = new Date().toISOString();
+  const album: GenerationAlbum = {
+    id: randomUUID(),
+    name: input.name.trim(),
+    itemIds,
+    sortOrder: albums.reduce((max: number, item: GenerationAlbum) => Math.max(max, item.sortOrder + 1), 0),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await albumsRef(userId).doc(album.id).set(album);
+  return { album };
+};
+
+// `itemIds` replaces the album contents in the given order, which is how items are reordered.
+export const updateAlbum = async (userId: string, albumId: string, input: { name?: string; itemIds?: string[] }) => {
+  const ref = albumsRef(userId).doc(albumId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { album: null, reason: 'not_found' as const };
+  }
+  const updates: Partial<GenerationAlbum> = { updatedAt: new Date().toISOString() };
+  if (input.name !== undefined) {
+    updates.name = input.name.trim();
+  }
+  if (input.itemIds !== undefined) {
+    const itemIds = Array.from(new Set(input.itemIds));
+    const missing = await findMissingItems(userId, itemIds);
+    if (missing.length) {
+      return { album: null, reason: 'items_not_found' as const, missing };
+    }
+    updates.itemIds = itemIds;
+  }
+  await ref.set(updates, { merge: true });
+  return { album: toAlbum(albumId, { ...snapshot.data(), ...updates }) };
+};
+
+export const addAlbumItems = async (userId: string, albumId: string, itemIds: string[]) => {
+  const snapshot = await albumsRef(userId).doc(albumId).get();
+  if (!snapshot.exists) {
+    return { album: null, reason: 'not_found' as const };
+  }
+  const current = toAlbum(albumId, snapshot.data());
+  const merged = Array.from(new Set([...current.itemIds, ...itemIds]));
+  if (merged.length > MAX_ALBUM_ITEMS) {
+    return { album: null, reason: 'limit_reached' as const };
+  }
+  return updateAlbum(userId, albumId, { itemIds: merged });
+};
+
+export const removeAlbumItem = async (userId: string, albumId: string, itemId: string) => {
+  const ref = albumsRef(userId).doc(albumId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { album: null, reason: 'not_found' as const };
+  }
+  const current = toAlbum(albumId, snapshot.data());
+  const updates = { itemIds: current.itemIds.filter(id => id !== itemId), updatedAt: new Date().toISOString() };
+  await ref.set(updates, { merge: true });
+  return { album: { ...current, ...updates } };
+};
+
+// `albumIds` must list every album exactly once, in the new order.
+export const reorderAlbums = async (userId: string, albumIds: string[]) => {
+  const albums = await listAlbums(userId);
+  const known = new Set(albums.map((album: GenerationAlbum) => album.id));
+  if (albumIds.length !== known.size || new Set(albumIds).size !== albumIds.length || albumIds.some(id => !known.has(id))) {
+    return { albums: null, reason: 'mismatch' as const };
+  }
+  const now = new Date().toISOString();
+  const batch = db.batch();
+  albumIds.forEach((albumId, index) => {
+    batch.set(albumsRef(userId).doc(albumId), { sortOrder: index, updatedAt: now }, { merge: true });
+  });
+  await batch.commit();
+  return { albums: await listAlbums(userId) };
+};
+
+export const deleteAlbum = async (userId: string, albumId: string) => {
+  const ref = albumsRef(userId).doc(albumId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { deleted: false as const, reason: 'not_found' as const };
+  }
+  await ref.delete();
+  return { deleted: true as const };
+};
+
+// Called when a history item is deleted so no album keeps pointing at it.
+export const removeItemFromAlbums = async (userId: string, itemId: string) => {
+  const snapshot = await albumsRef(userId).where('itemIds', 'array-contains', itemId).get();
+  await Promise.all(
+    snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) =>
+      doc.ref.set(
+        {
+          itemIds: toAlbum(doc.id, doc.data()).itemIds.filter(id => id !== itemId),
+          updatedAt: new Date().toISOString(),
+        },
+        { merge: true },
+      ),
+    ),
+  );
+  return snapshot.size;
+};
@@ -0,0 +1,197 @@
+import { db } from '../../../firebase';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { GrowthMetric } from '../data/whoGrowthStandards';
+import { CoachLanguage, DEFAULT_COACH_LANGUAGE } from '../data/coachPromptPacks';
+import { ChildProfile, CHILD_COLLECTION } from './childService';
+import {
+  buildPercentileCurves,
+  DAYS_PER_MONTH,
+  evaluateGrowth,
+  getAgeInDays,
+  toGrowthSex,
+} from '../utils/growth';
+
+export interface GrowthMeasurementInput {
+  measuredAt?: string;
+  weightKg?: number | null;
+  lengthCm?: number | null;
+  headCircumferenceCm?: number | null;
+  note?: string | null;
+}
+
+const MEASUREMENTS_SUBCOLLECTION = 'growth_measurements';
+
+const METRIC_FIELDS: Record<GrowthMetric, 'weightKg' | 'lengthCm' | 'headCircumferenceCm'> = {
+  weight: 'weightKg',
+  length: 'lengthCm',
+  head: 'headCircumferenceCm',
+};
+
+const METRIC_UNITS: Record<GrowthMetric, string> = {
+  weight: 'kg',
+  length: 'cm',
+  head: 'cm',
+};
+
+const measurementsRef = (childId: string) =>
+  db.collection(CHILD_COLLECTION).doc(childId).collection(MEASUREMENTS_SUBCOLLECTION);
+
+const enrichMeasurement = (child: ChildProfile, measurement: any) => {
+  const sex = toGrowthSex(child.gender);
+  const ageDays = getAgeInDays(child.birthDate, measurement.measuredAt);
+  const assessments: Partial<Record<GrowthMetric, { zScore: number; percentile: number } | null>> = {};
+  (Object.keys(METRIC_FIELDS) as GrowthMetric[]).forEach(metric => {
+    const value = measurement[METRIC_FIELDS[metric]];
+    if (typeof value !== 'number') return;
+    assessments[metric] = sex && ageDays !== null ? evaluateGrowth(metric, sex, ageDays, value) : null;
+  });
+  return {
+    ...measurement,
+    ageDays,
+    ageMonths: ageDays !== null ? Math.round((ageDays / DAYS_PER_MONTH) * 10) / 10 : null,
+    assessments,
+  };
+};
+
+export const listGrowthMeasurements = async (child: ChildProfile) => {
+  const snapshot = await measurementsRef(child.id).get();
+  return snapshot.docs
+    .map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...(doc.data() as any) }))
+    .sort((a: any, b: any) => String(a.measuredAt).localeCompare(String(b.measuredAt)))
+    .map((measurement: any) => enrichMeasurement(child, measurement));
+};
+
+export const createGrowthMeasurement = async (child: ChildProfile, userId: string, input: GrowthMeasurementInput) => {
+  const now = new Date().toISOString();
+  const id = uuidv4();
+  const measurement = {
+    id,
+    childId: child.id,
+    measuredAt: input.measuredAt as string,
+    weightKg: input.weightKg ?? null,
+    lengthCm: input.lengthCm ?? null,
+    headCircumferenceCm: input.headCircumferenceCm ?? null,
+    note: input.note?.trim() || null,
+    createdBy: userId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await measurementsRef(child.id).doc(id).set(measurement);
+  return enrichMeasurement(child, measurement);
+};
+
+export const updateGrowthMeasurement = async (
+  child: ChildProfile,
+  measurementId: string,
+  input: GrowthMeasurementInput,
+) => {
+  const ref = measurementsRef(child.id).doc(measurementId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { updated: false, reason: 'not_found' as const };
+  }
+
+  const payload: Record<string, unknown> = { updatedAt: new Date().toISOString() };
+  if (input.measuredAt !== undefined) payload.measuredAt = input.measuredAt;
+  if (input.weightKg !== undefined) payload.weightKg = input.weightKg;
+  if (input.lengthCm !== undefined) payload.lengthCm = input.lengthCm;
+  if (input.headCircumferenceCm !== undefined) payload.headCircumferenceCm = input.headCircumferenceCm;
+  if (input.note !== undefined) payload.note = input.note?.trim() || null;
+
+  const merged = { ...(snapshot.data() as any), ...payload };
+  if (merged.weightKg == null && merged.lengthCm == null && merged.headCircumferenceCm == null) {
+    return { updated: false, reason: 'empty_measurement' as const };
+  }
+
+  await ref.set(payload, { merge: true });
+  return { updated: true as const, measurement: enrichMeasurement(child, { id: measurementId, ...merged }) };
+};
+
+export const deleteGrowthMeasurement = async (child: ChildProfile, measurementId: string) => {
+  const ref = measurementsRef(child.id).doc(measurementId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { deleted: false, reason: 'not_found' as const };
+  }
+  await ref.delete();
+  return { deleted: true as const };
+};
+
+export const getGrowthCurves = async (child: ChildProfile, metric: GrowthMetric) => {
+  const sex = toGrowthSex(child.gender);
+  if (!sex) {
+    return null;
+  }
+  const measurements = await listGrowthMeasurements(child);
+  const field = METRIC_FIELDS[metric];
+  return {
+    metric,
+    unit: METRIC_UNITS[metric],
+    sex,
+    curves: buildPercentileCurves(metric, sex),
+    measurements: measurements
+      .filter((item: any) => typeof item[field] === 'number' && item.ageMonths !== null)
+      .map((item: any) => ({
+        id: item.id,
+        measuredAt: item.measuredAt,
+        ageMonths: item.ageMonths,
+        value: item[field],
+        percentile: item.assessments?.[metric]?.percentile ?? null,
+        zScore: item.assessments?.[metric]?.zScore ?? null,
+      })),
+  };
+};
+
+const GROWTH_SUMMARY_LABELS: Record<
+  CoachLanguage,
+  {
+    heading: string;
+    metrics: Record<GrowthMetric, string>;
+    percentile: (percentile: number) => string;
+    trend: (change: string, since: string, days: number | null) => string;
+  }
+> = {
+  tr: {
+    heading: 'Büyüme verisi',
+    metrics: { weight: 'Kilo', length: 'Boy', head: 'Baş çevresi' },
+    percentile: percentile => `WHO persentil ${percentile}`,
+    trend: (change, since, days) => `${since} tarihinden beri ${change}${days !== null ? ` / ${days} gün` : ''}`,
+  },
+  en: {
+    heading: 'Growth data',
+    metrics: { weight: 'Weight', length: 'Length', head: 'Head circumference' },
+    percentile: percentile => `WHO percentile ${percentile}`,
+    trend: (change, since, days) => `${change} since ${since}${days !== null ? ` / ${days} days` : ''}`,
+  },
+};
+
+// Compact summary injected into the coach prompt, in the prompt's language.
+export const getGrowthSummaryText = async (child: ChildProfile, language: CoachLanguage = DEFAULT_COACH_LANGUAGE) => {
+  const labels = GROWTH_SUMMARY_LABELS[language];
+  const measurements = await listGrowthMeasurements(child);
+  if (!measurements.length) {
+    return null;
+  }
+
+  const parts = (Object.keys(METRIC_FIELDS) as GrowthMetric[])
+    .map(metric => {
+      const field = METRIC_FIELDS[metric];
+      const withValue = measurements.filter((item: any) => typeof item[field] === 'number');
+      const latest = withValue[withValue.length - 1];
+      if (!latest) return null;
+      const percentile = latest.assessments?.[metric]?.percentile;
+      const percentileText = typeof percentile === 'number' ? ` (${labels.percentile(percentile)})` : '';
+      let trendText = '';
+      const previous = withValue[withValue.length - 2];
+      if (previous) {
+        const diff = Math.round((latest[field] - previous[field]) * 100) / 100;
+        const days = getAgeInDays(previous.measuredAt, latest.measuredAt);
+        trendText = `, ${labels.trend(`${diff >= 0 ? '+' : ''}${diff} ${METRIC_UNITS[metric]}`, previous.measuredAt, days)}`;
+      }
+      return `${labels.metrics[metric]} ${latest[field]} ${METRIC_UNITS[metric]} @ ${latest.measuredAt}${percentileText}${trendText}`;
+    })
+    .filter(Boolean);
+
+  return parts.length ? `${labels.heading}: ${parts.join('; ')}` : null;
+};
@@ -0,0 +1,278 @@
+import jwt from 'jsonwebtoken';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../../../firebase';
+import { config } from '../../../config';
+import { emailService } from '../../../services/emailService';
+import { logger } from '../../../utils/logger';
+import { sanitizeHTML } from '../../../validation/schemas';
+
+// A household is identified by its founding owner's user id, so every existing
+// account already has an implicit household containing its own children.
+export type HouseholdRole = 'owner' | 'editor' | 'viewer';
+
+export const HOUSEHOLD_ROLES: HouseholdRole[] = ['owner', 'editor', 'viewer'];
+
+const ROLE_RANK: Record<HouseholdRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+const HOUSEHOLDS_COLLECTION = 'households';
+const MEMBERS_COLLECTION = 'household_members';
+const INVITATIONS_COLLECTION = 'household_invitations';
+const INVITE_AUDIENCE = 'household-invite';
+
+const memberDocId = (householdId: string, userId: string) => `${householdId}_${userId}`;
+
+export const hasHouseholdRole = (role: HouseholdRole | null | undefined, minimum: HouseholdRole) =>
+  Boolean(role && ROLE_RANK[role] >= ROLE_RANK[minimum]);
+
+// Co-owners run the household day to day, but only the founder can hand out or take away ownership.
+const isFounder = (householdId: string, userId: string) => householdId === userId;
+
+export const getHouseholdRole = async (householdId: string, userId: string): Promise<HouseholdRole | null> => {
+  if (householdId === userId) {
+    return 'owner';
+  }
+  const snapshot = await db.collection(MEMBERS_COLLECTION).doc(memberDocId(householdId, userId)).get();
+  if (!snapshot.exists) {
+    return null;
+  }
+  const role = (snapshot.data() as any)?.role;
+  return HOUSEHOLD_ROLES.includes(role) ? role : null;
+};
+
+export const listUserHouseholds = async (userId: string) => {
+  const snapshot = await db.collection(MEMBERS_COLLECTION).where('userId', '==', userId).get();
+  const memberships = snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => {
+    const data = doc.data() as any;
+    return { householdId: String(data.householdId), role: data.role as HouseholdRole, joinedAt: data.joinedAt || null };
+  });
+  return [{ householdId: userId, role: 'owner' as HouseholdRole, joinedAt: null }, ...memberships];
+};
+
+export const listHouseholdMembers = async (householdId: string) => {
+  const snapshot = await db.collection(MEMBERS_COLLECTION).where('householdId', '==', householdId).get();
+  return snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => doc.data() as any);
+};
+
+export const listHouseholdMemberIds = async (householdId: string) => {
+  const members = await listHouseholdMembers(householdId);
+  return Array.from(new Set([householdId, ...members.map((member: any) => String(member.userId))]));
+};
+
+export const getHouseholdDetails = async (householdId: string, userId: string) => {
+  const role = await getHouseholdRole(householdId, userId);
+  if (!role) {
+    return { household: null, reason: 'forbidden' as const };
+  }
+
+  const [householdSnapshot, members] = await Promise.all([
+    db.collection(HOUSEHOLDS_COLLECTION).doc(householdId).get(),
+    listHouseholdMembers(householdId),
+  ]);
+  let invitations: any[] = [];
+  if (hasHouseholdRole(role, 'owner')) {
+    const invitationSnapshot = await db
+      .collection(INVITATIONS_COLLECTION)
+      .where('householdId', '==', householdId)
+      .where('status', '==', 'pending')
+      .get();
+    invitations = invitationSnapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => doc.data());
+  }
+
+  return {
+    household: {
+      id: householdId,
+      ownerId: householdId,
+      name: householdSnapshot.exists ? (householdSnapshot.data() as any)?.name || null : null,
+      role,
+      members,
+      invitations,
+    },
+  };
+};
+
+// The inviter's name is whatever they typed into their profile, so it is escaped like the link.
+const buildInvitationEmail = (inviterName: string, link: string, role: HouseholdRole) => {
+  const roleLabel: Record<HouseholdRole, string> = { owner: 'sahip', editor: 'düzenleyici', viewer: 'izleyici' };
+  const safeLink = sanitizeHTML(link);
+  return `
+    <p>Merhaba,</p>
+    <p><strong>${sanitizeHTML(inviterName)}</strong> sizi Bebek AI ailesine <strong>${roleLabel[role]}</strong> olarak davet etti.</p>
+    <p>Daveti kabul etmek için uygulamada aşağıdaki bağlantıyı açın:</p>
+    <p><a href="${safeLink}">${safeLink}</a></p>
+    <p>Bu davet ${config.household.inviteTtlHours} saat geçerlidir. Sizi tanımıyorsa bu e-postayı yok sayabilirsiniz.</p>
+  `;
+};
+
+export const createHouseholdInvitation = async (params: {
+  householdId: string;
+  inviter: { id: string; email?: string; name?: string };
+  email: string;
+  role: HouseholdRole;
+}) => {
+  const inviterRole = await getHouseholdRole(params.householdId, params.inviter.id);
+  if (!hasHouseholdRole(inviterRole, 'owner')) {
+    return { created: false as const, reason: 'forbidden' as const };
+  }
+  if (params.role === 'owner' && !isFounder(params.householdId, params.inviter.id)) {
+    return { created: false as const, reason: 'founder_only' as const };
+  }
+
+  const email = params.email.trim().toLowerCase();
+  if (email === params.inviter.email?.toLowerCase()) {
+    return { created: false as const, reason: 'self_invite' as const };
+  }
+  const members = await listHouseholdMembers(params.householdId);
+  if (members.some((member: any) => member.email === email)) {
+    return { created: false as const, reason: 'already_member' as const };
+  }
+  if (members.length + 1 >= config.household.maxMembers) {
+    return { created: false as const, reason: 'household_full' as const };
+  }
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + config.household.inviteTtlHours * 60 * 60_000);
+  const invitationId = uuidv4();
+  const token = jwt.sign({ hid: params.householdId, email, role: params.role }, config.jwt.hsSecret, {
+    algorithm: 'HS256',
+    subject: invitationId,
+    issuer: config.jwt.iss,
+    audience: INVITE_AUDIENCE,
+    expiresIn: `${config.household.inviteTtlHours}h`,
+  });
+
+  const invitation = {
+    id: invitationId,
+    householdId: params.householdId,
+    email,
+    role: params.role,
+    status: 'pending',
+    invitedBy: params.inviter.id,
+    createdAt: now.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+  };
+  await db.collection(HOUSEHOLDS_COLLECTION).doc(params.householdId).set(
+    { id: params.householdId, ownerId: params.householdId, updatedAt: now.toISOString() },
+    { merge: true },
+  );
+  await db.collection(INVITATIONS_COLLECTION).doc(invitationId).set(invitation);
+
+  const link = `${config.household.inviteLinkBase}?token=${encodeURIComponent(token)}`;
+  try {
+    await emailService.sendMail(
+      email,
+      'Bebek AI aile daveti',
+      buildInvitationEmail(params.inviter.name || params.inviter.email || 'Bir ebeveyn', link, params.role),
+    );
+  } catch (error) {
+    logger.warn({ err: error, householdId: params.householdId, invitationId }, 'Household invitation email failed');
+  }
+
+  return { created: true as const, invitation };
+};
+
+export const revokeHouseholdInvitation = async (householdId: string, userId: string, invitationId: string) => {
+  const role = await getHouseholdRole(householdId, userId);
+  if (!hasHouseholdRole(role, 'owner')) {
+    return { revoked: false as const, reason: 'forbidden' as const };
+  }
+  const ref = db.collection(INVITATIONS_COLLECTION).doc(invitationId);
+  const snapshot = await ref.get();
+  const data = snapshot.exists ? (snapshot.data() as any) : null;
+  if (!data || data.householdId !== householdId || data.status !== 'pending') {
+    return { revoked: false as const, reason: 'not_found' as const };
+  }
+  await ref.set({ status: 'revoked', revokedBy: userId, revokedAt: new Date().toISOString() }, { merge: true });
+  return { revoked: true as const };
+};
+
+export const acceptHouseholdInvitation = async (user: { id: string; email?: string }, token: string) => {
+  let invitationId: string | undefined;
+  try {
+    const payload = jwt.verify(token, config.jwt.hsSecret, {
+      algorithms: ['HS256'],
+      issuer: config.jwt.iss,
+      audience: INVITE_AUDIENCE,
+    }) as jwt.JwtPayload;
+    invitationId = payload.sub;
+  } catch (error) {
+    return { accepted: false as const, reason: 'invalid_token' as const };
+  }
+  if (!invitationId) {
+    return { accepted: false as const, reason: 'invalid_token' as const };
+  }
+
+  const ref = db.collection(INVITATIONS_COLLECTION).doc(invitationId);
+  const snapshot = await ref.get();
+  const invitation = snapshot.exists ? (snapshot.data() as any) : null;
+  if (!invitation || invitation.status !== 'pending' || Date.parse(invitation.expiresAt) < Date.now()) {
+    return { accepted: false as const, reason: 'invalid_token' as const };
+  }
+  if (!user.email || invitation.email !== user.email.toLowerCase()) {
+    return { accepted: false as const, reason: 'email_mismatch' as const };
+  }
+  if (invitation.householdId === user.id) {
+    return { accepted: false as const, reason: 'self_invite' as const };
+  }
+
+  const now = new Date().toISOString();
+  const member = {
+    householdId: invitation.householdId,
+    userId: user.id,
+    email: invitation.email,
+    role: invitation.role as HouseholdRole,
+    invitedBy: invitation.invitedBy,
+    joinedAt: now,
+  };
+  const batch = db.batch();
+  batch.set(db.collection(MEMBERS_COLLECTION).doc(memberDocId(invitation.householdId, user.id)), member);
+  batch.set(ref, { status: 'accepted', acceptedBy: user.id, acceptedAt: now }, { merge: true });
+  await batch.commit();
+  return { accepted: true as const, member };
+};
+
+export const updateHouseholdMemberRole = async (
+  householdId: string,
+  actorId: string,
+  memberId: string,
+  role: HouseholdRole,
+) => {
+  const actorRole = await getHouseholdRole(householdId, actorId);
+  if (!hasHouseholdRole(actorRole, 'owner') || isFounder(householdId, memberId)) {
+    return { updated: false as const, reason: 'forbidden' as const };
+  }
+  const ref = db.collection(MEMBERS_COLLECTION).doc(memberDocId(householdId, memberId));
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { updated: false as const, reason: 'not_found' as const };
+  }
+  if ((role === 'owner' || (snapshot.data() as any)?.role === 'owner') && !isFounder(householdId, actorId)) {
+    return { updated: false as const, reason: 'founder_only' as const };
+  }
+  await ref.set({ role, updatedAt: new Date().toISOString(), updatedBy: actorId }, { merge: true });
+  return { updated: true as const, member: { ...(snapshot.data() as any), role } };
+};
+
+// Owners can remove editors and viewers, only the founder can remove another owner, nobody can
+// remove the founder, and any member can leave on their own.
+export const removeHouseholdMember = async (householdId: string, actorId: string, memberId: string) => {
+  if (isFounder(householdId, memberId)) {
+    return { removed: false as const, reason: 'forbidden' as const };
+  }
+  if (actorId !== memberId) {
+    const actorRole = await getHouseholdRole(householdId, actorId);
+    if (!hasHouseholdRole(actorRole, 'owner')) {
+      return { removed: false as const, reason: 'forbidden' as const };
+    }
+  }
+  const ref = db.collection(MEMBERS_COLLECTION).doc(memberDocId(householdId, memberId));
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { removed: false as const, reason: 'not_found' as const };
+  }
+  if (actorId !== memberId && (snapshot.data() as any)?.role === 'owner' && !isFounder(householdId, actorId)) {
+    return { removed: false as const, reason: 'founder_only' as const };
+  }
+  await ref.delete();
+  return { removed: true as const };
+};
@@ -0,0 +1,231 @@
+import { db } from '../../../firebase';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../../../config';
+import { logger } from '../../../utils/logger';
+import { chunkKnowledgeText, hashingEmbed, KnowledgeFormat, rankKnowledgeChunks } from '../utils/knowledge';
+import { embedTexts } from './geminiService';
+
+export interface KnowledgeEmbedder {
+  name: string;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+export interface KnowledgeArticleInput {
+  title: string;
+  content: string;
+  format: KnowledgeFormat;
+  sourceUrl?: string | null;
+  minAgeDays?: number | null;
+  maxAgeDays?: number | null;
+  tags?: string[];
+}
+
+export interface KnowledgePassage {
+  chunkId: string;
+  articleId: string;
+  title: string;
+  heading: string | null;
+  text: string;
+  sourceUrl: string | null;
+  score: number;
+}
+
+const ARTICLES_COLLECTION = 'kb_articles';
+const CHUNKS_COLLECTION = 'kb_chunks';
+const BATCH_LIMIT = 400;
+
+const hashingEmbedder: KnowledgeEmbedder = {
+  name: 'hashing',
+  embed: async texts => texts.map(text => hashingEmbed(text)),
+};
+
+const embedders = new Map<string, KnowledgeEmbedder>([
+  [hashingEmbedder.name, hashingEmbedder],
+  ['gemini', { name: 'gemini', embed: embedTexts }],
+]);
+
+export const registerKnowledgeEmbedder = (embedder: KnowledgeEmbedder) => {
+  embedders.set(embedder.name, embedder);
+};
+
+const getEmbedder = () => {
+  const embedder = embedders.get(config.knowledgeBase.embedder);
+  if (!embedder) {
+    logger.warn({ embedder: config.knowledgeBase.embedder }, 'Unknown KB_EMBEDDER; falling back to hashing');
+    return hashingEmbedder;
+  }
+  return embedder;
+};
+
+type IndexedChunk = {
+  id: string;
+  articleId: string;
+  title: string;
+  heading: string | null;
+  text: string;
+  sourceUrl: string | null;
+  embedding: number[];
+  minAgeDays: number | null;
+  maxAgeDays: number | null;
+};
+
+// Every chunk for the active embedder is held in memory and searched by brute force, which is
+// fine for a curated library of a few thousand passages. Writes in this process reset it; other
+// instances pick changes up once the TTL runs out.
+let index: { embedder: string; loadedAt: number; chunks: Promise<IndexedChunk[]> } | null = null;
+
+export const invalidateKnowledgeIndex = () => {
+  index = null;
+};
+
+const fetchIndexedChunks = async (embedder: string): Promise<IndexedChunk[]> => {
+  const snapshot = await db.collection(CHUNKS_COLLECTION).where('embedder', '==', embedder).get();
+  return snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => {
+    const data = doc.data() as any;
+    return {
+      id: doc.id,
+      articleId: data.article_id,
+      title: data.title,
+      heading: data.heading ?? null,
+      text: data.text,
+      sourceUrl: data.source_url ?? null,
+      embedding: data.embedding || [],
+      minAgeDays: data.min_age_days ?? null,
+      maxAgeDays: data.max_age_days ?? null,
+    };
+  });
+};
+
+const loadIndex = (embedder: string) => {
+  const fresh = index && index.embedder === embedder && Date.now() - index.loadedAt < config.knowledgeBase.indexTtlSec * 1000;
+  if (!fresh) {
+    const chunks = fetchIndexedChunks(embedder);
+    // A failed load must not be cached for the whole TTL.
+    chunks.catch(() => invalidateKnowledgeIndex());
+    index = { embedder, loadedAt: Date.now(), chunks };
+  }
+  return index!.chunks;
+};
+
+const commitInBatches = async (writes: Array<(batch: any) => void>) => {
+  for (let start = 0; start < writes.length; start += BATCH_LIMIT) {
+    const batch = db.batch();
+    writes.slice(start, start + BATCH_LIMIT).forEach(write => write(batch));
+    await batch.commit();
+  }
+};
+
+const toArticleResponse = (id: string, data: any) => ({
+  id,
+  title: data.title,
+  format: data.format,
+  sourceUrl: data.source_url ?? null,
+  minAgeDays: data.min_age_days ?? null,
+  maxAgeDays: data.max_age_days ?? null,
+  tags: data.tags || [],
+  chunkCount: data.chunk_count || 0,
+  embedder: data.embedder,
+  createdBy: data.created_by,
+  createdAt: data.created_at,
+});
+
+export const createKnowledgeArticle = async (userId: string, input: KnowledgeArticleInput) => {
+  const chunks = chunkKnowledgeText(input.content, input.format, { maxChars: config.knowledgeBase.chunkChars });
+  if (!chunks.length) {
+    return { created: false as const, reason: 'empty_content' as const };
+  }
+
+  const embedder = getEmbedder();
+  // The title and section heading go into the vector too, since passages rarely repeat them.
+  const embeddings = await embedder.embed(
+    chunks.map(chunk => [input.title, chunk.heading, chunk.text].filter(Boolean).join('\n')),
+  );
+
+  const articleId = uuidv4();
+  const now = new Date().toISOString();
+  const shared = {
+    title: input.title.trim(),
+    source_url: input.sourceUrl || null,
+    min_age_days: input.minAgeDays ?? null,
+    max_age_days: input.maxAgeDays ?? null,
+  };
+  const article = {
+    ...shared,
+    format: input.format,
+    // Kept so the library can be re-indexed when the embedder changes.
+    content: input.content,
+    tags: input.tags || [],
+    chunk_count: chunks.length,
+    embedder: embedder.name,
+    created_by: userId,
+    created_at: now,
+    updated_at: now,
+  };
+
+  await commitInBatches([
+    batch => batch.set(db.collection(ARTICLES_COLLECTION).doc(articleId), article),
+    ...chunks.map((chunk, position) => (batch: any) =>
+      batch.set(db.collection(CHUNKS_COLLECTION).doc(`${articleId}_${position}`), {
+        ...shared,
+        article_id: articleId,
+        position,
+        heading: chunk.heading,
+        text: chunk.text,
+        embedding: embeddings[position],
+        embedder: embedder.name,
+      }),
+    ),
+  ]);
+  invalidateKnowledgeIndex();
+  return { created: true as const, article: toArticleResponse(articleId, article) };
+};
+
+export const listKnowledgeArticles = async () => {
+  const snapshot = await db.collection(ARTICLES_COLLECTION).get();
+  return snapshot.docs
+    .map((doc: QueryDocumentSnapshot<DocumentData>) => toArticleResponse(doc.id, doc.data()))
+    .sort((a: { createdAt: string }, b: { createdAt: string }) => String(b.createdAt).localeCompare(String(a.createdAt)));
+};
+
+export const deleteKnowledgeArticle = async (articleId: string) => {
+  const ref = db.collection(ARTICLES_COLLECTION).doc(articleId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { deleted: false as const, reason: 'not_found' as const };
+  }
+  const chunksSnapshot = await db.collection(CHUNKS_COLLECTION).where('article_id', '==', articleId).get();
+  await commitInBatches([
+    ...chunksSnapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => (batch: any) => batch.delete(doc.ref)),
+    batch => batch.delete(ref),
+  ]);
+  invalidateKnowledgeIndex();
+  return { deleted: true as const, chunksDeleted: chunksSnapshot.size };
+};
+
+export const retrieveKnowledge = async (question: string, options: { ageDays?: number | null } = {}) => {
+  if (!question.trim()) {
+    return [];
+  }
+  const embedder = getEmbedder();
+  const chunks = await loadIndex(embedder.name);
+  if (!chunks.length) {
+    return [];
+  }
+  const [queryEmbedding] = await embedder.embed([question]);
+  return rankKnowledgeChunks(queryEmbedding, chunks, {
+    ageDays: options.ageDays,
+    limit: config.knowledgeBase.topK,
+    minScore: config.knowledgeBase.minScore,
+  }).map(
+    ({ chunk, score }): KnowledgePassage => ({
+      chunkId: chunk.id,
+      articleId: chunk.articleId,
+      title: chunk.title,
+      heading: chunk.heading,
+      text: chunk.text,
+      sourceUrl: chunk.sourceUrl,
+      score: Math.round(score * 1000) / 1000,
+    }),
+  );
+};
@@ -0,0 +1,159 @@
+import { db } from '../../../firebase';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import {
+  Milestone,
+  MILESTONE_CATALOG,
+  MILESTONE_CATALOG_VERSION,
+  MilestoneDomain,
+  MILESTONES_BY_ID,
+} from '../data/milestoneCatalog';
+import { CoachLanguage, DEFAULT_COACH_LANGUAGE } from '../data/coachPromptPacks';
+import { ChildProfile, CHILD_COLLECTION } from './childService';
+import { DAYS_PER_MONTH, getAgeInDays } from '../utils/growth';
+
+export type MilestoneStatus = 'achieved' | 'overdue' | 'due' | 'upcoming';
+
+export interface MilestoneAchievementInput {
+  achievedAt: string;
+  note?: string | null;
+}
+
+const ACHIEVEMENTS_SUBCOLLECTION = 'milestone_achievements';
+export const DEFAULT_LOOKAHEAD_MONTHS = 3;
+
+const achievementsRef = (childId: string) =>
+  db.collection(CHILD_COLLECTION).doc(childId).collection(ACHIEVEMENTS_SUBCOLLECTION);
+
+const getAgeMonths = (child: ChildProfile, at: Date = new Date()) => {
+  const ageDays = getAgeInDays(child.birthDate, at);
+  return ageDays !== null ? Math.max(0, ageDays / DAYS_PER_MONTH) : null;
+};
+
+export const resolveMilestoneStatus = (milestone: Milestone, ageMonths: number, achieved: boolean): MilestoneStatus => {
+  if (achieved) return 'achieved';
+  if (ageMonths > milestone.endMonth) return 'overdue';
+  if (ageMonths >= milestone.startMonth) return 'due';
+  return 'upcoming';
+};
+
+const listAchievements = async (childId: string) => {
+  const snapshot = await achievementsRef(childId).get();
+  const achievements = new Map<string, any>();
+  snapshot.docs.forEach((doc: QueryDocumentSnapshot<DocumentData>) => {
+    achievements.set(doc.id, { milestoneId: doc.id, ...(doc.data() as any) });
+  });
+  return achievements;
+};
+
+export const getMilestoneOverview = async (
+  child: ChildProfile,
+  options: { lookaheadMonths?: number; domain?: MilestoneDomain } = {},
+) => {
+  const lookaheadMonths = options.lookaheadMonths ?? DEFAULT_LOOKAHEAD_MONTHS;
+  const ageMonths = getAgeMonths(child);
+  const achievements = await listAchievements(child.id);
+  const groups: Record<MilestoneStatus, any[]> = { achieved: [], overdue: [], due: [], upcoming: [] };
+
+  if (ageMonths === null) {
+    return { ageMonths: null, catalogVersion: MILESTONE_CATALOG_VERSION, ...groups };
+  }
+
+  MILESTONE_CATALOG.filter(milestone => !options.domain || milestone.domain === options.domain).forEach(milestone => {
+    const achievement = achievements.get(milestone.id) || null;
+    const status = resolveMilestoneStatus(milestone, ageMonths, Boolean(achievement));
+    if (status === 'upcoming' && milestone.startMonth > ageMonths + lookaheadMonths) {
+      return;
+    }
+    groups[status].push({ ...milestone, status, achievement });
+  });
+
+  groups.upcoming.sort((a, b) => a.startMonth - b.startMonth);
+  groups.achieved.sort((a, b) => String(b.achievement?.achievedAt).localeCompare(String(a.achievement?.achievedAt)));
+
+  return {
+    ageMonths: Math.round(ageMonths * 10) / 10,
+    catalogVersion: MILESTONE_CATALOG_VERSION,
+    ...groups,
+  };
+};
+
+export const recordMilestoneAchievement = async (
+  child: ChildProfile,
+  userId: string,
+  milestoneId: string,
+  input: MilestoneAchievementInput,
+) => {
+  if (!MILESTONES_BY_ID.has(milestoneId)) {
+    return { saved: false, reason: 'not_found' as const };
+  }
+
+  const ref = achievementsRef(child.id).doc(milestoneId);
+  const existing = await ref.get();
+  const now = new Date().toISOString();
+  const achievement = {
+    milestoneId,
+    childId: child.id,
+    achievedAt: input.achievedAt,
+    note: input.note?.trim() || null,
+    recordedBy: userId,
+    createdAt: existing.exists ? (existing.data() as any)?.createdAt || now : now,
+    updatedAt: now,
+  };
+  await ref.set(achievement);
+  return { saved: true as const, created: !existing.exists, achievement };
+};
+
+export const deleteMilestoneAchievement = async (child: ChildProfile, milestoneId: string) => {
+  const ref = achievementsRef(child.id).doc(milestoneId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { deleted: false, reason: 'not_found' as const };
+  }
+  await ref.delete();
+  return { deleted: true as const };
+};
+
+const MILESTONE_PROMPT_LIMIT = 4;
+
+const MILESTONE_SUMMARY_LABELS: Record<
+  CoachLanguage,
+  { heading: (ageMonths: number) => string; due: string; overdue: string; upcoming: string; achieved: string }
+> = {
+  tr: {
+    heading: ageMonths => `Güncel gelişim basamakları (${ageMonths} ay)`,
+    due: 'beklenen',
+    overdue: 'süresi geçmiş (kaydı yok)',
+    upcoming: 'yaklaşan',
+    achieved: 'son kazanılan',
+  },
+  en: {
+    heading: ageMonths => `Current milestones (${ageMonths} months)`,
+    due: 'expected now',
+    overdue: 'past their window (not recorded)',
+    upcoming: 'coming up',
+    achieved: 'recently achieved',
+  },
+};
+
+// Compact "current milestones" block injected into the coach prompt, in the prompt's language.
+export const getMilestoneSummaryText = async (child: ChildProfile, language: CoachLanguage = DEFAULT_COACH_LANGUAGE) => {
+  const overview = await getMilestoneOverview(child, { lookaheadMonths: 2 });
+  if (overview.ageMonths === null) {
+    return null;
+  }
+
+  const labels = MILESTONE_SUMMARY_LABELS[language];
+  const titles = (items: any[]) =>
+    items
+      .slice(0, MILESTONE_PROMPT_LIMIT)
+      .map(item => item.title[language])
+      .join(', ');
+  const parts = [
+    overview.due.length ? `${labels.due}: ${titles(overview.due)}` : null,
+    overview.overdue.length ? `${labels.overdue}: ${titles(overview.overdue)}` : null,
+    overview.upcoming.length ? `${labels.upcoming}: ${titles(overview.upcoming)}` : null,
+    overview.achieved.length ? `${labels.achieved}: ${titles(overview.achieved)}` : null,
+  ].filter(Boolean);
+
+  return parts.length ? `${labels.heading(overview.ageMonths)}: ${parts.join('; ')}` : null;
+};
@@ -0,0 +1,187 @@
+import { db } from '../../../firebase';
+import type { DocumentData, DocumentReference, QueryDocumentSnapshot, Transaction } from 'firebase-admin/firestore';
+import { config } from '../../../config';
+import { logger } from '../../../utils/logger';
+import { DEFAULT_STYLE_CATALOG, STYLE_CATEGORIES, StyleCatalogSeed, StyleCategory } from '../data/styleCatalog';
+
+export { STYLE_CATEGORIES };
+export type { StyleCategory };
+
+export interface StyleCatalogEntry extends StyleCatalogSeed {
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type StyleCatalogInput = Omit<StyleCatalogSeed, 'id'>;
+
+export interface StyleCatalog {
+  version: number;
+  entries: StyleCatalogEntry[];
+}
+
+const STYLE_CATALOG_COLLECTION = 'style_catalog';
+// Holds the catalog version; every write bumps it in the same transaction as the entry.
+const metaRef = (): DocumentReference => db.collection('style_catalog_meta').doc('current');
+const entryRef = (styleId: string): DocumentReference => db.collection(STYLE_CATALOG_COLLECTION).doc(styleId);
+
+const compareEntries = (a: StyleCatalogEntry, b: StyleCatalogEntry) =>
+  STYLE_CATEGORIES.indexOf(a.category) - STYLE_CATEGORIES.indexOf(b.category)
+  || a.sortOrder - b.sortOrder
+  || a.id.localeCompare(b.id);
+
+const toEntry = (id: string, data: any): StyleCatalogEntry => ({
+  id,
+  category: data.category,
+  titles: { tr: data.titles?.tr || id, en: data.titles?.en || data.titles?.tr || id },
+  prompt: data.prompt || '',
+  identitySuffix: data.identitySuffix ?? null,
+  referenceAssetPath: data.referenceAssetPath ?? null,
+  model: data.model ?? null,
+  premium: Boolean(data.premium),
+  sortOrder: Number(data.sortOrder || 0),
+  enabled: data.enabled !== false,
+  createdAt: data.createdAt || '',
+  updatedAt: data.updatedAt || '',
+});
+
+const normalizeInput = (input: StyleCatalogInput) => ({
+  category: input.category,
+  titles: { tr: input.titles.tr, en: input.titles.en },
+  prompt: input.prompt || '',
+  identitySuffix: input.identitySuffix ?? null,
+  referenceAssetPath: input.referenceAssetPath ?? null,
+  model: input.model ?? null,
+  premium: Boolean(input.premium),
+  sortOrder: Number(input.sortOrder || 0),
+  enabled: input.enabled !== false,
+});
+
+// Writes the built-in styles once, when no catalog exists yet.
+const seedStyleCatalog = () =>
+  db.runTransaction(async (transaction: Transaction) => {
+    const meta = await transaction.get(metaRef());
+    if (meta.exists) return;
+    const now = new Date().toISOString();
+    DEFAULT_STYLE_CATALOG.forEach(seed => {
+      transaction.set(entryRef(seed.id), { ...seed, createdAt: now, updatedAt: now });
+    });
+    transaction.set(metaRef(), { version: 1, updatedAt: now });
+    logger.info({ count: DEFAULT_STYLE_CATALOG.length }, 'Style catalog seeded');
+  });
+
+const fetchStyleCatalog = async (): Promise<StyleCatalog> => {
+  let meta = await metaRef().get();
+  if (!meta.exists) {
+    await seedStyleCatalog();
+    meta = await metaRef().get();
+  }
+  const snapshot = await db.collection(STYLE_CATALOG_COLLECTION).get();
+  const entries = snapshot.docs
+    .map((doc: QueryDocumentSnapshot<DocumentData>) => toEntry(doc.id, doc.data()))
+    .filter((entry: StyleCatalogEntry) => STYLE_CATEGORIES.includes(entry.category))
+    .sort(compareEntries);
+  return { version: Number(meta.data()?.version || 1), entries };
+};
+
+// Every generation request looks styles up, so the catalog is cached like the knowledge index:
+// writes in this process reset it, other instances catch up once the TTL runs out.
+let cache: { loadedAt: number; catalog: Promise<StyleCatalog> } | null = null;
+
+export const invalidateStyleCatalog = () => {
+  cache = null;
+};
+
+export const getStyleCatalog = () => {
+  if (!cache || Date.now() - cache.loadedAt >= config.styleCatalog.cacheTtlSec * 1000) {
+    const catalog = fetchStyleCatalog();
+    // Forget a rejected load so the next catalog request retries Firestore (and the first-run seed)
+    // instead of answering every style route with the same error until the TTL runs out.
+    catalog.catch(() => invalidateStyleCatalog());
+    cache = { loadedAt: Date.now(), catalog };
+  }
+  return cache.catalog;
+};
+
+// Only enabled styles are offered to generation routes.
+export const getCatalogStyle = async (styleId: string | null, categories: readonly StyleCategory[]) => {
+  if (!styleId) return null;
+  const { entries } = await getStyleCatalog();
+  return entries.find(entry => entry.id === styleId && entry.enabled && categories.includes(entry.category)) || null;
+};
+
+export const listCatalogStyles = async (category: StyleCategory) => {
+  const { entries } = await getStyleCatalog();
+  return entries.filter(entry => entry.enabled && entry.category === category);
+};
+
+// The app-facing view: enabled styles without prompts, asset paths or model choices.
+export const getPublicStyleCatalog = async (category?: StyleCategory) => {
+  const { version, entries } = await getStyleCatalog();
+  return {
+    version,
+    styles: entries
+      .filter(entry => entry.enabled && (!category || entry.category === category))
+      .map(entry => ({
+        id: entry.id,
+        category: entry.category,
+        titles: entry.titles,
+        premium: entry.premium,
+        sortOrder: entry.sortOrder,
+      })),
+  };
+};
+
+const writeEntry = async (
+  styleId: string,
+  mode: 'create' | 'update' | 'delete',
+  input?: StyleCatalogInput,
+) => {
+  // Make sure the seed is in place before the first admin write, or it would never run.
+  await getStyleCatalog();
+  const result = await db.runTransaction(async (transaction: Transaction) => {
+    const [meta, existing] = await Promise.all([transaction.get(metaRef()), transaction.get(entryRef(styleId))]);
+    if (mode === 'create' && existing.exists) return { reason: 'exists' as const };
+    if (mode !== 'create' && !existing.exists) return { reason: 'not_found' as const };
+
+    const now = new Date().toISOString();
+    const version = Number(meta.data()?.version || 0) + 1;
+    let entry: StyleCatalogEntry | null = null;
+    if (mode === 'delete') {
+      transaction.delete(entryRef(styleId));
+    } else {
+      const createdAt = mode === 'create' ? now : (existing.data() as any)?.createdAt || now;
+      entry = { id: styleId, ...normalizeInput(input!), createdAt, updatedAt: now };
+      transaction.set(entryRef(styleId), entry);
+    }
+    transaction.set(metaRef(), { version, updatedAt: now });
+    return { entry, version };
+  });
+  invalidateStyleCatalog();
+  return result;
+};
+
+export const listAllStyles = async () => (await getStyleCatalog()).entries;
+
+export const createStyle = async (styleId: string, input: StyleCatalogInput) => {
+  const result = await writeEntry(styleId, 'create', input);
+  if ('reason' in result) {
+    return { created: false as const, reason: result.reason };
+  }
+  return { created: true as const, style: result.entry!, version: result.version };
+};
+
+export const updateStyle = async (styleId: string, input: StyleCatalogInput) => {
+  const result = await writeEntry(styleId, 'update', input);
+  if ('reason' in result) {
+    return { updated: false as const, reason: result.reason };
+  }
+  return { updated: true as const, style: result.entry!, version: result.version };
+};
+
+export const deleteStyle = async (styleId: string) => {
+  const result = await writeEntry(styleId, 'delete');
+  if ('reason' in result) {
+    return { deleted: false as const, reason: result.reason };
+  }
+  return { deleted: true as const, version: result.version };
+};
@@ -0,0 +1,461 @@
+import { createHash, randomUUID } from 'crypto';
+import { hostname } from 'os';
+import type { DocumentData, DocumentReference, QueryDocumentSnapshot, Transaction } from 'firebase-admin/firestore';
+import { db } from '../../../firebase';
+import { config } from '../../../config';
+import { getWebSocketService } from '../../../services/websocketService';
+import { logger } from '../../../utils/logger';
+import { refundUsage, UsageMetric } from './usageLimitService';
+
+export const STYLE_JOB_KINDS = ['photo', 'newborn', 'wedding', 'couple', 'video'] as const;
+export type StyleJobKind = (typeof STYLE_JOB_KINDS)[number];
+export type StyleJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export const STYLE_JOB_COLLECTION = 'style_jobs';
+const STYLE_JOB_SOCKET_EVENT = 'styles:job';
+
+export interface StyleJob {
+  id: string;
+  userId: string;
+  kind: StyleJobKind;
+  status: StyleJobStatus;
+  styleId: string | null;
+  requestId: string | null;
+  // Hash of the submitted payload; a reused request_id must come with the same one.
+  requestFingerprint: string | null;
+  // Everything the handler needs to run the job again after a restart; uploads are already in storage.
+  input: Record<string, unknown>;
+  // The quota unit the submission was charged; handed back if the job fails for good.
+  usage: { metric: UsageMetric; dateKey: string } | null;
+  attempts: number;
+  maxAttempts: number;
+  result: Record<string, unknown> | null;
+  error: { code: string; message: string } | null;
+  runAfter: string;
+  leaseExpiresAt: string | null;
+  // The worker holding the lease and the token of its claim; only that claim may write the outcome.
+  leaseOwner: string | null;
+  leaseToken: string | null;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export type StyleJobHandler = (job: StyleJob) => Promise<Record<string, unknown>>;
+
+export type StyleJobSubmission =
+  | { job: StyleJob; replayed: boolean; reason?: undefined }
+  | { job: null; replayed: false; reason: 'conflict' };
+
+// Thrown by handlers for failures another attempt cannot fix, such as a template that no longer exists.
+export class StyleJobError extends Error {
+  code: string;
+  retryable: boolean;
+
+  constructor(code: string, message: string, retryable = false) {
+    super(message);
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+const handlers = new Map<StyleJobKind, StyleJobHandler>();
+const activeJobIds = new Set<string>();
+let drainPromise: Promise<void> | null = null;
+let drainRequested = false;
+let pollTimer: NodeJS.Timeout | null = null;
+const WORKER_ID = `${hostname()}:${process.pid}`;
+
+const jobRef = (jobId: string): DocumentReference => db.collection(STYLE_JOB_COLLECTION).doc(jobId);
+
+const addMs = (date: Date, ms: number) => new Date(date.getTime() + ms).toISOString();
+
+// request_id is an idempotency key per user: the job id is derived from both, so a retried
+// submission lands on the job document the first attempt created.
+const idempotentJobId = (userId: string, requestId: string) =>
+  createHash('sha256').update(`${userId}\n${requestId}`).digest('hex').slice(0, 40);
+
+// Key order does not matter, so equal payloads always hash the same.
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const fingerprintStyleRequest = (kind: StyleJobKind, payload: Record<string, unknown>) =>
+  createHash('sha256').update(`${kind}\n${canonicalJson(payload)}`).digest('hex');
+
+const matchSubmission = (job: StyleJob, fingerprint: string): StyleJobSubmission =>
+  job.requestFingerprint === fingerprint
+    ? { job, replayed: true }
+    : { job: null, replayed: false, reason: 'conflict' };
+
+// Looks up an earlier submission with the same request_id, so routes can answer a retry before
+// uploading anything again. Returns null when the key is unused (or there is no key).
+export const findStyleJobForRequest = async (userId: string, requestId: string | null, fingerprint: string) => {
+  if (!requestId) return null;
+  const snapshot = await jobRef(idempotentJobId(userId, requestId)).get();
+  return snapshot.exists ? matchSubmission(snapshot.data() as StyleJob, fingerprint) : null;
+};
+
+// True when request_id already names a job, i.e. the request will be answered without new work.
+export const styleJobExistsForRequest = async (userId: string, requestId: string | null) => {
+  if (!requestId) return false;
+  const snapshot = await jobRef(idempotentJobId(userId, requestId)).get();
+  return snapshot.exists;
+};
+
+export const serializeStyleJob = (job: StyleJob) => ({
+  id: job.id,
+  kind: job.kind,
+  status: job.status,
+  styleId: job.styleId,
+  requestId: job.requestId,
+  attempts: job.attempts,
+  maxAttempts: job.maxAttempts,
+  result: job.result,
+  error: job.error,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  completedAt: job.completedAt,
+});
+
+const broadcastJob = (job: StyleJob) => {
+  getWebSocketService()?.sendToUser(job.userId, STYLE_JOB_SOCKET_EVENT, serializeStyleJob(job));
+};
+
+// Routes register one handler per kind; registering again replaces the previous handler.
+export const registerStyleJobHandler = (kind: StyleJobKind, handler: StyleJobHandler) => {
+  handlers.set(kind, handler);
+};
+
+export const enqueueStyleJob = async (params: {
+  userId: string;
+  kind: StyleJobKind;
+  styleId: string | null;
+  requestId: string | null;
+  fingerprint: string;
+  input: Record<string, unknown>;
+  usage?: { metric: UsageMetric; dateKey: string } | null;
+}): Promise<StyleJobSubmission> => {
+  const now = new Date().toISOString();
+  const job: StyleJob = {
+    id: params.requestId ? idempotentJobId(params.userId, params.requestId) : randomUUID(),
+    userId: params.userId,
+    kind: params.kind,
+    status: 'queued',
+    styleId: params.styleId,
+    requestId: params.requestId,
+    requestFingerprint: params.fingerprint,
+    input: params.input,
+    usage: params.usage || null,
+    attempts: 0,
+    maxAttempts: Math.max(1, config.styleJobs.maxAttempts),
+    result: null,
+    error: null,
+    runAfter: now,
+    leaseExpiresAt: null,
+    leaseOwner: null,
+    leaseToken: null,
+    createdAt: now,
+    updatedAt: now,
+    startedAt: null,
+    completedAt: null,
+  };
+  // Two retries racing each other must still end up with a single job.
+  const existing = await db.runTransaction(async (transaction: Transaction) => {
+    const snapshot = await transaction.get(jobRef(job.id));
+    if (snapshot.exists) {
+      return snapshot.data() as StyleJob;
+    }
+    transaction.set(jobRef(job.id), job);
+    return null;
+  });
+  if (existing) {
+    logger.info({ jobId: existing.id, userId: job.userId, requestId: job.requestId }, 'Style job request replayed');
+    return matchSubmission(existing, params.fingerprint);
+  }
+  logger.info({ jobId: job.id, userId: job.userId, kind: job.kind, requestId: job.requestId }, 'Style job queued');
+  broadcastJob(job);
+  void drainStyleJobs();
+  return { job, replayed: false };
+};
+
+export const getStyleJobForUser = async (userId: string, jobId: string) => {
+  const snapshot = await jobRef(jobId).get();
+  if (!snapshot.exists) {
+    return { job: null, reason: 'not_found' as const };
+  }
+  const job = snapshot.data() as StyleJob;
+  if (job.userId !== userId) {
+    return { job: null, reason: 'forbidden' as const };
+  }
+  return { job };
+};
+
+// Called once a job has been saved as failed; the guarded writes make that happen only once per job.
+const refundFailedJob = async (job: StyleJob) => {
+  if (job.status !== 'failed' || !job.usage) return;
+  try {
+    await refundUsage(job.userId, job.usage);
+    logger.info({ jobId: job.id, userId: job.userId, metric: job.usage.metric }, 'Usage refunded for failed style job');
+  } catch (error) {
+    logger.error({ err: error, jobId: job.id, userId: job.userId }, 'Usage refund for failed style job failed');
+  }
+};
+
+const describeFailure = (error: unknown) => {
+  if (error instanceof StyleJobError) {
+    return { code: error.code, message: error.message, retryable: error.retryable };
+  }
+  const message = (error as Error)?.message || 'Style generation failed';
+  const lowered = message.toLowerCase();
+  // A missing provider key will not fix itself between attempts.
+  if (lowered.includes('gemini_api_key') || lowered.includes('fal_key')) {
+    return { code: 'service_unavailable', message, retryable: false };
+  }
+  return { code: 'internal_error', message, retryable: true };
+};
+
+// Moves a queued job to running inside a transaction, so two workers never pick up the same job.
+const claimJob = (jobId: string) =>
+  db.runTransaction(async (transaction: Transaction) => {
+    const ref = jobRef(jobId);
+    const snapshot = await transaction.get(ref);
+    const job = snapshot.data() as StyleJob | undefined;
+    if (!snapshot.exists || !job || job.status !== 'queued') {
+      return null;
+    }
+    const now = new Date();
+    const claimed: StyleJob = {
+      ...job,
+      status: 'running',
+      attempts: job.attempts + 1,
+      leaseExpiresAt: addMs(now, config.styleJobs.leaseMs),
+      leaseOwner: WORKER_ID,
+      leaseToken: randomUUID(),
+      startedAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    transaction.set(ref, claimed);
+    return claimed;
+  });
+
+// Writes to a running job only while this claim still holds its lease. A job whose lease lapsed
+// may have been requeued or claimed by another worker, and that owner's state must win.
+const writeIfLeaseHeld = (job: StyleJob, update: (current: StyleJob) => StyleJob) =>
+  db.runTransaction(async (transaction: Transaction) => {
+    const ref = jobRef(job.id);
+    const current = (await transaction.get(ref)).data() as StyleJob | undefined;
+    if (
+      !current ||
+      current.status !== 'running' ||
+      current.leaseOwner !== job.leaseOwner ||
+      current.leaseToken !== job.leaseToken
+    ) {
+      return false;
+    }
+    transaction.set(ref, update(current));
+    return true;
+  });
+
+// Provider SDKs do not all take an abort signal, so a stuck call is abandoned rather than cancelled.
+const runHandlerWithTimeout = async (job: StyleJob) => {
+  const timeoutMs = config.styleJobs.attemptTimeoutMs;
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new StyleJobError('provider_timeout', `Style generation did not finish within ${timeoutMs} ms`, true)),
+      timeoutMs,
+    );
+  });
+  try {
+    return await Promise.race([handlers.get(job.kind)!(job), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const runJob = async (job: StyleJob) => {
+  broadcastJob(job);
+  // Keep extending the lease while the provider call is in flight; only a stopped worker lets it lapse.
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    writeIfLeaseHeld(job, current => ({
+      ...current,
+      leaseExpiresAt: addMs(now, config.styleJobs.leaseMs),
+      updatedAt: now.toISOString(),
+    })).catch((error: unknown) => logger.warn({ err: error, jobId: job.id }, 'Style job lease renewal failed'));
+  }, Math.max(1000, Math.floor(config.styleJobs.leaseMs / 3)));
+  heartbeat.unref();
+  let finished: StyleJob;
+  let retryDelayMs: number | null = null;
+  try {
+    const result = await runHandlerWithTimeout(job);
+    const now = new Date().toISOString();
+    finished = {
+      ...job,
+      status: 'succeeded',
+      result,
+      error: null,
+      leaseExpiresAt: null,
+      leaseOwner: null,
+      leaseToken: null,
+      updatedAt: now,
+      completedAt: now,
+    };
+    logger.info({ jobId: job.id, kind: job.kind, attempts: job.attempts }, 'Style job succeeded');
+  } catch (error) {
+    const failure = describeFailure(error);
+    const now = new Date();
+    const retry = failure.retryable && job.attempts < job.maxAttempts;
+    retryDelayMs = retry ? config.styleJobs.retryDelayMs * 2 ** (job.attempts - 1) : null;
+    finished = {
+      ...job,
+      status: retry ? 'queued' : 'failed',
+      error: { code: failure.code, message: failure.message },
+      runAfter: retryDelayMs !== null ? addMs(now, retryDelayMs) : job.runAfter,
+      leaseExpiresAt: null,
+      leaseOwner: null,
+      leaseToken: null,
+      updatedAt: now.toISOString(),
+      completedAt: retry ? null : now.toISOString(),
+    };
+    logger.error(
+      { err: error, jobId: job.id, kind: job.kind, attempts: job.attempts, retry, retryDelayMs },
+      retry ? 'Style job attempt failed, retrying' : 'Style job failed',
+    );
+  } finally {
+    clearInterval(heartbeat);
+  }
+  if (!(await writeIfLeaseHeld(job, () => finished))) {
+    logger.warn({ jobId: job.id, kind: job.kind, status: finished.status }, 'Style job lease was lost; outcome discarded');
+    return;
+  }
+  broadcastJob(finished);
+  await refundFailedJob(finished);
+  if (retryDelayMs !== null) {
+    setTimeout(() => void drainStyleJobs(), retryDelayMs).unref();
+  }
+};
+
+const fillWorkerSlots = async () => {
+  const { concurrency } = config.styleJobs;
+  while (activeJobIds.size < concurrency) {
+    const snapshot = await db
+      .collection(STYLE_JOB_COLLECTION)
+      .where('status', '==', 'queued')
+      .where('runAfter', '<=', new Date().toISOString())
+      .orderBy('runAfter', 'asc')
+      .limit(concurrency)
+      .get();
+    const candidates = snapshot.docs
+      .map((doc: QueryDocumentSnapshot<DocumentData>) => doc.data() as StyleJob)
+      .filter((job: StyleJob) => handlers.has(job.kind) && !activeJobIds.has(job.id));
+    let claimedAny = false;
+    for (const candidate of candidates) {
+      if (activeJobIds.size >= concurrency) break;
+      const job = await claimJob(candidate.id);
+      if (!job) continue;
+      claimedAny = true;
+      activeJobIds.add(job.id);
+      void runJob(job)
+        .catch(error => logger.error({ err: error, jobId: job.id }, 'Style job could not be saved'))
+        .finally(() => {
+          activeJobIds.delete(job.id);
+          void drainStyleJobs();
+        });
+    }
+    if (!claimedAny) break;
+  }
+};
+
+// Starts queued jobs until every worker slot is busy. Calls made while a pass is running
+// schedule one more pass, so a job queued at the wrong moment is never left waiting for the poll.
+export const drainStyleJobs = () => {
+  drainRequested = true;
+  if (!drainPromise) {
+    drainPromise = (async () => {
+      while (drainRequested) {
+        drainRequested = false;
+        await fillWorkerSlots();
+      }
+    })()
+      .catch(error => logger.error({ err: error }, 'Style job queue drain failed'))
+      .finally(() => {
+        drainPromise = null;
+        // A call that landed after the loop's last check would otherwise be lost.
+        if (drainRequested) {
+          void drainStyleJobs();
+        }
+      });
+  }
+  return drainPromise;
+};
+
+// A running job whose lease ran out belongs to a worker that stopped (restart, crash); it goes
+// back to the queue, or fails when it has no attempts left.
+export const requeueStaleStyleJobs = async (now = new Date()) => {
+  const snapshot = await db
+    .collection(STYLE_JOB_COLLECTION)
+    .where('status', '==', 'running')
+    .where('leaseExpiresAt', '<=', now.toISOString())
+    .get();
+  let requeued = 0;
+  for (const doc of snapshot.docs as QueryDocumentSnapshot<DocumentData>[]) {
+    if (activeJobIds.has(doc.id)) continue;
+    const job = await db.runTransaction(async (transaction: Transaction) => {
+      const current = (await transaction.get(jobRef(doc.id))).data() as StyleJob | undefined;
+      if (!current || current.status !== 'running' || !current.leaseExpiresAt || current.leaseExpiresAt > now.toISOString()) {
+        return null;
+      }
+      const exhausted = current.attempts >= current.maxAttempts;
+      const updated: StyleJob = {
+        ...current,
+        status: exhausted ? 'failed' : 'queued',
+        error: { code: 'interrupted', message: 'The worker running this job stopped before it finished' },
+        runAfter: now.toISOString(),
+        leaseExpiresAt: null,
+        leaseOwner: null,
+        leaseToken: null,
+        updatedAt: now.toISOString(),
+        completedAt: exhausted ? now.toISOString() : null,
+      };
+      transaction.set(jobRef(current.id), updated);
+      return updated;
+    });
+    if (job) {
+      requeued += 1;
+      broadcastJob(job);
+      await refundFailedJob(job);
+    }
+  }
+  if (requeued) {
+    logger.warn({ requeued }, 'Recovered interrupted style jobs');
+  }
+  return requeued;
+};
+
+// Called once at startup, after the styles routes registered their handlers. The poll picks up
+// jobs left over from a previous process and jobs queued by other instances.
+export const startStyleJobWorker = () => {
+  if (pollTimer) return;
+  const tick = async () => {
+    try {
+      await requeueStaleStyleJobs();
+      await drainStyleJobs();
+    } catch (error) {
+      logger.error({ err: error }, 'Style job poll failed');
+    }
+  };
+  void tick();
+  pollTimer = setInterval(tick, config.styleJobs.pollIntervalMs);
+  pollTimer.unref();
+};
@@ -0,0 +1,194 @@
+import { db } from '../../../firebase';
+import type { DocumentData, DocumentReference, QueryDocumentSnapshot, Transaction } from 'firebase-admin/firestore';
+import { ChildProfile, CHILD_COLLECTION, getChildHouseholdId } from './childService';
+import { listHouseholdMemberIds } from './householdService';
+import { BreastSide, createCareLogEntry, SleepKind } from './careLogService';
+import { getWebSocketService } from '../../../services/websocketService';
+import { logger } from '../../../utils/logger';
+
+export type TimerKind = 'breastfeeding' | 'sleep';
+export type TimerStatus = 'running' | 'paused';
+
+export const TIMER_KINDS: TimerKind[] = ['breastfeeding', 'sleep'];
+
+export interface TimerDetails {
+  side?: BreastSide | null;
+  sleepKind?: SleepKind | null;
+  note?: string | null;
+}
+
+const TIMERS_SUBCOLLECTION = 'active_timers';
+const TIMER_SOCKET_EVENT = 'care:timer';
+
+// One document per kind, so a child can never have two timers of the same kind.
+const timerRef = (childId: string, kind: TimerKind): DocumentReference =>
+  db.collection(CHILD_COLLECTION).doc(childId).collection(TIMERS_SUBCOLLECTION).doc(kind);
+
+const getElapsedMs = (timer: any, at: number = Date.now()) => {
+  const running = timer.status === 'running' && timer.lastResumedAt ? at - Date.parse(timer.lastResumedAt) : 0;
+  return Math.max(0, Number(timer.accumulatedMs || 0) + running);
+};
+
+const withElapsed = (timer: any) => ({ ...timer, elapsedMs: getElapsedMs(timer) });
+
+// Every caregiver in the child's household sees the same timer state.
+const broadcastTimerChange = async (child: ChildProfile, actorId: string, action: string, timer: any, entry?: any) => {
+  const ws = getWebSocketService();
+  if (!ws) return;
+  const payload = { childId: child.id, kind: timer.kind, action, timer: withElapsed(timer), entry: entry || null, actorId };
+  try {
+    const memberIds = await listHouseholdMemberIds(getChildHouseholdId(child));
+    new Set([...memberIds, actorId]).forEach(userId => ws.sendToUser(userId, TIMER_SOCKET_EVENT, payload));
+  } catch (error) {
+    logger.warn({ err: error, childId: child.id, action }, 'Timer broadcast failed');
+  }
+};
+
+export const listActiveTimers = async (child: ChildProfile) => {
+  const snapshot = await db.collection(CHILD_COLLECTION).doc(child.id).collection(TIMERS_SUBCOLLECTION).get();
+  return snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => withElapsed(doc.data()));
+};
+
+export const startTimer = async (child: ChildProfile, userId: string, kind: TimerKind, details: TimerDetails) => {
+  const ref = timerRef(child.id, kind);
+  const now = new Date().toISOString();
+  const timer = {
+    kind,
+    childId: child.id,
+    status: 'running' as TimerStatus,
+    startedAt: now,
+    startedBy: userId,
+    lastResumedAt: now,
+    pausedAt: null,
+    accumulatedMs: 0,
+    side: details.side ?? null,
+    sleepKind: details.sleepKind ?? null,
+    updatedAt: now,
+    updatedBy: userId,
+  };
+
+  const existing = await db.runTransaction(async (transaction: Transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (snapshot.exists) {
+      return snapshot.data();
+    }
+    transaction.set(ref, timer);
+    return null;
+  });
+  if (existing) {
+    return { started: false as const, reason: 'already_running' as const, timer: withElapsed(existing) };
+  }
+
+  await broadcastTimerChange(child, userId, 'started', timer);
+  return { started: true as const, timer: withElapsed(timer) };
+};
+
+const transitionTimer = async (
+  child: ChildProfile,
+  userId: string,
+  kind: TimerKind,
+  target: TimerStatus,
+  details: TimerDetails = {},
+) => {
+  const ref = timerRef(child.id, kind);
+  const result = await db.runTransaction(async (transaction: Transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists) {
+      return { changed: false as const, reason: 'not_found' as const };
+    }
+    const current = snapshot.data() as any;
+    if (current.status === target) {
+      return { changed: false as const, reason: 'invalid_state' as const, timer: current };
+    }
+
+    const nowTs = Date.now();
+    const now = new Date(nowTs).toISOString();
+    const updates =
+      target === 'paused'
+        ? { status: target, pausedAt: now, lastResumedAt: null, accumulatedMs: getElapsedMs(current, nowTs) }
+        : { status: target, pausedAt: null, lastResumedAt: now };
+    const next = {
+      ...current,
+      ...updates,
+      side: details.side ?? current.side ?? null,
+      sleepKind: details.sleepKind ?? current.sleepKind ?? null,
+      updatedAt: now,
+      updatedBy: userId,
+    };
+    transaction.set(ref, next);
+    return { changed: true as const, timer: next };
+  });
+
+  if (result.changed) {
+    await broadcastTimerChange(child, userId, target === 'paused' ? 'paused' : 'resumed', result.timer);
+  }
+  return result.changed ? { ...result, timer: withElapsed(result.timer) } : result;
+};
+
+export const pauseTimer = (child: ChildProfile, userId: string, kind: TimerKind) =>
+  transitionTimer(child, userId, kind, 'paused');
+
+export const resumeTimer = (child: ChildProfile, userId: string, kind: TimerKind, details: TimerDetails) =>
+  transitionTimer(child, userId, kind, 'running', details);
+
+// Removes the timer atomically so two devices stopping at once cannot both log an entry.
+const takeTimer = async (child: ChildProfile, kind: TimerKind) => {
+  const ref = timerRef(child.id, kind);
+  return db.runTransaction(async (transaction: Transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists) {
+      return null;
+    }
+    transaction.delete(ref);
+    return snapshot.data() as any;
+  });
+};
+
+export const stopTimer = async (
+  child: ChildProfile,
+  userId: string,
+  kind: TimerKind,
+  details: TimerDetails,
+  timeZone: string,
+) => {
+  const timer = await takeTimer(child, kind);
+  if (!timer) {
+    return { stopped: false as const, reason: 'not_found' as const };
+  }
+
+  const elapsedMs = getElapsedMs(timer);
+  const entryInput =
+    kind === 'breastfeeding'
+      ? { type: 'breastfeeding' as const, side: details.side ?? timer.side ?? 'both' }
+      : { type: 'sleep' as const, sleepKind: details.sleepKind ?? timer.sleepKind ?? 'nap' };
+  const result = await createCareLogEntry(
+    child,
+    userId,
+    {
+      ...entryInput,
+      startedAt: timer.startedAt,
+      durationMinutes: Math.round(elapsedMs / 60_000),
+      note: details.note ?? null,
+    },
+    timeZone,
+  );
+  if (!result.created) {
+    // Should not happen with the defaults above; keep the timer so nothing is lost.
+    logger.error({ childId: child.id, kind, reason: result.message }, 'Timer stop could not create care log entry');
+    await timerRef(child.id, kind).set(timer);
+    return { stopped: false as const, reason: 'invalid_entry' as const, message: result.message };
+  }
+
+  const stoppedTimer = { ...timer, status: 'stopped', accumulatedMs: elapsedMs, lastResumedAt: null };
+  await broadcastTimerChange(child, userId, 'stopped', stoppedTimer, result.entry);
+  return { stopped: true as const, elapsedMs, entry: result.entry };
+};
+
+export const cancelTimer = async (child: ChildProfile, userId: string, kind: TimerKind) => {
+  const timer = await takeTimer(child, kind);
+  if (!timer) {
+    return { cancelled: false as const, reason: 'not_found' as const };
+  }
+  await broadcastTimerChange(child, userId, 'cancelled', { ...timer, status: 'cancelled' });
+  return { cancelled: true as const };
+};
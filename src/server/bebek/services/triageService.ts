@@ -0,0 +1,66 @@
+import { config } from '../../../config';
+import { auditService } from '../../../services/auditService';
+import { logger } from '../../../utils/logger';
+import { TRIAGE_CATEGORIES, TRIAGE_RULESET_VERSION, TriageCategory } from '../data/triageRules';
+import { evaluateTriageRules, TriageMatch } from '../utils/triage';
+import { classifyTriageRisk } from './geminiService';
+
+export interface TriageResult {
+  triggered: boolean;
+  source: 'rules' | 'model' | null;
+  matches: TriageMatch[];
+  rulesetVersion: string;
+}
+
+// Rule id recorded when only the model flagged the message.
+const MODEL_RULE_ID = 'model_classifier';
+
+export const runTriage = async (message: string, options: { ageDays?: number | null } = {}): Promise<TriageResult> => {
+  const matches = evaluateTriageRules(message, { ageDays: options.ageDays });
+  if (matches.length) {
+    return { triggered: true, source: 'rules', matches, rulesetVersion: TRIAGE_RULESET_VERSION };
+  }
+
+  if (config.triage.modelEnabled) {
+    try {
+      const verdict = await classifyTriageRisk(message, config.triage.modelTimeoutMs);
+      if (verdict?.urgent) {
+        const category = TRIAGE_CATEGORIES.includes(verdict.category as TriageCategory)
+          ? (verdict.category as TriageCategory)
+          : 'other';
+        return {
+          triggered: true,
+          source: 'model',
+          matches: [{ ruleId: MODEL_RULE_ID, category }],
+          rulesetVersion: TRIAGE_RULESET_VERSION,
+        };
+      }
+    } catch (error) {
+      // A slow or failing classifier must never block the answer; the rules already ran.
+      logger.warn({ err: error }, 'Triage classifier call failed');
+    }
+  }
+
+  return { triggered: false, source: null, matches: [], rulesetVersion: TRIAGE_RULESET_VERSION };
+};
+
+export const recordTriageEvent = async (params: {
+  userId: string;
+  sessionId: string;
+  messageId: string;
+  triage: TriageResult;
+}) => {
+  const { userId, sessionId, messageId, triage } = params;
+  logger.warn(
+    { userId, sessionId, messageId, ruleIds: triage.matches.map(match => match.ruleId), source: triage.source },
+    'Chat message matched medical red-flag triage',
+  );
+  await auditService.logUserAction(userId, 'triage_event', {
+    sessionId,
+    messageId,
+    source: triage.source,
+    rulesetVersion: triage.rulesetVersion,
+    ruleIds: triage.matches.map(match => match.ruleId),
+    categories: Array.from(new Set(triage.matches.map(match => match.category))),
+  });
+};
@@ -0,0 +1,154 @@
+import { db } from '../../../firebase';
+import type { DocumentReference, Transaction } from 'firebase-admin/firestore';
+import { config } from '../../../config';
+import { premiumService } from '../../../services/premiumService';
+import { getUserTimeZone } from './careLogService';
+import { formatDateInTimeZone, getUtcRangeForDate } from '../utils/timezone';
+
+export const USAGE_METRICS = ['photo', 'video', 'chat'] as const;
+export type UsageMetric = (typeof USAGE_METRICS)[number];
+export type UsagePlan = 'free' | 'premium';
+export type UsageLimits = Record<UsageMetric, number>;
+
+export const USAGE_LIMITS_COLLECTION = 'usage_limits';
+const USAGE_OVERRIDES_COLLECTION = 'usage_overrides';
+
+export interface UsageOverride {
+  limits: Partial<UsageLimits>;
+  reason: string | null;
+  expiresAt: string | null;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export interface UsageQuota {
+  metric: UsageMetric;
+  plan: UsagePlan;
+  overridden: boolean;
+  limit: number;
+  used: number;
+  remaining: number;
+  dateKey: string;
+  resetAt: string;
+}
+
+// Counters live at usage_limits/{dateKey}/users/{userId}, one field per metric.
+const usageRef = (dateKey: string, userId: string): DocumentReference =>
+  db.collection(USAGE_LIMITS_COLLECTION).doc(dateKey).collection('users').doc(userId);
+const overrideRef = (userId: string): DocumentReference => db.collection(USAGE_OVERRIDES_COLLECTION).doc(userId);
+
+const getActiveOverride = async (userId: string, now: Date) => {
+  const snapshot = await overrideRef(userId).get();
+  const override = snapshot.exists ? (snapshot.data() as UsageOverride) : null;
+  if (!override || (override.expiresAt && Date.parse(override.expiresAt) <= now.getTime())) {
+    return null;
+  }
+  return override;
+};
+
+// The day runs midnight to midnight in the user's own timezone.
+const resolveUsageDay = async (userId: string, now: Date) => {
+  const timeZone = await getUserTimeZone(userId);
+  const dateKey = formatDateInTimeZone(now, timeZone);
+  return { timeZone, dateKey, resetAt: getUtcRangeForDate(dateKey, timeZone).end.toISOString() };
+};
+
+const resolveLimits = async (userId: string, now: Date) => {
+  const [premium, override] = await Promise.all([premiumService.hasActivePremium(userId), getActiveOverride(userId, now)]);
+  const plan: UsagePlan = premium ? 'premium' : 'free';
+  return {
+    plan,
+    override,
+    limits: { ...config.usageLimits[plan], ...(override?.limits || {}) } as UsageLimits,
+  };
+};
+
+const toQuota = (
+  metric: UsageMetric,
+  used: number,
+  day: { dateKey: string; resetAt: string },
+  resolved: { plan: UsagePlan; override: UsageOverride | null; limits: UsageLimits },
+): UsageQuota => ({
+  metric,
+  plan: resolved.plan,
+  overridden: resolved.override?.limits[metric] !== undefined,
+  limit: resolved.limits[metric],
+  used,
+  remaining: Math.max(0, resolved.limits[metric] - used),
+  dateKey: day.dateKey,
+  resetAt: day.resetAt,
+});
+
+// Counts one use when the allowance has room left; the read and the increment share a transaction
+// so parallel requests cannot both take the last unit.
+export const consumeUsage = async (userId: string, metric: UsageMetric, now = new Date()) => {
+  const [day, resolved] = await Promise.all([resolveUsageDay(userId, now), resolveLimits(userId, now)]);
+  const ref = usageRef(day.dateKey, userId);
+  return db.runTransaction(async (transaction: Transaction) => {
+    const snapshot = await transaction.get(ref);
+    const used = Number(snapshot.data()?.[metric] || 0);
+    if (used >= resolved.limits[metric]) {
+      return { allowed: false as const, quota: toQuota(metric, used, day, resolved) };
+    }
+    transaction.set(
+      ref,
+      { userId, dateKey: day.dateKey, timeZone: day.timeZone, [metric]: used + 1, updatedAt: now.toISOString() },
+      { merge: true },
+    );
+    return { allowed: true as const, quota: toQuota(metric, used + 1, day, resolved) };
+  });
+};
+
+// Gives back a unit taken by consumeUsage, on the day it was counted.
+export const refundUsage = async (userId: string, quota: Pick<UsageQuota, 'metric' | 'dateKey'>) => {
+  const ref = usageRef(quota.dateKey, userId);
+  await db.runTransaction(async (transaction: Transaction) => {
+    const snapshot = await transaction.get(ref);
+    const used = Number(snapshot.data()?.[quota.metric] || 0);
+    if (used > 0) {
+      transaction.set(ref, { [quota.metric]: used - 1, updatedAt: new Date().toISOString() }, { merge: true });
+    }
+  });
+};
+
+export const getUsageSummary = async (userId: string, now = new Date()) => {
+  const [day, resolved] = await Promise.all([resolveUsageDay(userId, now), resolveLimits(userId, now)]);
+  const snapshot = await usageRef(day.dateKey, userId).get();
+  const counters = snapshot.data() || {};
+  return {
+    plan: resolved.plan,
+    dateKey: day.dateKey,
+    timeZone: day.timeZone,
+    resetAt: day.resetAt,
+    override: resolved.override,
+    usage: USAGE_METRICS.map(metric => toQuota(metric, Number(counters[metric] || 0), day, resolved)),
+  };
+};
+
+export const setUsageOverride = async (
+  userId: string,
+  adminId: string,
+  input: { limits: Partial<UsageLimits>; reason?: string | null; expiresAt?: string | null },
+) => {
+  const limits = Object.fromEntries(
+    USAGE_METRICS.filter(metric => typeof input.limits[metric] === 'number').map(metric => [metric, input.limits[metric]]),
+  ) as Partial<UsageLimits>;
+  const override: UsageOverride = {
+    limits,
+    reason: input.reason ?? null,
+    expiresAt: input.expiresAt ?? null,
+    updatedBy: adminId,
+    updatedAt: new Date().toISOString(),
+  };
+  await overrideRef(userId).set(override);
+  return override;
+};
+
+export const clearUsageOverride = async (userId: string) => {
+  const snapshot = await overrideRef(userId).get();
+  if (!snapshot.exists) {
+    return { cleared: false as const, reason: 'not_found' as const };
+  }
+  await overrideRef(userId).delete();
+  return { cleared: true as const };
+};
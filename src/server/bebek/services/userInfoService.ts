@@ -14,6 +14,8 @@ export interface UserInfo {
   activity_level?: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
   goal?: 'lose' | 'maintain' | 'gain';
   language?: 'tr' | 'en';
+  // Set once the user picks `language`; profiles created earlier carry a defaulted 'tr' without it.
+  language_explicit?: boolean;
   timezone?: string;
   onboarding_completed?: boolean;
   onboarding_device_id?: string;
@@ -39,8 +41,7 @@ export const ensureUserInfo = async (userId: string, fallback: Partial<UserInfo>
   if (existing) {
     return {
       ...existing,
-      timezone: existing.timezone || DEFAULT_TIMEZONE,
-      language: existing.language || 'tr'
+      timezone: existing.timezone || DEFAULT_TIMEZONE
     };
   }
 
@@ -50,7 +51,7 @@ export const ensureUserInfo = async (userId: string, fallback: Partial<UserInfo>
     name: fallback.name,
     email: fallback.email,
     timezone: fallback.timezone || DEFAULT_TIMEZONE,
-    language: fallback.language || 'tr',
+    ...(fallback.language ? { language: fallback.language, language_explicit: true } : {}),
     goal: fallback.goal || 'maintain',
     activity_level: fallback.activity_level || 'sedentary',
     created_at: now,
@@ -64,7 +65,8 @@ export const ensureUserInfo = async (userId: string, fallback: Partial<UserInfo>
 
 export const updateUserInfo = async (userId: string, updates: Partial<UserInfo>): Promise<UserInfo> => {
   const now = new Date().toISOString();
-  await db.collection('users_info').doc(userId).set({ ...updates, updated_at: now }, { merge: true });
+  const languageUpdate = updates.language ? { language_explicit: true } : {};
+  await db.collection('users_info').doc(userId).set({ ...updates, ...languageUpdate, updated_at: now }, { merge: true });
   const updated = await getUserInfo(userId);
   return updated || {
     id: userId,
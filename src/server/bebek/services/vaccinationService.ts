@@ -0,0 +1,276 @@
+import { db } from '../../../firebase';
+import type { DocumentData, DocumentReference, QueryDocumentSnapshot, Transaction } from 'firebase-admin/firestore';
+import {
+  DEFAULT_VACCINATION_SCHEDULE_ID,
+  VACCINATION_SCHEDULES,
+  VaccinationSchedule,
+  VaccineDose,
+} from '../data/vaccinationSchedules';
+import { ChildProfile, CHILD_COLLECTION, getChildHouseholdId } from './childService';
+import { getUserTimeZone } from './careLogService';
+import { listHouseholdMemberIds } from './householdService';
+import { pushNotificationService } from '../../../services/pushNotificationService';
+import { logger } from '../../../utils/logger';
+import { addDaysToDateString, getUtcRangeForDate } from '../utils/timezone';
+
+export type VaccinationDoseStatus = 'given' | 'overdue' | 'due' | 'upcoming';
+
+export interface VaccinationDoseInput {
+  givenAt: string;
+  clinic?: string | null;
+  lotNumber?: string | null;
+  note?: string | null;
+}
+
+const DOSES_SUBCOLLECTION = 'vaccination_doses';
+const REMINDERS_COLLECTION = 'vaccination_reminders';
+const DAY_MS = 24 * 60 * 60_000;
+// A dose stays "due" for this many days after its due date before it is reported as overdue.
+const OVERDUE_GRACE_DAYS = 30;
+const REMINDER_DAYS_BEFORE = Number(process.env.VACCINATION_REMINDER_DAYS_BEFORE || 3);
+// Reminders go out at 10:00 in the household owner's timezone.
+const REMINDER_SEND_HOUR = 10;
+const REMINDER_MAX_ATTEMPTS = 3;
+const REMINDER_BATCH_LIMIT = 200;
+
+const dosesRef = (childId: string) => db.collection(CHILD_COLLECTION).doc(childId).collection(DOSES_SUBCOLLECTION);
+
+const todayDateOnly = () => new Date().toISOString().slice(0, 10);
+
+export const getScheduleForChild = (child: ChildProfile): VaccinationSchedule =>
+  VACCINATION_SCHEDULES[child.vaccinationScheduleId || ''] || VACCINATION_SCHEDULES[DEFAULT_VACCINATION_SCHEDULE_ID];
+
+// Adds calendar months to a YYYY-MM-DD date, clamping to the last day of the target month.
+export const addMonthsToDate = (dateOnly: string, months: number) => {
+  const [year, month, day] = dateOnly.slice(0, 10).split('-').map(Number);
+  if (!year || !month || !day) {
+    return null;
+  }
+  const targetMonthIndex = month - 1 + months;
+  const lastDay = new Date(Date.UTC(year, targetMonthIndex + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, targetMonthIndex, Math.min(day, lastDay))).toISOString().slice(0, 10);
+};
+
+export const resolveDoseStatus = (dueDate: string, today: string, given: boolean): VaccinationDoseStatus => {
+  if (given) return 'given';
+  if (dueDate > today) return 'upcoming';
+  const daysLate = Math.floor((Date.parse(today) - Date.parse(dueDate)) / DAY_MS);
+  return daysLate > OVERDUE_GRACE_DAYS ? 'overdue' : 'due';
+};
+
+const listRecordedDoses = async (childId: string) => {
+  const snapshot = await dosesRef(childId).get();
+  const doses = new Map<string, any>();
+  snapshot.docs.forEach((doc: QueryDocumentSnapshot<DocumentData>) => {
+    doses.set(doc.id, { doseId: doc.id, ...(doc.data() as any) });
+  });
+  return doses;
+};
+
+export const getVaccinationSchedule = async (child: ChildProfile) => {
+  const schedule = getScheduleForChild(child);
+  const recorded = await listRecordedDoses(child.id);
+  const today = todayDateOnly();
+
+  const doses = schedule.doses.map((item: VaccineDose) => {
+    const dueDate = addMonthsToDate(child.birthDate, item.ageMonths);
+    const record = recorded.get(item.id) || null;
+    return {
+      ...item,
+      dueDate,
+      status: dueDate ? resolveDoseStatus(dueDate, today, Boolean(record)) : null,
+      record,
+    };
+  });
+
+  return {
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    scheduleVersion: schedule.version,
+    doses,
+  };
+};
+
+export const getVaccinationSummary = async (child: ChildProfile) => {
+  const { scheduleId, doses } = await getVaccinationSchedule(child);
+  const today = todayDateOnly();
+  const soonLimit = new Date(Date.parse(today) + 30 * DAY_MS).toISOString().slice(0, 10);
+  const pending = doses.filter(item => item.status !== 'given' && item.dueDate);
+
+  return {
+    scheduleId,
+    totalCount: doses.length,
+    givenCount: doses.filter(item => item.status === 'given').length,
+    overdue: doses.filter(item => item.status === 'overdue'),
+    due: doses.filter(item => item.status === 'due'),
+    upcomingSoon: doses.filter(item => item.status === 'upcoming' && (item.dueDate as string) <= soonLimit),
+    nextDose: pending.find(item => item.status === 'upcoming') || null,
+  };
+};
+
+export const recordVaccinationDose = async (
+  child: ChildProfile,
+  userId: string,
+  doseId: string,
+  input: VaccinationDoseInput,
+) => {
+  const schedule = getScheduleForChild(child);
+  if (!schedule.doses.some(item => item.id === doseId)) {
+    return { saved: false, reason: 'not_found' as const };
+  }
+
+  const ref = dosesRef(child.id).doc(doseId);
+  const existing = await ref.get();
+  const now = new Date().toISOString();
+  const record = {
+    doseId,
+    childId: child.id,
+    scheduleId: schedule.id,
+    givenAt: input.givenAt,
+    clinic: input.clinic?.trim() || null,
+    lotNumber: input.lotNumber?.trim() || null,
+    note: input.note?.trim() || null,
+    recordedBy: userId,
+    createdAt: existing.exists ? (existing.data() as any)?.createdAt || now : now,
+    updatedAt: now,
+  };
+  await ref.set(record);
+  await syncVaccinationReminders(child);
+  return { saved: true as const, created: !existing.exists, record };
+};
+
+export const deleteVaccinationDose = async (child: ChildProfile, doseId: string) => {
+  const ref = dosesRef(child.id).doc(doseId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { deleted: false, reason: 'not_found' as const };
+  }
+  await ref.delete();
+  await syncVaccinationReminders(child);
+  return { deleted: true as const };
+};
+
+export const setChildVaccinationSchedule = async (child: ChildProfile, scheduleId: string) => {
+  if (!VACCINATION_SCHEDULES[scheduleId]) {
+    return { updated: false, reason: 'not_found' as const };
+  }
+  const updatedAt = new Date().toISOString();
+  await db.collection(CHILD_COLLECTION).doc(child.id).set({ vaccinationScheduleId: scheduleId, updatedAt }, { merge: true });
+  const updatedChild = { ...child, vaccinationScheduleId: scheduleId, updatedAt };
+  await syncVaccinationReminders(updatedChild);
+  return { updated: true as const, child: updatedChild };
+};
+
+const getReminderSendTs = (dueDate: string, timeZone: string) => {
+  const remindDate = addDaysToDateString(dueDate, -REMINDER_DAYS_BEFORE);
+  return getUtcRangeForDate(remindDate, timeZone).start.getTime() + REMINDER_SEND_HOUR * 60 * 60_000;
+};
+
+// Rebuilds the pending push reminders for a child. Called whenever the birth date,
+// the schedule or the recorded doses change.
+export const syncVaccinationReminders = async (child: ChildProfile) => {
+  const existing = await db.collection(REMINDERS_COLLECTION).where('childId', '==', child.id).get();
+  const batch = db.batch();
+  const alreadyHandled = new Set<string>();
+  existing.docs.forEach((doc: QueryDocumentSnapshot<DocumentData>) => {
+    const reminder = doc.data() as any;
+    if (reminder?.status === 'pending') {
+      batch.delete(doc.ref);
+    } else {
+      alreadyHandled.add(`${reminder?.doseId}:${reminder?.dueDate}`);
+    }
+  });
+
+  const [{ doses }, timeZone] = await Promise.all([
+    getVaccinationSchedule(child),
+    getUserTimeZone(getChildHouseholdId(child)),
+  ]);
+  const now = Date.now();
+  const today = todayDateOnly();
+  let scheduled = 0;
+  doses
+    .filter(item => item.status === 'upcoming' || (item.status === 'due' && item.dueDate === today))
+    .filter(item => !alreadyHandled.has(`${item.id}:${item.dueDate}`))
+    .forEach(item => {
+      const remindTs = getReminderSendTs(item.dueDate as string, timeZone);
+      batch.set(db.collection(REMINDERS_COLLECTION).doc(`${child.id}_${item.id}`), {
+        childId: child.id,
+        userId: child.parentUuid,
+        doseId: item.id,
+        dueDate: item.dueDate,
+        sendAt: new Date(Math.max(remindTs, now)).toISOString(),
+        timeZone,
+        status: 'pending',
+        attempts: 0,
+        createdAt: new Date(now).toISOString(),
+      });
+      scheduled += 1;
+    });
+
+  await batch.commit();
+  return { scheduled };
+};
+
+// Moves a reminder from pending to sending in one transaction, so a reminder is only ever
+// pushed by the dispatcher that claimed it, even when two runs overlap.
+const claimReminder = (ref: DocumentReference) =>
+  db.runTransaction(async (transaction: Transaction) => {
+    const snapshot = await transaction.get(ref);
+    if ((snapshot.data() as any)?.status !== 'pending') {
+      return false;
+    }
+    transaction.set(ref, { status: 'sending', claimedAt: new Date().toISOString() }, { merge: true });
+    return true;
+  });
+
+// Sends every pending reminder whose send time has passed. Run periodically from the server.
+// All household members get one bulk push, so a retry never reaches only part of them twice.
+// A run that dies after claiming leaves the reminder in `sending`; it is not retried, because a
+// missed reminder is better than a duplicate one.
+export const dispatchDueVaccinationReminders = async () => {
+  const snapshot = await db
+    .collection(REMINDERS_COLLECTION)
+    .where('status', '==', 'pending')
+    .where('sendAt', '<=', new Date().toISOString())
+    .limit(REMINDER_BATCH_LIMIT)
+    .get();
+
+  let sent = 0;
+  let cancelled = 0;
+  for (const doc of snapshot.docs as QueryDocumentSnapshot<DocumentData>[]) {
+    const reminder = doc.data() as any;
+    if (!(await claimReminder(doc.ref))) {
+      continue;
+    }
+    try {
+      const childSnapshot = await db.collection(CHILD_COLLECTION).doc(reminder.childId).get();
+      const doseSnapshot = childSnapshot.exists ? await dosesRef(reminder.childId).doc(reminder.doseId).get() : null;
+      if (!childSnapshot.exists || doseSnapshot?.exists) {
+        await doc.ref.set({ status: 'cancelled', updatedAt: new Date().toISOString() }, { merge: true });
+        cancelled += 1;
+        continue;
+      }
+
+      const child = { id: childSnapshot.id, ...(childSnapshot.data() as any) } as ChildProfile;
+      const dose = getScheduleForChild(child).doses.find(item => item.id === reminder.doseId);
+      const recipients = await listHouseholdMemberIds(getChildHouseholdId(child));
+      await pushNotificationService.sendPushNotificationToUsers(recipients, {
+        title: 'Aşı hatırlatması',
+        body: `${child.name} için ${dose?.name.tr || 'planlanan aşı'} ${reminder.dueDate} tarihinde yapılmalı.`,
+        data: { type: 'vaccination_reminder', childId: child.id, doseId: reminder.doseId, dueDate: reminder.dueDate },
+        priority: 'high',
+      });
+      await doc.ref.set({ status: 'sent', sentAt: new Date().toISOString(), recipientCount: recipients.length }, { merge: true });
+      sent += 1;
+    } catch (error) {
+      const attempts = Number(reminder.attempts || 0) + 1;
+      logger.warn({ err: error, reminderId: doc.id, attempts }, 'Vaccination reminder delivery failed');
+      await doc.ref.set(
+        { attempts, status: attempts >= REMINDER_MAX_ATTEMPTS ? 'failed' : 'pending', updatedAt: new Date().toISOString() },
+        { merge: true },
+      );
+    }
+  }
+
+  return { processed: snapshot.size, sent, cancelled };
+};
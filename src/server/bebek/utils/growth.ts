@@ -0,0 +1,98 @@
+import { GrowthMetric, GrowthSex, LmsRow, WHO_LMS_TABLES, WHO_STANDARD_MAX_MONTH } from '../data/whoGrowthStandards';
+
+export const DAYS_PER_MONTH = 30.4375;
+export const PERCENTILE_CURVE_LINES = [3, 15, 50, 85, 97];
+
+const DAY_MS = 24 * 60 * 60_000;
+
+export const toGrowthSex = (gender: unknown): GrowthSex | null => {
+  if (gender === 'Erkek' || gender === 'male') return 'male';
+  if (gender === 'Kiz' || gender === 'female') return 'female';
+  return null;
+};
+
+export const getAgeInDays = (birthDate: string, at: string | Date) => {
+  const birthTs = Date.parse(birthDate);
+  const atTs = at instanceof Date ? at.getTime() : Date.parse(at);
+  if (Number.isNaN(birthTs) || Number.isNaN(atTs)) {
+    return null;
+  }
+  return Math.floor((atTs - birthTs) / DAY_MS);
+};
+
+export const interpolateLms = (metric: GrowthMetric, sex: GrowthSex, ageMonths: number): LmsRow | null => {
+  if (!Number.isFinite(ageMonths) || ageMonths < 0 || ageMonths > WHO_STANDARD_MAX_MONTH) {
+    return null;
+  }
+  const table = WHO_LMS_TABLES[metric][sex];
+  const lower = Math.floor(ageMonths);
+  const upper = Math.min(lower + 1, WHO_STANDARD_MAX_MONTH);
+  const ratio = ageMonths - lower;
+  const [l1, m1, s1] = table[lower];
+  const [l2, m2, s2] = table[upper];
+  return [l1 + (l2 - l1) * ratio, m1 + (m2 - m1) * ratio, s1 + (s2 - s1) * ratio];
+};
+
+export const valueForZScore = ([l, m, s]: LmsRow, z: number) => {
+  if (l === 0) {
+    return m * Math.exp(s * z);
+  }
+  return m * Math.pow(1 + l * s * z, 1 / l);
+};
+
+// WHO restricts the LMS skewness correction beyond +/-3 SD for weight-based indicators.
+export const calculateZScore = (value: number, lms: LmsRow, metric: GrowthMetric) => {
+  const [l, m, s] = lms;
+  const z = l === 0 ? Math.log(value / m) / s : (Math.pow(value / m, l) - 1) / (l * s);
+  if (metric !== 'weight' || Math.abs(z) <= 3) {
+    return z;
+  }
+  if (z > 3) {
+    const sd3 = valueForZScore(lms, 3);
+    const sd23 = sd3 - valueForZScore(lms, 2);
+    return 3 + (value - sd3) / sd23;
+  }
+  const sd3 = valueForZScore(lms, -3);
+  const sd23 = valueForZScore(lms, -2) - sd3;
+  return -3 + (value - sd3) / sd23;
+};
+
+// Abramowitz & Stegun 7.1.26 approximation of the error function.
+const erf = (x: number) => {
+  const sign = x < 0 ? -1 : 1;
+  const abs = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * abs);
+  const poly = ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t;
+  return sign * (1 - poly * Math.exp(-abs * abs));
+};
+
+export const zScoreToPercentile = (z: number) => 50 * (1 + erf(z / Math.SQRT2));
+
+const round = (value: number, digits: number) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+export const evaluateGrowth = (metric: GrowthMetric, sex: GrowthSex, ageDays: number, value: number) => {
+  const lms = interpolateLms(metric, sex, ageDays / DAYS_PER_MONTH);
+  if (!lms || !Number.isFinite(value) || value <= 0) {
+    return null;
+  }
+  const zScore = calculateZScore(value, lms, metric);
+  return {
+    zScore: round(zScore, 2),
+    percentile: round(zScoreToPercentile(zScore), 1),
+  };
+};
+
+export const buildPercentileCurves = (metric: GrowthMetric, sex: GrowthSex) => {
+  const curves = PERCENTILE_CURVE_LINES.map(percentile => ({ percentile, points: [] as Array<{ ageMonths: number; value: number }> }));
+  const zByPercentile: Record<number, number> = { 3: -1.881, 15: -1.036, 50: 0, 85: 1.036, 97: 1.881 };
+  for (let month = 0; month <= WHO_STANDARD_MAX_MONTH; month += 1) {
+    const lms = WHO_LMS_TABLES[metric][sex][month];
+    curves.forEach(curve => {
+      curve.points.push({ ageMonths: month, value: round(valueForZScore(lms, zByPercentile[curve.percentile]), 2) });
+    });
+  }
+  return curves;
+};
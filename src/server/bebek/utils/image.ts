@@ -0,0 +1,136 @@
+export type ImageFormat = 'jpeg' | 'png';
+
+// Sniff the real format from magic bytes instead of trusting the client's Content-Type.
+export const detectImageFormat = (buffer: Buffer): ImageFormat | null => {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (
+    buffer.length >= 8 &&
+    buffer.readUInt32BE(0) === 0x89504e47 &&
+    buffer.readUInt32BE(4) === 0x0d0a1a0a
+  ) {
+    return 'png';
+  }
+  return null;
+};
+
+// Start-of-frame markers carry the frame size; C4, C8 and CC share the range but are not frames.
+const isJpegFrameMarker = (marker: number) => marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+
+// Reads the pixel size from the PNG IHDR chunk or the JPEG start-of-frame segment, without decoding
+// anything, so oversized uploads can be turned away before they are expanded in memory.
+export const readImageDimensions = (buffer: Buffer): { width: number; height: number } | null => {
+  const format = detectImageFormat(buffer);
+  try {
+    if (format === 'png') {
+      if (buffer.toString('ascii', 12, 16) !== 'IHDR') {
+        return null;
+      }
+      return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+    }
+    if (format === 'jpeg') {
+      let offset = 2;
+      while (offset + 4 <= buffer.length) {
+        if (buffer[offset] !== 0xff) {
+          return null;
+        }
+        const marker = buffer[offset + 1];
+        // Fill bytes before a marker.
+        if (marker === 0xff) {
+          offset += 1;
+          continue;
+        }
+        if (isJpegFrameMarker(marker)) {
+          return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+        }
+        if (marker === 0xda) {
+          return null;
+        }
+        offset += 2 + buffer.readUInt16BE(offset + 2);
+      }
+    }
+  } catch {
+    return null;
+  }
+  return null;
+};
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+// Returns the EXIF orientation (1-8) of a JPEG, or 1 when it is missing or unreadable.
+// Re-encoding through canvas drops all metadata, so the rotation has to be applied by hand.
+export const readJpegOrientation = (buffer: Buffer): number => {
+  if (detectImageFormat(buffer) !== 'jpeg') {
+    return 1;
+  }
+  try {
+    let offset = 2;
+    while (offset + 4 <= buffer.length) {
+      if (buffer[offset] !== 0xff) {
+        return 1;
+      }
+      const marker = buffer[offset + 1];
+      const segmentLength = buffer.readUInt16BE(offset + 2);
+      // Start of scan: no metadata segments follow.
+      if (marker === 0xda) {
+        return 1;
+      }
+      if (marker === 0xe1 && buffer.toString('ascii', offset + 4, offset + 8) === 'Exif') {
+        const tiff = offset + 10;
+        const littleEndian = buffer.readUInt16BE(tiff) === 0x4949;
+        const read16 = (at: number) => (littleEndian ? buffer.readUInt16LE(at) : buffer.readUInt16BE(at));
+        const read32 = (at: number) => (littleEndian ? buffer.readUInt32LE(at) : buffer.readUInt32BE(at));
+        const ifd = tiff + read32(tiff + 4);
+        const entries = read16(ifd);
+        for (let i = 0; i < entries; i += 1) {
+          const entry = ifd + 2 + i * 12;
+          if (read16(entry) === EXIF_ORIENTATION_TAG) {
+            const orientation = read16(entry + 8);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+          }
+        }
+        return 1;
+      }
+      offset += 2 + segmentLength;
+    }
+  } catch {
+    return 1;
+  }
+  return 1;
+};
+
+// Canvas transform (a, b, c, d, e, f) that displays a square of `size` pixels upright for the given orientation.
+export const getOrientationTransform = (
+  orientation: number,
+  size: number,
+): [number, number, number, number, number, number] => {
+  switch (orientation) {
+    case 2:
+      return [-1, 0, 0, 1, size, 0];
+    case 3:
+      return [-1, 0, 0, -1, size, size];
+    case 4:
+      return [1, 0, 0, -1, 0, size];
+    case 5:
+      return [0, 1, 1, 0, 0, 0];
+    case 6:
+      return [0, 1, -1, 0, size, 0];
+    case 7:
+      return [0, -1, -1, 0, size, size];
+    case 8:
+      return [0, -1, 1, 0, 0, size];
+    default:
+      return [1, 0, 0, 1, 0, 0];
+  }
+};
+
+// Largest centered square of the source image; it is the same region whatever the orientation.
+export const getCenterSquareCrop = (width: number, height: number) => {
+  const side = Math.min(width, height);
+  return {
+    x: Math.floor((width - side) / 2),
+    y: Math.floor((height - side) / 2),
+    side,
+  };
+};
@@ -0,0 +1,156 @@
+import { foldTurkishText } from './text';
+
+export type KnowledgeFormat = 'markdown' | 'text';
+
+export interface KnowledgeTextChunk {
+  heading: string | null;
+  text: string;
+}
+
+export interface KnowledgeChunkVector {
+  id: string;
+  embedding: number[];
+  minAgeDays: number | null;
+  maxAgeDays: number | null;
+}
+
+export const HASHING_EMBEDDING_DIMENSIONS = 256;
+const DEFAULT_CHUNK_CHARS = 1200;
+// Long enough that a Turkish stem and its suffixed forms usually share the prefix feature.
+const STEM_PREFIX_LENGTH = 5;
+
+const STOPWORDS = new Set([
+  've', 'ile', 'bir', 'bu', 'su', 'da', 'de', 'mi', 'mu', 'icin', 'ne', 'gibi', 'cok', 'daha', 'en', 'ya', 'ki',
+  'ama', 'veya', 'olan', 'olarak', 'her', 'kadar', 'sonra', 'once', 'the', 'and', 'of', 'to', 'in', 'is', 'for',
+]);
+
+const splitSentences = (value: string) => value.split(/(?<=[.!?])\s+/).filter(Boolean);
+
+// Paragraphs longer than the limit are cut at sentence boundaries; a single huge sentence is hard-cut.
+const splitLongParagraph = (paragraph: string, maxChars: number) => {
+  if (paragraph.length <= maxChars) return [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+  splitSentences(paragraph).forEach(sentence => {
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+    while (current.length > maxChars) {
+      pieces.push(current.slice(0, maxChars));
+      current = current.slice(maxChars);
+    }
+  });
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+// Splits an article into passages of at most `maxChars`, never across a markdown heading,
+// so every passage can be cited under the section it came from.
+export const chunkKnowledgeText = (
+  content: string,
+  format: KnowledgeFormat,
+  options: { maxChars?: number } = {},
+): KnowledgeTextChunk[] => {
+  const maxChars = options.maxChars || DEFAULT_CHUNK_CHARS;
+  const chunks: KnowledgeTextChunk[] = [];
+  let heading: string | null = null;
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) chunks.push({ heading, text: current.trim() });
+    current = '';
+  };
+
+  content
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .forEach(block => {
+      const lines = block.split('\n');
+      const body: string[] = [];
+      lines.forEach(line => {
+        const match = format === 'markdown' ? line.match(/^#{1,6}\s+(.*)$/) : null;
+        if (match) {
+          if (body.length) {
+            current = current ? `${current}\n\n${body.join('\n')}` : body.join('\n');
+            body.length = 0;
+          }
+          flush();
+          heading = match[1].trim() || null;
+          return;
+        }
+        body.push(line);
+      });
+
+      const paragraph = body.join('\n').trim();
+      if (!paragraph) return;
+      splitLongParagraph(paragraph, maxChars).forEach(piece => {
+        if (current && current.length + piece.length + 2 > maxChars) flush();
+        current = current ? `${current}\n\n${piece}` : piece;
+      });
+    });
+  flush();
+  return chunks;
+};
+
+// 32-bit FNV-1a; stable across processes so stored vectors stay comparable.
+const hashFeature = (feature: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i += 1) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const tokenizeKnowledgeText = (value: string) =>
+  foldTurkishText(value)
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= 2 && !STOPWORDS.has(token));
+
+// Feature-hashed bag of words (plus stem prefixes), L2-normalised. Needs no network or model,
+// so retrieval keeps working offline; quality is below a real embedding model.
+export const hashingEmbed = (value: string, dimensions = HASHING_EMBEDDING_DIMENSIONS) => {
+  const vector = new Array<number>(dimensions).fill(0);
+  tokenizeKnowledgeText(value).forEach(token => {
+    const features = token.length > STEM_PREFIX_LENGTH ? [token, `${token.slice(0, STEM_PREFIX_LENGTH)}*`] : [token];
+    features.forEach(feature => {
+      const hash = hashFeature(feature);
+      vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+    });
+  });
+  const norm = Math.sqrt(vector.reduce((sum, item) => sum + item * item, 0));
+  return norm ? vector.map(item => item / norm) : vector;
+};
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Chunks outside the child's age range are skipped; an unknown age matches every chunk.
+export const rankKnowledgeChunks = <T extends KnowledgeChunkVector>(
+  queryEmbedding: number[],
+  chunks: T[],
+  options: { ageDays?: number | null; limit: number; minScore: number },
+) =>
+  chunks
+    .filter(chunk => {
+      if (options.ageDays == null) return true;
+      if (chunk.minAgeDays != null && options.ageDays < chunk.minAgeDays) return false;
+      if (chunk.maxAgeDays != null && options.ageDays > chunk.maxAgeDays) return false;
+      return true;
+    })
+    .map(chunk => ({ chunk, score: cosineSimilarity(queryEmbedding, chunk.embedding) }))
+    .filter(item => item.score >= options.minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit);
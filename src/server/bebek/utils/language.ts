@@ -0,0 +1,36 @@
+import { COACH_LANGUAGES, CoachLanguage, DEFAULT_COACH_LANGUAGE } from '../data/coachPromptPacks';
+
+const isCoachLanguage = (value: string | undefined): value is CoachLanguage =>
+  Boolean(value) && (COACH_LANGUAGES as readonly string[]).includes(value!);
+
+const toBaseLanguage = (tag: string) => tag.trim().toLowerCase().split(/[-_]/)[0];
+
+// Primary language subtags from an Accept-Language header, most preferred first.
+// Entries with q=0 and the `*` wildcard are dropped; equal weights keep header order.
+export const parseAcceptLanguage = (header?: string | null) =>
+  (header || '')
+    .split(',')
+    .map((entry, position) => {
+      const [tag, ...params] = entry.split(';');
+      const quality = params.map(param => param.trim()).find(param => param.startsWith('q='));
+      const weight = quality ? Number(quality.slice(2)) : 1;
+      return { language: toBaseLanguage(tag), weight: Number.isFinite(weight) ? weight : 0, position };
+    })
+    .filter(item => item.language && item.language !== '*' && item.weight > 0)
+    .sort((a, b) => b.weight - a.weight || a.position - b.position)
+    .map(item => item.language);
+
+// The language the user picked in their profile wins, then whatever the client asks for in
+// Accept-Language (in preference order), then the default. Unsupported codes are skipped. A
+// profile language without `language_explicit` was filled in by default, so it is ignored.
+export const resolveCoachLanguage = (params: {
+  user?: { language?: string | null; language_explicit?: boolean } | null;
+  acceptLanguage?: string | null;
+}): CoachLanguage => {
+  const userLanguage = params.user?.language_explicit ? params.user.language : null;
+  const candidates = [
+    userLanguage ? toBaseLanguage(userLanguage) : undefined,
+    ...parseAcceptLanguage(params.acceptLanguage),
+  ];
+  return candidates.find(isCoachLanguage) || DEFAULT_COACH_LANGUAGE;
+};
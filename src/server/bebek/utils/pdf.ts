@@ -0,0 +1,184 @@
+// Minimal text-only PDF writer: A4 pages, the built-in Helvetica fonts, word wrapping and a
+// repeated footer. Nothing is embedded, so files stay small and no native module is needed.
+// The fonts use WinAnsi encoding with a few unused slots remapped to the Turkish letters it
+// lacks (ğ, ı, İ, ş and their capitals); characters outside that set are dropped or replaced.
+
+export type PdfTextStyle = 'title' | 'heading' | 'body' | 'muted';
+
+export interface PdfBlock {
+  text: string;
+  style?: PdfTextStyle;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FOOTER_HEIGHT = 40;
+const LINE_HEIGHT_RATIO = 1.35;
+
+const STYLES: Record<PdfTextStyle, { font: 'F1' | 'F2'; size: number; spaceBefore: number }> = {
+  title: { font: 'F2', size: 16, spaceBefore: 0 },
+  heading: { font: 'F2', size: 10.5, spaceBefore: 12 },
+  body: { font: 'F1', size: 10.5, spaceBefore: 3 },
+  muted: { font: 'F1', size: 8.5, spaceBefore: 3 },
+};
+
+// Helvetica advance widths (1/1000 em) for printable ASCII, from the standard AFM.
+const ASCII_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+  556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+  556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+  500, 500, 500, 334, 260, 334, 584,
+];
+// Bold glyphs run roughly this much wider; close enough for wrapping headings.
+const BOLD_WIDTH_FACTOR = 1.08;
+
+// Code points WinAnsi places in 0x80–0x9F, plus the Turkish remaps declared in the font encoding.
+const SPECIAL_CODES: Record<string, number> = {
+  '€': 0x80,
+  'Ğ': 0x81,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  'Ş': 0x8a,
+  'ğ': 0x8d,
+  'İ': 0x8f,
+  'ı': 0x90,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99,
+  'ş': 0x9a,
+};
+const ENCODING_DIFFERENCES = '129 /Gbreve 138 /Scedilla 141 /gbreve 143 /Idotaccent 144 /dotlessi 154 /scedilla';
+
+// Emoji and their joiners have no glyph in the base fonts and are left out rather than shown as '?'.
+const DROPPED_CHARACTER = /[\p{Extended_Pictographic}\u200d\ufe0f\u20e3]/u;
+
+// Returns a single-byte (latin1) string in the font encoding.
+const encodeText = (value: string) =>
+  Array.from(value.normalize('NFC'))
+    .map(char => {
+      const code = char.codePointAt(0)!;
+      if (SPECIAL_CODES[char] !== undefined) return String.fromCharCode(SPECIAL_CODES[char]);
+      if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return char;
+      if (char === '\t') return ' ';
+      if (DROPPED_CHARACTER.test(char) || code < 0x20) return '';
+      const base = char.normalize('NFD').charCodeAt(0);
+      return base >= 0x20 && base <= 0x7e ? String.fromCharCode(base) : '?';
+    })
+    .join('');
+
+const charWidth = (byte: number) => {
+  if (byte >= 0x20 && byte <= 0x7e) return ASCII_WIDTHS[byte - 0x20];
+  // Accented letters share their base letter's width closely enough; everything else is average.
+  const base = String.fromCharCode(byte).normalize('NFD').charCodeAt(0);
+  return base >= 0x20 && base <= 0x7e ? ASCII_WIDTHS[base - 0x20] : 556;
+};
+
+const measure = (encoded: string, style: PdfTextStyle) => {
+  const { font, size } = STYLES[style];
+  let units = 0;
+  for (let i = 0; i < encoded.length; i += 1) units += charWidth(encoded.charCodeAt(i));
+  return (units / 1000) * size * (font === 'F2' ? BOLD_WIDTH_FACTOR : 1);
+};
+
+const wrapLine = (encoded: string, style: PdfTextStyle, maxWidth: number) => {
+  const lines: string[] = [];
+  let current = '';
+  encoded.split(' ').forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measure(candidate, style) <= maxWidth) {
+      current = candidate;
+      return;
+    }
+    if (current) lines.push(current);
+    current = word;
+    // A single word wider than the line (long URLs) is split by character.
+    while (measure(current, style) > maxWidth && current.length > 1) {
+      let cut = current.length - 1;
+      while (cut > 1 && measure(current.slice(0, cut), style) > maxWidth) cut -= 1;
+      lines.push(current.slice(0, cut));
+      current = current.slice(cut);
+    }
+  });
+  lines.push(current);
+  return lines;
+};
+
+const escapePdfString = (value: string) => value.replace(/([\\()])/g, '\\$1');
+
+const textCommand = (encoded: string, style: PdfTextStyle, x: number, y: number) =>
+  `BT /${STYLES[style].font} ${STYLES[style].size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfString(encoded)}) Tj ET`;
+
+export const renderTextPdf = (blocks: PdfBlock[], options: { footer?: string } = {}) => {
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  const bottom = MARGIN + FOOTER_HEIGHT;
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  blocks.forEach((block, index) => {
+    const style = block.style || 'body';
+    const { size, spaceBefore } = STYLES[style];
+    const lineHeight = size * LINE_HEIGHT_RATIO;
+    if (index > 0) y -= spaceBefore;
+    block.text.split('\n').forEach(paragraph => {
+      wrapLine(encodeText(paragraph), style, contentWidth).forEach(line => {
+        if (y - lineHeight < bottom) {
+          pages.push([]);
+          y = PAGE_HEIGHT - MARGIN;
+        }
+        y -= lineHeight;
+        if (line) pages[pages.length - 1].push(textCommand(line, style, MARGIN, y));
+      });
+    });
+  });
+
+  const footerLines = options.footer ? wrapLine(encodeText(options.footer), 'muted', contentWidth - 60) : [];
+  const streams = pages.map((commands, pageIndex) => {
+    const pageNumber = encodeText(`${pageIndex + 1} / ${pages.length}`);
+    const footer = footerLines.map((line, lineIndex) =>
+      textCommand(line, 'muted', MARGIN, MARGIN + (footerLines.length - 1 - lineIndex) * STYLES.muted.size * LINE_HEIGHT_RATIO),
+    );
+    return [
+      ...commands,
+      ...footer,
+      textCommand(pageNumber, 'muted', PAGE_WIDTH - MARGIN - measure(pageNumber, 'muted'), MARGIN),
+    ].join('\n');
+  });
+
+  // Object numbers: 1 catalog, 2 page tree, 3–4 fonts, 5 encoding, then a page and its content stream per page.
+  const pageObjectId = (pageIndex: number) => 6 + pageIndex * 2;
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObjectId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding 5 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding 5 0 R >>',
+    `<< /Type /Encoding /BaseEncoding /WinAnsiEncoding /Differences [${ENCODING_DIFFERENCES}] >>`,
+  ];
+  streams.forEach((stream, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectId(i) + 1} 0 R >>`,
+    );
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  // Everything above is single-byte, so string offsets are byte offsets.
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = objects.map((object, i) => {
+    const offset = output.length;
+    output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(output, 'latin1');
+};
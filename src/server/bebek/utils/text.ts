@@ -0,0 +1,7 @@
+const FOLDED_CHARS: Record<string, string> = { ı: 'i', ş: 's', ğ: 'g', ü: 'u', ö: 'o', ç: 'c', â: 'a', î: 'i', û: 'u' };
+
+// Turkish-aware lowercasing plus diacritic folding, so "Uyku", "UYKU" and "uykü" compare equal.
+export const foldTurkishText = (value: string) =>
+  value
+    .toLocaleLowerCase('tr-TR')
+    .replace(/[ışğüöçâîû]/g, char => FOLDED_CHARS[char]);
@@ -48,3 +48,17 @@ export const formatDateInTimeZone = (date: Date, timeZone: string) => {
   const day = parts.find(part => part.type === 'day')?.value || '01';
   return `${year}-${month}-${day}`;
 };
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const addDaysToDateString = (dateString: string, days: number) => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
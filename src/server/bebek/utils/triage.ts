@@ -0,0 +1,33 @@
+import { TRIAGE_RULES, TriageCategory, TriageRule } from '../data/triageRules';
+import { foldTurkishText } from './text';
+
+export interface TriageMatch {
+  ruleId: string;
+  category: TriageCategory;
+}
+
+export const normalizeTriageText = (value: string) =>
+  ` ${foldTurkishText(value)
+    .replace(/[’`]/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim()} `;
+
+// Pure and synchronous so the rule set can be unit-tested without any services.
+export const evaluateTriageRules = (
+  message: string,
+  options: { ageDays?: number | null; rules?: TriageRule[] } = {},
+): TriageMatch[] => {
+  const text = normalizeTriageText(message || '');
+  const rules = options.rules || TRIAGE_RULES;
+  return rules
+    .filter(rule => {
+      if (rule.maxAgeDays !== undefined && (options.ageDays == null || options.ageDays >= rule.maxAgeDays)) {
+        return false;
+      }
+      if (rule.noneOf?.some(term => text.includes(term))) {
+        return false;
+      }
+      return rule.allOf.every(group => group.some(term => text.includes(term)));
+    })
+    .map(rule => ({ ruleId: rule.id, category: rule.category }));
+};
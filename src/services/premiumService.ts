@@ -244,6 +244,14 @@ class PremiumService {
     return doc.data();
   }
 
+  async hasActivePremium(userId: string) {
+    const status = await this.getStatus(userId);
+    if (!status?.premium) {
+      return false;
+    }
+    return this.isEntitlementActive(status.premiumExpiresAt || null);
+  }
+
   private async findDeletedSubscriptionRecord(
     email: string,
     providedAppUserId?: string
@@ -6,6 +6,7 @@ import { UserService } from './userService';
 import { SessionService } from './sessionService';
 import { auditService } from './auditService';
 import { getAllowedOriginsSnapshot, isWebSocketOriginAllowed } from '../utils/cors';
+import { readStreamChunks } from '../server/bebek/services/chatStreamService';
 
 export interface SocketUser {
   userId: string;
@@ -212,6 +213,32 @@ export class WebSocketService {
       }
     });
 
+    // Replay buffered chat:stream chunks after a reconnect; live chunks keep arriving on the user room,
+    // so clients dedupe by seq.
+    socket.on('chat:resume', async (data: { messageId: string; fromSeq?: number }, ack?: (result: any) => void) => {
+      try {
+        const messageId = String(data?.messageId || '');
+        const fromSeq = Math.max(Number(data?.fromSeq) || 0, 0);
+        const result = await readStreamChunks(socket.data.user.id, messageId, fromSeq);
+        if (result.reason) {
+          ack?.({ ok: false, error: result.reason });
+          return;
+        }
+
+        result.chunks.forEach(chunk => socket.emit('chat:stream', chunk));
+        logger.info({
+          userId: socket.data.user.id,
+          messageId,
+          fromSeq,
+          replayed: result.chunks.length,
+        }, 'Chat stream resumed over WebSocket');
+        ack?.({ ok: true, replayed: result.chunks.length, isFinal: result.isFinal });
+      } catch (error) {
+        logger.error({ error }, 'Error resuming chat stream');
+        ack?.({ ok: false, error: 'internal_error' });
+      }
+    });
+
     // Send message
     socket.on('chat:message', async (data: { chatId: string; content: string; type?: string }) => {
       try {
@@ -304,11 +331,9 @@ export class WebSocketService {
   }
 
   // Public methods for server-side usage
+  // Emits to the user's personal room so every connected device receives the event.
   public sendToUser(userId: string, event: string, data: any) {
-    const socketId = this.userSockets.get(userId);
-    if (socketId) {
-      this.io.to(socketId).emit(event, data);
-    }
+    this.io.to(`user:${userId}`).emit(event, data);
   }
 
   public sendToChat(chatId: string, event: string, data: any) {
@@ -0,0 +1,32 @@
+import { describe, it, expect } from '@jest/globals';
+import { summarizeCareDay } from '../src/server/bebek/services/careLogService';
+
+describe('Care log daily summary', () => {
+  const entries = [
+    // Night sleep crossing local midnight in Istanbul (UTC+3).
+    { type: 'sleep', sleepKind: 'night', startedAt: '2025-03-09T18:00:00.000Z', endedAt: '2025-03-10T03:00:00.000Z' },
+    { type: 'breastfeeding', side: 'left', startedAt: '2025-03-10T04:00:00.000Z', durationMinutes: 15 },
+    { type: 'bottle', amountMl: 120, startedAt: '2025-03-10T07:00:00.000Z' },
+    { type: 'sleep', sleepKind: 'nap', startedAt: '2025-03-10T09:00:00.000Z', endedAt: '2025-03-10T10:30:00.000Z' },
+    { type: 'diaper', diaperKind: 'wet', startedAt: '2025-03-10T11:00:00.000Z' },
+    { type: 'diaper', diaperKind: 'dirty', startedAt: '2025-03-10T22:00:00.000Z' },
+  ];
+
+  it('uses the parent timezone for day boundaries', () => {
+    const summary = summarizeCareDay(entries, '2025-03-10', 'Europe/Istanbul');
+    // Night sleep counts from 21:00Z (local midnight) to 03:00Z, plus a 1.5h nap.
+    expect(summary.sleepHours).toBe(7.5);
+    expect(summary.nightSleepHours).toBe(6);
+    expect(summary.napCount).toBe(1);
+    // 22:00Z is already March 11th in Istanbul.
+    expect(summary.diapers.total).toBe(1);
+  });
+
+  it('computes feed totals and the average interval', () => {
+    const summary = summarizeCareDay(entries, '2025-03-10', 'Europe/Istanbul');
+    expect(summary.feedCount).toBe(2);
+    expect(summary.breastfeedingMinutes).toBe(15);
+    expect(summary.bottleMl).toBe(120);
+    expect(summary.averageFeedIntervalMinutes).toBe(180);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from '@jest/globals';
+import { config } from '../src/config';
+import { getChatModelBucket, pickChatModelCohort, resolveChatModel } from '../src/server/bebek/services/chatModelProvider';
+import { createFakeChatProvider } from '../src/server/bebek/services/fakeChatProvider';
+
+const request = (message: string) => ({ systemPrompt: '', context: '', history: [{ role: 'user', content: message }], model: 'echo' });
+
+describe('Chat model providers', () => {
+  it('echoes the latest user message deterministically', async () => {
+    const provider = createFakeChatProvider();
+    await expect(provider.generate(request('Bebeğim uyumuyor'))).resolves.toBe('Echo: Bebeğim uyumuyor');
+    await expect(provider.generate(request('Bebeğim uyumuyor'))).resolves.toBe('Echo: Bebeğim uyumuyor');
+  });
+
+  it('plays scripted replies in order and streams them word by word', async () => {
+    const provider = createFakeChatProvider({ replies: ['Bir iki üç', 'Dört'] });
+    const deltas: string[] = [];
+    const streamed = await provider.stream({ ...request('x'), onDelta: delta => deltas.push(delta) });
+    expect(streamed).toBe('Bir iki üç');
+    expect(deltas).toEqual(['Bir ', 'iki ', 'üç']);
+    await expect(provider.generate(request('x'))).resolves.toBe('Dört');
+  });
+
+  it('stops streaming once the signal aborts', async () => {
+    const controller = new AbortController();
+    const provider = createFakeChatProvider({ replies: ['Bir iki üç'] });
+    const streamed = await provider.stream({ ...request('x'), signal: controller.signal, onDelta: () => controller.abort() });
+    expect(streamed).toBe('Bir');
+  });
+
+  it('assigns users to cohorts by a stable hash bucket', () => {
+    const cohorts = [
+      { name: 'fake-half', percent: 50, provider: 'fake', model: null },
+      { name: 'gemini-half', percent: 50, provider: 'gemini', model: 'gemini-2.5-flash' },
+    ];
+    const userIds = Array.from({ length: 40 }, (_, index) => `user-${index}`);
+    userIds.forEach(userId => {
+      const bucket = getChatModelBucket(userId);
+      expect(bucket).toBe(getChatModelBucket(userId));
+      expect(pickChatModelCohort(userId, cohorts)?.name).toBe(bucket < 50 ? 'fake-half' : 'gemini-half');
+    });
+    expect(pickChatModelCohort('user-1', [])).toBeNull();
+  });
+
+  it('only accepts plain or allowlisted model names in overrides', () => {
+    const resolve = (model: string) => resolveChatModel({ userId: 'user-1', requested: { provider: 'gemini', model } });
+    config.chatModel.allowRequestOverride = true;
+    try {
+      expect(resolve('gemini-2.5-flash').selection).toMatchObject({ provider: 'gemini', model: 'gemini-2.5-flash' });
+      ['../files', 'gemini:streamGenerateContent?key=x', 'Gemini-Pro', 'a b'].forEach(model => {
+        expect(resolve(model)).toEqual({ selection: null, reason: 'invalid_model' });
+      });
+
+      config.chatModel.allowedModels = ['gemini-2.5-flash'];
+      expect(resolve('gemini-2.5-flash').selection).not.toBeNull();
+      expect(resolve('gemini-2.5-pro').reason).toBe('invalid_model');
+    } finally {
+      config.chatModel.allowRequestOverride = false;
+      config.chatModel.allowedModels = [];
+    }
+  });
+});
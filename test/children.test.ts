@@ -0,0 +1,88 @@
+import express from 'express';
+import request from 'supertest';
+import { createAddChildRouter } from '../src/routes/addChild';
+import { mockBatchSizes, mockFiles, mockStore, resetMockFirebase, seedCollection } from './helpers/mocks';
+
+const mockAudit: Array<{ action: string; details: any }> = [];
+
+jest.mock('../src/firebase', () => require('./helpers/mocks').firebaseMock);
+jest.mock('../src/middleware/authMiddleware', () => require('./helpers/mocks').authMiddlewareMock);
+
+jest.mock('../src/services/websocketService', () => ({ getWebSocketService: () => null }));
+
+jest.mock('../src/services/auditService', () => ({
+  auditService: {
+    logUserAction: async (_userId: string, action: string, details: any) => {
+      mockAudit.push({ action, details });
+    },
+  },
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/children', createAddChildRouter());
+
+const seedMany = (name: string, count: number, build: (index: number) => any) => {
+  const docs: Record<string, any> = {};
+  for (let i = 0; i < count; i += 1) docs[`${name.split('/').pop()}-${i}`] = build(i);
+  mockStore.set(name, new Map([...(mockStore.get(name) || new Map()), ...Object.entries(docs)]));
+};
+
+beforeEach(() => {
+  resetMockFirebase();
+  mockAudit.length = 0;
+  seedCollection('AddChild', {
+    c1: { parentUuid: 'owner', name: 'Deniz', birthDate: '2025-01-01' },
+    c2: { parentUuid: 'owner', name: 'Ada', birthDate: '2023-01-01' },
+  });
+  seedCollection('household_members', {
+    owner_editor: { householdId: 'owner', userId: 'editor', role: 'editor' },
+  });
+});
+
+describe('Child deletion', () => {
+  it('deletes every session, message and generated item about the child in batches of at most 500', async () => {
+    seedCollection('chat_sessions', {
+      s1: { user_id: 'owner', child_id: 'c1' },
+      s2: { user_id: 'editor', child_id: 'c1' },
+      s3: { user_id: 'owner', child_id: 'c2' },
+    });
+    seedMany('chat_messages', 1203, index => ({ session_id: index < 1200 ? 's1' : 's2', content: `mesaj ${index}` }));
+    mockStore.get('chat_messages')!.set('other', { session_id: 's3', content: 'Ada' });
+    seedMany('users/owner/generatedPhotos', 620, index => ({ childId: 'c1', outputImagePath: `generated/owner/${index}.png` }));
+    seedMany('users/editor/generatedPhotos', 2, index => ({
+      childId: 'c1',
+      inputMotherImagePath: `inputs/editor/${index}-mother.jpg`,
+      inputFatherImagePath: `inputs/editor/${index}-father.jpg`,
+      templateImagePath: 'templates/wedding/w1.jpg',
+    }));
+    mockStore.get('users/owner/generatedPhotos')!.set('keep', { childId: 'c2', outputImagePath: 'generated/owner/keep.png' });
+    mockFiles.set('generated/owner/0.png', { body: Buffer.from('x'), options: {} });
+    mockFiles.set('generated/owner/keep.png', { body: Buffer.from('x'), options: {} });
+    ['inputs/editor/0-mother.jpg', 'inputs/editor/1-father.jpg', 'templates/wedding/w1.jpg'].forEach(path =>
+      mockFiles.set(path, { body: Buffer.from('x'), options: {} }),
+    );
+
+    const response = await request(app).delete('/children/c1').set('x-test-user', 'owner').expect(200);
+    expect(response.body).toMatchObject({ sessionsDeleted: 2, messagesDeleted: 1203, mediaDeleted: 622 });
+
+    expect(Math.max(...mockBatchSizes)).toBeLessThanOrEqual(500);
+    expect(Array.from(mockStore.get('chat_sessions')!.keys())).toEqual(['s3']);
+    expect(Array.from(mockStore.get('chat_messages')!.keys())).toEqual(['other']);
+    expect(Array.from(mockStore.get('users/owner/generatedPhotos')!.keys())).toEqual(['keep']);
+    expect(mockStore.get('users/editor/generatedPhotos')!.size).toBe(0);
+    expect(Array.from(mockFiles.keys())).toEqual(['generated/owner/keep.png', 'templates/wedding/w1.jpg']);
+    expect(mockStore.get('AddChild')!.has('c1')).toBe(false);
+    expect(mockAudit).toEqual([expect.objectContaining({ action: 'child_deleted' })]);
+  });
+
+  it('only lets household owners delete a child', async () => {
+    seedCollection('chat_sessions', { s1: { user_id: 'owner', child_id: 'c1' } });
+
+    await request(app).delete('/children/c1').set('x-test-user', 'editor').expect(403);
+    await request(app).delete('/children/c1').set('x-test-user', 'stranger').expect(403);
+    await request(app).delete('/children/missing').set('x-test-user', 'owner').expect(404);
+    expect(mockStore.get('AddChild')!.has('c1')).toBe(true);
+    expect(mockStore.get('chat_sessions')!.has('s1')).toBe(true);
+  });
+});
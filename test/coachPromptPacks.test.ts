@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  COACH_LANGUAGES,
+  COACH_PROMPT_PACKS,
+  getEmojiGuide,
+  getLengthGuide,
+  getToneGuide,
+} from '../src/server/bebek/data/coachPromptPacks';
+import { parseAcceptLanguage, resolveCoachLanguage } from '../src/server/bebek/utils/language';
+
+const shapeOf = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.length;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, shapeOf((value as any)[key])]));
+  }
+  return typeof value;
+};
+
+describe('Coach prompt packs', () => {
+  it('defines a pack with the same shape for every language', () => {
+    const [first, ...rest] = COACH_LANGUAGES.map(language => COACH_PROMPT_PACKS[language]);
+    rest.forEach(pack => expect(shapeOf(pack)).toEqual(shapeOf(first)));
+    COACH_LANGUAGES.forEach(language => expect(COACH_PROMPT_PACKS[language].language).toBe(language));
+  });
+
+  it('quotes the refusal message in the system prompt it is paired with', () => {
+    COACH_LANGUAGES.forEach(language => {
+      const pack = COACH_PROMPT_PACKS[language];
+      expect(pack.systemPrompt).toContain(`"${pack.refusalMessage}"`);
+      expect(pack.urgentCareMessage).toContain('112');
+    });
+  });
+
+  it('maps Turkish and English personalization values onto the same guides', () => {
+    const tr = COACH_PROMPT_PACKS.tr;
+    const en = COACH_PROMPT_PACKS.en;
+    expect(getToneGuide(tr, 'Neşeli')).toBe(tr.toneGuides.joyful);
+    expect(getToneGuide(en, 'neseli')).toBe(en.toneGuides.joyful);
+    expect(getToneGuide(en, 'profesyonel')).toBe('Use a professional, clear and structured tone.');
+    expect(getLengthGuide(tr, 'short')).toBe('Yanıtı kısa ve doğrudan ver.');
+    expect(getLengthGuide(en, 'detaylı')).toBe(en.lengthGuides.detailed);
+    expect(getEmojiGuide(en, 'emoji_yok')).toBe('Do not use emoji.');
+    expect(getEmojiGuide(tr, 'something-else')).toBe(tr.emojiGuides.default);
+  });
+});
+
+describe('Coach language resolution', () => {
+  it('orders Accept-Language entries by quality and drops wildcards', () => {
+    expect(parseAcceptLanguage('fr-CH, fr;q=0.9, en;q=0.8, *;q=0.5')).toEqual(['fr', 'fr', 'en']);
+    expect(parseAcceptLanguage('tr;q=0.4, en-GB')).toEqual(['en', 'tr']);
+    expect(parseAcceptLanguage('en;q=0, tr')).toEqual(['tr']);
+    expect(parseAcceptLanguage(undefined)).toEqual([]);
+  });
+
+  it('prefers the profile language, then the header, then Turkish', () => {
+    expect(resolveCoachLanguage({ user: { language: 'en', language_explicit: true }, acceptLanguage: 'tr-TR' })).toBe('en');
+    expect(resolveCoachLanguage({ user: { language: 'tr', language_explicit: true }, acceptLanguage: 'en' })).toBe('tr');
+    expect(resolveCoachLanguage({ user: { language: 'tr' }, acceptLanguage: 'en' })).toBe('en');
+    expect(resolveCoachLanguage({ acceptLanguage: 'de-DE, en-US;q=0.7' })).toBe('en');
+    expect(resolveCoachLanguage({ user: { language: 'es', language_explicit: true }, acceptLanguage: 'en' })).toBe('en');
+    expect(resolveCoachLanguage({ acceptLanguage: 'de-DE' })).toBe('tr');
+    expect(resolveCoachLanguage({})).toBe('tr');
+  });
+});
@@ -1,417 +1,801 @@
+import express from 'express';
 import request from 'supertest';
-import { app } from '../../src/index';
-import { logger } from '../../src/utils/logger';
-
-describe('💬 Chat Endpoints - Comprehensive Test Suite', () => {
-  let authToken: string;
-  let testSessionId: string;
-
-  beforeAll(async () => {
-    logger.info('🚀 Starting Chat Endpoints Test Suite');
-    // Mock auth token for testing
-    authToken = 'mock-auth-token';
-    testSessionId = 'test-session-123';
-  });
-
-  afterAll(async () => {
-    logger.info('✅ Chat Endpoints Test Suite Completed');
-  });
-
-  describe('POST /chat/send', () => {
-    const testCases = [
-      {
-        name: 'Valid chat message',
-        data: {
-          message: 'Hello, how are you?',
-          sessionId: testSessionId
-        },
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 200,
-        shouldSucceed: true
-      },
-      {
-        name: 'Chat message without sessionId',
-        data: {
-          message: 'Hello, how are you?'
-        },
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 400,
-        shouldSucceed: false
-      },
-      {
-        name: 'Chat message without message',
-        data: {
-          sessionId: testSessionId
-        },
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 400,
-        shouldSucceed: false
-      },
-      {
-        name: 'Chat message without auth token',
-        data: {
-          message: 'Hello, how are you?',
-          sessionId: testSessionId
-        },
-        headers: {},
-        expectedStatus: 401,
-        shouldSucceed: false
-      },
-      {
-        name: 'Empty message',
-        data: {
-          message: '',
-          sessionId: testSessionId
-        },
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 400,
-        shouldSucceed: false
-      },
-      {
-        name: 'Very long message',
-        data: {
-          message: 'A'.repeat(10000),
-          sessionId: testSessionId
-        },
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 400,
-        shouldSucceed: false
-      },
-      {
-        name: 'Message with special characters',
-        data: {
-          message: 'Hello! @#$%^&*()_+{}|:"<>?[]\\;\',./',
-          sessionId: testSessionId
-        },
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 200,
-        shouldSucceed: true
-      },
-      {
-        name: 'Message with emojis',
-        data: {
-          message: 'Hello! 😀🎉🚀💯',
-          sessionId: testSessionId
-        },
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 200,
-        shouldSucceed: true
-      }
-    ];
-
-    testCases.forEach((testCase, index) => {
-      it(`Test Case ${index + 1}: ${testCase.name}`, async () => {
-        logger.info(`🧪 Running: ${testCase.name}`);
-        
-        const startTime = Date.now();
-        const response = await request(app)
-          .post('/chat/send')
-          .set(testCase.headers)
-          .send(testCase.data)
-          .expect(testCase.expectedStatus);
-        
-        const duration = Date.now() - startTime;
-        
-        if (testCase.shouldSucceed) {
-          expect(response.body.success).toBe(true);
-          expect(response.body.data).toHaveProperty('messageId');
-          expect(response.body.data).toHaveProperty('response');
-          logger.info(`✅ SUCCESS: ${testCase.name} (${duration}ms)`);
-        } else {
-          expect(response.body.success).toBe(false);
-          expect(response.body.error).toBeDefined();
-          logger.info(`❌ EXPECTED FAILURE: ${testCase.name} - ${response.body.error} (${duration}ms)`);
-        }
-      });
+import { config } from '../../src/config';
+import { createChatRouter } from '../../src/routes/chat';
+import { registerChatModelProvider } from '../../src/server/bebek/services/chatModelProvider';
+import { summarizeChatFeedback } from '../../src/server/bebek/services/chatFeedbackService';
+import { createFakeChatProvider } from '../../src/server/bebek/services/fakeChatProvider';
+import { MAX_CHILD_MEMORIES, waitForChildMemoryExtractions } from '../../src/server/bebek/services/childMemoryService';
+import { deleteExpiredChatExports } from '../../src/server/bebek/services/chatExportService';
+import { createKnowledgeArticle, invalidateKnowledgeIndex } from '../../src/server/bebek/services/knowledgeBaseService';
+import { mockFiles, mockStore, resetMockFirebase } from '../helpers/mocks';
+
+jest.mock('../../src/firebase', () => require('../helpers/mocks').firebaseMock);
+jest.mock('../../src/middleware/authMiddleware', () => require('../helpers/mocks').authMiddlewareMock);
+jest.mock('../../src/redis', () => require('../helpers/mocks').redisMock);
+
+jest.mock('../../src/services/websocketService', () => ({ getWebSocketService: () => null }));
+
+jest.mock('../../src/server/bebek/services/userInfoService', () => ({
+  ensureUserInfo: async (userId: string) => ({ id: userId, ...mockStore.get('users_info')?.get(userId) }),
+  getUserInfo: async (userId: string) => mockStore.get('users_info')?.get(userId) || null,
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/chat', createChatRouter());
+
+describe('Chat session ownership', () => {
+  const seedSession = (id: string, userId: string) => {
+    mockStore.set('chat_sessions', new Map([[id, { user_id: userId, status: 'open' }]]));
+    mockStore.set(
+      'chat_messages',
+      new Map([['m1', { session_id: id, role: 'user', content: 'Bebeğim uyumuyor', created_at: '2025-01-01T00:00:00.000Z' }]]),
+    );
+  };
+
+  beforeEach(() => {
+    resetMockFirebase();
+    seedSession('family-a-session', 'user-a');
+  });
+
+  it('returns messages to the session owner', async () => {
+    const response = await request(app)
+      .get('/chat/sessions/family-a-session/messages')
+      .set('x-test-user', 'user-a')
+      .expect(200);
+    expect(response.body.messages).toHaveLength(1);
+  });
+
+  it('rejects reading another user\'s session with 403', async () => {
+    const response = await request(app)
+      .get('/chat/sessions/family-a-session/messages')
+      .set('x-test-user', 'user-b')
+      .expect(403);
+    expect(response.body.error).toBe('forbidden');
+    expect(response.body.messages).toBeUndefined();
+  });
+
+  it('returns 404 for an unknown session', async () => {
+    await request(app).get('/chat/sessions/missing/messages').set('x-test-user', 'user-a').expect(404);
+  });
+
+  it('rejects posting into another user\'s session without persisting the message', async () => {
+    const response = await request(app)
+      .post('/chat')
+      .set('x-test-user', 'user-b')
+      .send({ sessionId: 'family-a-session', message: 'Merhaba' })
+      .expect(403);
+    expect(response.body.error).toBe('forbidden');
+    expect(mockStore.get('chat_messages')!.size).toBe(1);
+  });
+
+  it('returns 404 when posting into an unknown session', async () => {
+    await request(app)
+      .post('/chat')
+      .set('x-test-user', 'user-a')
+      .send({ sessionId: 'missing', message: 'Merhaba' })
+      .expect(404);
+  });
+
+  it('applies the same rule to rename and delete', async () => {
+    await request(app)
+      .patch('/chat/sessions/family-a-session/title')
+      .set('x-test-user', 'user-b')
+      .send({ title: 'Benim' })
+      .expect(403);
+    await request(app).delete('/chat/sessions/family-a-session').set('x-test-user', 'user-b').expect(403);
+    expect(mockStore.get('chat_sessions')!.has('family-a-session')).toBe(true);
+  });
+});
+
+describe('Chat pagination', () => {
+  beforeEach(() => {
+    resetMockFirebase();
+    mockStore.set(
+      'chat_sessions',
+      new Map([['s1', { user_id: 'user-a', created_at: '2025-01-01T00:00:00.000Z', message_count: 5 }]]),
+    );
+    const messages = new Map<string, any>();
+    for (let i = 1; i <= 5; i += 1) {
+      messages.set(`m${i}`, { session_id: 's1', role: 'user', content: `mesaj ${i}`, created_at: `2025-01-01T00:0${i}:00.000Z` });
+    }
+    mockStore.set('chat_messages', messages);
+  });
+
+  it('pages messages backwards from the newest and returns them oldest-first', async () => {
+    const first = await request(app)
+      .get('/chat/sessions/s1/messages?limit=2')
+      .set('x-test-user', 'user-a')
+      .expect(200);
+    expect(first.body.messages.map((m: any) => m.id)).toEqual(['m4', 'm5']);
+    expect(first.body.pageInfo.hasMore).toBe(true);
+
+    const older = await request(app)
+      .get(`/chat/sessions/s1/messages?limit=2&before=${first.body.pageInfo.beforeCursor}`)
+      .set('x-test-user', 'user-a')
+      .expect(200);
+    expect(older.body.messages.map((m: any) => m.id)).toEqual(['m2', 'm3']);
+
+    const newer = await request(app)
+      .get(`/chat/sessions/s1/messages?limit=10&after=${older.body.pageInfo.afterCursor}`)
+      .set('x-test-user', 'user-a')
+      .expect(200);
+    expect(newer.body.messages.map((m: any) => m.id)).toEqual(['m4', 'm5']);
+    expect(newer.body.pageInfo.hasMore).toBe(false);
+  });
+
+  it('rejects malformed cursors and limits', async () => {
+    await request(app).get('/chat/sessions/s1/messages?before=nope').set('x-test-user', 'user-a').expect(400);
+    await request(app).get('/chat/sessions?limit=0').set('x-test-user', 'user-a').expect(400);
+  });
+
+  it('lists sessions from the denormalized preview', async () => {
+    mockStore.get('chat_sessions')!.set('s2', {
+      user_id: 'user-a',
+      created_at: '2025-02-01T00:00:00.000Z',
+      message_count: 3,
+      last_message_preview: 'Uyku düzeni',
     });
+    const response = await request(app).get('/chat/sessions?limit=1').set('x-test-user', 'user-a').expect(200);
+    expect(response.body.sessions).toHaveLength(1);
+    expect(response.body.sessions[0]).toMatchObject({ id: 's2', lastMessage: 'Uyku düzeni', message_count: 3 });
+    expect(response.body.pageInfo.hasMore).toBe(true);
   });
+});
 
-  describe('GET /chat/history/:sessionId', () => {
-    const testCases = [
-      {
-        name: 'Get chat history with valid session',
-        sessionId: testSessionId,
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 200,
-        shouldSucceed: true
-      },
-      {
-        name: 'Get chat history without auth token',
-        sessionId: testSessionId,
-        headers: {},
-        expectedStatus: 401,
-        shouldSucceed: false
-      },
-      {
-        name: 'Get chat history with invalid session',
-        sessionId: 'invalid-session-id',
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 404,
-        shouldSucceed: false
+describe('Chat SSE streaming', () => {
+  beforeEach(() => {
+    resetMockFirebase();
+    mockStore.set('chat_sessions', new Map([['s1', { user_id: 'user-a', message_count: 0 }]]));
+  });
+
+  it('streams deltas as server-sent events and persists the reply', async () => {
+    const response = await request(app)
+      .post('/chat/stream')
+      .set('x-test-user', 'user-a')
+      .send({ sessionId: 's1', message: 'Merhaba' })
+      .expect(200);
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    const events = response.text.match(/^event: \w+/gm);
+    expect(events).toEqual(['event: start', 'event: delta', 'event: delta', 'event: done']);
+
+    const stored = Array.from(mockStore.get('chat_messages')!.values());
+    expect(stored.find((item: any) => item.role === 'assistant')?.content).toBe('Echo: Merhaba');
+  });
+
+  it('resumes from the Last-Event-ID and replays only the missed chunks', async () => {
+    const first = await request(app)
+      .post('/chat/stream')
+      .set('x-test-user', 'user-a')
+      .send({ sessionId: 's1', message: 'Bir iki üç' })
+      .expect(200);
+    expect(first.text.match(/^id: \d+/gm)).toEqual(['id: 1', 'id: 2', 'id: 3', 'id: 4', 'id: 5']);
+    const messageId = first.text.match(/"messageId":"([^"]+)"/)![1];
+
+    const resumed = await request(app)
+      .get(`/chat/streams/${messageId}`)
+      .set('x-test-user', 'user-a')
+      .set('Last-Event-ID', '2')
+      .expect(200);
+    const replayed = resumed.text
+      .split('\n\n')
+      .filter(block => block.startsWith('id:'))
+      .map(block => JSON.parse(block.split('\ndata: ')[1]));
+    expect(replayed.map(chunk => chunk.seq)).toEqual([3, 4, 5]);
+    expect(replayed.map(chunk => chunk.delta ?? null)).toEqual(['iki ', 'üç', null]);
+    expect(replayed[2]).toMatchObject({ isFinal: true, content: 'Echo: Bir iki üç' });
+
+    const byQuery = await request(app).get(`/chat/streams/${messageId}?fromSeq=4`).set('x-test-user', 'user-a').expect(200);
+    expect(byQuery.text.match(/^id: \d+/gm)).toEqual(['id: 5']);
+
+    // Caught up at the final chunk: the stream closes at once instead of polling until the buffer expires.
+    const pollMs = config.chatStream.resumePollMs;
+    config.chatStream.resumePollMs = 60_000;
+    try {
+      const startedAt = Date.now();
+      const caughtUp = await request(app).get(`/chat/streams/${messageId}`).set('x-test-user', 'user-a').set('Last-Event-ID', '5').expect(200);
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(caughtUp.text).not.toMatch(/^id:/m);
+      expect(caughtUp.text).toContain(`event: done\ndata: {"chatId":"s1","messageId":"${messageId}","lastSeq":5,"isFinal":true}`);
+    } finally {
+      config.chatStream.resumePollMs = pollMs;
+    }
+    await request(app).get(`/chat/streams/${messageId}`).set('x-test-user', 'user-b').expect(403);
+    await request(app).get(`/chat/streams/${messageId}`).set('x-test-user', 'user-a').set('Last-Event-ID', 'x').expect(400);
+  });
+
+  it('answers ownership failures with JSON before the stream opens', async () => {
+    const response = await request(app)
+      .post('/chat/stream')
+      .set('x-test-user', 'user-b')
+      .send({ sessionId: 's1', message: 'Merhaba' })
+      .expect(403);
+    expect(response.body.error).toBe('forbidden');
+  });
+});
+
+describe('Chat branching', () => {
+  const messages = () => Array.from(mockStore.get('chat_messages')!.entries()).map(([id, data]) => ({ id, ...data }));
+
+  beforeEach(() => {
+    resetMockFirebase();
+    mockStore.set('chat_sessions', new Map([['s1', { user_id: 'user-a', message_count: 0, active_leaf_id: null }]]));
+  });
+
+  it('regenerates the last reply as a sibling and lists only the active branch', async () => {
+    await request(app).post('/chat').set('x-test-user', 'user-a').send({ sessionId: 's1', message: 'Merhaba' }).expect(200);
+    const regenerated = await request(app).post('/chat/sessions/s1/regenerate').set('x-test-user', 'user-a').expect(200);
+
+    const replies = messages().filter(item => item.role === 'assistant');
+    expect(replies).toHaveLength(2);
+    expect(new Set(replies.map(item => item.parent_message_id)).size).toBe(1);
+
+    const listed = await request(app).get('/chat/sessions/s1/messages').set('x-test-user', 'user-a').expect(200);
+    expect(listed.body.messages.map((m: any) => m.role)).toEqual(['user', 'assistant']);
+    expect(listed.body.messages[1]).toMatchObject({ id: regenerated.body.messageId, sibling_count: 2, sibling_index: 1 });
+    expect(listed.body.activeLeafId).toBe(regenerated.body.messageId);
+  });
+
+  it('forks the conversation when a user message is edited and can switch back', async () => {
+    const first = await request(app)
+      .post('/chat')
+      .set('x-test-user', 'user-a')
+      .send({ sessionId: 's1', message: 'Bebeğim uyumuyor' })
+      .expect(200);
+    await request(app).post('/chat').set('x-test-user', 'user-a').send({ sessionId: 's1', message: 'Ne yapmalıyım?' }).expect(200);
+
+    const edited = await request(app)
+      .post(`/chat/sessions/s1/messages/${first.body.userMessageId}/edit`)
+      .set('x-test-user', 'user-a')
+      .send({ message: 'Bebeğim gece uyanıyor' })
+      .expect(200);
+
+    const listed = await request(app).get('/chat/sessions/s1/messages').set('x-test-user', 'user-a').expect(200);
+    expect(listed.body.messages.map((m: any) => m.content)).toEqual(['Bebeğim gece uyanıyor', 'Echo: Bebeğim gece uyanıyor']);
+    expect(listed.body.messages[0]).toMatchObject({ id: edited.body.userMessageId, sibling_count: 2 });
+
+    await request(app)
+      .put('/chat/sessions/s1/branch')
+      .set('x-test-user', 'user-a')
+      .send({ messageId: first.body.userMessageId })
+      .expect(200);
+    const original = await request(app).get('/chat/sessions/s1/messages').set('x-test-user', 'user-a').expect(200);
+    expect(original.body.messages).toHaveLength(4);
+    expect(original.body.messages[2].content).toBe('Ne yapmalıyım?');
+  });
+
+  it('rejects editing assistant messages and regenerating an empty session', async () => {
+    await request(app).post('/chat/sessions/s1/regenerate').set('x-test-user', 'user-a').expect(409);
+    const sent = await request(app).post('/chat').set('x-test-user', 'user-a').send({ sessionId: 's1', message: 'Merhaba' }).expect(200);
+    await request(app)
+      .post(`/chat/sessions/s1/messages/${sent.body.messageId}/edit`)
+      .set('x-test-user', 'user-a')
+      .send({ message: 'Selam' })
+      .expect(400);
+    await request(app)
+      .post('/chat/sessions/s1/messages/missing/edit')
+      .set('x-test-user', 'user-a')
+      .send({ message: 'Selam' })
+      .expect(404);
+  });
+
+  it('sends the original photo again when a message is regenerated or edited', async () => {
+    const images: any[] = [];
+    registerChatModelProvider({
+      ...createFakeChatProvider({ name: 'image-capture' }),
+      generate: async request => {
+        images.push(request.image || null);
+        return 'Fotoğrafa baktım';
       },
-      {
-        name: 'Get chat history with empty sessionId',
-        sessionId: '',
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 404,
-        shouldSucceed: false
-      }
-    ];
-
-    testCases.forEach((testCase, index) => {
-      it(`Test Case ${index + 1}: ${testCase.name}`, async () => {
-        logger.info(`🧪 Running: ${testCase.name}`);
-        
-        const startTime = Date.now();
-        const response = await request(app)
-          .get(`/chat/history/${testCase.sessionId}`)
-          .set(testCase.headers)
-          .expect(testCase.expectedStatus);
-        
-        const duration = Date.now() - startTime;
-        
-        if (testCase.shouldSucceed) {
-          expect(response.body.success).toBe(true);
-          expect(response.body.data).toHaveProperty('messages');
-          expect(Array.isArray(response.body.data.messages)).toBe(true);
-          logger.info(`✅ SUCCESS: ${testCase.name} (${duration}ms)`);
-        } else {
-          expect(response.body.success).toBe(false);
-          expect(response.body.error).toBeDefined();
-          logger.info(`❌ EXPECTED FAILURE: ${testCase.name} - ${response.body.error} (${duration}ms)`);
-        }
-      });
     });
+    config.chatModel.allowRequestOverride = true;
+    const model = { provider: 'image-capture' };
+    const photo = { data: Buffer.from('fake-png').toString('base64'), mimeType: 'image/png' };
+
+    try {
+      const sent = await request(app)
+        .post('/chat')
+        .set('x-test-user', 'user-a')
+        .send({ sessionId: 's1', message: 'Bu döküntü ne?', image: photo, model })
+        .expect(200);
+      const stored = mockStore.get('chat_messages')!.get(sent.body.userMessageId);
+      expect(stored.image).toEqual({ mimeType: 'image/png', path: `users/user-a/chat_images/s1/${sent.body.userMessageId}` });
+      expect(mockFiles.get(stored.image.path)?.body.toString()).toBe('fake-png');
+
+      await request(app).post('/chat/sessions/s1/regenerate').set('x-test-user', 'user-a').send({ model }).expect(200);
+      const edited = await request(app)
+        .post(`/chat/sessions/s1/messages/${sent.body.userMessageId}/edit`)
+        .set('x-test-user', 'user-a')
+        .send({ message: 'Bu kızarıklık ne?', model })
+        .expect(200);
+      expect(images).toEqual([photo, photo, photo]);
+      expect(mockStore.get('chat_messages')!.get(edited.body.userMessageId).image).toEqual(stored.image);
+
+      await request(app).delete('/chat/sessions/s1').set('x-test-user', 'user-a').expect(200);
+      expect(mockFiles.size).toBe(0);
+    } finally {
+      config.chatModel.allowRequestOverride = false;
+    }
   });
+});
 
-  describe('DELETE /chat/session/:sessionId', () => {
-    const testCases = [
-      {
-        name: 'Delete chat session with valid session',
-        sessionId: testSessionId,
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 200,
-        shouldSucceed: true
-      },
-      {
-        name: 'Delete chat session without auth token',
-        sessionId: testSessionId,
-        headers: {},
-        expectedStatus: 401,
-        shouldSucceed: false
-      },
-      {
-        name: 'Delete chat session with invalid session',
-        sessionId: 'invalid-session-id',
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 404,
-        shouldSucceed: false
-      }
-    ];
-
-    testCases.forEach((testCase, index) => {
-      it(`Test Case ${index + 1}: ${testCase.name}`, async () => {
-        logger.info(`🧪 Running: ${testCase.name}`);
-        
-        const startTime = Date.now();
-        const response = await request(app)
-          .delete(`/chat/session/${testCase.sessionId}`)
-          .set(testCase.headers)
-          .expect(testCase.expectedStatus);
-        
-        const duration = Date.now() - startTime;
-        
-        if (testCase.shouldSucceed) {
-          expect(response.body.success).toBe(true);
-          logger.info(`✅ SUCCESS: ${testCase.name} (${duration}ms)`);
-        } else {
-          expect(response.body.success).toBe(false);
-          expect(response.body.error).toBeDefined();
-          logger.info(`❌ EXPECTED FAILURE: ${testCase.name} - ${response.body.error} (${duration}ms)`);
-        }
-      });
+describe('Chat triage', () => {
+  beforeEach(() => {
+    resetMockFirebase();
+    mockStore.set('chat_sessions', new Map([['s1', { user_id: 'user-a', message_count: 0, active_leaf_id: null }]]));
+  });
+
+  it('answers red flags with the urgent-care template and tags the reply', async () => {
+    const response = await request(app)
+      .post('/chat')
+      .set('x-test-user', 'user-a')
+      .send({ sessionId: 's1', message: 'Bebeğim nefes alamıyor, dudakları mor' })
+      .expect(200);
+
+    expect(response.body.reply).toContain('112');
+    expect(response.body.triage.rule_ids).toEqual(['breathing_difficulty', 'cyanosis']);
+    const reply = mockStore.get('chat_messages')!.get(response.body.messageId);
+    expect(reply).toMatchObject({ model: 'triage_template', triage: { ruleset_version: expect.any(String) } });
+  });
+
+  it('leaves ordinary questions to the coach', async () => {
+    const response = await request(app)
+      .post('/chat')
+      .set('x-test-user', 'user-a')
+      .send({ sessionId: 's1', message: 'Uyku düzeni için önerin var mı?' })
+      .expect(200);
+    expect(response.body).toMatchObject({ reply: 'Echo: Uyku düzeni için önerin var mı?', triage: null });
+  });
+});
+
+describe('Chat feedback', () => {
+  beforeEach(() => {
+    resetMockFirebase();
+    mockStore.set('chat_sessions', new Map([['s1', { user_id: 'user-a', message_count: 2, active_leaf_id: 'a1' }]]));
+    mockStore.set(
+      'chat_messages',
+      new Map<string, any>([
+        ['u1', { session_id: 's1', role: 'user', content: 'Ateşi var', parent_message_id: null, active: true }],
+        [
+          'a1',
+          {
+            session_id: 's1',
+            role: 'assistant',
+            content: 'Doktora danışın',
+            parent_message_id: 'u1',
+            active: true,
+            model: 'gemini-test',
+            tone: 'net_ve_kisa',
+            context_hash: 'abc',
+            created_at: '2025-05-01T21:30:00.000Z',
+          },
+        ],
+      ]),
+    );
+    // Changed after the reply was generated; feedback must not pick it up.
+    mockStore.set('ChatSettings', new Map([['user-a', { tone: 'neseli' }]]));
+  });
+
+  it('stores one rating per user with model, context hash and tone', async () => {
+    await request(app)
+      .put('/chat/messages/a1/feedback')
+      .set('x-test-user', 'user-a')
+      .send({ rating: 'up' })
+      .expect(200);
+    const response = await request(app)
+      .put('/chat/messages/a1/feedback')
+      .set('x-test-user', 'user-a')
+      .send({ rating: 'down', reasons: ['unsafe', 'too_long'], comment: 'Çok uzun' })
+      .expect(200);
+
+    expect(response.body.feedback).toMatchObject({
+      rating: 'down',
+      flagged: true,
+      model: 'gemini-test',
+      context_hash: 'abc',
+      tone: 'net_ve_kisa',
+      reply_date_key: '2025-05-01',
     });
+    expect(mockStore.get('chat_message_feedback')!.size).toBe(1);
+  });
+
+  it('stores the tone the reply was generated with', async () => {
+    const sent = await request(app)
+      .post('/chat')
+      .set('x-test-user', 'user-a')
+      .send({ sessionId: 's1', message: 'Ateşi düştü', context: { chatPersonalization: { tone: 'profesyonel' } } })
+      .expect(200);
+    expect(mockStore.get('chat_messages')!.get(sent.body.messageId).tone).toBe('profesyonel');
+
+    const response = await request(app)
+      .put(`/chat/messages/${sent.body.messageId}/feedback`)
+      .set('x-test-user', 'user-a')
+      .send({ rating: 'up' })
+      .expect(200);
+    expect(response.body.feedback.tone).toBe('profesyonel');
   });
 
-  describe('GET /chat/sessions', () => {
-    const testCases = [
-      {
-        name: 'Get user chat sessions',
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 200,
-        shouldSucceed: true
+  it('only accepts feedback on the owner\'s assistant messages', async () => {
+    await request(app).put('/chat/messages/u1/feedback').set('x-test-user', 'user-a').send({ rating: 'up' }).expect(400);
+    await request(app).put('/chat/messages/a1/feedback').set('x-test-user', 'user-b').send({ rating: 'up' }).expect(403);
+    await request(app).put('/chat/messages/a1/feedback').set('x-test-user', 'user-a').send({ rating: 'meh' }).expect(400);
+  });
+
+  it('aggregates feedback by model, tone and date', () => {
+    const summary = summarizeChatFeedback([
+      { rating: 'up', model: 'gemini-a', tone: 'neseli', reply_date_key: '2025-05-01', date_key: '2025-05-03', reasons: [] },
+      { rating: 'down', model: 'gemini-a', tone: 'profesyonel', reply_date_key: '2025-05-02', date_key: '2025-05-03', reasons: ['wrong'], flagged: false },
+      { rating: 'down', model: 'gemini-b', tone: 'neseli', reply_date_key: '2025-05-02', date_key: '2025-05-02', reasons: ['unsafe'], flagged: true },
+    ]);
+    expect(summary.overall).toMatchObject({ total: 3, up: 1, down: 2, flagged: 1 });
+    expect(summary.byModel.find(row => row.model === 'gemini-a')).toMatchObject({ total: 2, approvalRate: 0.5 });
+    expect(summary.byTone.find(row => row.tone === 'neseli')?.reasons.unsafe).toBe(1);
+    expect(summary.byDate.map(row => [row.date, row.total])).toEqual([
+      ['2025-05-01', 1],
+      ['2025-05-02', 2],
+    ]);
+  });
+});
+
+describe('Chat model selection', () => {
+  beforeEach(() => {
+    resetMockFirebase();
+    mockStore.set('chat_sessions', new Map([['s1', { user_id: 'user-a', message_count: 0, active_leaf_id: null }]]));
+  });
+
+  afterEach(() => {
+    config.chatModel.allowRequestOverride = false;
+  });
+
+  it('records the provider and model that produced the reply', async () => {
+    const response = await request(app).post('/chat').set('x-test-user', 'user-a').send({ sessionId: 's1', message: 'Selam' }).expect(200);
+    expect(mockStore.get('chat_messages')!.get(response.body.messageId)).toMatchObject({ provider: 'fake', model: 'echo' });
+  });
+
+  it('ignores per-request model selection unless overrides are enabled', async () => {
+    const body = { sessionId: 's1', message: 'Selam', model: { provider: 'scripted-test' } };
+    const rejected = await request(app).post('/chat').set('x-test-user', 'user-a').send(body).expect(400);
+    expect(rejected.body.message).toBe('Model selection is not enabled');
+
+    config.chatModel.allowRequestOverride = true;
+    registerChatModelProvider(createFakeChatProvider({ name: 'scripted-test', replies: ['Birinci', 'İkinci'] }));
+    const first = await request(app).post('/chat').set('x-test-user', 'user-a').send(body).expect(200);
+    const second = await request(app).post('/chat').set('x-test-user', 'user-a').send(body).expect(200);
+    expect([first.body.reply, second.body.reply]).toEqual(['Birinci', 'İkinci']);
+
+    await request(app)
+      .post('/chat')
+      .set('x-test-user', 'user-a')
+      .send({ ...body, model: { provider: 'missing' } })
+      .expect(400);
+    const badName = await request(app)
+      .post('/chat')
+      .set('x-test-user', 'user-a')
+      .send({ ...body, model: { provider: 'scripted-test', model: '../models/x:generate' } })
+      .expect(400);
+    expect(badName.body.message).toBe('Model is not allowed');
+  });
+});
+
+describe('Chat child memories', () => {
+  const contexts: string[] = [];
+  let extractionCalls = 0;
+  const childContext = (childId: string) => ({ childProfile: { id: childId } });
+  const memories = (childId: string) => Array.from(mockStore.get(`AddChild/${childId}/memories`)?.values() || []);
+
+  beforeAll(() => {
+    const echo = createFakeChatProvider();
+    registerChatModelProvider({
+      ...createFakeChatProvider({ name: 'capture-test' }),
+      extractMemories: async request => {
+        extractionCalls += 1;
+        return echo.extractMemories(request);
       },
-      {
-        name: 'Get chat sessions without auth token',
-        headers: {},
-        expectedStatus: 401,
-        shouldSucceed: false
+      generate: async request => {
+        contexts.push(request.context);
+        return echo.generate(request);
       },
-      {
-        name: 'Get chat sessions with invalid token',
-        headers: {
-          'Authorization': 'Bearer invalid-token'
-        },
-        expectedStatus: 401,
-        shouldSucceed: false
-      }
-    ];
-
-    testCases.forEach((testCase, index) => {
-      it(`Test Case ${index + 1}: ${testCase.name}`, async () => {
-        logger.info(`🧪 Running: ${testCase.name}`);
-        
-        const startTime = Date.now();
-        const response = await request(app)
-          .get('/chat/sessions')
-          .set(testCase.headers)
-          .expect(testCase.expectedStatus);
-        
-        const duration = Date.now() - startTime;
-        
-        if (testCase.shouldSucceed) {
-          expect(response.body.success).toBe(true);
-          expect(response.body.data).toHaveProperty('sessions');
-          expect(Array.isArray(response.body.data.sessions)).toBe(true);
-          logger.info(`✅ SUCCESS: ${testCase.name} (${duration}ms)`);
-        } else {
-          expect(response.body.success).toBe(false);
-          expect(response.body.error).toBeDefined();
-          logger.info(`❌ EXPECTED FAILURE: ${testCase.name} - ${response.body.error} (${duration}ms)`);
-        }
-      });
     });
   });
 
-  describe('POST /chat/tts', () => {
-    const testCases = [
-      {
-        name: 'Valid TTS request',
-        data: {
-          text: 'Hello, this is a test message for text to speech.',
-          sessionId: testSessionId
-        },
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 200,
-        shouldSucceed: true
-      },
-      {
-        name: 'TTS request without text',
-        data: {
-          sessionId: testSessionId
-        },
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 400,
-        shouldSucceed: false
-      },
-      {
-        name: 'TTS request without sessionId',
-        data: {
-          text: 'Hello, this is a test message for text to speech.'
-        },
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 400,
-        shouldSucceed: false
-      },
-      {
-        name: 'TTS request without auth token',
-        data: {
-          text: 'Hello, this is a test message for text to speech.',
-          sessionId: testSessionId
-        },
-        headers: {},
-        expectedStatus: 401,
-        shouldSucceed: false
-      },
-      {
-        name: 'TTS request with empty text',
-        data: {
-          text: '',
-          sessionId: testSessionId
-        },
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 400,
-        shouldSucceed: false
+  beforeEach(() => {
+    contexts.length = 0;
+    extractionCalls = 0;
+    resetMockFirebase();
+    mockStore.set(
+      'chat_sessions',
+      new Map([
+        ['s1', { user_id: 'user-a', message_count: 0, active_leaf_id: null }],
+        ['s2', { user_id: 'user-a', message_count: 0, active_leaf_id: null }],
+      ]),
+    );
+    mockStore.set(
+      'AddChild',
+      new Map([
+        ['c1', { parentUuid: 'user-a', name: 'Deniz', birthDate: '2025-01-01' }],
+        ['c2', { parentUuid: 'user-a', name: 'Ada', birthDate: '2023-01-01' }],
+      ]),
+    );
+    config.chatModel.allowRequestOverride = true;
+  });
+
+  afterEach(() => {
+    config.chatModel.allowRequestOverride = false;
+  });
+
+  // Extraction runs after the reply is sent, so each turn waits for it before the next one.
+  const send = async (sessionId: string, message: string, childId: string) => {
+    const response = await request(app)
+      .post('/chat')
+      .set('x-test-user', 'user-a')
+      .send({ sessionId, message, context: childContext(childId), model: { provider: 'capture-test' } })
+      .expect(200);
+    await waitForChildMemoryExtractions();
+    return response;
+  };
+
+  const seedMemories = (childId: string, items: Array<Record<string, unknown>>) =>
+    mockStore.set(
+      `AddChild/${childId}/memories`,
+      new Map(
+        items.map((item, index) => [
+          `m${index}`,
+          { id: `m${index}`, childId, createdAt: `2026-01-01T00:00:${String(index).padStart(2, '0')}.000Z`, ...item },
+        ]),
+      ),
+    );
+
+  it('extracts facts after each exchange and injects only the selected child\'s memories', async () => {
+    await send('s1', 'Deniz\'in yumurta alerjisi var. Ne pişirebilirim?', 'c1');
+    expect(memories('c1')).toEqual([
+      expect.objectContaining({ category: 'allergy', content: 'Deniz\'in yumurta alerjisi var.', source: 'chat' }),
+    ]);
+
+    await send('s2', 'Ada gece sık uyanıyor.', 'c2');
+    await send('s1', 'Öğle yemeği önerin var mı?', 'c1');
+    expect(memories('c2')).toEqual([expect.objectContaining({ category: 'sleep', content: 'Ada gece sık uyanıyor.' })]);
+    expect(contexts[2]).toContain('Alerji: Deniz\'in yumurta alerjisi var.');
+    expect(contexts[2]).not.toContain('Ada gece sık uyanıyor.');
+    expect(memories('c1')).toHaveLength(1);
+  });
+
+  it('updates a chat-extracted fact when it changes but leaves the parent\'s own records alone', async () => {
+    await send('s1', 'Deniz\'in yumurta alerjisi var.', 'c1');
+    const [first] = memories('c1');
+    await send('s1', 'Deniz\'in yumurta alerjisi geçti.', 'c1');
+    expect(memories('c1')).toEqual([
+      expect.objectContaining({ id: first.id, category: 'allergy', content: 'Deniz\'in yumurta alerjisi geçti.', source: 'chat' }),
+    ]);
+
+    seedMemories('c2', [{ category: 'sleep', content: 'Ada gece uyanıyor.', source: 'parent' }]);
+    await send('s2', 'Ada artık gece uyanıyor ama hemen uyuyor.', 'c2');
+    expect(memories('c2')).toEqual([expect.objectContaining({ content: 'Ada gece uyanıyor.', source: 'parent' })]);
+  });
+
+  it('skips extraction once the child has the maximum number of memories', async () => {
+    seedMemories(
+      'c1',
+      Array.from({ length: MAX_CHILD_MEMORIES }, (_, index) => ({ category: 'other', content: `Bilgi ${index}`, source: 'parent' })),
+    );
+    await send('s1', 'Deniz\'in yumurta alerjisi var.', 'c1');
+    expect(extractionCalls).toBe(0);
+    expect(memories('c1')).toHaveLength(MAX_CHILD_MEMORIES);
+  });
+});
+
+describe('Chat knowledge base citations', () => {
+  beforeEach(async () => {
+    resetMockFirebase();
+    mockStore.set('chat_sessions', new Map([['s1', { user_id: 'user-a', message_count: 0, active_leaf_id: null }]]));
+    await createKnowledgeArticle('admin-1', {
+      title: 'Güvenli uyku rehberi',
+      format: 'markdown',
+      sourceUrl: 'https://example.org/guvenli-uyku',
+      content: '# Yatış pozisyonu\nBebeği her zaman sırt üstü yatırın. Yatakta yastık ve battaniye kullanmayın.',
+    });
+  });
+
+  afterEach(() => {
+    invalidateKnowledgeIndex();
+  });
+
+  it('cites the retrieved passages on the reply and stores them', async () => {
+    const response = await request(app)
+      .post('/chat')
+      .set('x-test-user', 'user-a')
+      .send({ sessionId: 's1', message: 'Bebeğimi yatırırken yastık kullanabilir miyim?' })
+      .expect(200);
+
+    expect(response.body.citations).toEqual([
+      expect.objectContaining({ index: 1, title: 'Güvenli uyku rehberi', heading: 'Yatış pozisyonu', source_url: 'https://example.org/guvenli-uyku' }),
+    ]);
+    expect(mockStore.get('chat_messages')!.get(response.body.messageId).citations).toHaveLength(1);
+  });
+
+  it('returns no citations when nothing relevant is indexed', async () => {
+    const response = await request(app)
+      .post('/chat')
+      .set('x-test-user', 'user-a')
+      .send({ sessionId: 's1', message: 'Diş çıkarma ne zaman başlar?' })
+      .expect(200);
+    expect(response.body.citations).toEqual([]);
+  });
+});
+
+describe('Chat language', () => {
+  const prompts: Array<{ systemPrompt: string; context: string }> = [];
+
+  beforeAll(() => {
+    const echo = createFakeChatProvider();
+    registerChatModelProvider({
+      ...echo,
+      name: 'language-test',
+      generate: async request => {
+        prompts.push({ systemPrompt: request.systemPrompt, context: request.context });
+        return echo.generate(request);
       },
-      {
-        name: 'TTS request with very long text',
-        data: {
-          text: 'A'.repeat(5000),
-          sessionId: testSessionId
-        },
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        },
-        expectedStatus: 400,
-        shouldSucceed: false
-      }
-    ];
-
-    testCases.forEach((testCase, index) => {
-      it(`Test Case ${index + 1}: ${testCase.name}`, async () => {
-        logger.info(`🧪 Running: ${testCase.name}`);
-        
-        const startTime = Date.now();
-        const response = await request(app)
-          .post('/chat/tts')
-          .set(testCase.headers)
-          .send(testCase.data)
-          .expect(testCase.expectedStatus);
-        
-        const duration = Date.now() - startTime;
-        
-        if (testCase.shouldSucceed) {
-          expect(response.body.success).toBe(true);
-          expect(response.body.data).toHaveProperty('audioUrl');
-          logger.info(`✅ SUCCESS: ${testCase.name} (${duration}ms)`);
-        } else {
-          expect(response.body.success).toBe(false);
-          expect(response.body.error).toBeDefined();
-          logger.info(`❌ EXPECTED FAILURE: ${testCase.name} - ${response.body.error} (${duration}ms)`);
-        }
-      });
     });
   });
+
+  beforeEach(() => {
+    prompts.length = 0;
+    resetMockFirebase();
+    mockStore.set('chat_sessions', new Map([['s1', { user_id: 'user-a', message_count: 0, active_leaf_id: null }]]));
+    config.chatModel.allowRequestOverride = true;
+  });
+
+  afterEach(() => {
+    config.chatModel.allowRequestOverride = false;
+  });
+
+  const send = (message: string, acceptLanguage?: string) => {
+    const pending = request(app).post('/chat').set('x-test-user', 'user-a');
+    if (acceptLanguage) pending.set('Accept-Language', acceptLanguage);
+    return pending.send({ sessionId: 's1', message, model: { provider: 'language-test' } }).expect(200);
+  };
+
+  it('follows Accept-Language when the user has not picked a language', async () => {
+    const response = await send('How long should a newborn sleep?', 'en-US,en;q=0.9,tr;q=0.5');
+    expect(prompts[0].systemPrompt).toContain('# ROLE: Bebek AI Assistant');
+    expect(prompts[0].context).toContain('Every reply must be in English only.');
+    expect(prompts[0].context).toContain('User: How long should a newborn sleep?');
+    expect(mockStore.get('chat_messages')!.get(response.body.messageId)).toMatchObject({ language: 'en' });
+
+    const refused = await send('Please create a logo for me', 'en');
+    expect(refused.body.reply).toBe("I can't do that directly here, but I can suggest another way.");
+  });
+
+  it('prefers the language the user picked and defaults to Turkish', async () => {
+    mockStore.set('users_info', new Map([['user-a', { language: 'en', language_explicit: true }]]));
+    await send('Hi', 'tr-TR');
+    expect(prompts[0].context).toContain('NEW MESSAGE: Hi');
+
+    // Older profiles were given 'tr' without the user choosing it; the header wins over those.
+    mockStore.set('users_info', new Map([['user-a', { language: 'tr' }]]));
+    await send('Hello', 'en-US');
+    expect(prompts[1].context).toContain('NEW MESSAGE: Hello');
+
+    mockStore.delete('users_info');
+    await send('Selam', 'de-DE');
+    expect(prompts[2].systemPrompt).toContain('# ROLE: Bebek AI Asistan\n');
+    expect(prompts[2].context).toContain('YENİ MESAJ: Selam');
+  });
 });
 
+describe('Chat export', () => {
+  beforeEach(() => {
+    resetMockFirebase();
+    mockStore.set(
+      'chat_sessions',
+      new Map([
+        ['s1', { user_id: 'user-a', child_id: 'c1', active_leaf_id: 'a2', message_count: 4 }],
+        ['s2', { user_id: 'user-b', active_leaf_id: null, message_count: 0 }],
+      ]),
+    );
+    mockStore.set('AddChild', new Map([['c1', { parentUuid: 'user-a', name: 'Deniz' }]]));
+    mockStore.set(
+      'chat_messages',
+      new Map([
+        ['u1', { session_id: 's1', role: 'user', content: 'Gece kaç kez uyanması normal?', parent_message_id: null, active: true, created_at: '2026-10-01T19:00:00.000Z' }],
+        ['a1', { session_id: 's1', role: 'assistant', content: 'Dört aylık bir bebek için 2-3 kez normaldir.', parent_message_id: 'u1', active: false, created_at: '2026-10-01T19:00:01.000Z' }],
+        [
+          'a2',
+          {
+            session_id: 's1',
+            role: 'assistant',
+            content: 'Bu yaşta gece 1-3 uyanma sık görülür. [1]',
+            parent_message_id: 'u1',
+            active: true,
+            citations: [{ index: 1, title: 'Güvenli uyku rehberi', source_url: 'https://example.org/uyku' }],
+            created_at: '2026-10-01T19:00:02.000Z',
+          },
+        ],
+      ]),
+    );
+    mockStore.set('users_info', new Map([['user-a', { timezone: 'Europe/Istanbul' }]]));
+  });
+
+  const exportSession = (format: string, sessionId = 's1') =>
+    request(app).get(`/chat/sessions/${sessionId}/export`).query({ format }).set('x-test-user', 'user-a');
+
+  it('renders the active branch as markdown with the child, local dates and a disclaimer', async () => {
+    const response = await exportSession('md').expect(200);
+    expect(response.body.export).toMatchObject({ format: 'md', messageCount: 2, fileName: expect.stringMatching(/\.md$/) });
+    expect(response.body.export.url).toContain(encodeURIComponent(response.body.export.expiresAt));
+
+    const [stored] = Array.from(mockFiles.values());
+    const markdown = stored.body.toString('utf8');
+    expect(stored.options.contentType).toBe('text/markdown; charset=utf-8');
+    expect(markdown).toContain('# Sohbet dökümü: Deniz');
+    expect(markdown).toContain('- Çocuk: Deniz');
+    expect(markdown).toContain('### Ebeveyn — 1 Eki 2026 22:00');
+    expect(markdown).toContain('- [1] Güvenli uyku rehberi (https://example.org/uyku)');
+    expect(markdown).not.toContain('Dört aylık');
+    expect(markdown).toContain('tıbbi muayene, tanı veya tedavinin yerini tutmaz');
+  });
+
+  it('produces a PDF and JSON in the requested language', async () => {
+    await exportSession('pdf').set('Accept-Language', 'en').expect(200);
+    await exportSession('json').set('Accept-Language', 'en').expect(200);
+    const [pdf, json] = Array.from(mockFiles.values());
+    expect(pdf.options.contentType).toBe('application/pdf');
+    expect(pdf.body.subarray(0, 8).toString('latin1')).toBe('%PDF-1.4');
+    expect(pdf.body.toString('latin1')).toContain('(Chat transcript: Deniz) Tj');
+    expect(JSON.parse(json.body.toString('utf8'))).toMatchObject({
+      child_name: 'Deniz',
+      language: 'en',
+      time_zone: 'Europe/Istanbul',
+      messages: [{ id: 'u1', role: 'user' }, { id: 'a2', role: 'assistant' }],
+    });
+  });
 
+  it('rejects unknown formats and other users\' sessions', async () => {
+    await exportSession('docx').expect(400);
+    await exportSession('md', 's2').expect(403);
+    await exportSession('md', 'missing').expect(404);
+    expect(mockFiles.size).toBe(0);
+  });
 
+  it('deletes exports once they expire', async () => {
+    await exportSession('md').expect(200);
+    expect(await deleteExpiredChatExports()).toBe(0);
+    expect(await deleteExpiredChatExports(new Date(Date.now() + 2 * 60 * 60 * 1000))).toBe(1);
+    expect(mockFiles.size).toBe(0);
+  });
+});
 
+describe('Chat request validation', () => {
+  beforeEach(() => {
+    resetMockFirebase();
+  });
 
+  it('requires authentication on every chat route', async () => {
+    await request(app).post('/chat').send({ message: 'Merhaba' }).expect(401);
+    await request(app).get('/chat/sessions').expect(401);
+    await request(app).get('/chat/sessions/any/messages').expect(401);
+    await request(app).delete('/chat/sessions/any').expect(401);
+  });
 
+  it('rejects messages that are missing, empty or carry a non-image attachment', async () => {
+    const send = (body: Record<string, unknown>) => request(app).post('/chat').set('x-test-user', 'user-a').send(body);
 
+    expect((await send({}).expect(400)).body).toEqual({ error: 'invalid_request', message: 'message is required' });
+    await send({ message: '' }).expect(400);
+    const attachment = await send({ message: 'Bu ne?', image: { data: 'JVBERi0=', mimeType: 'application/pdf' } }).expect(400);
+    expect(attachment.body.message).toBe('Only image attachments are supported');
+    expect(mockStore.get('chat_messages')?.size || 0).toBe(0);
+  });
 
+  it('lists only the caller\'s sessions', async () => {
+    mockStore.set(
+      'chat_sessions',
+      new Map([
+        ['mine', { user_id: 'user-a', status: 'open', title: 'Uyku', updated_at: '2025-01-02T00:00:00.000Z' }],
+        ['theirs', { user_id: 'user-b', status: 'open', title: 'Gaz', updated_at: '2025-01-03T00:00:00.000Z' }],
+      ]),
+    );
+    const response = await request(app).get('/chat/sessions').set('x-test-user', 'user-a').expect(200);
+    expect(response.body.sessions.map((session: any) => session.id)).toEqual(['mine']);
+  });
+});
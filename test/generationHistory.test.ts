@@ -0,0 +1,193 @@
+import express from 'express';
+import request from 'supertest';
+import { Timestamp } from 'firebase-admin/firestore';
+import { createStylesRouter } from '../src/routes/styles';
+import { mockFiles, mockStore, resetMockFirebase } from './helpers/mocks';
+
+const mockHouseholdMembers: Record<string, string[]> = {};
+
+jest.mock('../src/firebase', () => require('./helpers/mocks').firebaseMock);
+jest.mock('../src/middleware/authMiddleware', () => require('./helpers/mocks').authMiddlewareMock);
+
+jest.mock('../src/server/bebek/services/childService', () => ({
+  getChildForUser: async (userId: string, childId: string) => {
+    const members = mockHouseholdMembers[childId];
+    if (!members) return { child: null, reason: 'not_found' };
+    if (!members.includes(userId)) return { child: null, reason: 'forbidden' };
+    return { child: { id: childId, householdId: childId } };
+  },
+  getChildHouseholdId: (child: { householdId: string }) => child.householdId,
+}));
+
+jest.mock('../src/server/bebek/services/householdService', () => ({
+  listHouseholdMemberIds: async (householdId: string) => mockHouseholdMembers[householdId] || [],
+}));
+
+jest.mock('../src/services/premiumService', () => ({
+  premiumService: { hasActivePremium: async () => false },
+}));
+
+jest.mock('../src/services/websocketService', () => ({ getWebSocketService: () => null }));
+
+const app = express();
+app.use(express.json());
+app.use('/styles', createStylesRouter());
+
+const seedItem = (ownerId: string, id: string, secondsOffset: number, data: Record<string, unknown> = {}) => {
+  const name = `users/${ownerId}/generatedPhotos`;
+  if (!mockStore.has(name)) mockStore.set(name, new Map());
+  mockStore.get(name)!.set(id, {
+    styleType: 'yenidogan',
+    styleId: 'n1',
+    outputImageUrl: `https://cdn.test/${id}.png`,
+    createdAt: new Timestamp(1_780_000_000 + secondsOffset, 500),
+    ...data,
+  });
+};
+
+const history = (userId: string, query: Record<string, string> = {}) =>
+  request(app).get('/styles/history').query(query).set('x-test-user', userId);
+
+beforeEach(() => {
+  resetMockFirebase();
+  Object.keys(mockHouseholdMembers).forEach(key => delete mockHouseholdMembers[key]);
+});
+
+describe('Generation history', () => {
+  it('pages through history with a cursor and applies filters', async () => {
+    for (let i = 0; i < 5; i += 1) seedItem('user-a', `photo-${i}`, i * 60);
+    // Same instant as photo-4: the id breaks the tie so neither is skipped.
+    seedItem('user-a', 'photo-4b', 4 * 60, { styleType: 'wedding', styleId: 'w1' });
+
+    const first = await history('user-a', { limit: '4' }).expect(200);
+    expect(first.body.items.map((item: any) => item.id)).toEqual(['photo-4b', 'photo-4', 'photo-3', 'photo-2']);
+    expect(first.body.pageInfo).toMatchObject({ limit: 4, hasMore: true });
+
+    const second = await history('user-a', { limit: '4', cursor: first.body.pageInfo.nextCursor }).expect(200);
+    expect(second.body.items.map((item: any) => item.id)).toEqual(['photo-1', 'photo-0']);
+    expect(second.body.pageInfo).toMatchObject({ hasMore: false, nextCursor: null });
+
+    const weddings = await history('user-a', { style_type: 'wedding' }).expect(200);
+    expect(weddings.body.items.map((item: any) => item.id)).toEqual(['photo-4b']);
+    const byStyle = await history('user-a', { style_id: 'n1', limit: '1' }).expect(200);
+    expect(byStyle.body.items.map((item: any) => item.id)).toEqual(['photo-4']);
+
+    const ranged = await history('user-a', {
+      from: new Date((1_780_000_000 + 60) * 1000).toISOString(),
+      to: new Date((1_780_000_000 + 180) * 1000).toISOString(),
+    }).expect(200);
+    expect(ranged.body.items.map((item: any) => item.id)).toEqual(['photo-2', 'photo-1']);
+
+    await history('user-a', { cursor: 'not-a-cursor' }).expect(400);
+    await history('user-a', { limit: '500' }).expect(400);
+    await history('user-a', { from: '2026-05-02', to: '2026-05-01' }).expect(400);
+  });
+
+  it('keeps returning the old unpaged list to clients that send neither limit nor cursor', async () => {
+    for (let i = 0; i < 205; i += 1) seedItem('user-a', `photo-${String(i).padStart(3, '0')}`, i);
+
+    const unpaged = await history('user-a').expect(200);
+    expect(unpaged.body.items).toHaveLength(200);
+    expect(unpaged.body.pageInfo).toMatchObject({ limit: 200, hasMore: true });
+
+    const paged = await history('user-a', { cursor: unpaged.body.pageInfo.nextCursor }).expect(200);
+    expect(paged.body.items.map((item: any) => item.id)).toEqual(['photo-004', 'photo-003', 'photo-002', 'photo-001', 'photo-000']);
+    expect(paged.body.pageInfo.limit).toBe(30);
+    expect((await history('user-a', { limit: '10' }).expect(200)).body.items).toHaveLength(10);
+  });
+
+  it('merges household history newest first across caregivers', async () => {
+    mockHouseholdMembers['child-1'] = ['user-a', 'user-b'];
+    seedItem('user-a', 'a-old', 0, { childId: 'child-1' });
+    seedItem('user-b', 'b-new', 120, { childId: 'child-1' });
+    seedItem('user-a', 'a-mid', 60, { childId: 'child-1' });
+    seedItem('user-a', 'a-other', 90, { childId: 'child-2' });
+
+    const first = await history('user-a', { child_id: 'child-1', limit: '2' }).expect(200);
+    expect(first.body.items.map((item: any) => [item.id, item.createdBy])).toEqual([
+      ['b-new', 'user-b'],
+      ['a-mid', 'user-a'],
+    ]);
+    const second = await history('user-a', { child_id: 'child-1', limit: '2', cursor: first.body.pageInfo.nextCursor }).expect(200);
+    expect(second.body.items.map((item: any) => item.id)).toEqual(['a-old']);
+
+    await history('user-c', { child_id: 'child-1' }).expect(403);
+  });
+
+  it('marks favorites and filters by them', async () => {
+    seedItem('user-a', 'photo-1', 0);
+    seedItem('user-a', 'photo-2', 60);
+
+    await request(app).put('/styles/history/photo-1/favorite').set('x-test-user', 'user-a').send({ favorite: 'yes' }).expect(400);
+    await request(app).put('/styles/history/photo-1/favorite').set('x-test-user', 'user-b').send({ favorite: true }).expect(404);
+    await request(app).put('/styles/history/photo-1/favorite').set('x-test-user', 'user-a').send({ favorite: true }).expect(200);
+
+    const all = await history('user-a').expect(200);
+    expect(all.body.items.map((item: any) => [item.id, item.favorite])).toEqual([
+      ['photo-2', false],
+      ['photo-1', true],
+    ]);
+    const favorites = await history('user-a', { favorite: 'true' }).expect(200);
+    expect(favorites.body.items.map((item: any) => item.id)).toEqual(['photo-1']);
+  });
+
+  it('deletes every uploaded photo of a history item but keeps the shared template', async () => {
+    const paths = ['generated/couple.png', 'inputs/first.jpg', 'inputs/second.jpg', 'templates/couple/c1.jpg'];
+    paths.forEach(path => mockFiles.set(path, { body: Buffer.from('x'), options: {} }));
+    seedItem('user-a', 'couple-1', 0, {
+      styleType: 'couple',
+      outputImagePath: paths[0],
+      inputFirstImagePath: paths[1],
+      inputSecondImagePath: paths[2],
+      templateImagePath: paths[3],
+    });
+
+    await request(app).delete('/styles/history/couple-1').set('x-test-user', 'user-a').expect(200);
+    expect(Array.from(mockFiles.keys())).toEqual(['templates/couple/c1.jpg']);
+  });
+
+  it('groups items into albums and reports membership in history', async () => {
+    seedItem('user-a', 'photo-1', 0);
+    seedItem('user-a', 'photo-2', 60);
+    seedItem('user-b', 'photo-b', 30);
+    const albums = (method: 'get' | 'post' | 'put' | 'patch' | 'delete', path = '') =>
+      request(app)[method](`/styles/albums${path}`).set('x-test-user', 'user-a');
+
+    await albums('post').send({ name: '  ' }).expect(400);
+    const unknown = await albums('post').send({ name: 'Tatil', itemIds: ['photo-b'] }).expect(400);
+    expect(unknown.body.itemIds).toEqual(['photo-b']);
+
+    const first = (await albums('post').send({ name: 'Tatil', itemIds: ['photo-1'] }).expect(201)).body.album;
+    const second = (await albums('post').send({ name: 'Doğum günü' }).expect(201)).body.album;
+    expect(second.sortOrder).toBe(1);
+
+    const renamed = await albums('patch', `/${second.id}`).send({ name: 'İlk yaş' }).expect(200);
+    expect(renamed.body.album.name).toBe('İlk yaş');
+    await albums('post', `/${second.id}/items`).send({ itemIds: ['photo-1', 'photo-2'] }).expect(200);
+    const reordered = await albums('patch', `/${second.id}`).send({ itemIds: ['photo-2', 'photo-1'] }).expect(200);
+    expect(reordered.body.album.itemIds).toEqual(['photo-2', 'photo-1']);
+    await albums('patch', '/missing').send({ name: 'X' }).expect(404);
+
+    await albums('put', '/order').send({ albumIds: [second.id] }).expect(400);
+    const ordered = await albums('put', '/order').send({ albumIds: [second.id, first.id] }).expect(200);
+    expect(ordered.body.albums.map((album: any) => album.id)).toEqual([second.id, first.id]);
+
+    const listed = await history('user-a').expect(200);
+    expect(listed.body.items.map((item: any) => [item.id, item.albumIds.sort()])).toEqual([
+      ['photo-2', [second.id]],
+      ['photo-1', [first.id, second.id].sort()],
+    ]);
+
+    await albums('delete', `/${second.id}/items/photo-2`).expect(200);
+    await request(app).delete('/styles/history/photo-1').set('x-test-user', 'user-a').expect(200);
+    const remaining = await albums('get').expect(200);
+    expect(remaining.body.albums.map((album: any) => [album.name, album.itemIds])).toEqual([
+      ['İlk yaş', []],
+      ['Tatil', []],
+    ]);
+
+    await albums('delete', `/${first.id}`).expect(200);
+    await albums('delete', `/${first.id}`).expect(404);
+    expect((await albums('get').expect(200)).body.albums).toHaveLength(1);
+  });
+});
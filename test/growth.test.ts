@@ -0,0 +1,48 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildPercentileCurves,
+  calculateZScore,
+  evaluateGrowth,
+  getAgeInDays,
+  interpolateLms,
+  toGrowthSex,
+  zScoreToPercentile,
+} from '../src/server/bebek/utils/growth';
+
+describe('Growth percentile utilities', () => {
+  it('maps child genders to WHO sexes', () => {
+    expect(toGrowthSex('Erkek')).toBe('male');
+    expect(toGrowthSex('Kiz')).toBe('female');
+    expect(toGrowthSex('unknown')).toBeNull();
+  });
+
+  it('returns the 50th percentile for the WHO median', () => {
+    const result = evaluateGrowth('weight', 'male', 0, 3.3464);
+    expect(result?.zScore).toBe(0);
+    expect(result?.percentile).toBe(50);
+  });
+
+  it('matches published WHO cut-offs for girls length at 12 months', () => {
+    const lms = interpolateLms('length', 'female', 12)!;
+    expect(calculateZScore(74.015, lms, 'length')).toBeCloseTo(0, 5);
+    const p97 = buildPercentileCurves('length', 'female').find(curve => curve.percentile === 97)!;
+    expect(p97.points[12].value).toBeCloseTo(78.9, 0);
+  });
+
+  it('interpolates between monthly rows', () => {
+    const lms = interpolateLms('head', 'male', 1.5)!;
+    expect(lms[1]).toBeCloseTo((37.2759 + 39.1285) / 2, 4);
+  });
+
+  it('applies the WHO restricted adjustment beyond +3 SD for weight', () => {
+    const lms = interpolateLms('weight', 'male', 6)!;
+    const z = calculateZScore(14, lms, 'weight');
+    expect(z).toBeGreaterThan(3);
+    expect(zScoreToPercentile(z)).toBeGreaterThan(99.8);
+  });
+
+  it('returns null outside the bundled age range', () => {
+    expect(evaluateGrowth('weight', 'female', 800, 12)).toBeNull();
+    expect(getAgeInDays('2025-01-01', '2025-01-31')).toBe(30);
+  });
+});
@@ -0,0 +1,294 @@
+// Shared test doubles for route and service tests.
+//
+// Wire them up with factories that require this module, so every mock in a test file shares the
+// same store:
+//
+//   jest.mock('../src/firebase', () => require('./helpers/mocks').firebaseMock);
+//   jest.mock('../src/middleware/authMiddleware', () => require('./helpers/mocks').authMiddlewareMock);
+//   jest.mock('../src/redis', () => require('./helpers/mocks').redisMock);
+
+// Collections keyed by full path; sub-collections live under `parent/{id}/name`.
+export const mockStore = new Map<string, Map<string, any>>();
+export const mockFiles = new Map<string, { body: Buffer; options: any }>();
+// Operation count of every committed batch, so tests can check Firestore's 500-write limit.
+export const mockBatchSizes: number[] = [];
+
+// Redis keys to a list (array) or a hash (object); expiry is ignored.
+export const mockRedisData = new Map<string, any>();
+
+export const resetMockFirebase = () => {
+  mockStore.clear();
+  mockFiles.clear();
+  mockBatchSizes.length = 0;
+  mockRedisData.clear();
+};
+
+export const seedCollection = (name: string, docs: Record<string, any>) => {
+  mockStore.set(name, new Map(Object.entries(docs)));
+};
+
+const collectionStore = (name: string) => {
+  if (!mockStore.has(name)) mockStore.set(name, new Map());
+  return mockStore.get(name)!;
+};
+
+const readField = (data: any, field: string) =>
+  field.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data);
+
+// Timestamps and Dates compare as [seconds, nanoseconds] so sub-millisecond cursors keep their order.
+const comparable = (value: any): any[] => {
+  if (value && typeof value.toMillis === 'function' && typeof value.nanoseconds === 'number') {
+    return [value.seconds, value.nanoseconds];
+  }
+  if (value instanceof Date) {
+    return [Math.floor(value.getTime() / 1000), (value.getTime() % 1000) * 1e6];
+  }
+  return [value];
+};
+
+const compareValues = (a: any, b: any) => {
+  if (a === undefined || b === undefined) return a === b ? 0 : a === undefined ? -1 : 1;
+  const left = comparable(a);
+  const right = comparable(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i += 1) {
+    if (left[i] === right[i]) continue;
+    return left[i] < right[i] ? -1 : 1;
+  }
+  return 0;
+};
+
+const matchesFilter = (data: any, [field, op, value]: [string, string, any]) => {
+  const actual = readField(data, field);
+  switch (op) {
+    case 'array-contains':
+      return Array.isArray(actual) && actual.includes(value);
+    case 'in':
+      return value.some((candidate: any) => compareValues(actual, candidate) === 0);
+    case '==':
+      return actual !== undefined && compareValues(actual, value) === 0;
+    case '!=':
+      return actual !== undefined && compareValues(actual, value) !== 0;
+    default: {
+      if (actual === undefined || actual === null || value === null) return false;
+      const order = compareValues(actual, value);
+      return op === '<' ? order < 0 : op === '<=' ? order <= 0 : op === '>' ? order > 0 : order >= 0;
+    }
+  }
+};
+
+const snapshotOf = (name: string, id: string) => {
+  const data = collectionStore(name).get(id);
+  return { id, exists: data !== undefined, data: () => data, ref: docRef(name, id) };
+};
+
+const docRef = (name: string, id: string): any => ({
+  id,
+  path: `${name}/${id}`,
+  async get() {
+    return snapshotOf(name, id);
+  },
+  async set(data: any, options?: { merge?: boolean }) {
+    const existing = options?.merge ? collectionStore(name).get(id) || {} : {};
+    collectionStore(name).set(id, { ...existing, ...data });
+  },
+  async update(data: any) {
+    const existing = collectionStore(name).get(id);
+    if (existing === undefined) throw new Error(`No document to update: ${name}/${id}`);
+    collectionStore(name).set(id, { ...existing, ...data });
+  },
+  async delete() {
+    collectionStore(name).delete(id);
+  },
+  collection: (sub: string) => collectionRef(`${name}/${id}/${sub}`),
+});
+
+type QueryState = {
+  filters: Array<[string, string, any]>;
+  // A null field is FieldPath.documentId().
+  orders: Array<[string | null, 'asc' | 'desc']>;
+  cursor?: any[];
+  limit?: number;
+  offset?: number;
+};
+
+const query = (name: string, state: QueryState): any => ({
+  where: (field: string, op: string, value: any) => query(name, { ...state, filters: [...state.filters, [field, op, value]] }),
+  orderBy: (field: any, direction: 'asc' | 'desc' = 'asc') =>
+    query(name, { ...state, orders: [...state.orders, [typeof field === 'string' ? field : null, direction]] }),
+  startAfter: (...values: any[]) => query(name, { ...state, cursor: values }),
+  limit: (limit: number) => query(name, { ...state, limit }),
+  offset: (offset: number) => query(name, { ...state, offset }),
+  count: () => ({
+    get: async () => {
+      const snapshot = await query(name, { ...state, limit: undefined, offset: undefined }).get();
+      return { data: () => ({ count: snapshot.size }) };
+    },
+  }),
+  async get() {
+    const valueOf = ([id, data]: [string, any], field: string | null) => (field === null ? id : readField(data, field));
+    const compare = (entry: [string, any], values: any[]) => {
+      for (let i = 0; i < state.orders.length; i += 1) {
+        const [field, direction] = state.orders[i];
+        const order = compareValues(valueOf(entry, field), values[i]);
+        if (order !== 0) return direction === 'desc' ? -order : order;
+      }
+      return 0;
+    };
+    let entries = Array.from(collectionStore(name).entries())
+      .filter(([, data]) => state.filters.every(filter => matchesFilter(data, filter)))
+      .sort((a, b) => compare(a, state.orders.map(([field]) => valueOf(b, field))));
+    if (state.cursor) entries = entries.filter(entry => compare(entry, state.cursor!) > 0);
+    if (state.offset) entries = entries.slice(state.offset);
+    if (state.limit !== undefined) entries = entries.slice(0, state.limit);
+    const docs = entries.map(([id, data]) => ({ id, exists: true, data: () => data, ref: docRef(name, id) }));
+    return { empty: docs.length === 0, size: docs.length, docs };
+  },
+});
+
+const collectionRef = (name: string) => {
+  const base = query(name, { filters: [], orders: [] });
+  return {
+    ...base,
+    id: name.split('/').pop(),
+    doc: (id: string) => docRef(name, id),
+    async add(data: any) {
+      const id = `mock_${collectionStore(name).size + 1}`;
+      collectionStore(name).set(id, data);
+      return docRef(name, id);
+    },
+  };
+};
+
+// Writes inside a transaction or batch are applied in order once it commits.
+const db = {
+  collection: collectionRef,
+  async runTransaction(fn: (transaction: any) => Promise<any>) {
+    const writes: Array<() => Promise<void>> = [];
+    const transaction: any = {
+      get: async (refOrQuery: any) => refOrQuery.get(),
+      set: (ref: any, data: any, options?: { merge?: boolean }) => (writes.push(() => ref.set(data, options)), transaction),
+      update: (ref: any, data: any) => (writes.push(() => ref.update(data)), transaction),
+      delete: (ref: any) => (writes.push(() => ref.delete()), transaction),
+    };
+    const result = await fn(transaction);
+    for (const write of writes) await write();
+    return result;
+  },
+  batch: () => {
+    const writes: Array<() => Promise<void>> = [];
+    const batch: any = {
+      set: (ref: any, data: any, options?: { merge?: boolean }) => (writes.push(() => ref.set(data, options)), batch),
+      update: (ref: any, data: any) => (writes.push(() => ref.update(data)), batch),
+      delete: (ref: any) => (writes.push(() => ref.delete()), batch),
+      async commit() {
+        if (writes.length > 500) throw new Error('A batch can contain at most 500 operations');
+        mockBatchSizes.push(writes.length);
+        for (const write of writes) await write();
+      },
+    };
+    return batch;
+  },
+};
+
+const file = (path: string) => ({
+  name: path,
+  get metadata() {
+    return mockFiles.get(path)?.options?.metadata;
+  },
+  async save(body: Buffer, options: any) {
+    mockFiles.set(path, { body, options });
+  },
+  // Bundled assets (style references, templates) are never uploaded by tests, so treat them as present.
+  async exists() {
+    return [true];
+  },
+  async download() {
+    return [mockFiles.get(path)?.body || Buffer.alloc(0)];
+  },
+  async getSignedUrl(options: { expires?: string } = {}) {
+    return [`https://storage.test/${path}${options.expires ? `?expires=${encodeURIComponent(options.expires)}` : ''}`];
+  },
+  async delete() {
+    mockFiles.delete(path);
+  },
+});
+
+const bucket = {
+  name: 'test-bucket',
+  file,
+  async getFiles(options: { prefix: string }) {
+    return [Array.from(mockFiles.keys()).filter(path => path.startsWith(options.prefix)).map(file)];
+  },
+  async deleteFiles(options: { prefix: string }) {
+    Array.from(mockFiles.keys())
+      .filter(path => path.startsWith(options.prefix))
+      .forEach(path => mockFiles.delete(path));
+  },
+};
+
+export const firebaseMock = {
+  db,
+  admin: { firestore: () => db },
+  storage: { bucket: () => bucket },
+  FieldValue: { serverTimestamp: () => new Date() },
+};
+
+// Authenticates whoever the `x-test-user` header names; the user 'admin' passes requireAdmin.
+export const authMiddlewareMock = {
+  authenticateToken: (req: any, res: any, next: any) => {
+    const userId = req.headers['x-test-user'];
+    if (!userId) {
+      res.status(401).json({ success: false, error: 'access_denied' });
+      return;
+    }
+    req.user = { id: String(userId), email: `${userId}@example.com` };
+    next();
+  },
+  requireAdmin: (req: any, res: any, next: any) => {
+    if (req.user?.id !== 'admin') {
+      res.status(403).json({ success: false, error: 'forbidden' });
+      return;
+    }
+    next();
+  },
+};
+
+// Just the commands the chat stream buffer uses; `multi()` queues them and `exec()` runs them in order.
+const redisCommands = {
+  hset: async (key: string, fieldOrValues: string | Record<string, string>, value?: string) => {
+    const values = typeof fieldOrValues === 'string' ? { [fieldOrValues]: value } : fieldOrValues;
+    mockRedisData.set(key, { ...(mockRedisData.get(key) || {}), ...values });
+  },
+  hgetall: async (key: string) => ({ ...(mockRedisData.get(key) || {}) }),
+  rpush: async (key: string, ...values: string[]) => {
+    mockRedisData.set(key, [...(mockRedisData.get(key) || []), ...values]);
+  },
+  lrange: async (key: string, start: number, stop: number) => {
+    const list: string[] = mockRedisData.get(key) || [];
+    return list.slice(start, stop === -1 ? undefined : stop + 1);
+  },
+  expire: async () => 1,
+};
+
+const redisClient = {
+  ...redisCommands,
+  multi: () => {
+    const queued: Array<() => Promise<unknown>> = [];
+    const pipeline: any = {
+      async exec() {
+        const results: unknown[] = [];
+        for (const run of queued) results.push(await run());
+        return results;
+      },
+    };
+    (Object.keys(redisCommands) as Array<keyof typeof redisCommands>).forEach(name => {
+      pipeline[name] = (...args: any[]) => (queued.push(() => (redisCommands[name] as any)(...args)), pipeline);
+    });
+    return pipeline;
+  },
+};
+
+export const redisMock = {
+  getRedis: () => redisClient,
+  isRedisConnected: () => true,
+};
@@ -0,0 +1,115 @@
+import express from 'express';
+import request from 'supertest';
+import { createHouseholdsRouter } from '../src/routes/households';
+import { createHouseholdInvitation } from '../src/server/bebek/services/householdService';
+import { mockStore, resetMockFirebase, seedCollection } from './helpers/mocks';
+
+jest.mock('../src/firebase', () => require('./helpers/mocks').firebaseMock);
+jest.mock('../src/middleware/authMiddleware', () => require('./helpers/mocks').authMiddlewareMock);
+jest.mock('../src/services/auditService', () => ({ auditService: { logUserAction: async () => undefined } }));
+const mockMails: Array<{ to: string; subject: string; html: string }> = [];
+
+jest.mock('../src/services/emailService', () => ({
+  emailService: {
+    sendMail: async (to: string, subject: string, html: string) => {
+      mockMails.push({ to, subject, html });
+    },
+  },
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/households', createHouseholdsRouter());
+
+// The household id is the founder's user id; 'co' is a co-owner invited later.
+const HOUSEHOLD = 'founder';
+const member = (userId: string, role: string) => ({ householdId: HOUSEHOLD, userId, role, email: `${userId}@example.com` });
+const roleOf = (userId: string) => mockStore.get('household_members')!.get(`${HOUSEHOLD}_${userId}`)?.role;
+
+const invite = (actor: string, role: string) =>
+  request(app)
+    .post(`/households/${HOUSEHOLD}/invitations`)
+    .set('x-test-user', actor)
+    .send({ email: `new-${role}@example.com`, role });
+const changeRole = (actor: string, memberId: string, role: string) =>
+  request(app).patch(`/households/${HOUSEHOLD}/members/${memberId}`).set('x-test-user', actor).send({ role });
+const remove = (actor: string, memberId: string) =>
+  request(app).delete(`/households/${HOUSEHOLD}/members/${memberId}`).set('x-test-user', actor);
+
+beforeEach(() => {
+  resetMockFirebase();
+  mockMails.length = 0;
+  seedCollection('household_members', {
+    founder_co: member('co', 'owner'),
+    founder_editor: member('editor', 'editor'),
+    founder_viewer: member('viewer', 'viewer'),
+  });
+});
+
+describe('Household authorization', () => {
+  it('lets owners invite caregivers and only the founder invite owners', async () => {
+    await invite('founder', 'owner').expect(201);
+    await invite('founder', 'editor').expect(201);
+    await invite('co', 'viewer').expect(201);
+    const coOwner = await invite('co', 'owner').expect(403);
+    expect(coOwner.body.message).toMatch(/founder/);
+    await invite('editor', 'viewer').expect(403);
+    await invite('viewer', 'viewer').expect(403);
+    await invite('stranger', 'viewer').expect(403);
+    expect(mockStore.get('household_invitations')!.size).toBe(3);
+  });
+
+  it('escapes the inviter name in the invitation email', async () => {
+    await createHouseholdInvitation({
+      householdId: HOUSEHOLD,
+      inviter: { id: 'founder', name: '<a href="https://evil.test">Tıkla</a>' },
+      email: 'new@example.com',
+      role: 'viewer',
+    });
+
+    const [mail] = mockMails;
+    expect(mail.to).toBe('new@example.com');
+    expect(mail.html).toContain('<strong>&lt;a href=&quot;https://evil.test&quot;&gt;Tıkla&lt;/a&gt;</strong>');
+    expect(mail.html).not.toContain('evil.test">');
+    expect(mail.html.match(/<a href=/g)).toHaveLength(1);
+  });
+
+  it('lets owners change roles but keeps ownership changes with the founder', async () => {
+    await changeRole('co', 'viewer', 'editor').expect(200);
+    expect(roleOf('viewer')).toBe('editor');
+    await changeRole('co', 'viewer', 'owner').expect(403);
+    await changeRole('co', 'co', 'viewer').expect(403);
+    await changeRole('editor', 'viewer', 'viewer').expect(403);
+    await changeRole('viewer', 'viewer', 'owner').expect(403);
+    await changeRole('stranger', 'viewer', 'viewer').expect(403);
+    expect(roleOf('viewer')).toBe('editor');
+    expect(roleOf('co')).toBe('owner');
+
+    await changeRole('co', 'founder', 'viewer').expect(403);
+    await changeRole('founder', 'founder', 'viewer').expect(403);
+
+    await changeRole('founder', 'editor', 'owner').expect(200);
+    await changeRole('founder', 'co', 'editor').expect(200);
+    expect([roleOf('editor'), roleOf('co')]).toEqual(['owner', 'editor']);
+    await changeRole('founder', 'missing', 'viewer').expect(404);
+  });
+
+  it('lets owners remove caregivers, members leave, and nobody remove the founder', async () => {
+    await remove('viewer', 'editor').expect(403);
+    await remove('editor', 'viewer').expect(403);
+    await remove('co', 'founder').expect(403);
+    await remove('founder', 'founder').expect(403);
+    await remove('stranger', 'viewer').expect(403);
+
+    await remove('co', 'viewer').expect(200);
+    await remove('editor', 'editor').expect(200);
+    expect(roleOf('viewer')).toBeUndefined();
+    expect(roleOf('editor')).toBeUndefined();
+
+    seedCollection('household_members', { founder_co: member('co', 'owner'), founder_co2: member('co2', 'owner') });
+    await remove('co2', 'co').expect(403);
+    await remove('founder', 'co').expect(200);
+    await remove('co2', 'co2').expect(200);
+    await remove('founder', 'missing').expect(404);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from '@jest/globals';
+import { storeChildAvatar } from '../src/server/bebek/services/avatarService';
+import {
+  detectImageFormat,
+  getCenterSquareCrop,
+  readImageDimensions,
+  readJpegOrientation,
+} from '../src/server/bebek/utils/image';
+import { mockFiles } from './helpers/mocks';
+
+jest.mock('../src/firebase', () => require('./helpers/mocks').firebaseMock);
+// Decoding must never be reached for a rejected upload.
+jest.mock(
+  'canvas',
+  () => {
+    throw new Error('canvas loaded');
+  },
+  { virtual: true },
+);
+
+// Minimal JPEG header with an APP1/Exif segment holding a single orientation entry.
+const buildJpegWithOrientation = (orientation: number, littleEndian: boolean) => {
+  const tiff = Buffer.alloc(26);
+  if (littleEndian) {
+    tiff.write('II', 0, 'ascii');
+    tiff.writeUInt16LE(42, 2);
+    tiff.writeUInt32LE(8, 4);
+    tiff.writeUInt16LE(1, 8);
+    tiff.writeUInt16LE(0x0112, 10);
+    tiff.writeUInt16LE(3, 12);
+    tiff.writeUInt32LE(1, 14);
+    tiff.writeUInt16LE(orientation, 18);
+  } else {
+    tiff.write('MM', 0, 'ascii');
+    tiff.writeUInt16BE(42, 2);
+    tiff.writeUInt32BE(8, 4);
+    tiff.writeUInt16BE(1, 8);
+    tiff.writeUInt16BE(0x0112, 10);
+    tiff.writeUInt16BE(3, 12);
+    tiff.writeUInt32BE(1, 14);
+    tiff.writeUInt16BE(orientation, 18);
+  }
+  const exifHeader = Buffer.from('Exif\0\0', 'binary');
+  const segmentLength = Buffer.alloc(2);
+  segmentLength.writeUInt16BE(2 + exifHeader.length + tiff.length);
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8, 0xff, 0xe1]),
+    segmentLength,
+    exifHeader,
+    tiff,
+    Buffer.from([0xff, 0xda, 0x00, 0x02]),
+  ]);
+};
+
+// PNG signature plus an IHDR chunk; nothing after it, like a decompression bomb's tiny header.
+const buildPngHeader = (width: number, height: number) => {
+  const ihdr = Buffer.alloc(25);
+  ihdr.writeUInt32BE(13, 0);
+  ihdr.write('IHDR', 4, 'ascii');
+  ihdr.writeUInt32BE(width, 8);
+  ihdr.writeUInt32BE(height, 12);
+  return Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), ihdr]);
+};
+
+// JPEG with an APP0 segment, fill bytes and a baseline SOF0 frame header.
+const buildJpegHeader = (width: number, height: number) => {
+  const frame = Buffer.alloc(17);
+  frame.writeUInt16BE(17, 0);
+  frame[2] = 8;
+  frame.writeUInt16BE(height, 3);
+  frame.writeUInt16BE(width, 5);
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xff, 0xc0]),
+    frame,
+    Buffer.from([0xff, 0xda, 0x00, 0x02]),
+  ]);
+};
+
+describe('Avatar image helpers', () => {
+  it('detects formats from magic bytes', () => {
+    expect(detectImageFormat(buildJpegWithOrientation(1, true))).toBe('jpeg');
+    expect(detectImageFormat(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe('png');
+    expect(detectImageFormat(Buffer.from('GIF89a'))).toBeNull();
+  });
+
+  it('reads the EXIF orientation in both byte orders', () => {
+    expect(readJpegOrientation(buildJpegWithOrientation(6, true))).toBe(6);
+    expect(readJpegOrientation(buildJpegWithOrientation(8, false))).toBe(8);
+    expect(readJpegOrientation(Buffer.from([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02]))).toBe(1);
+  });
+
+  it('reads dimensions from the PNG and JPEG headers', () => {
+    expect(readImageDimensions(buildPngHeader(640, 480))).toEqual({ width: 640, height: 480 });
+    expect(readImageDimensions(buildJpegHeader(4032, 3024))).toEqual({ width: 4032, height: 3024 });
+    expect(readImageDimensions(buildJpegWithOrientation(1, true))).toBeNull();
+    expect(readImageDimensions(Buffer.from('GIF89a'))).toBeNull();
+  });
+
+  it('centers the square crop on the longer side', () => {
+    expect(getCenterSquareCrop(4000, 3000)).toEqual({ x: 500, y: 0, side: 3000 });
+    expect(getCenterSquareCrop(1080, 1920)).toEqual({ x: 0, y: 420, side: 1080 });
+  });
+});
+
+describe('Avatar upload', () => {
+  const upload = (buffer: Buffer, mimetype: string) =>
+    storeChildAvatar({ ownerId: 'owner', childId: 'c1', uploadedBy: 'owner', file: { buffer, mimetype } });
+
+  it('rejects oversized or tiny images from the header before decoding them', async () => {
+    await expect(upload(buildPngHeader(50_000, 50_000), 'image/png')).resolves.toMatchObject({
+      stored: false,
+      reason: 'invalid_dimensions',
+    });
+    await expect(upload(buildJpegHeader(9000, 600), 'image/jpeg')).resolves.toMatchObject({ reason: 'invalid_dimensions' });
+    await expect(upload(buildJpegHeader(100, 100), 'image/jpeg')).resolves.toMatchObject({ reason: 'invalid_dimensions' });
+    await expect(upload(buildJpegWithOrientation(1, true), 'image/jpeg')).resolves.toMatchObject({ reason: 'unreadable' });
+    expect(mockFiles.size).toBe(0);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import { chunkKnowledgeText, cosineSimilarity, hashingEmbed, rankKnowledgeChunks } from '../src/server/bebek/utils/knowledge';
+
+const ARTICLE = [
+  '# Uyku',
+  'Bebekler ilk aylarda günde 14-17 saat uyur. Gece uyanmaları bu dönemde normaldir.',
+  '',
+  '## Güvenli uyku',
+  'Bebeği her zaman sırt üstü, düz ve sert bir yatakta yatırın. Yastık ve battaniye kullanmayın.',
+  '',
+  '# Ek gıda',
+  'Ek gıdaya altıncı ay civarında, bebek desteksiz oturabildiğinde başlanır.',
+].join('\n');
+
+describe('Knowledge base retrieval', () => {
+  it('chunks markdown without crossing headings and keeps the section title', () => {
+    const chunks = chunkKnowledgeText(ARTICLE, 'markdown');
+    expect(chunks.map(chunk => chunk.heading)).toEqual(['Uyku', 'Güvenli uyku', 'Ek gıda']);
+    expect(chunks[1].text).toContain('sırt üstü');
+    expect(chunks[1].text).not.toContain('#');
+  });
+
+  it('splits long passages at sentence boundaries', () => {
+    const text = Array.from({ length: 20 }, (_, index) => `Cümle numarası ${index} burada biter.`).join(' ');
+    const chunks = chunkKnowledgeText(text, 'text', { maxChars: 200 });
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.text.length).toBeLessThanOrEqual(200);
+      expect(chunk.text.endsWith('biter.')).toBe(true);
+    });
+  });
+
+  it('embeds deterministically and matches Turkish word forms', () => {
+    expect(hashingEmbed('Bebeğim uyumuyor')).toEqual(hashingEmbed('Bebeğim uyumuyor'));
+    const query = hashingEmbed('Bebeğimi nasıl yatırmalıyım, yastık kullanabilir miyim?');
+    const sleep = hashingEmbed('Bebeği sırt üstü yatırın. Yastık ve battaniye kullanmayın.');
+    const food = hashingEmbed('Ek gıdaya altıncı ay civarında başlanır.');
+    expect(cosineSimilarity(query, sleep)).toBeGreaterThan(cosineSimilarity(query, food));
+  });
+
+  it('ranks by similarity and skips passages outside the child age range', () => {
+    const chunks = chunkKnowledgeText(ARTICLE, 'markdown').map((chunk, index) => ({
+      id: `c${index}`,
+      embedding: hashingEmbed(`${chunk.heading}\n${chunk.text}`),
+      minAgeDays: index === 2 ? 150 : null,
+      maxAgeDays: null,
+    }));
+    const query = hashingEmbed('Ek gıdaya ne zaman başlanır?');
+    expect(rankKnowledgeChunks(query, chunks, { ageDays: 200, limit: 1, minScore: 0.1 })[0].chunk.id).toBe('c2');
+    expect(rankKnowledgeChunks(query, chunks, { ageDays: 30, limit: 3, minScore: 0.1 }).map(item => item.chunk.id)).not.toContain('c2');
+  });
+});
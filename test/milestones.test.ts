@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { MILESTONE_CATALOG, MILESTONE_CATALOG_VERSION, MILESTONES_BY_ID } from '../src/server/bebek/data/milestoneCatalog';
+import {
+  getMilestoneOverview,
+  getMilestoneSummaryText,
+  recordMilestoneAchievement,
+  resolveMilestoneStatus,
+} from '../src/server/bebek/services/milestoneService';
+import { DAYS_PER_MONTH } from '../src/server/bebek/utils/growth';
+import { resetMockFirebase } from './helpers/mocks';
+
+jest.mock('../src/firebase', () => require('./helpers/mocks').firebaseMock);
+
+// A child whose age sits in the middle of a month, so no window boundary is hit by rounding.
+const childAged = (months: number): any => ({
+  id: 'c1',
+  parentUuid: 'user-a',
+  name: 'Deniz',
+  birthDate: new Date(Date.now() - months * DAYS_PER_MONTH * 24 * 60 * 60_000).toISOString().slice(0, 10),
+});
+const ids = (items: any[]) => items.map(item => item.id);
+
+beforeEach(() => {
+  resetMockFirebase();
+});
+
+describe('Milestone catalog', () => {
+  it('is versioned with unique ids and valid age windows', () => {
+    expect(MILESTONE_CATALOG_VERSION).toMatch(/^\d{4}-\d{2}$/);
+    expect(MILESTONES_BY_ID.size).toBe(MILESTONE_CATALOG.length);
+    MILESTONE_CATALOG.forEach(milestone => {
+      expect(milestone.startMonth).toBeLessThan(milestone.endMonth);
+      expect(milestone.title.tr && milestone.title.en).toBeTruthy();
+    });
+  });
+
+  it('resolves status from the age window', () => {
+    const crawls = MILESTONES_BY_ID.get('motor_crawls')!;
+    expect(resolveMilestoneStatus(crawls, 5, false)).toBe('upcoming');
+    expect(resolveMilestoneStatus(crawls, 6, false)).toBe('due');
+    expect(resolveMilestoneStatus(crawls, 13.5, false)).toBe('overdue');
+    expect(resolveMilestoneStatus(crawls, 14, true)).toBe('achieved');
+  });
+});
+
+describe('Milestone overview', () => {
+  it('groups milestones by status and limits upcoming ones to the lookahead', async () => {
+    const overview = await getMilestoneOverview(childAged(7.5), { domain: 'motor' });
+
+    expect(overview.ageMonths).toBe(7.5);
+    expect(ids(overview.overdue)).toEqual(['motor_head_lift_prone', 'motor_head_control', 'motor_rolls_over']);
+    expect(ids(overview.due)).toEqual(['motor_sits_without_support', 'motor_crawls', 'motor_pulls_to_stand']);
+    expect(ids(overview.upcoming)).toEqual(['motor_pincer_grasp', 'motor_walks_alone']);
+  });
+
+  it('moves recorded achievements out of the overdue group and keeps their first record date', async () => {
+    const child = childAged(7.5);
+    const first = await recordMilestoneAchievement(child, 'user-a', 'motor_rolls_over', { achievedAt: '2026-01-10', note: ' ilk kez ' });
+    expect(first).toMatchObject({ saved: true, created: true, achievement: { note: 'ilk kez', recordedBy: 'user-a' } });
+    const again = await recordMilestoneAchievement(child, 'user-b', 'motor_rolls_over', { achievedAt: '2026-01-12' });
+    expect(again).toMatchObject({ created: false, achievement: { createdAt: first.achievement!.createdAt, recordedBy: 'user-b' } });
+    expect(await recordMilestoneAchievement(child, 'user-a', 'unknown', { achievedAt: '2026-01-12' })).toEqual({
+      saved: false,
+      reason: 'not_found',
+    });
+
+    const overview = await getMilestoneOverview(child, { domain: 'motor' });
+    expect(ids(overview.achieved)).toEqual(['motor_rolls_over']);
+    expect(ids(overview.overdue)).not.toContain('motor_rolls_over');
+  });
+
+  it('summarizes the current milestones for the coach and skips children without a birth date', async () => {
+    const summary = await getMilestoneSummaryText(childAged(7.5));
+    expect(summary).toMatch(/^Güncel gelişim basamakları \(7\.5 ay\): beklenen: /);
+    expect(summary).toContain('Desteksiz oturur');
+
+    const english = await getMilestoneSummaryText(childAged(7.5), 'en');
+    expect(english).toMatch(/^Current milestones \(7\.5 months\): expected now: /);
+    expect(english).toContain(MILESTONES_BY_ID.get('motor_sits_without_support')!.title.en);
+
+    expect(await getMilestoneSummaryText({ ...childAged(1), birthDate: '' })).toBeNull();
+  });
+});
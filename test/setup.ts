@@ -6,6 +6,8 @@ import { logger } from '../src/utils/logger';
 process.env.NODE_ENV = 'test';
 process.env.JWT_HS_SECRET = 'test-secret-key-for-testing-only';
 process.env.REDIS_URL = 'redis://localhost:6379';
+// Chat replies come from the in-process fake provider so no test reaches a real model.
+process.env.CHAT_MODEL_PROVIDER = 'fake';
 process.env.FIREBASE_PROJECT_ID = 'test-project';
 process.env.FIREBASE_CLIENT_EMAIL = 'test@test-project.iam.gserviceaccount.com';
 // Use a simpler mock approach - don't try to use real private key
@@ -0,0 +1,155 @@
+import express from 'express';
+import request from 'supertest';
+import { config } from '../src/config';
+import { createAdminRouter } from '../src/routes/admin';
+import { createStylesRouter } from '../src/routes/styles';
+import { getStyleCatalog, invalidateStyleCatalog } from '../src/server/bebek/services/styleCatalogService';
+import { mockStore, resetMockFirebase } from './helpers/mocks';
+
+const mockAudit: Array<{ action: string; details: any }> = [];
+const mockPremiumUsers = new Set<string>();
+
+jest.mock('../src/firebase', () => require('./helpers/mocks').firebaseMock);
+jest.mock('../src/middleware/authMiddleware', () => require('./helpers/mocks').authMiddlewareMock);
+
+jest.mock('../src/services/auditService', () => ({
+  auditService: {
+    logUserAction: async (_userId: string, action: string, details: any) => {
+      mockAudit.push({ action, details });
+    },
+  },
+}));
+
+jest.mock('../src/services/premiumService', () => ({
+  premiumService: { hasActivePremium: async (userId: string) => mockPremiumUsers.has(userId) },
+}));
+
+jest.mock('../src/services/websocketService', () => ({
+  getWebSocketService: () => null,
+}));
+
+jest.mock('../src/server/bebek/services/geminiService', () => ({
+  generateStyledVideoWithVeo: async (params: any) => ({
+    usedFallback: true,
+    outputVideoUrl: params.referenceVideoUrl,
+    providerStatus: 'fallback',
+    providerText: null,
+    providerRaw: null,
+  }),
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/styles', createStylesRouter());
+app.use('/admin', createAdminRouter());
+
+const newStyle = {
+  id: 'v9',
+  category: 'video',
+  titles: { tr: 'Kar Tanesi', en: 'Snowflake' },
+  referenceAssetPath: 'assets/videos/kar.mp4',
+  sortOrder: 9,
+};
+
+const generateVideo = (userId: string, styleId: string) =>
+  request(app)
+    .post('/styles/video/generate')
+    .set('x-test-user', userId)
+    .send({ style_id: styleId, user_image_url: 'https://cdn.test/baby.jpg' });
+
+beforeEach(() => {
+  resetMockFirebase();
+  mockAudit.length = 0;
+  mockPremiumUsers.clear();
+  invalidateStyleCatalog();
+  Object.assign(config.usageLimits.free, { photo: 100, video: 100 });
+});
+
+describe('Style catalog', () => {
+  it('seeds the built-in styles once and serves them without prompts or assets', async () => {
+    const catalog = await getStyleCatalog();
+    expect(catalog.version).toBe(1);
+    expect(catalog.entries.find(entry => entry.id === 'n1')).toMatchObject({ category: 'newborn', enabled: true });
+    expect(mockStore.get('style_catalog')?.size).toBe(catalog.entries.length);
+
+    const response = await request(app).get('/styles/catalog?category=video').expect(200);
+    expect(response.body.version).toBe(1);
+    expect(response.body.styles.map((style: any) => style.id)).toEqual(['v1', 'v2', 'v3', 'v4']);
+    expect(Object.keys(response.body.styles[0]).sort()).toEqual(['category', 'id', 'premium', 'sortOrder', 'titles']);
+
+    await request(app).get('/styles/catalog?category=unknown').expect(400);
+  });
+
+  it('answers a matching If-None-Match with 304 until the catalog changes', async () => {
+    const first = await request(app).get('/styles/catalog').expect(200);
+    const etag = first.headers.etag;
+    expect(etag).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(first.headers['cache-control']).toMatch(/^public, max-age=\d+$/);
+    await request(app).get('/styles/catalog').set('If-None-Match', etag).expect(304);
+
+    await request(app)
+      .put('/admin/styles/v1')
+      .set('x-test-user', 'admin')
+      .send({ ...newStyle, id: undefined, titles: { tr: 'Güzel Oyun', en: 'Playtime' } })
+      .expect(200);
+    const changed = await request(app).get('/styles/catalog').set('If-None-Match', etag).expect(200);
+    expect(changed.headers.etag).not.toBe(etag);
+    expect(changed.body.version).toBe(2);
+  });
+
+  it('lets admins create, update and delete styles with a version bump per write', async () => {
+    await request(app).post('/admin/styles').set('x-test-user', 'user-a').send(newStyle).expect(403);
+    const invalid = await request(app)
+      .post('/admin/styles')
+      .set('x-test-user', 'admin')
+      .send({ ...newStyle, category: 'wedding' })
+      .expect(400);
+    expect(invalid.body.details.map((detail: any) => detail.field)).toEqual(['prompt']);
+    await request(app)
+      .post('/admin/styles')
+      .set('x-test-user', 'admin')
+      .send({ ...newStyle, referenceAssetPath: null })
+      .expect(400);
+
+    const created = await request(app).post('/admin/styles').set('x-test-user', 'admin').send(newStyle).expect(201);
+    expect(created.body).toMatchObject({ version: 2, style: { id: 'v9', enabled: true, premium: false } });
+    await request(app).post('/admin/styles').set('x-test-user', 'admin').send(newStyle).expect(409);
+    await generateVideo('user-a', 'v9').expect(202);
+
+    const { id: _id, ...fields } = newStyle;
+    const updated = await request(app)
+      .put('/admin/styles/v9')
+      .set('x-test-user', 'admin')
+      .send({ ...fields, enabled: false })
+      .expect(200);
+    expect(updated.body).toMatchObject({ version: 3, style: { enabled: false, createdAt: created.body.style.createdAt } });
+    const publicCatalog = await request(app).get('/styles/catalog?category=video').expect(200);
+    expect(publicCatalog.body.styles.map((style: any) => style.id)).not.toContain('v9');
+    await generateVideo('user-a', 'v9').expect(400);
+
+    await request(app).delete('/admin/styles/v9').set('x-test-user', 'admin').expect(200);
+    await request(app).delete('/admin/styles/v9').set('x-test-user', 'admin').expect(404);
+    await request(app).put('/admin/styles/v9').set('x-test-user', 'admin').send(fields).expect(404);
+    expect(mockAudit.map(entry => entry.action)).toEqual([
+      'style_catalog_created',
+      'style_catalog_updated',
+      'style_catalog_deleted',
+    ]);
+    expect((await getStyleCatalog()).version).toBe(4);
+  });
+
+  it('only generates premium styles for users with an active subscription', async () => {
+    await request(app)
+      .post('/admin/styles')
+      .set('x-test-user', 'admin')
+      .send({ ...newStyle, premium: true })
+      .expect(201);
+
+    const rejected = await generateVideo('user-a', 'v9').expect(403);
+    expect(rejected.body.error).toBe('premium_required');
+    expect(mockStore.get('style_jobs')?.size || 0).toBe(0);
+
+    mockPremiumUsers.add('user-b');
+    await generateVideo('user-b', 'v9').expect(202);
+  });
+});
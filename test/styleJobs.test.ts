@@ -0,0 +1,286 @@
+import express from 'express';
+import request from 'supertest';
+import { config } from '../src/config';
+import { createStylesRouter } from '../src/routes/styles';
+import { invalidateStyleCatalog } from '../src/server/bebek/services/styleCatalogService';
+import { consumeUsage, USAGE_LIMITS_COLLECTION } from '../src/server/bebek/services/usageLimitService';
+import {
+  enqueueStyleJob,
+  fingerprintStyleRequest,
+  registerStyleJobHandler,
+  requeueStaleStyleJobs,
+  STYLE_JOB_COLLECTION,
+  StyleJobError,
+} from '../src/server/bebek/services/styleJobService';
+import { mockStore, resetMockFirebase } from './helpers/mocks';
+
+const mockEvents: Array<{ userId: string; event: string; data: any }> = [];
+let mockVideoCalls = 0;
+
+jest.mock('../src/firebase', () => require('./helpers/mocks').firebaseMock);
+jest.mock('../src/middleware/authMiddleware', () => require('./helpers/mocks').authMiddlewareMock);
+
+jest.mock('../src/services/websocketService', () => ({
+  getWebSocketService: () => ({
+    sendToUser: (userId: string, event: string, data: any) => mockEvents.push({ userId, event, data }),
+  }),
+}));
+
+jest.mock('../src/server/bebek/services/geminiService', () => ({
+  generateStyledVideoWithVeo: async (params: any) => {
+    mockVideoCalls += 1;
+    return {
+      usedFallback: true,
+      outputVideoUrl: params.referenceVideoUrl,
+      providerStatus: 'fallback',
+      providerText: null,
+      providerRaw: null,
+    };
+  },
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/styles', createStylesRouter());
+
+// Queues a photo job and returns it; these tests only need jobs that were actually created.
+const queue = async (
+  input: Record<string, unknown> = {},
+  requestId: string | null = null,
+  usage: { metric: 'photo'; dateKey: string } | null = null,
+) => {
+  const submission = await enqueueStyleJob({
+    userId: 'user-a',
+    kind: 'photo',
+    styleId: 'l1',
+    requestId,
+    fingerprint: fingerprintStyleRequest('photo', input),
+    input,
+    usage,
+  });
+  return submission.job!;
+};
+
+const jobs = () => mockStore.get(STYLE_JOB_COLLECTION) || new Map<string, any>();
+
+const waitForJob = async (jobId: string, status: string) => {
+  for (let i = 0; i < 200; i += 1) {
+    if (jobs().get(jobId)?.status === status) return jobs().get(jobId);
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error(`Job ${jobId} never reached ${status} (is ${jobs().get(jobId)?.status})`);
+};
+
+beforeEach(() => {
+  resetMockFirebase();
+  mockEvents.length = 0;
+  mockVideoCalls = 0;
+  invalidateStyleCatalog();
+  Object.assign(config.styleJobs, { concurrency: 2, maxAttempts: 3, retryDelayMs: 1, leaseMs: 60000, attemptTimeoutMs: 60000 });
+});
+
+describe('Style job worker', () => {
+  it('runs a queued job, stores its result and reports every status change', async () => {
+    registerStyleJobHandler('photo', async job => ({ echo: job.input.value }));
+    const job = await queue({ value: 42 }, 'r1');
+    expect(job.status).toBe('queued');
+
+    const finished = await waitForJob(job.id, 'succeeded');
+    expect(finished.result).toEqual({ echo: 42 });
+    expect(finished.attempts).toBe(1);
+    expect(finished.leaseExpiresAt).toBeNull();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(mockEvents.map(event => [event.userId, event.event, event.data.status])).toEqual([
+      ['user-a', 'styles:job', 'queued'],
+      ['user-a', 'styles:job', 'running'],
+      ['user-a', 'styles:job', 'succeeded'],
+    ]);
+  });
+
+  it('retries failed attempts and keeps the last error until one succeeds', async () => {
+    let calls = 0;
+    registerStyleJobHandler('photo', async () => {
+      calls += 1;
+      if (calls < 3) throw new Error('fal timeout');
+      return { ok: true };
+    });
+    const job = await queue();
+
+    const finished = await waitForJob(job.id, 'succeeded');
+    expect(finished.attempts).toBe(3);
+    expect(finished.error).toBeNull();
+  });
+
+  it('gives up after the last attempt or on errors that cannot be retried', async () => {
+    registerStyleJobHandler('photo', async job => {
+      if (job.input.permanent) throw new StyleJobError('invalid_request', 'User image could not be loaded');
+      throw new Error('FAL_KEY is not configured');
+    });
+    const permanent = await queue({ permanent: true });
+    const missingKey = await queue();
+
+    expect(await waitForJob(permanent.id, 'failed')).toMatchObject({
+      attempts: 1,
+      error: { code: 'invalid_request', message: 'User image could not be loaded' },
+    });
+    expect(await waitForJob(missingKey.id, 'failed')).toMatchObject({ attempts: 1, error: { code: 'service_unavailable' } });
+
+    config.styleJobs.maxAttempts = 2;
+    registerStyleJobHandler('photo', async () => {
+      throw new Error('upstream 502');
+    });
+    const flaky = await queue();
+    expect(await waitForJob(flaky.id, 'failed')).toMatchObject({ attempts: 2, error: { code: 'internal_error' } });
+  });
+
+  it('fails an attempt whose provider call outlives the attempt timeout', async () => {
+    Object.assign(config.styleJobs, { maxAttempts: 1, attemptTimeoutMs: 5 });
+    registerStyleJobHandler('photo', () => new Promise(() => undefined));
+    const job = await queue();
+
+    expect(await waitForJob(job.id, 'failed')).toMatchObject({ attempts: 1, error: { code: 'provider_timeout' } });
+  });
+
+  it('discards the outcome of an attempt whose lease another worker took over', async () => {
+    let finished = false;
+    registerStyleJobHandler('photo', async job => {
+      jobs().set(job.id, { ...jobs().get(job.id), leaseOwner: 'other-worker', leaseToken: 'other-claim' });
+      finished = true;
+      return { stale: true };
+    });
+    const job = await queue();
+
+    while (!finished) await new Promise(resolve => setTimeout(resolve, 5));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(jobs().get(job.id)).toMatchObject({ status: 'running', result: null, leaseToken: 'other-claim' });
+    expect(mockEvents.map(event => event.data.status)).toEqual(['queued', 'running']);
+  });
+
+  it('gives the charged usage unit back when a job fails for good', async () => {
+    const usedPhotos = (dateKey: string) =>
+      mockStore.get(`${USAGE_LIMITS_COLLECTION}/${dateKey}/users`)?.get('user-a')?.photo;
+    config.styleJobs.maxAttempts = 2;
+    let calls = 0;
+    registerStyleJobHandler('photo', async () => {
+      calls += 1;
+      if (calls === 1) throw new Error('upstream 502');
+      throw new StyleJobError('invalid_request', 'User image could not be loaded');
+    });
+    const { quota } = await consumeUsage('user-a', 'photo');
+    await consumeUsage('user-a', 'photo');
+    const job = await queue({}, null, { metric: 'photo', dateKey: quota.dateKey });
+
+    await waitForJob(job.id, 'failed');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(calls).toBe(2);
+    expect(usedPhotos(quota.dateKey)).toBe(1);
+
+    const stale = { ...jobs().get(job.id), id: 'stale', status: 'running', attempts: 2, leaseExpiresAt: '2026-01-01T00:00:00.000Z' };
+    jobs().set('stale', stale);
+    expect(await requeueStaleStyleJobs(new Date('2026-01-01T00:05:00.000Z'))).toBe(1);
+    expect(jobs().get('stale').status).toBe('failed');
+    expect(usedPhotos(quota.dateKey)).toBe(0);
+  });
+
+  it('never runs more jobs at once than the configured concurrency', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    registerStyleJobHandler('photo', async () => {
+      running += 1;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      running -= 1;
+      return {};
+    });
+    const queued = await Promise.all([1, 2, 3, 4, 5].map(() => queue()));
+
+    for (const job of queued) await waitForJob(job.id, 'succeeded');
+    expect(maxRunning).toBe(2);
+  });
+
+  it('treats request_id as an idempotency key per user', async () => {
+    let calls = 0;
+    registerStyleJobHandler('photo', async () => {
+      calls += 1;
+      return {};
+    });
+    const first = await queue({ image: 'abc' }, 'retry-1');
+    const fingerprint = fingerprintStyleRequest('photo', { image: 'abc' });
+    const submit = (userId: string, input: Record<string, unknown>) =>
+      enqueueStyleJob({ userId, kind: 'photo', styleId: 'l1', requestId: 'retry-1', fingerprint: fingerprintStyleRequest('photo', input), input });
+
+    expect(await submit('user-a', { image: 'abc' })).toMatchObject({ replayed: true, job: { id: first.id } });
+    expect(await submit('user-a', { image: 'other' })).toEqual({ job: null, replayed: false, reason: 'conflict' });
+    expect(fingerprintStyleRequest('photo', { b: 1, a: 2 })).toBe(fingerprintStyleRequest('photo', { a: 2, b: 1 }));
+    expect(fingerprintStyleRequest('video', { image: 'abc' })).not.toBe(fingerprint);
+    const otherUser = await submit('user-b', { image: 'abc' });
+    expect(otherUser.replayed).toBe(false);
+    expect(otherUser.job!.id).not.toBe(first.id);
+
+    await waitForJob(first.id, 'succeeded');
+    await waitForJob(otherUser.job!.id, 'succeeded');
+    expect(calls).toBe(2);
+  });
+
+  it('requeues running jobs whose worker stopped, failing those without attempts left', async () => {
+    const stale = { status: 'running', leaseExpiresAt: '2026-01-01T00:00:00.000Z', maxAttempts: 3, userId: 'user-a', kind: 'photo' };
+    mockStore.set(
+      STYLE_JOB_COLLECTION,
+      new Map<string, any>([
+        ['resumable', { ...stale, id: 'resumable', attempts: 1 }],
+        ['exhausted', { ...stale, id: 'exhausted', attempts: 3 }],
+        ['alive', { ...stale, id: 'alive', attempts: 1, leaseExpiresAt: '2026-01-01T00:10:00.000Z' }],
+      ]),
+    );
+
+    expect(await requeueStaleStyleJobs(new Date('2026-01-01T00:05:00.000Z'))).toBe(2);
+    expect(jobs().get('resumable')).toMatchObject({ status: 'queued', runAfter: '2026-01-01T00:05:00.000Z' });
+    expect(jobs().get('exhausted')).toMatchObject({ status: 'failed', error: { code: 'interrupted' } });
+    expect(jobs().get('alive').status).toBe('running');
+  });
+});
+
+describe('Style job endpoints', () => {
+  it('queues a video generation and lets only its owner poll it', async () => {
+    const submitted = await request(app)
+      .post('/styles/video/generate')
+      .set('x-test-user', 'user-a')
+      .send({ style_id: 'v2', user_image_url: 'https://cdn.test/baby.jpg', request_id: 'req-1' })
+      .expect(202);
+    expect(submitted.body).toMatchObject({ request_id: 'req-1', style_id: 'v2', job: { kind: 'video' } });
+    const { jobId } = submitted.body;
+
+    expect(jobs().get(jobId).usage).toEqual({ metric: 'video', dateKey: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/) });
+    await waitForJob(jobId, 'succeeded');
+    const polled = await request(app).get(`/styles/jobs/${jobId}`).set('x-test-user', 'user-a').expect(200);
+    expect(polled.body.job).toMatchObject({ id: jobId, status: 'succeeded', result: { output: { id: jobId } } });
+    expect(mockStore.get('users/user-a/generatedPhotos')?.get(jobId)).toMatchObject({ styleType: 'video', requestId: 'req-1' });
+
+    await request(app).get(`/styles/jobs/${jobId}`).set('x-test-user', 'user-b').expect(403);
+    await request(app).get('/styles/jobs/missing').set('x-test-user', 'user-a').expect(404);
+  });
+
+  it('answers a retried request_id with the original job and rejects a different payload', async () => {
+    const body = { style_id: 'v3', user_image_url: 'https://cdn.test/baby.jpg', request_id: 'req-2' };
+    const first = await request(app).post('/styles/video/generate').set('x-test-user', 'user-a').send(body).expect(202);
+    await waitForJob(first.body.jobId, 'succeeded');
+
+    const retried = await request(app).post('/styles/video/generate').set('x-test-user', 'user-a').send(body).expect(200);
+    expect(retried.headers['idempotent-replayed']).toBe('true');
+    expect(retried.body).toMatchObject({ jobId: first.body.jobId, job: { status: 'succeeded' } });
+    expect(mockVideoCalls).toBe(1);
+    expect(mockStore.get('users/user-a/generatedPhotos')?.size).toBe(1);
+
+    const conflicting = await request(app)
+      .post('/styles/video/generate')
+      .set('x-test-user', 'user-a')
+      .send({ ...body, style_id: 'v4' })
+      .expect(409);
+    expect(conflicting.body.error).toBe('idempotency_conflict');
+  });
+
+  it('rejects invalid submissions without queueing a job', async () => {
+    await request(app).post('/styles/video/generate').set('x-test-user', 'user-a').send({ style_id: 'v1' }).expect(400);
+    expect(jobs().size).toBe(0);
+  });
+});
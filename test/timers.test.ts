@@ -0,0 +1,69 @@
+import { pauseTimer, resumeTimer, startTimer, stopTimer } from '../src/server/bebek/services/timerService';
+import { mockStore, resetMockFirebase, seedCollection } from './helpers/mocks';
+
+const mockSocketEvents: Array<{ userId: string; event: string; payload: any }> = [];
+
+jest.mock('../src/firebase', () => require('./helpers/mocks').firebaseMock);
+jest.mock('../src/services/websocketService', () => ({
+  getWebSocketService: () => ({
+    sendToUser: (userId: string, event: string, payload: any) => mockSocketEvents.push({ userId, event, payload }),
+  }),
+}));
+
+const child: any = { id: 'c1', parentUuid: 'owner', householdId: 'owner', name: 'Deniz', birthDate: '2026-01-01' };
+const timers = () => mockStore.get('AddChild/c1/active_timers')!;
+
+beforeEach(() => {
+  resetMockFirebase();
+  mockSocketEvents.length = 0;
+  seedCollection('household_members', { owner_partner: { householdId: 'owner', userId: 'partner', role: 'editor' } });
+});
+
+describe('Child timers', () => {
+  it('starts one timer per kind and tells every caregiver', async () => {
+    const started = await startTimer(child, 'partner', 'breastfeeding', { side: 'left' });
+    expect(started).toMatchObject({ started: true, timer: { status: 'running', side: 'left', startedBy: 'partner' } });
+    expect(timers().get('breastfeeding')).toMatchObject({ status: 'running', accumulatedMs: 0 });
+    expect(mockSocketEvents.map(item => [item.userId, item.event, item.payload.action]).sort()).toEqual([
+      ['owner', 'care:timer', 'started'],
+      ['partner', 'care:timer', 'started'],
+    ]);
+
+    const again = await startTimer(child, 'owner', 'breastfeeding', {});
+    expect(again).toMatchObject({ started: false, reason: 'already_running', timer: { startedBy: 'partner' } });
+    expect(await startTimer(child, 'owner', 'sleep', {})).toMatchObject({ started: true });
+  });
+
+  it('keeps the elapsed time across pause and resume', async () => {
+    await startTimer(child, 'owner', 'sleep', { sleepKind: 'night' });
+    const tenMinutesAgo = new Date(Date.now() - 10 * 60_000).toISOString();
+    timers().set('sleep', { ...timers().get('sleep'), lastResumedAt: tenMinutesAgo });
+
+    const paused = await pauseTimer(child, 'owner', 'sleep');
+    expect(paused).toMatchObject({ changed: true, timer: { status: 'paused', lastResumedAt: null } });
+    expect(timers().get('sleep').accumulatedMs).toBeGreaterThanOrEqual(10 * 60_000);
+    expect(await pauseTimer(child, 'owner', 'sleep')).toMatchObject({ changed: false, reason: 'invalid_state' });
+
+    const resumed = await resumeTimer(child, 'owner', 'sleep', {});
+    expect(resumed).toMatchObject({ changed: true, timer: { status: 'running', sleepKind: 'night' } });
+    expect(await pauseTimer(child, 'owner', 'breastfeeding')).toEqual({ changed: false, reason: 'not_found' });
+  });
+
+  it('stops a timer into a care log entry and removes it', async () => {
+    await startTimer(child, 'owner', 'breastfeeding', { side: 'right' });
+    const startedAt = new Date(Date.now() - 15 * 60_000).toISOString();
+    timers().set('breastfeeding', { ...timers().get('breastfeeding'), startedAt, lastResumedAt: startedAt });
+
+    const stopped = await stopTimer(child, 'partner', 'breastfeeding', { note: 'sol memeyi reddetti' }, 'UTC');
+    expect(stopped).toMatchObject({
+      stopped: true,
+      entry: { type: 'breastfeeding', side: 'right', durationMinutes: 15, note: 'sol memeyi reddetti', createdBy: 'partner' },
+    });
+    expect(timers().has('breastfeeding')).toBe(false);
+    expect(Array.from(mockStore.get('AddChild/c1/care_logs')!.values())).toHaveLength(1);
+    expect(mockSocketEvents.filter(item => item.payload.action === 'stopped')).toHaveLength(2);
+
+    expect(await stopTimer(child, 'partner', 'breastfeeding', {}, 'UTC')).toEqual({ stopped: false, reason: 'not_found' });
+    expect(Array.from(mockStore.get('AddChild/c1/care_logs')!.values())).toHaveLength(1);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from '@jest/globals';
+import { TRIAGE_RULES, TRIAGE_RULESET_VERSION } from '../src/server/bebek/data/triageRules';
+import { evaluateTriageRules } from '../src/server/bebek/utils/triage';
+
+const ruleIds = (message: string, ageDays?: number | null) =>
+  evaluateTriageRules(message, { ageDays }).map(match => match.ruleId);
+
+describe('Triage red-flag rules', () => {
+  it('is versioned and uses unique rule ids', () => {
+    expect(TRIAGE_RULESET_VERSION).toMatch(/^\d{4}-\d{2}\.\d+$/);
+    expect(new Set(TRIAGE_RULES.map(rule => rule.id)).size).toBe(TRIAGE_RULES.length);
+  });
+
+  it('flags any fever under three months only when the age is known', () => {
+    expect(ruleIds('Bebeğimin ateşi 38.2 çıktı', 40)).toEqual(['fever_under_3_months']);
+    expect(ruleIds('Bebeğimin ateşi 38.2 çıktı', 200)).toEqual([]);
+    expect(ruleIds('Bebeğimin ateşi 38.2 çıktı', null)).toEqual([]);
+    expect(ruleIds('Yenidoğan bebeğimde ateş var')).toEqual(['fever_newborn_mentioned']);
+  });
+
+  it('ignores plain negations', () => {
+    expect(ruleIds('Ateşi yok ama biraz huysuz', 30)).toEqual([]);
+  });
+
+  it('matches Turkish text regardless of case and diacritics', () => {
+    expect(ruleIds('NEFES ALAMIYOR, dudakları mor')).toEqual(['breathing_difficulty', 'cyanosis']);
+    expect(ruleIds('bebek nefes alamiyor')).toEqual(['breathing_difficulty']);
+  });
+
+  it('covers dehydration, head injury, seizures and unresponsiveness', () => {
+    expect(ruleIds('Dünden beri bezi ıslatmıyor')).toEqual(['dehydration_signs']);
+    expect(ruleIds('Yataktan düştü, başını çarptı')).toEqual(['head_injury_after_fall']);
+    expect(ruleIds('Az önce havale geçirdi')).toEqual(['seizure']);
+    expect(ruleIds('Uyandıramıyorum, tepki vermiyor')).toEqual(['unresponsive']);
+  });
+
+  it('stays quiet on everyday questions', () => {
+    expect(ruleIds('Gece kaç kez uyanması normal?', 60)).toEqual([]);
+    expect(ruleIds('Ek gıdaya ne zaman başlamalıyım?', 150)).toEqual([]);
+    expect(ruleIds('Diş çıkarırken huzursuz oluyor', 200)).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import express from 'express';
+import request from 'supertest';
+import { config } from '../src/config';
+import { authenticateToken } from '../src/middleware/authMiddleware';
+import { requireUsageQuota } from '../src/middleware/usageQuotaMiddleware';
+import { createAdminRouter } from '../src/routes/admin';
+import { consumeUsage, USAGE_LIMITS_COLLECTION } from '../src/server/bebek/services/usageLimitService';
+import { mockStore, resetMockFirebase } from './helpers/mocks';
+
+const mockAudit: string[] = [];
+const mockPremiumUsers = new Set<string>();
+
+jest.mock('../src/firebase', () => require('./helpers/mocks').firebaseMock);
+jest.mock('../src/middleware/authMiddleware', () => require('./helpers/mocks').authMiddlewareMock);
+
+jest.mock('../src/services/auditService', () => ({
+  auditService: {
+    logUserAction: async (_userId: string, action: string) => {
+      mockAudit.push(action);
+    },
+  },
+}));
+
+jest.mock('../src/services/websocketService', () => ({ getWebSocketService: () => null }));
+
+jest.mock('../src/services/premiumService', () => ({
+  premiumService: { hasActivePremium: async (userId: string) => mockPremiumUsers.has(userId) },
+}));
+
+const app = express();
+app.use(express.json());
+// Stands in for a generation route: answers with the status the test asks for.
+app.post('/work', authenticateToken, requireUsageQuota('photo'), (req, res) => {
+  res.status(req.body?.status || 202).json({ ok: true });
+});
+app.use('/admin', createAdminRouter());
+
+const work = (userId: string, status?: number) =>
+  request(app).post('/work').set('x-test-user', userId).send(status ? { status } : {});
+
+const counters = (dateKey: string) => mockStore.get(`${USAGE_LIMITS_COLLECTION}/${dateKey}/users`);
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+beforeEach(() => {
+  resetMockFirebase();
+  mockAudit.length = 0;
+  mockPremiumUsers.clear();
+  Object.assign(config.usageLimits.free, { photo: 2, video: 1, chat: 5 });
+  Object.assign(config.usageLimits.premium, { photo: 3, video: 2, chat: 50 });
+});
+
+describe('Usage limits', () => {
+  it('counts each metric per day in the user timezone', async () => {
+    mockStore.set('users_info', new Map([['user-a', { timezone: 'Europe/Istanbul' }]]));
+    const lateEvening = new Date('2026-03-01T22:30:00.000Z');
+
+    const first = await consumeUsage('user-a', 'photo', lateEvening);
+    await consumeUsage('user-a', 'chat', lateEvening);
+    expect(first).toMatchObject({
+      allowed: true,
+      quota: { plan: 'free', limit: 2, used: 1, remaining: 1, dateKey: '2026-03-02', resetAt: '2026-03-02T21:00:00.000Z' },
+    });
+    expect(counters('2026-03-02')?.get('user-a')).toMatchObject({ photo: 1, chat: 1, timeZone: 'Europe/Istanbul' });
+
+    expect((await consumeUsage('user-b', 'photo', lateEvening)).quota.dateKey).toBe('2026-03-01');
+  });
+
+  it('answers 402 once a free plan is used up and refunds requests that fail', async () => {
+    const first = await work('user-a').expect(202);
+    expect(first.headers['x-quota-limit']).toBe('2');
+    expect(first.headers['x-quota-remaining']).toBe('1');
+    expect(Date.parse(first.headers['x-quota-reset'])).toBeGreaterThan(Date.now());
+
+    await work('user-a', 400).expect(400);
+    await flush();
+    await work('user-a').expect(202);
+
+    const exhausted = await work('user-a').expect(402);
+    expect(exhausted.body).toMatchObject({ error: 'upgrade_required', metric: 'photo', plan: 'free', limit: 2 });
+    expect(exhausted.headers['x-quota-remaining']).toBe('0');
+    expect(exhausted.headers['retry-after']).toBeUndefined();
+  });
+
+  it('answers 429 with Retry-After once a premium allowance is used up', async () => {
+    mockPremiumUsers.add('user-p');
+    for (let i = 0; i < 3; i += 1) await work('user-p').expect(202);
+
+    const exhausted = await work('user-p').expect(429);
+    expect(exhausted.body).toMatchObject({ error: 'quota_exceeded', plan: 'premium', limit: 3 });
+    expect(Number(exhausted.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('lets admins override limits until they expire or are cleared', async () => {
+    await request(app).put('/admin/usage/user-a/override').set('x-test-user', 'admin').send({ limits: {} }).expect(400);
+    await request(app)
+      .put('/admin/usage/user-a/override')
+      .set('x-test-user', 'admin')
+      .send({ limits: { photo: 3 }, expiresAt: '2020-01-01T00:00:00.000Z' })
+      .expect(400);
+
+    const set = await request(app)
+      .put('/admin/usage/user-a/override')
+      .set('x-test-user', 'admin')
+      .send({ limits: { photo: 3 }, reason: 'Failed generations' })
+      .expect(200);
+    expect(set.body.usage.find((quota: any) => quota.metric === 'photo')).toMatchObject({ limit: 3, overridden: true });
+    expect(set.body.usage.find((quota: any) => quota.metric === 'chat')).toMatchObject({ limit: 5, overridden: false });
+
+    for (let i = 0; i < 3; i += 1) await work('user-a').expect(202);
+    expect((await work('user-a').expect(429)).body.error).toBe('quota_exceeded');
+
+    const summary = await request(app).get('/admin/usage/user-a').set('x-test-user', 'admin').expect(200);
+    expect(summary.body).toMatchObject({ plan: 'free', override: { limits: { photo: 3 }, updatedBy: 'admin' } });
+
+    await request(app).delete('/admin/usage/user-a/override').set('x-test-user', 'admin').expect(200);
+    await request(app).delete('/admin/usage/user-a/override').set('x-test-user', 'admin').expect(404);
+    expect((await work('user-a').expect(402)).body.limit).toBe(2);
+    expect(mockAudit).toEqual(['usage_override_set', 'usage_override_cleared']);
+
+    mockStore.set('usage_overrides', new Map([['user-a', { limits: { photo: 10 }, expiresAt: '2020-01-01T00:00:00.000Z' }]]));
+    await work('user-a').expect(402);
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  addMonthsToDate,
+  dispatchDueVaccinationReminders,
+  syncVaccinationReminders,
+} from '../src/server/bebek/services/vaccinationService';
+import { mockStore, resetMockFirebase, seedCollection } from './helpers/mocks';
+
+const mockPushes: Array<{ userIds: string[]; notification: any }> = [];
+const mockPushFailures = { remaining: 0 };
+
+jest.mock('../src/firebase', () => require('./helpers/mocks').firebaseMock);
+jest.mock('../src/services/websocketService', () => ({ getWebSocketService: () => null }));
+jest.mock('../src/services/pushNotificationService', () => ({
+  pushNotificationService: {
+    sendPushNotificationToUsers: async (userIds: string[], notification: any) => {
+      if (mockPushFailures.remaining > 0) {
+        mockPushFailures.remaining -= 1;
+        throw new Error('FCM unavailable');
+      }
+      mockPushes.push({ userIds, notification });
+    },
+  },
+}));
+
+const DAY_MS = 24 * 60 * 60_000;
+const birthDate = new Date(Date.now() - 10 * DAY_MS).toISOString().slice(0, 10);
+const child: any = { id: 'c1', parentUuid: 'owner', householdId: 'owner', name: 'Deniz', birthDate };
+const reminders = () => mockStore.get('vaccination_reminders')!;
+
+const seedDueReminder = () =>
+  seedCollection('vaccination_reminders', {
+    c1_hepb_2: {
+      childId: 'c1',
+      userId: 'owner',
+      doseId: 'hepb_2',
+      dueDate: addMonthsToDate(birthDate, 1),
+      sendAt: new Date(Date.now() - 60_000).toISOString(),
+      status: 'pending',
+      attempts: 0,
+    },
+  });
+
+beforeEach(() => {
+  resetMockFirebase();
+  mockPushes.length = 0;
+  mockPushFailures.remaining = 0;
+  seedCollection('AddChild', { c1: child });
+  seedCollection('household_members', {
+    owner_partner: { householdId: 'owner', userId: 'partner', role: 'editor' },
+    owner_nanny: { householdId: 'owner', userId: 'nanny', role: 'viewer' },
+  });
+});
+
+describe('Vaccination reminders', () => {
+  it('schedules reminders for 10:00 in the owner timezone', async () => {
+    const dueDate = addMonthsToDate(birthDate, 1)!;
+    const remindDate = new Date(Date.parse(dueDate) - 3 * DAY_MS).toISOString().slice(0, 10);
+
+    await syncVaccinationReminders(child);
+    expect(reminders().get('c1_hepb_2')).toMatchObject({ timeZone: 'UTC', sendAt: `${remindDate}T10:00:00.000Z` });
+    expect(reminders().has('c1_hepb_1')).toBe(false);
+
+    seedCollection('users_info', { owner: { timezone: 'Asia/Tokyo' } });
+    await syncVaccinationReminders(child);
+    expect(reminders().get('c1_hepb_2')).toMatchObject({ timeZone: 'Asia/Tokyo', sendAt: `${remindDate}T01:00:00.000Z` });
+  });
+
+  it('sends one push to the whole household and marks the reminder sent', async () => {
+    seedDueReminder();
+
+    expect(await dispatchDueVaccinationReminders()).toEqual({ processed: 1, sent: 1, cancelled: 0 });
+    expect(mockPushes).toHaveLength(1);
+    expect(mockPushes[0].userIds.sort()).toEqual(['nanny', 'owner', 'partner']);
+    expect(mockPushes[0].notification.data).toMatchObject({ type: 'vaccination_reminder', childId: 'c1', doseId: 'hepb_2' });
+    expect(reminders().get('c1_hepb_2')).toMatchObject({ status: 'sent', recipientCount: 3 });
+
+    expect(await dispatchDueVaccinationReminders()).toEqual({ processed: 0, sent: 0, cancelled: 0 });
+    expect(mockPushes).toHaveLength(1);
+  });
+
+  it('retries a failed delivery once per run and gives up after the last attempt', async () => {
+    seedDueReminder();
+    mockPushFailures.remaining = 1;
+
+    expect(await dispatchDueVaccinationReminders()).toMatchObject({ sent: 0 });
+    expect(reminders().get('c1_hepb_2')).toMatchObject({ status: 'pending', attempts: 1 });
+    expect(await dispatchDueVaccinationReminders()).toMatchObject({ sent: 1 });
+    expect(mockPushes).toHaveLength(1);
+
+    seedDueReminder();
+    mockPushFailures.remaining = 3;
+    for (let run = 0; run < 4; run += 1) await dispatchDueVaccinationReminders();
+    expect(reminders().get('c1_hepb_2')).toMatchObject({ status: 'failed', attempts: 3 });
+  });
+
+  it('cancels reminders for doses that were recorded in the meantime', async () => {
+    seedDueReminder();
+    seedCollection('AddChild/c1/vaccination_doses', { hepb_2: { givenAt: birthDate } });
+
+    expect(await dispatchDueVaccinationReminders()).toEqual({ processed: 1, sent: 0, cancelled: 1 });
+    expect(mockPushes).toHaveLength(0);
+    expect(reminders().get('c1_hepb_2')).toMatchObject({ status: 'cancelled' });
+  });
+});